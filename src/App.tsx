@@ -1,14 +1,27 @@
 import { useState } from 'react';
 import { AuthProvider, useAuth } from './contexts/AuthContext';
+import { CartProvider } from './contexts/CartContext';
 import { AuthPage } from './pages/AuthPage';
+import { CartPage } from './pages/CartPage';
+import { CheckoutPage } from './pages/CheckoutPage';
+import { ConversationPage } from './pages/ConversationPage';
 import { HomePage } from './pages/HomePage';
+import { OrderDetailPage } from './pages/OrderDetailPage';
+import { OrdersPage } from './pages/OrdersPage';
 import { ProductDetailPage } from './pages/ProductDetailPage';
+import { SellerOrdersPage } from './pages/SellerOrdersPage';
 import { SellerStorePage } from './pages/SellerStorePage';
 
 type ViewType =
   | { type: 'home' }
   | { type: 'product'; productId: string }
-  | { type: 'store'; storeSlug: string };
+  | { type: 'store'; storeSlug: string }
+  | { type: 'cart' }
+  | { type: 'checkout'; cartItemIds?: string[] }
+  | { type: 'orders' }
+  | { type: 'order'; orderId: string }
+  | { type: 'conversation'; conversationId: string; orderId: string }
+  | { type: 'seller-orders' };
 
 function AppContent() {
   const { user, loading } = useAuth();
@@ -31,6 +44,9 @@ function AppContent() {
       {currentView.type === 'home' && (
         <HomePage
           onProductClick={(productId) => setCurrentView({ type: 'product', productId })}
+          onCartClick={() => setCurrentView({ type: 'cart' })}
+          onOrdersClick={() => setCurrentView({ type: 'orders' })}
+          onSellerOrdersClick={() => setCurrentView({ type: 'seller-orders' })}
         />
       )}
 
@@ -39,6 +55,8 @@ function AppContent() {
           productId={currentView.productId}
           onBack={() => setCurrentView({ type: 'home' })}
           onViewStore={(storeSlug) => setCurrentView({ type: 'store', storeSlug })}
+          onCheckout={(cartItemIds) => setCurrentView({ type: 'checkout', cartItemIds })}
+          onViewCart={() => setCurrentView({ type: 'cart' })}
           onMessageSeller={(sellerId) => {
             console.log('Message seller:', sellerId);
           }}
@@ -55,6 +73,52 @@ function AppContent() {
           }}
         />
       )}
+
+      {currentView.type === 'cart' && (
+        <CartPage
+          onBack={() => setCurrentView({ type: 'home' })}
+          onProductClick={(productId) => setCurrentView({ type: 'product', productId })}
+          onCheckout={() => setCurrentView({ type: 'checkout' })}
+        />
+      )}
+
+      {currentView.type === 'checkout' && (
+        <CheckoutPage
+          cartItemIds={currentView.cartItemIds}
+          onBack={() => setCurrentView({ type: 'cart' })}
+          onDone={() => setCurrentView({ type: 'orders' })}
+        />
+      )}
+
+      {currentView.type === 'orders' && (
+        <OrdersPage
+          onBack={() => setCurrentView({ type: 'home' })}
+          onOrderClick={(orderId) => setCurrentView({ type: 'order', orderId })}
+        />
+      )}
+
+      {currentView.type === 'order' && (
+        <OrderDetailPage
+          orderId={currentView.orderId}
+          onBack={() => setCurrentView({ type: 'orders' })}
+          onMessageSeller={(conversationId) => setCurrentView({
+            type: 'conversation',
+            conversationId,
+            orderId: currentView.orderId,
+          })}
+        />
+      )}
+
+      {currentView.type === 'conversation' && (
+        <ConversationPage
+          conversationId={currentView.conversationId}
+          onBack={() => setCurrentView({ type: 'order', orderId: currentView.orderId })}
+        />
+      )}
+
+      {currentView.type === 'seller-orders' && (
+        <SellerOrdersPage onBack={() => setCurrentView({ type: 'home' })} />
+      )}
     </>
   );
 }
@@ -62,7 +126,9 @@ function AppContent() {
 function App() {
   return (
     <AuthProvider>
-      <AppContent />
+      <CartProvider>
+        <AppContent />
+      </CartProvider>
     </AuthProvider>
   );
 }
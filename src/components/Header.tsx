@@ -1,16 +1,20 @@
 import { useState } from 'react';
-import { Search, ShoppingBag, MessageSquare, User, Menu, LogOut, LayoutGrid } from 'lucide-react';
+import { Search, ShoppingBag, MessageSquare, User, Menu, LogOut, LayoutGrid, Package } from 'lucide-react';
 import { useAuth } from '../contexts/AuthContext';
+import { useCart } from '../contexts/CartContext';
 
 interface HeaderProps {
   onSearch?: (query: string) => void;
   onMenuClick?: () => void;
   onProfileClick?: () => void;
   onDashboardClick?: () => void;
+  onCartClick?: () => void;
+  onOrdersClick?: () => void;
 }
 
-export function Header({ onSearch, onMenuClick, onProfileClick, onDashboardClick }: HeaderProps) {
+export function Header({ onSearch, onMenuClick, onProfileClick, onDashboardClick, onCartClick, onOrdersClick }: HeaderProps) {
   const { profile, signOut } = useAuth();
+  const { itemCount } = useCart();
   const [showMenu, setShowMenu] = useState(false);
 
   return (
@@ -45,8 +49,13 @@ export function Header({ onSearch, onMenuClick, onProfileClick, onDashboardClick
                 3
               </span>
             </button>
-            <button className="relative">
+            <button onClick={onCartClick} className="relative" title="Cart">
               <ShoppingBag className="w-6 h-6 text-gray-700" />
+              {itemCount > 0 && (
+                <span className="absolute -top-1 -right-1 bg-blue-600 text-white text-xs min-w-4 h-4 px-1 rounded-full flex items-center justify-center">
+                  {itemCount}
+                </span>
+              )}
             </button>
             {profile?.role === 'seller' && (
               <button
@@ -90,6 +99,16 @@ export function Header({ onSearch, onMenuClick, onProfileClick, onDashboardClick
                     <User className="w-4 h-4" />
                     My Profile
                   </button>
+                  <button
+                    onClick={() => {
+                      onOrdersClick?.();
+                      setShowMenu(false);
+                    }}
+                    className="w-full text-left px-4 py-2 hover:bg-gray-100 flex items-center gap-2 text-gray-700"
+                  >
+                    <Package className="w-4 h-4" />
+                    My Orders
+                  </button>
                   <button
                     onClick={() => {
                       signOut();
@@ -0,0 +1,21 @@
+import { getOrderStatusLabel } from '../lib/orders';
+import type { OrderStatus } from '../lib/database.types';
+
+const statusStyles: Record<OrderStatus, string> = {
+  created: 'bg-yellow-100 text-yellow-800',
+  paid_in_escrow: 'bg-blue-100 text-blue-800',
+  shipped: 'bg-indigo-100 text-indigo-800',
+  delivered: 'bg-teal-100 text-teal-800',
+  completed: 'bg-green-100 text-green-800',
+  disputed: 'bg-red-100 text-red-800',
+  refunded: 'bg-gray-100 text-gray-800',
+  cancelled: 'bg-gray-100 text-gray-600',
+};
+
+export function OrderStatusBadge({ status }: { status: OrderStatus }) {
+  return (
+    <span className={`px-2 py-1 rounded-full text-xs font-medium ${statusStyles[status]}`}>
+      {getOrderStatusLabel(status)}
+    </span>
+  );
+}
@@ -0,0 +1,72 @@
+interface PackingSlipProps {
+  storeName: string;
+  order: {
+    order_number: string;
+    created_at: string;
+    delivery_method: string;
+    delivery_address: string | null;
+    notes: string | null;
+    profiles: { full_name: string; phone: string } | null;
+    order_items: {
+      id: string;
+      quantity: number;
+      product_snapshot: { title?: string; condition?: string } | null;
+    }[];
+  };
+}
+
+export function PackingSlip({ storeName, order }: PackingSlipProps) {
+  return (
+    <div className="p-8 text-gray-900 break-after-page">
+      <div className="flex justify-between items-start border-b border-gray-900 pb-4 mb-4">
+        <div>
+          <h1 className="text-2xl font-bold">{storeName}</h1>
+          <p className="text-sm">Packing slip</p>
+        </div>
+        <div className="text-right">
+          <p className="text-xl font-bold">{order.order_number}</p>
+          <p className="text-sm">{new Date(order.created_at).toLocaleDateString('en-GH')}</p>
+        </div>
+      </div>
+
+      <div className="mb-6">
+        <p className="text-sm font-semibold uppercase">
+          {order.delivery_method === 'pickup' ? 'Collected by' : 'Deliver to'}
+        </p>
+        <p className="text-lg">{order.profiles?.full_name}</p>
+        <p>{order.profiles?.phone}</p>
+        {order.delivery_method !== 'pickup' && order.delivery_address && (
+          <p className="whitespace-pre-line">{order.delivery_address}</p>
+        )}
+      </div>
+
+      <table className="w-full text-left mb-6">
+        <thead>
+          <tr className="border-b border-gray-900">
+            <th className="py-2">Item</th>
+            <th className="py-2">Condition</th>
+            <th className="py-2 text-right">Qty</th>
+            <th className="py-2 text-right">Packed</th>
+          </tr>
+        </thead>
+        <tbody>
+          {order.order_items.map((item) => (
+            <tr key={item.id} className="border-b border-gray-300">
+              <td className="py-2">{item.product_snapshot?.title}</td>
+              <td className="py-2 capitalize">{item.product_snapshot?.condition?.replace('_', ' ')}</td>
+              <td className="py-2 text-right">{item.quantity}</td>
+              <td className="py-2 text-right">☐</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      {order.notes && (
+        <div>
+          <p className="text-sm font-semibold uppercase">Buyer notes</p>
+          <p>{order.notes}</p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,137 @@
+import { createContext, useContext, useEffect, useState, ReactNode } from 'react';
+import { supabase } from '../lib/supabase';
+import { useAuth } from './AuthContext';
+import type { Database } from '../lib/database.types';
+
+type Product = Database['public']['Tables']['products']['Row'];
+
+export type CartItem = Database['public']['Tables']['cart_items']['Row'] & {
+  products: Product & {
+    seller_profiles: {
+      id: string;
+      store_name: string;
+      logo_url: string | null;
+    };
+  };
+};
+
+interface CartContextType {
+  items: CartItem[];
+  itemCount: number;
+  loading: boolean;
+  addToCart: (productId: string, quantity: number) => Promise<{ error: Error | null; itemId?: string }>;
+  updateQuantity: (itemId: string, quantity: number) => Promise<{ error: Error | null }>;
+  removeItem: (itemId: string) => Promise<{ error: Error | null }>;
+  refreshCart: () => Promise<void>;
+}
+
+const CartContext = createContext<CartContextType | undefined>(undefined);
+
+export function CartProvider({ children }: { children: ReactNode }) {
+  const { user } = useAuth();
+  const [items, setItems] = useState<CartItem[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  const fetchCart = async (userId: string) => {
+    setLoading(true);
+
+    // Products that are no longer visible (deleted, or taken off sale) come
+    // back without a product and are left out.
+    const { data, error } = await supabase
+      .from('cart_items')
+      .select('*, products(*, seller_profiles(id, store_name, logo_url))')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: true });
+
+    if (!error && data) {
+      setItems((data as CartItem[]).filter((item) => item.products));
+    }
+
+    setLoading(false);
+  };
+
+  useEffect(() => {
+    if (user) {
+      fetchCart(user.id);
+    } else {
+      setItems([]);
+    }
+  }, [user?.id]);
+
+  const addToCart = async (productId: string, quantity: number) => {
+    if (!user) return { error: new Error('Sign in to add items to your cart') };
+
+    const existing = items.find((item) => item.product_id === productId);
+
+    const { data, error } = existing
+      ? await supabase
+        .from('cart_items')
+        .update({ quantity: existing.quantity + quantity, updated_at: new Date().toISOString() })
+        .eq('id', existing.id)
+        .select('id')
+        .single()
+      : await supabase
+        .from('cart_items')
+        .insert({ user_id: user.id, product_id: productId, quantity })
+        .select('id')
+        .single();
+
+    if (!error) {
+      await fetchCart(user.id);
+    }
+
+    return { error, itemId: data?.id };
+  };
+
+  const updateQuantity = async (itemId: string, quantity: number) => {
+    if (!user) return { error: new Error('Sign in to update your cart') };
+
+    const { error } = await supabase
+      .from('cart_items')
+      .update({ quantity, updated_at: new Date().toISOString() })
+      .eq('id', itemId);
+
+    if (!error) {
+      await fetchCart(user.id);
+    }
+
+    return { error };
+  };
+
+  const removeItem = async (itemId: string) => {
+    if (!user) return { error: new Error('Sign in to update your cart') };
+
+    const { error } = await supabase
+      .from('cart_items')
+      .delete()
+      .eq('id', itemId);
+
+    if (!error) {
+      await fetchCart(user.id);
+    }
+
+    return { error };
+  };
+
+  const refreshCart = async () => {
+    if (user) {
+      await fetchCart(user.id);
+    }
+  };
+
+  const itemCount = items.reduce((sum, item) => sum + item.quantity, 0);
+
+  return (
+    <CartContext.Provider value={{ items, itemCount, loading, addToCart, updateQuantity, removeItem, refreshCart }}>
+      {children}
+    </CartContext.Provider>
+  );
+}
+
+export function useCart() {
+  const context = useContext(CartContext);
+  if (context === undefined) {
+    throw new Error('useCart must be used within a CartProvider');
+  }
+  return context;
+}
@@ -12,13 +12,40 @@ export type ProductCondition = 'new' | 'like_new' | 'good' | 'fair';
 export type ProductStatus = 'draft' | 'active' | 'sold' | 'archived';
 export type OrderStatus = 'created' | 'paid_in_escrow' | 'shipped' | 'delivered' | 'completed' | 'disputed' | 'refunded' | 'cancelled';
 export type DeliveryMethod = 'pickup' | 'courier';
-export type EscrowStatus = 'holding' | 'released' | 'refunded';
+export type EscrowStatus = 'holding' | 'released' | 'refunded' | 'frozen' | 'split';
 export type PaymentMethod = 'mtn_momo' | 'vodafone_cash' | 'airteltigo_money' | 'card';
-export type PaymentProvider = 'paystack' | 'flutterwave' | 'direct';
-export type PaymentStatus = 'pending' | 'successful' | 'failed' | 'refunded';
-export type ShipmentStatus = 'pending' | 'assigned' | 'picked_up' | 'in_transit' | 'delivered' | 'failed';
+export type PaymentProvider = 'paystack' | 'flutterwave' | 'direct' | 'mock';
+export type PaymentStatus = 'pending' | 'successful' | 'failed' | 'refunded' | 'under_review' | 'reversed' | 'partially_refunded' | 'cancelled';
+export type ReconciliationStatus = 'matched' | 'underpaid' | 'overpaid' | 'currency_mismatch' | 'out_of_stock' | 'order_cancelled' | 'duplicate';
+export type ShipmentStatus = 'pending' | 'assigned' | 'picked_up' | 'in_transit' | 'delivered' | 'failed' | 'cancelled';
+export type CourierProvider = 'mock';
+export type PackageSize = 'small' | 'medium' | 'large' | 'bulky';
+export type DeliverySpeed = 'standard' | 'express';
 export type ReviewType = 'seller' | 'delivery';
 export type DisputeStatus = 'open' | 'investigating' | 'resolved' | 'closed';
+export type PaymentEventStatus = 'processing' | 'processed' | 'ignored' | 'rejected' | 'failed';
+export type RefundStatus = 'pending' | 'processed' | 'failed';
+export type PayoutProvider = 'paystack' | 'mock';
+export type PayoutAccountType = 'mobile_money' | 'bank';
+export type PayoutStatus = 'queued' | 'processing' | 'paid' | 'failed';
+export type SellerTier = 'standard' | 'plus' | 'premium';
+export type LedgerAccountType = 'asset' | 'liability' | 'revenue' | 'expense';
+export type JournalEntryType = 'payment_received' | 'provider_fee' | 'escrow_hold' | 'escrow_release' | 'payout' | 'refund';
+export type FeeKind = 'provider_fee' | 'elevy';
+export type DisputeOutcome = 'release' | 'refund' | 'split' | 'dismissed';
+export type SettlementKind = 'release' | 'refund';
+export type StockReservationStatus = 'held' | 'committed' | 'released' | 'restored';
+export type OrderActor = 'buyer' | 'seller' | 'admin' | 'system';
+export type CancellationReason =
+  | 'changed_mind'
+  | 'ordered_by_mistake'
+  | 'found_better_price'
+  | 'delivery_too_slow'
+  | 'out_of_stock'
+  | 'cannot_deliver'
+  | 'pricing_error'
+  | 'suspected_fraud'
+  | 'other';
 
 export interface Database {
   public: {
@@ -69,6 +96,7 @@ export interface Database {
           created_at?: string;
           updated_at?: string;
         };
+        Relationships: [];
       };
       seller_profiles: {
         Row: {
@@ -85,6 +113,7 @@ export interface Database {
           rating_count: number;
           total_sales: number;
           followers_count: number;
+          tier: SellerTier;
           created_at: string;
           updated_at: string;
         };
@@ -102,6 +131,7 @@ export interface Database {
           rating_count?: number;
           total_sales?: number;
           followers_count?: number;
+          tier?: SellerTier;
           created_at?: string;
           updated_at?: string;
         };
@@ -119,9 +149,11 @@ export interface Database {
           rating_count?: number;
           total_sales?: number;
           followers_count?: number;
+          tier?: SellerTier;
           created_at?: string;
           updated_at?: string;
         };
+        Relationships: [];
       };
       categories: {
         Row: {
@@ -151,6 +183,7 @@ export interface Database {
           display_order?: number;
           created_at?: string;
         };
+        Relationships: [];
       };
       products: {
         Row: {
@@ -167,6 +200,7 @@ export interface Database {
           condition: ProductCondition;
           tags: string[];
           status: ProductStatus;
+          package_size: PackageSize;
           view_count: number;
           created_at: string;
           updated_at: string;
@@ -185,6 +219,7 @@ export interface Database {
           condition?: ProductCondition;
           tags?: string[];
           status?: ProductStatus;
+          package_size?: PackageSize;
           view_count?: number;
           created_at?: string;
           updated_at?: string;
@@ -203,10 +238,92 @@ export interface Database {
           condition?: ProductCondition;
           tags?: string[];
           status?: ProductStatus;
+          package_size?: PackageSize;
           view_count?: number;
           created_at?: string;
           updated_at?: string;
         };
+        Relationships: [
+          {
+            foreignKeyName: 'products_seller_id_fkey';
+            columns: ['seller_id'];
+            isOneToOne: false;
+            referencedRelation: 'seller_profiles';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'products_category_id_fkey';
+            columns: ['category_id'];
+            isOneToOne: false;
+            referencedRelation: 'categories';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      cart_items: {
+        Row: {
+          id: string;
+          user_id: string;
+          product_id: string;
+          quantity: number;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          product_id: string;
+          quantity?: number;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          product_id?: string;
+          quantity?: number;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'cart_items_product_id_fkey';
+            columns: ['product_id'];
+            isOneToOne: false;
+            referencedRelation: 'products';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      checkout_groups: {
+        Row: {
+          id: string;
+          reference: string;
+          buyer_id: string;
+          total_amount: number;
+          currency: string;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          reference?: string;
+          buyer_id: string;
+          total_amount: number;
+          currency?: string;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          reference?: string;
+          buyer_id?: string;
+          total_amount?: number;
+          currency?: string;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Relationships: [];
       };
       orders: {
         Row: {
@@ -214,28 +331,36 @@ export interface Database {
           order_number: string;
           buyer_id: string;
           seller_id: string;
+          checkout_group_id: string | null;
           total_amount: number;
           currency: string;
           status: OrderStatus;
           delivery_method: DeliveryMethod;
           delivery_address: string | null;
           delivery_cost: number;
+          delivery_quote_id: string | null;
+          delivery_eta_minutes: number | null;
           notes: string | null;
+          accepted_at: string | null;
           created_at: string;
           updated_at: string;
         };
         Insert: {
           id?: string;
-          order_number: string;
+          order_number?: string;
           buyer_id: string;
           seller_id: string;
+          checkout_group_id?: string | null;
           total_amount: number;
           currency?: string;
           status?: OrderStatus;
           delivery_method?: DeliveryMethod;
           delivery_address?: string | null;
           delivery_cost?: number;
+          delivery_quote_id?: string | null;
+          delivery_eta_minutes?: number | null;
           notes?: string | null;
+          accepted_at?: string | null;
           created_at?: string;
           updated_at?: string;
         };
@@ -244,16 +369,43 @@ export interface Database {
           order_number?: string;
           buyer_id?: string;
           seller_id?: string;
+          checkout_group_id?: string | null;
           total_amount?: number;
           currency?: string;
           status?: OrderStatus;
           delivery_method?: DeliveryMethod;
           delivery_address?: string | null;
           delivery_cost?: number;
+          delivery_quote_id?: string | null;
+          delivery_eta_minutes?: number | null;
           notes?: string | null;
+          accepted_at?: string | null;
           created_at?: string;
           updated_at?: string;
         };
+        Relationships: [
+          {
+            foreignKeyName: 'orders_buyer_id_fkey';
+            columns: ['buyer_id'];
+            isOneToOne: false;
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'orders_seller_id_fkey';
+            columns: ['seller_id'];
+            isOneToOne: false;
+            referencedRelation: 'seller_profiles';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'orders_checkout_group_id_fkey';
+            columns: ['checkout_group_id'];
+            isOneToOne: false;
+            referencedRelation: 'checkout_groups';
+            referencedColumns: ['id'];
+          },
+        ];
       };
       order_items: {
         Row: {
@@ -286,6 +438,60 @@ export interface Database {
           product_snapshot?: Json | null;
           created_at?: string;
         };
+        Relationships: [
+          {
+            foreignKeyName: 'order_items_order_id_fkey';
+            columns: ['order_id'];
+            isOneToOne: false;
+            referencedRelation: 'orders';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      stock_reservations: {
+        Row: {
+          id: string;
+          order_id: string;
+          order_item_id: string;
+          product_id: string;
+          quantity: number;
+          status: StockReservationStatus;
+          expires_at: string;
+          release_reason: string | null;
+          committed_at: string | null;
+          released_at: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          order_id: string;
+          order_item_id: string;
+          product_id: string;
+          quantity: number;
+          status?: StockReservationStatus;
+          expires_at: string;
+          release_reason?: string | null;
+          committed_at?: string | null;
+          released_at?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          order_id?: string;
+          order_item_id?: string;
+          product_id?: string;
+          quantity?: number;
+          status?: StockReservationStatus;
+          expires_at?: string;
+          release_reason?: string | null;
+          committed_at?: string | null;
+          released_at?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Relationships: [];
       };
       escrows: {
         Row: {
@@ -293,9 +499,15 @@ export interface Database {
           order_id: string;
           amount: number;
           status: EscrowStatus;
+          refunded_amount: number;
+          released_amount: number;
           hold_until: string | null;
+          hold_policy_id: string | null;
           released_at: string | null;
           release_reference: string | null;
+          paid_out_at: string | null;
+          reminder_sent_at: string | null;
+          frozen_reason: string | null;
           notes: string | null;
           created_at: string;
         };
@@ -304,33 +516,516 @@ export interface Database {
           order_id: string;
           amount: number;
           status?: EscrowStatus;
+          refunded_amount?: number;
+          released_amount?: number;
           hold_until?: string | null;
+          hold_policy_id?: string | null;
           released_at?: string | null;
           release_reference?: string | null;
+          paid_out_at?: string | null;
+          reminder_sent_at?: string | null;
+          frozen_reason?: string | null;
+          notes?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          order_id?: string;
+          amount?: number;
+          status?: EscrowStatus;
+          refunded_amount?: number;
+          released_amount?: number;
+          hold_until?: string | null;
+          hold_policy_id?: string | null;
+          released_at?: string | null;
+          release_reference?: string | null;
+          paid_out_at?: string | null;
+          reminder_sent_at?: string | null;
+          frozen_reason?: string | null;
+          notes?: string | null;
+          created_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'escrows_order_id_fkey';
+            columns: ['order_id'];
+            isOneToOne: true;
+            referencedRelation: 'orders';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      escrow_hold_policies: {
+        Row: {
+          id: string;
+          name: string;
+          description: string | null;
+          category_id: string | null;
+          delivery_method: DeliveryMethod | null;
+          requires_verified_seller: boolean;
+          min_seller_rating: number | null;
+          min_seller_sales: number | null;
+          hold_days: number;
+          priority: number;
+          active: boolean;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          name: string;
+          description?: string | null;
+          category_id?: string | null;
+          delivery_method?: DeliveryMethod | null;
+          requires_verified_seller?: boolean;
+          min_seller_rating?: number | null;
+          min_seller_sales?: number | null;
+          hold_days: number;
+          priority?: number;
+          active?: boolean;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          name?: string;
+          description?: string | null;
+          category_id?: string | null;
+          delivery_method?: DeliveryMethod | null;
+          requires_verified_seller?: boolean;
+          min_seller_rating?: number | null;
+          min_seller_sales?: number | null;
+          hold_days?: number;
+          priority?: number;
+          active?: boolean;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Relationships: [];
+      };
+      escrow_events: {
+        Row: {
+          id: string;
+          escrow_id: string;
+          order_id: string;
+          from_status: EscrowStatus | null;
+          to_status: EscrowStatus;
+          amount: number;
+          refunded_amount: number;
+          released_amount: number;
+          notes: string | null;
+          actor_id: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          escrow_id: string;
+          order_id: string;
+          from_status?: EscrowStatus | null;
+          to_status: EscrowStatus;
+          amount: number;
+          refunded_amount?: number;
+          released_amount?: number;
+          notes?: string | null;
+          actor_id?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          escrow_id?: string;
+          order_id?: string;
+          from_status?: EscrowStatus | null;
+          to_status?: EscrowStatus;
+          amount?: number;
+          refunded_amount?: number;
+          released_amount?: number;
+          notes?: string | null;
+          actor_id?: string | null;
+          created_at?: string;
+        };
+        Relationships: [];
+      };
+      escrow_settlements: {
+        Row: {
+          id: string;
+          escrow_id: string;
+          order_id: string;
+          kind: SettlementKind;
+          amount: number;
+          reference: string;
+          order_item_ids: string[];
+          payout_id: string | null;
+          refund_id: string | null;
+          notes: string | null;
+          created_by: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          escrow_id: string;
+          order_id: string;
+          kind: SettlementKind;
+          amount: number;
+          reference: string;
+          order_item_ids?: string[];
+          payout_id?: string | null;
+          refund_id?: string | null;
+          notes?: string | null;
+          created_by?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          escrow_id?: string;
+          order_id?: string;
+          kind?: SettlementKind;
+          amount?: number;
+          reference?: string;
+          order_item_ids?: string[];
+          payout_id?: string | null;
+          refund_id?: string | null;
           notes?: string | null;
+          created_by?: string | null;
+          created_at?: string;
+        };
+        Relationships: [];
+      };
+      payout_accounts: {
+        Row: {
+          id: string;
+          seller_id: string;
+          provider: PayoutProvider;
+          account_type: PayoutAccountType;
+          bank_code: string;
+          account_number: string;
+          account_name: string;
+          recipient_code: string;
+          is_default: boolean;
+          verified_at: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          seller_id: string;
+          provider: PayoutProvider;
+          account_type: PayoutAccountType;
+          bank_code: string;
+          account_number: string;
+          account_name: string;
+          recipient_code: string;
+          is_default?: boolean;
+          verified_at?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          seller_id?: string;
+          provider?: PayoutProvider;
+          account_type?: PayoutAccountType;
+          bank_code?: string;
+          account_number?: string;
+          account_name?: string;
+          recipient_code?: string;
+          is_default?: boolean;
+          verified_at?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Relationships: [];
+      };
+      payouts: {
+        Row: {
+          id: string;
+          escrow_id: string;
+          order_id: string;
+          seller_id: string;
+          payout_account_id: string | null;
+          provider: PayoutProvider | null;
+          amount: number;
+          gross_amount: number | null;
+          commission_amount: number;
+          elevy_amount: number;
+          currency: string;
+          status: PayoutStatus;
+          reference: string;
+          transfer_reference: string | null;
+          transfer_code: string | null;
+          attempts: number;
+          last_error: string | null;
+          next_attempt_at: string | null;
+          paid_at: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          escrow_id: string;
+          order_id: string;
+          seller_id: string;
+          payout_account_id?: string | null;
+          provider?: PayoutProvider | null;
+          amount: number;
+          gross_amount?: number | null;
+          commission_amount?: number;
+          elevy_amount?: number;
+          currency?: string;
+          status?: PayoutStatus;
+          reference: string;
+          transfer_reference?: string | null;
+          transfer_code?: string | null;
+          attempts?: number;
+          last_error?: string | null;
+          next_attempt_at?: string | null;
+          paid_at?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          escrow_id?: string;
+          order_id?: string;
+          seller_id?: string;
+          payout_account_id?: string | null;
+          provider?: PayoutProvider | null;
+          amount?: number;
+          gross_amount?: number | null;
+          commission_amount?: number;
+          elevy_amount?: number;
+          currency?: string;
+          status?: PayoutStatus;
+          reference?: string;
+          transfer_reference?: string | null;
+          transfer_code?: string | null;
+          attempts?: number;
+          last_error?: string | null;
+          next_attempt_at?: string | null;
+          paid_at?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Relationships: [];
+      };
+      ledger_accounts: {
+        Row: {
+          id: string;
+          code: string;
+          name: string;
+          type: LedgerAccountType;
+          seller_id: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          code: string;
+          name: string;
+          type: LedgerAccountType;
+          seller_id?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          code?: string;
+          name?: string;
+          type?: LedgerAccountType;
+          seller_id?: string | null;
+          created_at?: string;
+        };
+        Relationships: [];
+      };
+      journal_entries: {
+        Row: {
+          id: string;
+          entry_type: JournalEntryType;
+          source_id: string;
+          order_id: string | null;
+          seller_id: string | null;
+          currency: string;
+          description: string;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          entry_type: JournalEntryType;
+          source_id: string;
+          order_id?: string | null;
+          seller_id?: string | null;
+          currency?: string;
+          description: string;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          entry_type?: JournalEntryType;
+          source_id?: string;
+          order_id?: string | null;
+          seller_id?: string | null;
+          currency?: string;
+          description?: string;
+          created_at?: string;
+        };
+        Relationships: [];
+      };
+      journal_lines: {
+        Row: {
+          id: string;
+          entry_id: string;
+          account_id: string;
+          debit: number;
+          credit: number;
+        };
+        Insert: {
+          id?: string;
+          entry_id: string;
+          account_id: string;
+          debit?: number;
+          credit?: number;
+        };
+        Update: {
+          id?: string;
+          entry_id?: string;
+          account_id?: string;
+          debit?: number;
+          credit?: number;
+        };
+        Relationships: [];
+      };
+      commission_rules: {
+        Row: {
+          id: string;
+          category_id: string | null;
+          seller_tier: SellerTier | null;
+          rate: number;
+          active: boolean;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          category_id?: string | null;
+          seller_tier?: SellerTier | null;
+          rate: number;
+          active?: boolean;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          category_id?: string | null;
+          seller_tier?: SellerTier | null;
+          rate?: number;
+          active?: boolean;
+          created_at?: string;
+        };
+        Relationships: [];
+      };
+      fee_rates: {
+        Row: {
+          id: string;
+          kind: FeeKind;
+          provider: PaymentProvider | null;
+          method: PaymentMethod | null;
+          rate: number;
+          flat_amount: number;
+          cap: number | null;
+          active: boolean;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          kind: FeeKind;
+          provider?: PaymentProvider | null;
+          method?: PaymentMethod | null;
+          rate?: number;
+          flat_amount?: number;
+          cap?: number | null;
+          active?: boolean;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          kind?: FeeKind;
+          provider?: PaymentProvider | null;
+          method?: PaymentMethod | null;
+          rate?: number;
+          flat_amount?: number;
+          cap?: number | null;
+          active?: boolean;
+          created_at?: string;
+        };
+        Relationships: [];
+      };
+      refunds: {
+        Row: {
+          id: string;
+          escrow_id: string;
+          payment_id: string;
+          order_id: string;
+          amount: number;
+          reason: string;
+          status: RefundStatus;
+          provider_reference: string | null;
+          error: string | null;
+          requested_by: string | null;
+          dispute_id: string | null;
+          cancellation_actor: OrderActor | null;
+          cancellation_reason: CancellationReason | null;
+          cancellation_details: string | null;
+          processed_at: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          escrow_id: string;
+          payment_id: string;
+          order_id: string;
+          amount: number;
+          reason: string;
+          status?: RefundStatus;
+          provider_reference?: string | null;
+          error?: string | null;
+          requested_by?: string | null;
+          dispute_id?: string | null;
+          cancellation_actor?: OrderActor | null;
+          cancellation_reason?: CancellationReason | null;
+          cancellation_details?: string | null;
+          processed_at?: string | null;
           created_at?: string;
         };
         Update: {
           id?: string;
+          escrow_id?: string;
+          payment_id?: string;
           order_id?: string;
           amount?: number;
-          status?: EscrowStatus;
-          hold_until?: string | null;
-          released_at?: string | null;
-          release_reference?: string | null;
-          notes?: string | null;
+          reason?: string;
+          status?: RefundStatus;
+          provider_reference?: string | null;
+          error?: string | null;
+          requested_by?: string | null;
+          dispute_id?: string | null;
+          cancellation_actor?: OrderActor | null;
+          cancellation_reason?: CancellationReason | null;
+          cancellation_details?: string | null;
+          processed_at?: string | null;
           created_at?: string;
         };
+        Relationships: [];
       };
       payments: {
         Row: {
           id: string;
-          order_id: string;
+          order_id: string | null;
+          checkout_group_id: string | null;
           method: PaymentMethod;
           provider: PaymentProvider;
           provider_reference: string | null;
           amount: number;
+          currency: string;
+          amount_received: number | null;
+          currency_received: string | null;
+          reconciliation_status: ReconciliationStatus | null;
           status: PaymentStatus;
+          failure_reason: string | null;
           phone_number: string | null;
           metadata: Json;
           created_at: string;
@@ -338,12 +1033,18 @@ export interface Database {
         };
         Insert: {
           id?: string;
-          order_id: string;
+          order_id?: string | null;
+          checkout_group_id?: string | null;
           method: PaymentMethod;
           provider: PaymentProvider;
           provider_reference?: string | null;
           amount: number;
+          currency?: string;
+          amount_received?: number | null;
+          currency_received?: string | null;
+          reconciliation_status?: ReconciliationStatus | null;
           status?: PaymentStatus;
+          failure_reason?: string | null;
           phone_number?: string | null;
           metadata?: Json;
           created_at?: string;
@@ -351,17 +1052,75 @@ export interface Database {
         };
         Update: {
           id?: string;
-          order_id?: string;
+          order_id?: string | null;
+          checkout_group_id?: string | null;
           method?: PaymentMethod;
           provider?: PaymentProvider;
           provider_reference?: string | null;
           amount?: number;
+          currency?: string;
+          amount_received?: number | null;
+          currency_received?: string | null;
+          reconciliation_status?: ReconciliationStatus | null;
           status?: PaymentStatus;
+          failure_reason?: string | null;
           phone_number?: string | null;
           metadata?: Json;
           created_at?: string;
           updated_at?: string;
         };
+        Relationships: [];
+      };
+      payment_events: {
+        Row: {
+          id: string;
+          provider: PaymentProvider;
+          event_id: string | null;
+          event_type: string | null;
+          reference: string | null;
+          payment_id: string | null;
+          payload: Json;
+          status: PaymentEventStatus;
+          notes: string | null;
+          error: string | null;
+          attempts: number;
+          processed_at: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          provider: PaymentProvider;
+          event_id?: string | null;
+          event_type?: string | null;
+          reference?: string | null;
+          payment_id?: string | null;
+          payload?: Json;
+          status?: PaymentEventStatus;
+          notes?: string | null;
+          error?: string | null;
+          attempts?: number;
+          processed_at?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          provider?: PaymentProvider;
+          event_id?: string | null;
+          event_type?: string | null;
+          reference?: string | null;
+          payment_id?: string | null;
+          payload?: Json;
+          status?: PaymentEventStatus;
+          notes?: string | null;
+          error?: string | null;
+          attempts?: number;
+          processed_at?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Relationships: [];
       };
       shipments: {
         Row: {
@@ -380,6 +1139,12 @@ export interface Database {
           delivery_lat: number | null;
           delivery_lon: number | null;
           notes: string | null;
+          courier_provider: CourierProvider | null;
+          courier_reference: string | null;
+          tracking_url: string | null;
+          booked_at: string | null;
+          picked_up_at: string | null;
+          delivered_at: string | null;
           created_at: string;
           updated_at: string;
         };
@@ -399,6 +1164,12 @@ export interface Database {
           delivery_lat?: number | null;
           delivery_lon?: number | null;
           notes?: string | null;
+          courier_provider?: CourierProvider | null;
+          courier_reference?: string | null;
+          tracking_url?: string | null;
+          booked_at?: string | null;
+          picked_up_at?: string | null;
+          delivered_at?: string | null;
           created_at?: string;
           updated_at?: string;
         };
@@ -418,9 +1189,24 @@ export interface Database {
           delivery_lat?: number | null;
           delivery_lon?: number | null;
           notes?: string | null;
+          courier_provider?: CourierProvider | null;
+          courier_reference?: string | null;
+          tracking_url?: string | null;
+          booked_at?: string | null;
+          picked_up_at?: string | null;
+          delivered_at?: string | null;
           created_at?: string;
           updated_at?: string;
         };
+        Relationships: [
+          {
+            foreignKeyName: 'shipments_order_id_fkey';
+            columns: ['order_id'];
+            isOneToOne: true;
+            referencedRelation: 'orders';
+            referencedColumns: ['id'];
+          },
+        ];
       };
       conversations: {
         Row: {
@@ -447,6 +1233,7 @@ export interface Database {
           last_message_at?: string;
           created_at?: string;
         };
+        Relationships: [];
       };
       messages: {
         Row: {
@@ -476,6 +1263,7 @@ export interface Database {
           read_at?: string | null;
           created_at?: string;
         };
+        Relationships: [];
       };
       reviews: {
         Row: {
@@ -508,6 +1296,7 @@ export interface Database {
           review_type?: ReviewType;
           created_at?: string;
         };
+        Relationships: [];
       };
       notifications: {
         Row: {
@@ -540,6 +1329,7 @@ export interface Database {
           read_at?: string | null;
           created_at?: string;
         };
+        Relationships: [];
       };
       disputes: {
         Row: {
@@ -551,6 +1341,10 @@ export interface Database {
           status: DisputeStatus;
           resolution: string | null;
           resolved_at: string | null;
+          outcome: DisputeOutcome | null;
+          refund_amount: number | null;
+          order_status_before: OrderStatus | null;
+          resolved_by: string | null;
           created_at: string;
         };
         Insert: {
@@ -562,6 +1356,10 @@ export interface Database {
           status?: DisputeStatus;
           resolution?: string | null;
           resolved_at?: string | null;
+          outcome?: DisputeOutcome | null;
+          refund_amount?: number | null;
+          order_status_before?: OrderStatus | null;
+          resolved_by?: string | null;
           created_at?: string;
         };
         Update: {
@@ -573,9 +1371,597 @@ export interface Database {
           status?: DisputeStatus;
           resolution?: string | null;
           resolved_at?: string | null;
+          outcome?: DisputeOutcome | null;
+          refund_amount?: number | null;
+          order_status_before?: OrderStatus | null;
+          resolved_by?: string | null;
+          created_at?: string;
+        };
+        Relationships: [];
+      };
+      order_status_transitions: {
+        Row: {
+          from_status: OrderStatus;
+          to_status: OrderStatus;
+          actors: OrderActor[];
+          description: string;
+        };
+        Insert: {
+          from_status: OrderStatus;
+          to_status: OrderStatus;
+          actors: OrderActor[];
+          description: string;
+        };
+        Update: {
+          from_status?: OrderStatus;
+          to_status?: OrderStatus;
+          actors?: OrderActor[];
+          description?: string;
+        };
+        Relationships: [];
+      };
+      order_status_history: {
+        Row: {
+          id: string;
+          order_id: string;
+          from_status: OrderStatus | null;
+          to_status: OrderStatus;
+          actor_id: string | null;
+          actor_role: OrderActor;
+          reason: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          order_id: string;
+          from_status?: OrderStatus | null;
+          to_status: OrderStatus;
+          actor_id?: string | null;
+          actor_role: OrderActor;
+          reason?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          order_id?: string;
+          from_status?: OrderStatus | null;
+          to_status?: OrderStatus;
+          actor_id?: string | null;
+          actor_role?: OrderActor;
+          reason?: string | null;
+          created_at?: string;
+        };
+        Relationships: [];
+      };
+      order_cancellations: {
+        Row: {
+          id: string;
+          order_id: string;
+          cancelled_by: string | null;
+          actor_role: OrderActor;
+          reason: CancellationReason;
+          details: string | null;
+          order_status: OrderStatus;
+          refund_id: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          order_id: string;
+          cancelled_by?: string | null;
+          actor_role: OrderActor;
+          reason: CancellationReason;
+          details?: string | null;
+          order_status: OrderStatus;
+          refund_id?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          order_id?: string;
+          cancelled_by?: string | null;
+          actor_role?: OrderActor;
+          reason?: CancellationReason;
+          details?: string | null;
+          order_status?: OrderStatus;
+          refund_id?: string | null;
+          created_at?: string;
+        };
+        Relationships: [];
+      };
+      shipment_events: {
+        Row: {
+          id: string;
+          shipment_id: string;
+          provider: CourierProvider;
+          event_id: string;
+          status: ShipmentStatus;
+          description: string | null;
+          lat: number | null;
+          lon: number | null;
+          applied: boolean;
+          payload: Json | null;
+          occurred_at: string;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          shipment_id: string;
+          provider: CourierProvider;
+          event_id: string;
+          status: ShipmentStatus;
+          description?: string | null;
+          lat?: number | null;
+          lon?: number | null;
+          applied?: boolean;
+          payload?: Json | null;
+          occurred_at?: string;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          shipment_id?: string;
+          provider?: CourierProvider;
+          event_id?: string;
+          status?: ShipmentStatus;
+          description?: string | null;
+          lat?: number | null;
+          lon?: number | null;
+          applied?: boolean;
+          payload?: Json | null;
+          occurred_at?: string;
+          created_at?: string;
+        };
+        Relationships: [];
+      };
+      delivery_rate_bands: {
+        Row: {
+          id: string;
+          max_km: number | null;
+          fee: number;
+          eta_minutes: number;
+          active: boolean;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          max_km?: number | null;
+          fee: number;
+          eta_minutes: number;
+          active?: boolean;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          max_km?: number | null;
+          fee?: number;
+          eta_minutes?: number;
+          active?: boolean;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Relationships: [];
+      };
+      delivery_region_surcharges: {
+        Row: {
+          id: string;
+          name: string;
+          lat: number;
+          lon: number;
+          radius_km: number;
+          surcharge: number;
+          extra_eta_minutes: number;
+          active: boolean;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          name: string;
+          lat: number;
+          lon: number;
+          radius_km: number;
+          surcharge: number;
+          extra_eta_minutes?: number;
+          active?: boolean;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          name?: string;
+          lat?: number;
+          lon?: number;
+          radius_km?: number;
+          surcharge?: number;
+          extra_eta_minutes?: number;
+          active?: boolean;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Relationships: [];
+      };
+      delivery_package_rates: {
+        Row: {
+          package_size: PackageSize;
+          description: string;
+          surcharge: number;
+          updated_at: string;
+        };
+        Insert: {
+          package_size: PackageSize;
+          description: string;
+          surcharge: number;
+          updated_at?: string;
+        };
+        Update: {
+          package_size?: PackageSize;
+          description?: string;
+          surcharge?: number;
+          updated_at?: string;
+        };
+        Relationships: [];
+      };
+      delivery_quotes: {
+        Row: {
+          id: string;
+          buyer_id: string;
+          seller_id: string;
+          speed: DeliverySpeed;
+          package_size: PackageSize;
+          distance_km: number | null;
+          pickup_lat: number | null;
+          pickup_lon: number | null;
+          dropoff_lat: number;
+          dropoff_lon: number;
+          region_surcharge_id: string | null;
+          distance_fee: number;
+          region_surcharge: number;
+          package_surcharge: number;
+          amount: number;
+          currency: string;
+          eta_minutes: number;
+          expires_at: string;
+          order_id: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          buyer_id: string;
+          seller_id: string;
+          speed: DeliverySpeed;
+          package_size: PackageSize;
+          distance_km?: number | null;
+          pickup_lat?: number | null;
+          pickup_lon?: number | null;
+          dropoff_lat: number;
+          dropoff_lon: number;
+          region_surcharge_id?: string | null;
+          distance_fee: number;
+          region_surcharge?: number;
+          package_surcharge?: number;
+          amount: number;
+          currency?: string;
+          eta_minutes: number;
+          expires_at: string;
+          order_id?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          buyer_id?: string;
+          seller_id?: string;
+          speed?: DeliverySpeed;
+          package_size?: PackageSize;
+          distance_km?: number | null;
+          pickup_lat?: number | null;
+          pickup_lon?: number | null;
+          dropoff_lat?: number;
+          dropoff_lon?: number;
+          region_surcharge_id?: string | null;
+          distance_fee?: number;
+          region_surcharge?: number;
+          package_surcharge?: number;
+          amount?: number;
+          currency?: string;
+          eta_minutes?: number;
+          expires_at?: string;
+          order_id?: string | null;
+          created_at?: string;
+        };
+        Relationships: [];
+      };
+      delivery_codes: {
+        Row: {
+          shipment_id: string;
+          order_id: string;
+          code: string;
+          failed_attempts: number;
+          issued_at: string;
+          used_at: string | null;
+        };
+        Insert: {
+          shipment_id: string;
+          order_id: string;
+          code: string;
+          failed_attempts?: number;
+          issued_at?: string;
+          used_at?: string | null;
+        };
+        Update: {
+          shipment_id?: string;
+          order_id?: string;
+          code?: string;
+          failed_attempts?: number;
+          issued_at?: string;
+          used_at?: string | null;
+        };
+        Relationships: [];
+      };
+      delivery_proofs: {
+        Row: {
+          id: string;
+          shipment_id: string;
+          order_id: string;
+          confirmed_by: string | null;
+          actor_role: OrderActor;
+          courier_provider: CourierProvider | null;
+          photo_url: string | null;
+          lat: number | null;
+          lon: number | null;
+          distance_km: number | null;
+          delivered_at: string;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          shipment_id: string;
+          order_id: string;
+          confirmed_by?: string | null;
+          actor_role: OrderActor;
+          courier_provider?: CourierProvider | null;
+          photo_url?: string | null;
+          lat?: number | null;
+          lon?: number | null;
+          distance_km?: number | null;
+          delivered_at?: string;
           created_at?: string;
         };
+        Update: {
+          id?: string;
+          shipment_id?: string;
+          order_id?: string;
+          confirmed_by?: string | null;
+          actor_role?: OrderActor;
+          courier_provider?: CourierProvider | null;
+          photo_url?: string | null;
+          lat?: number | null;
+          lon?: number | null;
+          distance_km?: number | null;
+          delivered_at?: string;
+          created_at?: string;
+        };
+        Relationships: [];
+      };
+    };
+    Views: {
+      [_ in never]: never;
+    };
+    Functions: {
+      post_journal_entry: {
+        Args: {
+          p_entry_type: JournalEntryType;
+          p_source_id: string;
+          p_order_id: string | null;
+          p_seller_id: string | null;
+          p_currency: string;
+          p_description: string;
+          p_lines: Json;
+        };
+        Returns: Json;
+      };
+      record_successful_payment: {
+        Args: {
+          p_payment_id: string;
+          p_amount: number;
+          p_currency: string;
+          p_reconciliation: ReconciliationStatus;
+          p_fee: number;
+        };
+        Returns: Json;
+      };
+      record_failed_payment: {
+        Args: {
+          p_payment_id: string;
+          p_reason: string;
+        };
+        Returns: Json;
+      };
+      record_reversed_payment: {
+        Args: {
+          p_payment_id: string;
+        };
+        Returns: Json;
+      };
+      release_escrow: {
+        Args: {
+          p_escrow_id: string;
+          p_from_statuses: EscrowStatus[];
+          p_expected_released: number;
+          p_expected_refunded: number;
+          p_amount: number;
+          p_commission: number;
+          p_elevy: number;
+          p_order_item_ids: string[];
+          p_notes: string;
+          p_buyer_message: string;
+          p_created_by: string | null;
+        };
+        Returns: Json;
+      };
+      reserve_escrow_refund: {
+        Args: {
+          p_escrow_id: string;
+          p_expected_refunded: number;
+          p_payment_id: string;
+          p_amount: number;
+          p_reason: string;
+          p_requested_by: string | null;
+          p_dispute_id: string | null;
+          p_cancellation_actor: OrderActor | null;
+          p_cancellation_reason: CancellationReason | null;
+          p_cancellation_details: string | null;
+        };
+        Returns: Json;
+      };
+      complete_escrow_refund: {
+        Args: {
+          p_refund_id: string;
+          p_status: RefundStatus;
+          p_provider_reference: string | null;
+          p_order_item_ids: string[];
+        };
+        Returns: Json;
+      };
+      fail_escrow_refund: {
+        Args: {
+          p_refund_id: string;
+          p_error: string;
+          p_provider_reference: string | null;
+        };
+        Returns: Json;
+      };
+      mark_payout_paid: {
+        Args: {
+          p_payout_id: string;
+          p_transfer_code: string | null;
+        };
+        Returns: Json;
+      };
+      seller_ledger_balances: {
+        Args: Record<PropertyKey, never>;
+        Returns: {
+          seller_id: string;
+          in_escrow: number;
+          available: number;
+          paid_out: number;
+          commission: number;
+        }[];
+      };
+      generate_order_number: {
+        Args: Record<PropertyKey, never>;
+        Returns: string;
+      };
+      generate_checkout_reference: {
+        Args: Record<PropertyKey, never>;
+        Returns: string;
+      };
+      create_checkout_from_cart: {
+        Args: {
+          p_buyer_id: string;
+          p_cart_item_ids: string[] | null;
+          p_delivery_method: DeliveryMethod;
+          p_delivery_address: string | null;
+          p_delivery_quote_ids: string[] | null;
+          p_notes: string | null;
+          p_reserved_until: string;
+        };
+        Returns: Json;
+      };
+      reserve_order_stock: {
+        Args: {
+          p_order_ids: string[];
+          p_reserved_until: string;
+        };
+        Returns: Json;
+      };
+      expire_stock_reservations: {
+        Args: Record<PropertyKey, never>;
+        Returns: number;
+      };
+      update_order_status: {
+        Args: {
+          p_order_id: string;
+          p_status: OrderStatus;
+          p_reason: string | null;
+        };
+        Returns: Database['public']['Tables']['orders']['Row'];
+      };
+      accept_orders: {
+        Args: {
+          p_order_ids: string[];
+        };
+        Returns: Json;
+      };
+      create_order_shipments: {
+        Args: {
+          p_order_ids: string[];
+          p_courier_name: string | null;
+          p_courier_phone: string | null;
+          p_pickup_address: string | null;
+          p_notes: string | null;
+        };
+        Returns: Json;
       };
+      mark_orders_shipped: {
+        Args: {
+          p_shipments: Json;
+        };
+        Returns: Json;
+      };
+      hand_over_pickup_orders: {
+        Args: {
+          p_order_ids: string[];
+        };
+        Returns: Json;
+      };
+      cancel_order: {
+        Args: {
+          p_order_id: string;
+          p_cancelled_by: string | null;
+          p_actor: OrderActor;
+          p_reason: CancellationReason;
+          p_details: string | null;
+          p_refund_id: string | null;
+        };
+        Returns: Json;
+      };
+      seller_cancellation_rates: {
+        Args: {
+          p_since?: string;
+        };
+        Returns: {
+          seller_id: string;
+          store_name: string;
+          order_count: number;
+          seller_cancellations: number;
+          buyer_cancellations: number;
+          cancellation_rate: number;
+        }[];
+      };
+      apply_courier_update: {
+        Args: {
+          p_provider: CourierProvider;
+          p_update: Json;
+        };
+        Returns: Json;
+      };
+      confirm_delivery_handover: {
+        Args: {
+          p_shipment_id: string;
+          p_code: string;
+          p_proof: Json;
+        };
+        Returns: Json;
+      };
+    };
+    Enums: {
+      [_ in never]: never;
+    };
+    CompositeTypes: {
+      [_ in never]: never;
     };
   };
 }
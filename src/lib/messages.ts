@@ -0,0 +1,94 @@
+import { supabase } from './supabase';
+import type { Database } from './database.types';
+
+export type Conversation = Database['public']['Tables']['conversations']['Row'];
+export type Message = Database['public']['Tables']['messages']['Row'];
+
+/**
+ * The buyer's conversation with a seller, started if they have never talked.
+ * There is one conversation per buyer and seller, so an existing one is
+ * reused whichever order it was started from.
+ */
+export async function openConversation(buyerId: string, sellerId: string, orderId?: string): Promise<Conversation> {
+  const findExisting = () => supabase
+    .from('conversations')
+    .select('*')
+    .eq('buyer_id', buyerId)
+    .eq('seller_id', sellerId)
+    .maybeSingle();
+
+  const { data: existing, error: existingError } = await findExisting();
+
+  if (existingError) {
+    throw existingError;
+  }
+
+  if (existing) {
+    return existing;
+  }
+
+  const { data: created, error: createError } = await supabase
+    .from('conversations')
+    .insert({ buyer_id: buyerId, seller_id: sellerId, order_id: orderId ?? null })
+    .select()
+    .single();
+
+  // Started from another tab in the meantime.
+  if (createError?.code === '23505') {
+    const { data: raced, error: racedError } = await findExisting();
+
+    if (racedError || !raced) {
+      throw racedError ?? createError;
+    }
+
+    return raced;
+  }
+
+  if (createError) {
+    throw createError;
+  }
+
+  return created;
+}
+
+export async function fetchConversation(conversationId: string): Promise<Conversation | null> {
+  const { data, error } = await supabase
+    .from('conversations')
+    .select('*')
+    .eq('id', conversationId)
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+
+  return data;
+}
+
+export async function fetchMessages(conversationId: string): Promise<Message[]> {
+  const { data, error } = await supabase
+    .from('messages')
+    .select('*')
+    .eq('conversation_id', conversationId)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    throw error;
+  }
+
+  return data ?? [];
+}
+
+export async function sendMessage(conversationId: string, senderId: string, text: string): Promise<Message> {
+  const { data, error } = await supabase
+    .from('messages')
+    .insert({ conversation_id: conversationId, sender_id: senderId, message_text: text })
+    .select()
+    .single();
+
+  if (error) {
+    throw error;
+  }
+
+  return data;
+}
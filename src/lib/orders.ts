@@ -0,0 +1,253 @@
+import { supabase } from './supabase';
+import type { CancellationReason, Database, Json, OrderActor, OrderStatus } from './database.types';
+
+type Order = Database['public']['Tables']['orders']['Row'];
+export type OrderStatusTransition = Database['public']['Tables']['order_status_transitions']['Row'];
+export type OrderStatusHistoryEntry = Database['public']['Tables']['order_status_history']['Row'];
+export type OrderCancellation = Database['public']['Tables']['order_cancellations']['Row'];
+export type ShipmentEvent = Database['public']['Tables']['shipment_events']['Row'];
+export type DeliveryCode = Database['public']['Tables']['delivery_codes']['Row'];
+export type DeliveryProof = Database['public']['Tables']['delivery_proofs']['Row'];
+
+export interface ProductSnapshot {
+  title?: string;
+  images?: string[];
+  condition?: string;
+}
+
+/**
+ * The product as it was when ordered. `order_items.product_snapshot` is plain
+ * JSON, so only the fields the order pages show are picked out of it.
+ */
+export function readProductSnapshot(snapshot: Json): ProductSnapshot | null {
+  if (!snapshot || typeof snapshot !== 'object' || Array.isArray(snapshot)) {
+    return null;
+  }
+
+  const { title, images, condition } = snapshot;
+
+  return {
+    title: typeof title === 'string' ? title : undefined,
+    images: Array.isArray(images) ? images.filter((image): image is string => typeof image === 'string') : undefined,
+    condition: typeof condition === 'string' ? condition : undefined,
+  };
+}
+
+/**
+ * The allowed order status changes and who may make each one. The database
+ * enforces the same table on every update, so the UI only offers actions
+ * that will be accepted.
+ */
+export async function fetchOrderStatusTransitions(): Promise<OrderStatusTransition[]> {
+  const { data, error } = await supabase
+    .from('order_status_transitions')
+    .select('*');
+
+  if (error) {
+    throw error;
+  }
+
+  return data ?? [];
+}
+
+export function allowedNextStatuses(
+  transitions: OrderStatusTransition[],
+  status: OrderStatus,
+  actor: OrderActor,
+): OrderStatus[] {
+  return transitions
+    .filter((transition) => transition.from_status === status && transition.actors.includes(actor))
+    .map((transition) => transition.to_status);
+}
+
+export async function fetchOrderStatusHistory(orderId: string): Promise<OrderStatusHistoryEntry[]> {
+  const { data, error } = await supabase
+    .from('order_status_history')
+    .select('*')
+    .eq('order_id', orderId)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    throw error;
+  }
+
+  return data ?? [];
+}
+
+/**
+ * The courier's progress reports for a shipment, oldest first, including any
+ * that arrived out of order and were not applied.
+ */
+export async function fetchShipmentEvents(shipmentId: string): Promise<ShipmentEvent[]> {
+  const { data, error } = await supabase
+    .from('shipment_events')
+    .select('*')
+    .eq('shipment_id', shipmentId)
+    .order('occurred_at', { ascending: true });
+
+  if (error) {
+    throw error;
+  }
+
+  return data ?? [];
+}
+
+/**
+ * The handover code for a shipment that has gone out for delivery. Only the
+ * buyer (and admins) can read it; for anyone else this returns null.
+ */
+export async function fetchDeliveryCode(shipmentId: string): Promise<DeliveryCode | null> {
+  const { data, error } = await supabase
+    .from('delivery_codes')
+    .select('*')
+    .eq('shipment_id', shipmentId)
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+
+  return data;
+}
+
+/**
+ * How a shipment was handed over: who entered the buyer's code, when, and
+ * the photo and location they attached.
+ */
+export async function fetchDeliveryProof(shipmentId: string): Promise<DeliveryProof | null> {
+  const { data, error } = await supabase
+    .from('delivery_proofs')
+    .select('*')
+    .eq('shipment_id', shipmentId)
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+
+  return data;
+}
+
+export async function updateOrderStatus(
+  orderId: string,
+  status: OrderStatus,
+  reason?: string,
+): Promise<{ order?: Order; error?: string }> {
+  const { data, error } = await supabase.rpc('update_order_status', {
+    p_order_id: orderId,
+    p_status: status,
+    p_reason: reason ?? null,
+  });
+
+  if (error) {
+    return { error: error.message };
+  }
+
+  return { order: data };
+}
+
+export function getOrderStatusLabel(status: OrderStatus): string {
+  const labels: Record<OrderStatus, string> = {
+    created: 'Awaiting payment',
+    paid_in_escrow: 'Paid',
+    shipped: 'Shipped',
+    delivered: 'Delivered',
+    completed: 'Completed',
+    disputed: 'Disputed',
+    refunded: 'Refunded',
+    cancelled: 'Cancelled',
+  };
+  return labels[status];
+}
+
+/**
+ * Outcome of a bulk fulfilment action for one order. Each order is processed
+ * on its own, so some can fail while the rest go through.
+ */
+export interface FulfilmentResult {
+  order_id: string;
+  success: boolean;
+  error?: string;
+}
+
+export interface ShipmentDetails {
+  courierName?: string;
+  courierPhone?: string;
+  pickupAddress?: string;
+  notes?: string;
+}
+
+export interface ShippedOrder {
+  orderId: string;
+  trackingNumber: string;
+  courierName?: string;
+}
+
+async function runFulfilment(
+  request: PromiseLike<{ data: unknown; error: { message: string } | null }>,
+): Promise<{ results: FulfilmentResult[]; error?: string }> {
+  const { data, error } = await request;
+
+  if (error) {
+    return { results: [], error: error.message };
+  }
+
+  return { results: (data as FulfilmentResult[] | null) ?? [] };
+}
+
+export function acceptOrders(orderIds: string[]) {
+  return runFulfilment(supabase.rpc('accept_orders', { p_order_ids: orderIds }));
+}
+
+export function createOrderShipments(orderIds: string[], details: ShipmentDetails = {}) {
+  return runFulfilment(supabase.rpc('create_order_shipments', {
+    p_order_ids: orderIds,
+    p_courier_name: details.courierName || null,
+    p_courier_phone: details.courierPhone || null,
+    p_pickup_address: details.pickupAddress || null,
+    p_notes: details.notes || null,
+  }));
+}
+
+export function markOrdersShipped(shipments: ShippedOrder[]) {
+  return runFulfilment(supabase.rpc('mark_orders_shipped', {
+    p_shipments: shipments.map((shipment) => ({
+      order_id: shipment.orderId,
+      tracking_number: shipment.trackingNumber,
+      courier_name: shipment.courierName || null,
+    })),
+  }));
+}
+
+export function handOverPickupOrders(orderIds: string[]) {
+  return runFulfilment(supabase.rpc('hand_over_pickup_orders', { p_order_ids: orderIds }));
+}
+
+export const cancellationReasonLabels: Record<CancellationReason, string> = {
+  changed_mind: 'I changed my mind',
+  ordered_by_mistake: 'Ordered by mistake',
+  found_better_price: 'Found a better price',
+  delivery_too_slow: 'Delivery takes too long',
+  out_of_stock: 'Out of stock',
+  cannot_deliver: "Can't deliver to this address",
+  pricing_error: 'Listed at the wrong price',
+  suspected_fraud: 'Suspected fraud',
+  other: 'Other',
+};
+
+/** The reasons offered to each side when cancelling. */
+export const buyerCancellationReasons: CancellationReason[] = [
+  'changed_mind',
+  'ordered_by_mistake',
+  'found_better_price',
+  'delivery_too_slow',
+  'other',
+];
+
+export const sellerCancellationReasons: CancellationReason[] = [
+  'out_of_stock',
+  'cannot_deliver',
+  'pricing_error',
+  'suspected_fraud',
+  'other',
+];
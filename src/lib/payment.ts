@@ -1,13 +1,27 @@
 import { supabase } from './supabase';
-import type { PaymentMethod, PaymentProvider } from './database.types';
+import type {
+  CancellationReason,
+  Database,
+  DeliveryMethod,
+  DeliverySpeed,
+  OrderStatus,
+  PackageSize,
+  PaymentMethod,
+  PaymentProvider,
+  PaymentStatus,
+} from './database.types';
+
+type Shipment = Database['public']['Tables']['shipments']['Row'];
+type DeliveryProof = Database['public']['Tables']['delivery_proofs']['Row'];
 
 export interface InitiatePaymentParams {
-  orderId: string;
-  amount: number;
+  // Pass one of these: checkouts from the cart are paid for as a group.
+  orderId?: string;
+  checkoutGroupId?: string;
   method: PaymentMethod;
   provider: PaymentProvider;
   phoneNumber?: string;
-  email: string;
+  email?: string;
   metadata?: Record<string, any>;
 }
 
@@ -16,28 +30,190 @@ export interface PaymentResponse {
   paymentId?: string;
   authorizationUrl?: string;
   reference?: string;
+  amount?: number;
+  currency?: string;
+  reservedUntil?: string;
   instructions?: string;
   error?: string;
 }
 
+export interface PaidOrder {
+  orderId: string;
+  orderNumber: string;
+  status: OrderStatus;
+  holdUntil: string | null;
+}
+
+export interface VerifyPaymentResponse {
+  success: boolean;
+  paymentId?: string;
+  orderId?: string | null;
+  checkoutGroupId?: string | null;
+  reference?: string;
+  status?: PaymentStatus;
+  amount?: number;
+  currency?: string;
+  orderStatus?: OrderStatus;
+  holdUntil?: string | null;
+  orders?: PaidOrder[];
+  error?: string;
+}
+
+async function getRequestHeaders() {
+  const { data: { session } } = await supabase.auth.getSession();
+
+  return {
+    'Authorization': `Bearer ${session?.access_token ?? import.meta.env.VITE_SUPABASE_ANON_KEY}`,
+    'Content-Type': 'application/json',
+  };
+}
+
+export interface CreateOrderParams {
+  // Defaults to the whole cart.
+  cartItemIds?: string[];
+  deliveryMethod: DeliveryMethod;
+  deliveryAddress?: string;
+  // One option per store from getDeliveryQuotes(); required for courier.
+  deliveryQuoteIds?: string[];
+  notes?: string;
+}
+
+export interface CheckoutOrder {
+  id: string;
+  order_number: string;
+  seller_id: string;
+  total_amount: number;
+  delivery_cost: number;
+  delivery_eta_minutes: number | null;
+  order_items: {
+    id: string;
+    product_id: string;
+    quantity: number;
+    unit_price: number;
+    total_price: number;
+    product_snapshot: Record<string, unknown>;
+  }[];
+}
+
+export interface CreateOrderResponse {
+  success: boolean;
+  checkoutGroupId?: string;
+  reference?: string;
+  totalAmount?: number;
+  currency?: string;
+  reservedUntil?: string;
+  orders?: CheckoutOrder[];
+  error?: string;
+}
+
+export interface DeliveryOption {
+  quoteId: string;
+  speed: DeliverySpeed;
+  packageSize: PackageSize;
+  distanceKm: number | null;
+  region: string | null;
+  distanceFee: number;
+  regionSurcharge: number;
+  packageSurcharge: number;
+  amount: number;
+  etaMinutes: number;
+}
+
+export interface StoreDeliveryQuote {
+  sellerId: string;
+  storeName: string;
+  options: DeliveryOption[];
+}
+
+export interface DeliveryQuoteResponse {
+  success: boolean;
+  currency?: string;
+  expiresAt?: string;
+  stores?: StoreDeliveryQuote[];
+  error?: string;
+}
+
+/**
+ * Prices courier delivery for each store in the cart, from the seller's
+ * location to `location` (or the buyer's profile location). Pass the chosen
+ * option's `quoteId` per store to `createOrder()` before `expiresAt`.
+ */
+export async function getDeliveryQuotes(
+  cartItemIds?: string[],
+  location?: { lat: number; lon: number },
+): Promise<DeliveryQuoteResponse> {
+  try {
+    const apiUrl = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/delivery-quote`;
+
+    const response = await fetch(apiUrl, {
+      method: 'POST',
+      headers: await getRequestHeaders(),
+      body: JSON.stringify({ cartItemIds, location }),
+    });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      throw new Error(data.error || 'Could not price delivery');
+    }
+
+    return data;
+  } catch (error) {
+    console.error('Delivery quote error:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Could not price delivery',
+    };
+  }
+}
+
+/**
+ * Checks out the signed-in buyer's cart into one order per store, linked under
+ * a checkout group. Pass the returned `checkoutGroupId` to `initiatePayment()`
+ * to pay for all of them at once.
+ */
+export async function createOrder(params: CreateOrderParams): Promise<CreateOrderResponse> {
+  try {
+    const apiUrl = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/order-create`;
+
+    const response = await fetch(apiUrl, {
+      method: 'POST',
+      headers: await getRequestHeaders(),
+      body: JSON.stringify(params),
+    });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      throw new Error(data.error || 'Order creation failed');
+    }
+
+    return data;
+  } catch (error) {
+    console.error('Order creation error:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Checkout failed',
+    };
+  }
+}
+
 export async function initiatePayment(params: InitiatePaymentParams): Promise<PaymentResponse> {
   try {
     const apiUrl = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/payment-initiate`;
 
     const response = await fetch(apiUrl, {
       method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${import.meta.env.VITE_SUPABASE_ANON_KEY}`,
-        'Content-Type': 'application/json',
-      },
+      headers: await getRequestHeaders(),
       body: JSON.stringify(params),
     });
 
+    const data = await response.json();
+
     if (!response.ok) {
-      throw new Error('Payment initiation failed');
+      throw new Error(data.error || 'Payment initiation failed');
     }
 
-    const data = await response.json();
     return data;
   } catch (error) {
     console.error('Payment error:', error);
@@ -48,16 +224,13 @@ export async function initiatePayment(params: InitiatePaymentParams): Promise<Pa
   }
 }
 
-export async function verifyPayment(reference: string): Promise<{ success: boolean; data?: any; error?: string }> {
+export async function verifyPayment(reference: string): Promise<VerifyPaymentResponse> {
   try {
     const apiUrl = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/payment-verify`;
 
     const response = await fetch(apiUrl, {
       method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${import.meta.env.VITE_SUPABASE_ANON_KEY}`,
-        'Content-Type': 'application/json',
-      },
+      headers: await getRequestHeaders(),
       body: JSON.stringify({ reference }),
     });
 
@@ -76,16 +249,33 @@ export async function verifyPayment(reference: string): Promise<{ success: boole
   }
 }
 
+/**
+ * Polls payment-verify until the payment leaves `pending` or the timeout runs
+ * out. Mobile money prompts have no redirect, so this is how checkout learns
+ * the buyer approved (or declined) on their phone.
+ */
+export async function waitForPayment(
+  reference: string,
+  { intervalMs = 5000, timeoutMs = 120000 }: { intervalMs?: number; timeoutMs?: number } = {},
+): Promise<VerifyPaymentResponse> {
+  const deadline = Date.now() + timeoutMs;
+  let result = await verifyPayment(reference);
+
+  while (result.success && result.status === 'pending' && Date.now() < deadline) {
+    await new Promise((resolve) => setTimeout(resolve, intervalMs));
+    result = await verifyPayment(reference);
+  }
+
+  return result;
+}
+
 export async function releaseEscrow(orderId: string): Promise<{ success: boolean; error?: string }> {
   try {
     const apiUrl = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/escrow-release`;
 
     const response = await fetch(apiUrl, {
       method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${import.meta.env.VITE_SUPABASE_ANON_KEY}`,
-        'Content-Type': 'application/json',
-      },
+      headers: await getRequestHeaders(),
       body: JSON.stringify({ orderId }),
     });
 
@@ -104,6 +294,316 @@ export async function releaseEscrow(orderId: string): Promise<{ success: boolean
   }
 }
 
+export interface RefundResponse {
+  success: boolean;
+  refundId?: string;
+  status?: 'pending' | 'processed' | 'failed';
+  amount?: number;
+  refundedAmount?: number;
+  remaining?: number;
+  error?: string;
+}
+
+export async function refundEscrow(
+  orderId: string,
+  reason: string,
+  amount?: number,
+): Promise<RefundResponse> {
+  try {
+    const apiUrl = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/escrow-refund`;
+
+    const response = await fetch(apiUrl, {
+      method: 'POST',
+      headers: await getRequestHeaders(),
+      body: JSON.stringify({ orderId, reason, amount }),
+    });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      throw new Error(data.error || 'Escrow refund failed');
+    }
+
+    return data;
+  } catch (error) {
+    console.error('Escrow refund error:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Refund failed',
+    };
+  }
+}
+
+export interface CancelOrderResponse {
+  success: boolean;
+  message?: string;
+  orderStatus?: OrderStatus;
+  cancellationId?: string;
+  refundId?: string;
+  refundStatus?: 'pending' | 'processed' | 'failed';
+  error?: string;
+}
+
+/**
+ * Cancels an order that hasn't shipped. A paid order is refunded from escrow
+ * in full; an unpaid one is cancelled along with any pending payment.
+ */
+export async function cancelOrder(
+  orderId: string,
+  reason: CancellationReason,
+  details?: string,
+): Promise<CancelOrderResponse> {
+  try {
+    const apiUrl = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/order-cancel`;
+
+    const response = await fetch(apiUrl, {
+      method: 'POST',
+      headers: await getRequestHeaders(),
+      body: JSON.stringify({ orderId, reason, details }),
+    });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      throw new Error(data.error || 'Order cancellation failed');
+    }
+
+    return data;
+  } catch (error) {
+    console.error('Order cancellation error:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Cancellation failed',
+    };
+  }
+}
+
+export interface CourierQuote {
+  quoteId: string;
+  cost: number;
+  currency: string;
+  etaMinutes: number;
+}
+
+export interface BookCourierResponse {
+  success: boolean;
+  message?: string;
+  provider?: string;
+  quote?: CourierQuote;
+  shipment?: Shipment;
+  error?: string;
+}
+
+/**
+ * Books the configured courier to collect a paid courier order, or with
+ * `quoteOnly` just prices the trip. The courier's progress then moves the
+ * shipment and the order along on its own.
+ */
+export async function bookCourier(orderId: string, quoteOnly = false): Promise<BookCourierResponse> {
+  try {
+    const apiUrl = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/shipment-book`;
+
+    const response = await fetch(apiUrl, {
+      method: 'POST',
+      headers: await getRequestHeaders(),
+      body: JSON.stringify({ orderId, quoteOnly }),
+    });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      throw new Error(data.error || 'Courier booking failed');
+    }
+
+    return data;
+  } catch (error) {
+    console.error('Courier booking error:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Courier booking failed',
+    };
+  }
+}
+
+/**
+ * Asks the courier for the latest on an order's shipment, in case a status
+ * update hasn't reached us yet.
+ */
+export async function refreshTracking(orderId: string): Promise<{ success: boolean; updated?: number; error?: string }> {
+  try {
+    const apiUrl = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/courier-sync`;
+
+    const response = await fetch(apiUrl, {
+      method: 'POST',
+      headers: await getRequestHeaders(),
+      body: JSON.stringify({ orderId }),
+    });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      throw new Error(data.error || 'Could not refresh tracking');
+    }
+
+    return data;
+  } catch (error) {
+    console.error('Tracking refresh error:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Could not refresh tracking',
+    };
+  }
+}
+
+export interface ConfirmHandoverParams {
+  orderId: string;
+  // The code the buyer gives at the door.
+  code: string;
+  photoUrl?: string;
+  lat?: number;
+  lon?: number;
+}
+
+export interface ConfirmHandoverResponse {
+  success: boolean;
+  message?: string;
+  orderStatus?: OrderStatus;
+  proof?: DeliveryProof;
+  attemptsLeft?: number;
+  error?: string;
+}
+
+/**
+ * Marks a courier order delivered with the buyer's handover code, keeping the
+ * optional photo and location as proof of delivery.
+ */
+export async function confirmHandover(params: ConfirmHandoverParams): Promise<ConfirmHandoverResponse> {
+  try {
+    const apiUrl = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/delivery-confirm`;
+
+    const response = await fetch(apiUrl, {
+      method: 'POST',
+      headers: await getRequestHeaders(),
+      body: JSON.stringify(params),
+    });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      return {
+        success: false,
+        attemptsLeft: data.attemptsLeft,
+        error: data.error || 'Delivery confirmation failed',
+      };
+    }
+
+    return data;
+  } catch (error) {
+    console.error('Delivery confirmation error:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Delivery confirmation failed',
+    };
+  }
+}
+
+export interface SettleEscrowParams {
+  orderId: string;
+  releaseItemIds?: string[];
+  refundItemIds?: string[];
+  reason?: string;
+}
+
+export interface EscrowSettlement {
+  id: string;
+  kind: 'release' | 'refund';
+  amount: number;
+  reference: string;
+  order_item_ids: string[];
+}
+
+export interface SettleEscrowResponse {
+  success: boolean;
+  settlements?: EscrowSettlement[];
+  escrowStatus?: string;
+  released?: number;
+  refunded?: number;
+  remaining?: number;
+  error?: string;
+}
+
+export async function settleEscrow(params: SettleEscrowParams): Promise<SettleEscrowResponse> {
+  try {
+    const apiUrl = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/escrow-settle`;
+
+    const response = await fetch(apiUrl, {
+      method: 'POST',
+      headers: await getRequestHeaders(),
+      body: JSON.stringify(params),
+    });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      throw new Error(data.error || 'Escrow settlement failed');
+    }
+
+    return data;
+  } catch (error) {
+    console.error('Escrow settlement error:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Settlement failed',
+    };
+  }
+}
+
+export interface PayoutAccountParams {
+  accountType: 'mobile_money' | 'bank';
+  bankCode: string;
+  accountNumber: string;
+  isDefault?: boolean;
+}
+
+export interface PayoutAccountResponse {
+  success: boolean;
+  account?: {
+    id: string;
+    accountType: 'mobile_money' | 'bank';
+    bankCode: string;
+    accountNumber: string;
+    accountName: string;
+    isDefault: boolean;
+  };
+  error?: string;
+}
+
+export async function addPayoutAccount(params: PayoutAccountParams): Promise<PayoutAccountResponse> {
+  try {
+    const apiUrl = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/payout-account`;
+
+    const response = await fetch(apiUrl, {
+      method: 'POST',
+      headers: await getRequestHeaders(),
+      body: JSON.stringify(params),
+    });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      throw new Error(data.error || 'Could not save payout account');
+    }
+
+    return data;
+  } catch (error) {
+    console.error('Payout account error:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Could not save payout account',
+    };
+  }
+}
+
 export function getPaymentMethodLabel(method: PaymentMethod): string {
   const labels: Record<PaymentMethod, string> = {
     mtn_momo: 'MTN Mobile Money',
@@ -0,0 +1,195 @@
+import { useState } from 'react';
+import { ChevronLeft, ShoppingBag, Store, Trash2 } from 'lucide-react';
+import { useCart, type CartItem } from '../contexts/CartContext';
+
+interface CartPageProps {
+  onBack?: () => void;
+  onProductClick?: (productId: string) => void;
+  onCheckout?: () => void;
+}
+
+export function CartPage({ onBack, onProductClick, onCheckout }: CartPageProps) {
+  const { items, loading, updateQuantity, removeItem } = useCart();
+  const [updatingId, setUpdatingId] = useState<string | null>(null);
+
+  const formatPrice = (price: number) => {
+    return new Intl.NumberFormat('en-GH', {
+      style: 'currency',
+      currency: 'GHS',
+      minimumFractionDigits: 0,
+      maximumFractionDigits: 2,
+    }).format(price);
+  };
+
+  // Each store gets its own order at checkout, so lines are shown per store.
+  const groups = items.reduce<Record<string, CartItem[]>>((acc, item) => {
+    const sellerId = item.products.seller_id;
+    acc[sellerId] = [...(acc[sellerId] ?? []), item];
+    return acc;
+  }, {});
+
+  const total = items.reduce((sum, item) => sum + item.products.price * item.quantity, 0);
+  const unavailable = items.some((item) => item.products.status !== 'active'
+    || item.quantity > item.products.stock_count);
+  const storeCount = Object.keys(groups).length;
+
+  const changeQuantity = async (item: CartItem, quantity: number) => {
+    setUpdatingId(item.id);
+    if (quantity < 1) {
+      await removeItem(item.id);
+    } else {
+      await updateQuantity(item.id, Math.min(quantity, item.products.stock_count));
+    }
+    setUpdatingId(null);
+  };
+
+  if (loading && items.length === 0) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="max-w-4xl mx-auto p-4 pb-24">
+        <button
+          onClick={onBack}
+          className="mb-4 flex items-center gap-2 text-gray-600 hover:text-gray-900"
+        >
+          <ChevronLeft className="w-5 h-5" />
+          Back
+        </button>
+
+        <h1 className="text-2xl font-bold text-gray-900 mb-6">Your Cart</h1>
+
+        {items.length === 0 ? (
+          <div className="bg-white rounded-lg shadow-sm p-12 text-center">
+            <ShoppingBag className="w-12 h-12 text-gray-300 mx-auto mb-4" />
+            <p className="text-gray-600 mb-4">Your cart is empty</p>
+            <button
+              onClick={onBack}
+              className="px-6 py-2 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700"
+            >
+              Continue Shopping
+            </button>
+          </div>
+        ) : (
+          <div className="space-y-6">
+            {Object.entries(groups).map(([sellerId, sellerItems]) => {
+              const seller = sellerItems[0].products.seller_profiles;
+              const subtotal = sellerItems.reduce((sum, item) => sum + item.products.price * item.quantity, 0);
+
+              return (
+                <div key={sellerId} className="bg-white rounded-lg shadow-sm overflow-hidden">
+                  <div className="flex items-center gap-3 p-4 border-b border-gray-200">
+                    {seller.logo_url ? (
+                      <img src={seller.logo_url} alt={seller.store_name} className="w-8 h-8 rounded-full" />
+                    ) : (
+                      <div className="w-8 h-8 rounded-full bg-gray-200 flex items-center justify-center">
+                        <Store className="w-4 h-4 text-gray-600" />
+                      </div>
+                    )}
+                    <h2 className="font-semibold text-gray-900">{seller.store_name}</h2>
+                  </div>
+
+                  <div className="divide-y divide-gray-200">
+                    {sellerItems.map((item) => {
+                      const product = item.products;
+                      const outOfStock = product.status !== 'active' || product.stock_count === 0;
+
+                      return (
+                        <div key={item.id} className="flex gap-4 p-4">
+                          <button
+                            onClick={() => onProductClick?.(product.id)}
+                            className="flex-shrink-0 w-20 h-20 rounded-lg overflow-hidden bg-gray-100"
+                          >
+                            {product.images && product.images.length > 0 && (
+                              <img src={product.images[0]} alt={product.title} className="w-full h-full object-cover" />
+                            )}
+                          </button>
+                          <div className="flex-1 min-w-0">
+                            <button
+                              onClick={() => onProductClick?.(product.id)}
+                              className="font-medium text-gray-900 hover:text-blue-600 text-left line-clamp-2"
+                            >
+                              {product.title}
+                            </button>
+                            <p className="text-sm text-gray-600">{formatPrice(product.price)}</p>
+                            {outOfStock ? (
+                              <p className="text-sm text-red-600">No longer available</p>
+                            ) : item.quantity > product.stock_count && (
+                              <p className="text-sm text-red-600">Only {product.stock_count} left in stock</p>
+                            )}
+                            <div className="flex items-center gap-2 mt-2">
+                              <button
+                                onClick={() => changeQuantity(item, item.quantity - 1)}
+                                disabled={updatingId === item.id}
+                                className="px-3 py-1 border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50"
+                              >
+                                -
+                              </button>
+                              <span className="w-8 text-center">{item.quantity}</span>
+                              <button
+                                onClick={() => changeQuantity(item, item.quantity + 1)}
+                                disabled={updatingId === item.id || item.quantity >= product.stock_count}
+                                className="px-3 py-1 border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50"
+                              >
+                                +
+                              </button>
+                              <button
+                                onClick={() => changeQuantity(item, 0)}
+                                disabled={updatingId === item.id}
+                                className="ml-auto p-2 text-gray-500 hover:text-red-600"
+                                title="Remove"
+                              >
+                                <Trash2 className="w-4 h-4" />
+                              </button>
+                            </div>
+                          </div>
+                          <div className="font-semibold text-gray-900">
+                            {formatPrice(product.price * item.quantity)}
+                          </div>
+                        </div>
+                      );
+                    })}
+                  </div>
+
+                  <div className="flex items-center justify-between p-4 bg-gray-50 border-t border-gray-200 text-sm">
+                    <span className="text-gray-600">Subtotal from {seller.store_name}</span>
+                    <span className="font-semibold text-gray-900">{formatPrice(subtotal)}</span>
+                  </div>
+                </div>
+              );
+            })}
+
+            <div className="bg-white rounded-lg shadow-sm p-4">
+              <div className="flex items-center justify-between mb-4">
+                <div>
+                  <p className="text-sm text-gray-600">Items total</p>
+                  <p className="text-xl font-bold text-gray-900">{formatPrice(total)}</p>
+                </div>
+                <button
+                  onClick={onCheckout}
+                  disabled={unavailable}
+                  className="px-6 py-3 bg-blue-600 text-white rounded-lg font-semibold hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  Checkout
+                </button>
+              </div>
+              {storeCount > 1 && (
+                <p className="text-sm text-gray-600">
+                  You'll pay once. Each of the {storeCount} stores gets its own order, ships separately and is paid from escrow when you confirm its delivery.
+                </p>
+              )}
+              {unavailable && (
+                <p className="text-sm text-red-600">Remove or reduce the unavailable items to check out.</p>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
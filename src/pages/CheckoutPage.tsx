@@ -0,0 +1,547 @@
+import { useEffect, useState } from 'react';
+import { ChevronLeft, CheckCircle, Clock, CreditCard, Crosshair, MapPin, Package, Shield, Smartphone, Truck } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import { useCart, type CartItem } from '../contexts/CartContext';
+import {
+  createOrder,
+  getDeliveryQuotes,
+  initiatePayment,
+  waitForPayment,
+  type CreateOrderResponse,
+  type DeliveryQuoteResponse,
+} from '../lib/payment';
+import type { DeliveryMethod, PaymentMethod } from '../lib/database.types';
+
+interface CheckoutPageProps {
+  // Checks out just these cart lines (e.g. from Buy Now); the whole cart otherwise.
+  cartItemIds?: string[];
+  onBack?: () => void;
+  onDone?: () => void;
+}
+
+type CheckoutStep = 'details' | 'processing' | 'awaiting_approval' | 'paid' | 'failed';
+
+const paymentMethods: { value: PaymentMethod; label: string }[] = [
+  { value: 'mtn_momo', label: 'MTN Mobile Money' },
+  { value: 'vodafone_cash', label: 'Vodafone Cash' },
+  { value: 'airteltigo_money', label: 'AirtelTigo Money' },
+  { value: 'card', label: 'Debit/Credit Card' },
+];
+
+const formatEta = (minutes: number) => {
+  if (minutes < 60) return `${minutes} min`;
+  if (minutes < 24 * 60) return `${Math.round(minutes / 60)} hr`;
+  const days = Math.round(minutes / (24 * 60));
+  return `${days} day${days === 1 ? '' : 's'}`;
+};
+
+export function CheckoutPage({ cartItemIds, onBack, onDone }: CheckoutPageProps) {
+  const { profile } = useAuth();
+  const { items, refreshCart } = useCart();
+  const [deliveryMethod, setDeliveryMethod] = useState<DeliveryMethod>('courier');
+  const [deliveryAddress, setDeliveryAddress] = useState(profile?.address ?? '');
+  const [notes, setNotes] = useState('');
+  const [paymentMethod, setPaymentMethod] = useState<PaymentMethod>('mtn_momo');
+  const [phoneNumber, setPhoneNumber] = useState(profile?.phone ?? '');
+  const [step, setStep] = useState<CheckoutStep>('details');
+  const [checkout, setCheckout] = useState<CreateOrderResponse | null>(null);
+  const [message, setMessage] = useState('');
+  const [error, setError] = useState('');
+  const [location, setLocation] = useState<{ lat: number; lon: number } | null>(null);
+  const [quotes, setQuotes] = useState<DeliveryQuoteResponse | null>(null);
+  const [quoting, setQuoting] = useState(false);
+  const [selectedQuotes, setSelectedQuotes] = useState<Record<string, string>>({});
+
+  const checkoutItems = cartItemIds
+    ? items.filter((item) => cartItemIds.includes(item.id))
+    : items;
+  const subtotal = checkoutItems.reduce((sum, item) => sum + item.products.price * item.quantity, 0);
+  const stores = Object.values(checkoutItems.reduce<Record<string, CartItem[]>>((acc, item) => {
+    const sellerId = item.products.seller_id;
+    acc[sellerId] = [...(acc[sellerId] ?? []), item];
+    return acc;
+  }, {}));
+  const storeNames = stores.map((storeItems) => storeItems[0].products.seller_profiles.store_name);
+  const orderNumbers = checkout?.orders?.map((order) => order.order_number).join(', ');
+  const deliveryTotal = checkout?.orders?.reduce((sum, order) => sum + order.delivery_cost, 0) ?? 0;
+  const checkoutItemKey = checkoutItems.map((item) => item.id).join(',');
+  const chosenOptions = (quotes?.stores ?? []).map((store) => store.options
+    .find((option) => option.quoteId === selectedQuotes[store.sellerId]));
+  const quotedDelivery = chosenOptions.reduce((sum, option) => sum + (option?.amount ?? 0), 0);
+  const quotesReady = !!quotes?.success && chosenOptions.length === stores.length && chosenOptions.every(Boolean);
+
+  const loadQuotes = async (at?: { lat: number; lon: number }) => {
+    setQuoting(true);
+    const result = await getDeliveryQuotes(checkoutItems.map((item) => item.id), at);
+    setQuotes(result);
+    // Standard delivery comes first and is always offered.
+    setSelectedQuotes(Object.fromEntries((result.stores ?? [])
+      .map((store) => [store.sellerId, store.options[0].quoteId])));
+    setQuoting(false);
+    return result;
+  };
+
+  useEffect(() => {
+    if (deliveryMethod === 'courier' && checkoutItemKey) {
+      loadQuotes(location ?? undefined);
+    }
+  }, [deliveryMethod, checkoutItemKey, location]);
+
+  const shareLocation = () => {
+    if (!navigator.geolocation) {
+      setError('Your browser cannot share its location');
+      return;
+    }
+
+    navigator.geolocation.getCurrentPosition(
+      (position) => {
+        setLocation({
+          lat: position.coords.latitude,
+          lon: position.coords.longitude,
+        });
+      },
+      (error) => {
+        console.error('Error getting location:', error);
+        setError('We could not get your location');
+      }
+    );
+  };
+
+  const formatPrice = (price: number) => {
+    return new Intl.NumberFormat('en-GH', {
+      style: 'currency',
+      currency: 'GHS',
+      minimumFractionDigits: 0,
+      maximumFractionDigits: 2,
+    }).format(price);
+  };
+
+  const pay = async (checkoutGroupId: string) => {
+    const payment = await initiatePayment({
+      checkoutGroupId,
+      method: paymentMethod,
+      provider: 'paystack',
+      phoneNumber: paymentMethod === 'card' ? undefined : phoneNumber,
+    });
+
+    if (!payment.success || !payment.reference) {
+      setError(payment.error || 'Payment could not be started');
+      setStep('failed');
+      return;
+    }
+
+    if (payment.authorizationUrl) {
+      window.location.assign(payment.authorizationUrl);
+      return;
+    }
+
+    setMessage(payment.instructions || 'Approve the payment prompt on your phone');
+    setStep('awaiting_approval');
+
+    const result = await waitForPayment(payment.reference);
+
+    if (result.status === 'successful') {
+      setStep('paid');
+    } else {
+      setError(result.status === 'pending'
+        ? 'We have not received your approval yet. You can try paying again.'
+        : result.error || 'Payment was not completed');
+      setStep('failed');
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    if (deliveryMethod === 'courier' && !deliveryAddress.trim()) {
+      setError('Enter a delivery address');
+      return;
+    }
+
+    if (deliveryMethod === 'courier' && !quotesReady) {
+      setError('Choose a delivery option for each store');
+      return;
+    }
+
+    // Quotes only hold for a while; price again rather than fail at checkout.
+    if (deliveryMethod === 'courier' && quotes?.expiresAt && new Date(quotes.expiresAt) <= new Date()) {
+      await loadQuotes(location ?? undefined);
+      setError('Delivery prices have been refreshed. Check them and place your order again.');
+      return;
+    }
+
+    if (paymentMethod !== 'card' && !phoneNumber.trim()) {
+      setError('Enter the phone number for your mobile money wallet');
+      return;
+    }
+
+    setStep('processing');
+
+    const created = await createOrder({
+      cartItemIds: checkoutItems.map((item) => item.id),
+      deliveryMethod,
+      deliveryAddress: deliveryMethod === 'courier' ? deliveryAddress : undefined,
+      deliveryQuoteIds: deliveryMethod === 'courier'
+        ? Object.values(selectedQuotes)
+        : undefined,
+      notes: notes || undefined,
+    });
+
+    if (!created.success || !created.checkoutGroupId) {
+      setError(created.error || 'Your order could not be placed');
+      setStep('details');
+      return;
+    }
+
+    setCheckout(created);
+    await refreshCart();
+    await pay(created.checkoutGroupId);
+  };
+
+  const retryPayment = async () => {
+    if (!checkout?.checkoutGroupId) return;
+    setError('');
+    setStep('processing');
+    await pay(checkout.checkoutGroupId);
+  };
+
+  if (step === 'paid') {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center p-4">
+        <div className="bg-white rounded-lg shadow-sm p-8 max-w-md w-full text-center">
+          <CheckCircle className="w-16 h-16 text-green-600 mx-auto mb-4" />
+          <h1 className="text-2xl font-bold text-gray-900 mb-2">Payment received</h1>
+          <p className="text-gray-600 mb-1">Checkout {checkout?.reference}</p>
+          <p className="text-sm text-gray-600 mb-1">
+            {(checkout?.orders?.length ?? 0) > 1 ? 'Orders' : 'Order'} {orderNumbers}
+          </p>
+          <p className="text-sm text-gray-600 mb-6">
+            Each store's payment is held in escrow until you confirm its delivery.
+          </p>
+          <button
+            onClick={onDone}
+            className="w-full py-3 bg-blue-600 text-white rounded-lg font-semibold hover:bg-blue-700"
+          >
+            View My Orders
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  if (step === 'processing' || step === 'awaiting_approval') {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center p-4">
+        <div className="bg-white rounded-lg shadow-sm p-8 max-w-md w-full text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto mb-4"></div>
+          <p className="text-gray-900 font-medium mb-1">
+            {step === 'processing' ? 'Placing your order...' : 'Waiting for your approval'}
+          </p>
+          {step === 'awaiting_approval' && checkout && (
+            <>
+              <p className="text-sm text-gray-600 mb-4">{message}</p>
+              <div className="text-sm text-gray-700 bg-gray-50 rounded-lg p-3 space-y-1">
+                {checkout.orders?.map((order) => (
+                  <div key={order.id} className="flex justify-between">
+                    <span>Order {order.order_number}</span>
+                    <span>{formatPrice(order.total_amount)}</span>
+                  </div>
+                ))}
+                <div className="flex justify-between font-semibold border-t border-gray-200 pt-1">
+                  <span>Total</span>
+                  <span>{formatPrice(checkout.totalAmount ?? 0)}</span>
+                </div>
+                {deliveryTotal > 0 && (
+                  <p className="text-left text-xs text-gray-500">
+                    Includes {formatPrice(deliveryTotal)} delivery
+                  </p>
+                )}
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    );
+  }
+
+  if (step === 'failed' && checkout) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center p-4">
+        <div className="bg-white rounded-lg shadow-sm p-8 max-w-md w-full text-center">
+          <h1 className="text-xl font-bold text-gray-900 mb-2">Payment not completed</h1>
+          <p className="text-gray-600 mb-1">
+            {(checkout.orders?.length ?? 0) > 1 ? 'Orders' : 'Order'} {orderNumbers} waiting for payment.
+          </p>
+          <p className="text-sm text-red-600 mb-6">{error}</p>
+          <button
+            onClick={retryPayment}
+            className="w-full py-3 bg-blue-600 text-white rounded-lg font-semibold hover:bg-blue-700 mb-3"
+          >
+            Try Again - {formatPrice(checkout.totalAmount ?? 0)}
+          </button>
+          <button
+            onClick={onDone}
+            className="w-full py-3 border border-gray-300 rounded-lg font-medium hover:bg-gray-50"
+          >
+            Pay Later
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  if (checkoutItems.length === 0) {
+    return (
+      <div className="min-h-screen flex flex-col items-center justify-center gap-4">
+        <p className="text-gray-600">There is nothing in your cart to check out</p>
+        <button onClick={onBack} className="text-blue-600 font-medium">Back to cart</button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="max-w-4xl mx-auto p-4 pb-24">
+        <button
+          onClick={onBack}
+          className="mb-4 flex items-center gap-2 text-gray-600 hover:text-gray-900"
+        >
+          <ChevronLeft className="w-5 h-5" />
+          Back to cart
+        </button>
+
+        <h1 className="text-2xl font-bold text-gray-900 mb-6">Checkout</h1>
+
+        <form onSubmit={handleSubmit} className="grid md:grid-cols-3 gap-6">
+          <div className="md:col-span-2 space-y-6">
+            <div className="bg-white rounded-lg shadow-sm p-6">
+              <h2 className="text-lg font-semibold text-gray-900 mb-4">Delivery</h2>
+              <div className="grid grid-cols-2 gap-3 mb-4">
+                <button
+                  type="button"
+                  onClick={() => setDeliveryMethod('courier')}
+                  className={`flex items-center gap-2 p-4 border-2 rounded-lg ${
+                    deliveryMethod === 'courier' ? 'border-blue-600 bg-blue-50' : 'border-gray-200'
+                  }`}
+                >
+                  <Truck className="w-5 h-5 text-gray-700" />
+                  <span className="font-medium">Courier</span>
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setDeliveryMethod('pickup')}
+                  className={`flex items-center gap-2 p-4 border-2 rounded-lg ${
+                    deliveryMethod === 'pickup' ? 'border-blue-600 bg-blue-50' : 'border-gray-200'
+                  }`}
+                >
+                  <Package className="w-5 h-5 text-gray-700" />
+                  <span className="font-medium">Pickup</span>
+                </button>
+              </div>
+
+              {deliveryMethod === 'courier' ? (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Delivery address
+                  </label>
+                  <div className="relative">
+                    <MapPin className="absolute left-3 top-3 w-5 h-5 text-gray-400" />
+                    <textarea
+                      value={deliveryAddress}
+                      onChange={(e) => setDeliveryAddress(e.target.value)}
+                      rows={3}
+                      placeholder="House number, street, area and city or GhanaPost GPS address"
+                      className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                  </div>
+
+                  <div className="mt-4 flex items-center justify-between gap-2">
+                    <p className="text-sm font-medium text-gray-700">Delivery options</p>
+                    <button
+                      type="button"
+                      onClick={shareLocation}
+                      className="flex items-center gap-1 text-sm text-blue-600 hover:text-blue-700"
+                    >
+                      <Crosshair className="w-4 h-4" />
+                      {location ? 'Location shared' : 'Use my current location'}
+                    </button>
+                  </div>
+
+                  {quoting ? (
+                    <p className="mt-2 text-sm text-gray-600">Pricing delivery...</p>
+                  ) : quotes && !quotes.success ? (
+                    <p className="mt-2 text-sm text-red-600">{quotes.error}</p>
+                  ) : (
+                    <div className="mt-2 space-y-3">
+                      {quotes?.stores?.map((store) => (
+                        <div key={store.sellerId}>
+                          {quotes.stores!.length > 1 && (
+                            <p className="text-sm text-gray-900 mb-1">{store.storeName}</p>
+                          )}
+                          <div className="space-y-2">
+                            {store.options.map((option) => (
+                              <label
+                                key={option.quoteId}
+                                className={`flex items-center gap-3 p-3 border-2 rounded-lg cursor-pointer ${
+                                  selectedQuotes[store.sellerId] === option.quoteId ? 'border-blue-600 bg-blue-50' : 'border-gray-200'
+                                }`}
+                              >
+                                <input
+                                  type="radio"
+                                  name={`delivery-${store.sellerId}`}
+                                  checked={selectedQuotes[store.sellerId] === option.quoteId}
+                                  onChange={() => setSelectedQuotes({ ...selectedQuotes, [store.sellerId]: option.quoteId })}
+                                />
+                                <div className="flex-1 text-sm">
+                                  <p className="font-medium capitalize">{option.speed}</p>
+                                  <p className="text-gray-600 flex items-center gap-1">
+                                    <Clock className="w-3 h-3" />
+                                    About {formatEta(option.etaMinutes)}
+                                    {option.distanceKm !== null && ` · ${option.distanceKm} km`}
+                                    {option.region && ` · ${option.region}`}
+                                  </p>
+                                </div>
+                                <span className="font-medium">{formatPrice(option.amount)}</span>
+                              </label>
+                            ))}
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              ) : (
+                <p className="text-sm text-gray-600">
+                  You'll arrange a pickup time and place with {storeNames.join(', ')} after paying.
+                </p>
+              )}
+
+              <div className="mt-4">
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Notes for the seller (optional)
+                </label>
+                <input
+                  type="text"
+                  value={notes}
+                  onChange={(e) => setNotes(e.target.value)}
+                  placeholder="e.g. Please call on arrival"
+                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
+            </div>
+
+            <div className="bg-white rounded-lg shadow-sm p-6">
+              <h2 className="text-lg font-semibold text-gray-900 mb-4">Payment method</h2>
+              <div className="space-y-2 mb-4">
+                {paymentMethods.map((method) => (
+                  <label
+                    key={method.value}
+                    className={`flex items-center gap-3 p-3 border-2 rounded-lg cursor-pointer ${
+                      paymentMethod === method.value ? 'border-blue-600 bg-blue-50' : 'border-gray-200'
+                    }`}
+                  >
+                    <input
+                      type="radio"
+                      name="payment-method"
+                      value={method.value}
+                      checked={paymentMethod === method.value}
+                      onChange={() => setPaymentMethod(method.value)}
+                    />
+                    {method.value === 'card' ? (
+                      <CreditCard className="w-5 h-5 text-gray-700" />
+                    ) : (
+                      <Smartphone className="w-5 h-5 text-gray-700" />
+                    )}
+                    <span className="font-medium">{method.label}</span>
+                  </label>
+                ))}
+              </div>
+
+              {paymentMethod !== 'card' && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Mobile money number
+                  </label>
+                  <input
+                    type="tel"
+                    value={phoneNumber}
+                    onChange={(e) => setPhoneNumber(e.target.value)}
+                    placeholder="+233 50 123 4567"
+                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                </div>
+              )}
+            </div>
+          </div>
+
+          <div className="bg-white rounded-lg shadow-sm p-6 h-fit">
+            <h2 className="text-lg font-semibold text-gray-900 mb-4">Order summary</h2>
+            <div className="space-y-4 mb-4">
+              {stores.map((storeItems) => (
+                <div key={storeItems[0].products.seller_id}>
+                  <p className="text-sm font-semibold text-gray-900 mb-2">
+                    {storeItems[0].products.seller_profiles.store_name}
+                  </p>
+                  <div className="space-y-2">
+                    {storeItems.map((item) => (
+                      <div key={item.id} className="flex justify-between gap-2 text-sm">
+                        <span className="text-gray-700">
+                          {item.quantity} × {item.products.title}
+                        </span>
+                        <span className="text-gray-900 font-medium">
+                          {formatPrice(item.products.price * item.quantity)}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+            <div className="border-t border-gray-200 pt-4 space-y-2 text-sm">
+              <div className="flex justify-between">
+                <span className="text-gray-600">Subtotal</span>
+                <span className="font-medium">{formatPrice(subtotal)}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-gray-600">Delivery</span>
+                <span className="font-medium">
+                  {deliveryMethod === 'pickup' && formatPrice(0)}
+                  {deliveryMethod === 'courier' && (quotesReady ? formatPrice(quotedDelivery) : 'Choose an option')}
+                </span>
+              </div>
+              {deliveryMethod === 'courier' && stores.length > 1 && (
+                <p className="text-xs text-gray-500">
+                  Each of the {stores.length} stores ships separately with its own courier fee.
+                </p>
+              )}
+              <div className="flex justify-between border-t border-gray-200 pt-2 text-base">
+                <span className="font-semibold">Total</span>
+                <span className="font-semibold">
+                  {formatPrice(subtotal + (deliveryMethod === 'courier' ? quotedDelivery : 0))}
+                </span>
+              </div>
+            </div>
+
+            {error && (
+              <p className="mt-4 text-sm text-red-600">{error}</p>
+            )}
+
+            <button
+              type="submit"
+              disabled={deliveryMethod === 'courier' && !quotesReady}
+              className="mt-6 w-full bg-blue-600 text-white py-3 rounded-lg font-semibold hover:bg-blue-700 transition-colors disabled:opacity-50"
+            >
+              Place Order & Pay
+            </button>
+
+            <div className="mt-4 flex items-start gap-2 text-xs text-gray-600">
+              <Shield className="w-4 h-4 text-blue-600 flex-shrink-0" />
+              <span>Your payment is held in escrow until you confirm delivery</span>
+            </div>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,159 @@
+import { useEffect, useState } from 'react';
+import { ChevronLeft, MessageCircle, Send } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import { fetchConversation, fetchMessages, sendMessage, type Conversation, type Message } from '../lib/messages';
+
+interface ConversationPageProps {
+  conversationId: string;
+  onBack?: () => void;
+}
+
+export function ConversationPage({ conversationId, onBack }: ConversationPageProps) {
+  const { user } = useAuth();
+  const [conversation, setConversation] = useState<Conversation | null>(null);
+  const [otherName, setOtherName] = useState('');
+  const [messages, setMessages] = useState<Message[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [sending, setSending] = useState(false);
+  const [text, setText] = useState('');
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    loadConversation();
+  }, [conversationId]);
+
+  const loadConversation = async () => {
+    try {
+      const loaded = await fetchConversation(conversationId);
+      setConversation(loaded);
+
+      if (loaded) {
+        const otherId = loaded.buyer_id === user?.id ? loaded.seller_id : loaded.buyer_id;
+        const [loadedMessages, { data: other }] = await Promise.all([
+          fetchMessages(conversationId),
+          supabase.from('profiles').select('full_name').eq('id', otherId).maybeSingle(),
+        ]);
+
+        setMessages(loadedMessages);
+        setOtherName(other?.full_name ?? '');
+      }
+    } catch (loadError) {
+      setError(loadError instanceof Error ? loadError.message : 'Could not load the conversation');
+    }
+
+    setLoading(false);
+  };
+
+  const handleSend = async () => {
+    const trimmed = text.trim();
+
+    if (!user || !trimmed) {
+      return;
+    }
+
+    setSending(true);
+    setError('');
+
+    try {
+      const sent = await sendMessage(conversationId, user.id, trimmed);
+      setMessages((current) => [...current, sent]);
+      setText('');
+    } catch (sendError) {
+      setError(sendError instanceof Error ? sendError.message : 'Could not send the message');
+    }
+
+    setSending(false);
+  };
+
+  const formatTime = (date: string) => {
+    return new Date(date).toLocaleString('en-GH', {
+      day: 'numeric',
+      month: 'short',
+      hour: 'numeric',
+      minute: '2-digit',
+    });
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="max-w-4xl mx-auto p-4 pb-24">
+        <button
+          onClick={onBack}
+          className="mb-4 flex items-center gap-2 text-gray-600 hover:text-gray-900"
+        >
+          <ChevronLeft className="w-5 h-5" />
+          Back
+        </button>
+
+        {!conversation ? (
+          <div className="bg-white rounded-lg shadow-sm p-12 text-center">
+            <p className="text-gray-600">{error || 'Conversation not found'}</p>
+          </div>
+        ) : (
+          <>
+            <h1 className="text-2xl font-bold text-gray-900 mb-6">{otherName || 'Messages'}</h1>
+
+            <div className="bg-white rounded-lg shadow-sm">
+              {messages.length === 0 ? (
+                <div className="p-12 text-center">
+                  <MessageCircle className="w-12 h-12 text-gray-300 mx-auto mb-4" />
+                  <p className="text-gray-600">No messages yet</p>
+                </div>
+              ) : (
+                <div className="p-4 space-y-3">
+                  {messages.map((message) => {
+                    const mine = message.sender_id === user?.id;
+
+                    return (
+                      <div key={message.id} className={`flex ${mine ? 'justify-end' : 'justify-start'}`}>
+                        <div
+                          className={`max-w-[75%] rounded-lg px-3 py-2 ${
+                            mine ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-900'
+                          }`}
+                        >
+                          <p className="text-sm whitespace-pre-wrap">{message.message_text}</p>
+                          <p className={`text-xs mt-1 ${mine ? 'text-blue-100' : 'text-gray-500'}`}>
+                            {formatTime(message.created_at)}
+                          </p>
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+
+              <div className="flex gap-2 p-4 border-t border-gray-200">
+                <textarea
+                  value={text}
+                  onChange={(event) => setText(event.target.value)}
+                  rows={2}
+                  placeholder="Write a message"
+                  className="flex-1 px-3 py-2 border border-gray-300 rounded-lg resize-none focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+                <button
+                  onClick={handleSend}
+                  disabled={sending || !text.trim()}
+                  className="flex items-center gap-1 px-4 py-2 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 disabled:opacity-50"
+                >
+                  <Send className="w-4 h-4" />
+                  Send
+                </button>
+              </div>
+            </div>
+
+            {error && <p className="mt-4 text-sm text-red-600">{error}</p>}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
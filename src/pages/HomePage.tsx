@@ -1,5 +1,5 @@
 import { useState, useEffect } from 'react';
-import { MapPin, Filter, TrendingUp, Plus, Package, BarChart3, AlertCircle } from 'lucide-react';
+import { MapPin, Filter, TrendingUp, Plus, Package, BarChart3, AlertCircle, Truck } from 'lucide-react';
 import { supabase } from '../lib/supabase';
 import { useAuth } from '../contexts/AuthContext';
 import { ProductCard } from '../components/ProductCard';
@@ -17,9 +17,12 @@ type Product = Database['public']['Tables']['products']['Row'] & {
 
 interface HomePageProps {
   onProductClick?: (productId: string) => void;
+  onCartClick?: () => void;
+  onOrdersClick?: () => void;
+  onSellerOrdersClick?: () => void;
 }
 
-export function HomePage({ onProductClick }: HomePageProps) {
+export function HomePage({ onProductClick, onCartClick, onOrdersClick, onSellerOrdersClick }: HomePageProps) {
   const { profile } = useAuth();
   const [categories, setCategories] = useState<Category[]>([]);
   const [products, setProducts] = useState<Product[]>([]);
@@ -27,6 +30,7 @@ export function HomePage({ onProductClick }: HomePageProps) {
   const [selectedCategory, setSelectedCategory] = useState<string | null>(null);
   const [userLocation, setUserLocation] = useState<{ lat: number; lon: number } | null>(null);
   const [searchQuery, setSearchQuery] = useState('');
+  const [ordersToFulfil, setOrdersToFulfil] = useState(0);
 
   useEffect(() => {
     getUserLocation();
@@ -38,6 +42,12 @@ export function HomePage({ onProductClick }: HomePageProps) {
     loadProducts();
   }, [selectedCategory, searchQuery]);
 
+  useEffect(() => {
+    if (profile?.role === 'seller') {
+      loadOrdersToFulfil();
+    }
+  }, [profile?.id, profile?.role]);
+
   const getUserLocation = () => {
     if (navigator.geolocation) {
       navigator.geolocation.getCurrentPosition(
@@ -69,6 +79,24 @@ export function HomePage({ onProductClick }: HomePageProps) {
     }
   };
 
+  const loadOrdersToFulfil = async () => {
+    const { data: store } = await supabase
+      .from('seller_profiles')
+      .select('id')
+      .eq('user_id', profile!.id)
+      .maybeSingle();
+
+    if (!store) return;
+
+    const { count } = await supabase
+      .from('orders')
+      .select('id', { count: 'exact', head: true })
+      .eq('seller_id', store.id)
+      .eq('status', 'paid_in_escrow');
+
+    setOrdersToFulfil(count ?? 0);
+  };
+
   const loadProducts = async () => {
     setLoading(true);
 
@@ -106,7 +134,7 @@ export function HomePage({ onProductClick }: HomePageProps) {
   if (profile?.role === 'seller') {
     return (
       <div className="min-h-screen bg-gray-50">
-        <Header onSearch={setSearchQuery} />
+        <Header onSearch={setSearchQuery} onCartClick={onCartClick} onOrdersClick={onOrdersClick} />
 
         <div className="max-w-7xl mx-auto px-4 py-6">
           <div className="mb-6">
@@ -156,6 +184,26 @@ export function HomePage({ onProductClick }: HomePageProps) {
             </div>
           </div>
 
+          <div className="bg-white rounded-lg shadow-sm p-6 mb-8 flex items-center justify-between gap-4">
+            <div className="flex items-center gap-3">
+              <Truck className="w-8 h-8 text-blue-600" />
+              <div>
+                <h3 className="font-semibold text-gray-900">
+                  {ordersToFulfil === 0
+                    ? 'No orders waiting'
+                    : `${ordersToFulfil} ${ordersToFulfil === 1 ? 'order' : 'orders'} to fulfil`}
+                </h3>
+                <p className="text-sm text-gray-600">Accept, pack and ship paid orders</p>
+              </div>
+            </div>
+            <button
+              onClick={onSellerOrdersClick}
+              className="px-4 py-2 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700"
+            >
+              View Orders
+            </button>
+          </div>
+
           <div className="bg-blue-50 border border-blue-200 rounded-lg p-6 mb-8">
             <div className="flex items-start gap-3">
               <AlertCircle className="w-5 h-5 text-blue-600 flex-shrink-0 mt-0.5" />
@@ -186,7 +234,7 @@ export function HomePage({ onProductClick }: HomePageProps) {
 
   return (
     <div className="min-h-screen bg-gray-50">
-      <Header onSearch={setSearchQuery} />
+      <Header onSearch={setSearchQuery} onCartClick={onCartClick} onOrdersClick={onOrdersClick} />
 
       <div className="max-w-7xl mx-auto px-4 py-6">
         <div className="mb-6 p-4 bg-gradient-to-r from-blue-600 to-blue-700 text-white rounded-lg">
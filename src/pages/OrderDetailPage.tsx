@@ -0,0 +1,762 @@
+import { useEffect, useState } from 'react';
+import {
+  AlertTriangle, CheckCircle, ChevronLeft, Circle, KeyRound, MessageCircle, Package, RefreshCw, Shield, Star, Store, Truck,
+} from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import { OrderStatusBadge } from '../components/OrderStatusBadge';
+import { cancelOrder, formatAmount, getPaymentMethodLabel, refreshTracking, releaseEscrow } from '../lib/payment';
+import { openConversation } from '../lib/messages';
+import {
+  allowedNextStatuses,
+  buyerCancellationReasons,
+  cancellationReasonLabels,
+  fetchDeliveryCode,
+  fetchDeliveryProof,
+  fetchOrderStatusHistory,
+  fetchOrderStatusTransitions,
+  fetchShipmentEvents,
+  getOrderStatusLabel,
+  readProductSnapshot,
+  updateOrderStatus,
+  type DeliveryCode,
+  type DeliveryProof,
+  type OrderCancellation,
+  type OrderStatusHistoryEntry,
+  type OrderStatusTransition,
+  type ProductSnapshot,
+  type ShipmentEvent,
+} from '../lib/orders';
+import type { CancellationReason, Database, ShipmentStatus } from '../lib/database.types';
+
+type Tables = Database['public']['Tables'];
+
+type OrderDetail = Tables['orders']['Row'] & {
+  seller_profiles: {
+    id: string;
+    user_id: string;
+    store_name: string;
+    logo_url: string | null;
+  };
+  order_items: (Omit<Tables['order_items']['Row'], 'product_snapshot'> & {
+    product_snapshot: ProductSnapshot | null;
+  })[];
+  escrows: Tables['escrows']['Row'] | null;
+  shipments: Tables['shipments']['Row'] | null;
+};
+
+type Payment = Tables['payments']['Row'];
+type Dispute = Tables['disputes']['Row'];
+
+interface OrderDetailPageProps {
+  orderId: string;
+  onBack?: () => void;
+  onMessageSeller?: (conversationId: string) => void;
+}
+
+const shipmentSteps: { status: ShipmentStatus; label: string }[] = [
+  { status: 'pending', label: 'Preparing' },
+  { status: 'assigned', label: 'Courier assigned' },
+  { status: 'picked_up', label: 'Picked up' },
+  { status: 'in_transit', label: 'On the way' },
+  { status: 'delivered', label: 'Delivered' },
+];
+
+const paymentStatusLabels: Record<Payment['status'], string> = {
+  pending: 'Pending',
+  successful: 'Paid',
+  failed: 'Failed',
+  refunded: 'Refunded',
+  under_review: 'Under review',
+  reversed: 'Reversed',
+  partially_refunded: 'Partly refunded',
+  cancelled: 'Cancelled',
+};
+
+export function OrderDetailPage({ orderId, onBack, onMessageSeller }: OrderDetailPageProps) {
+  const { user } = useAuth();
+  const [order, setOrder] = useState<OrderDetail | null>(null);
+  const [payment, setPayment] = useState<Payment | null>(null);
+  const [disputes, setDisputes] = useState<Dispute[]>([]);
+  const [history, setHistory] = useState<OrderStatusHistoryEntry[]>([]);
+  const [transitions, setTransitions] = useState<OrderStatusTransition[]>([]);
+  const [shipmentEvents, setShipmentEvents] = useState<ShipmentEvent[]>([]);
+  const [deliveryCode, setDeliveryCode] = useState<DeliveryCode | null>(null);
+  const [deliveryProof, setDeliveryProof] = useState<DeliveryProof | null>(null);
+  const [hasReviewed, setHasReviewed] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [working, setWorking] = useState(false);
+  const [message, setMessage] = useState('');
+  const [error, setError] = useState('');
+  const [showDisputeForm, setShowDisputeForm] = useState(false);
+  const [disputeReason, setDisputeReason] = useState('');
+  const [showReviewForm, setShowReviewForm] = useState(false);
+  const [cancellation, setCancellation] = useState<OrderCancellation | null>(null);
+  const [showCancelForm, setShowCancelForm] = useState(false);
+  const [cancelReason, setCancelReason] = useState<CancellationReason>('changed_mind');
+  const [cancelDetails, setCancelDetails] = useState('');
+  const [rating, setRating] = useState(5);
+  const [reviewText, setReviewText] = useState('');
+
+  useEffect(() => {
+    loadOrder();
+  }, [orderId]);
+
+  const loadOrder = async () => {
+    const { data } = await supabase
+      .from('orders')
+      .select('*, seller_profiles(id, user_id, store_name, logo_url), order_items(*), escrows(*), shipments(*)')
+      .eq('id', orderId)
+      .maybeSingle();
+
+    if (!data) {
+      setLoading(false);
+      return;
+    }
+
+    const loaded: OrderDetail = {
+      ...data,
+      order_items: data.order_items.map((item) => ({
+        ...item,
+        product_snapshot: readProductSnapshot(item.product_snapshot),
+      })),
+    };
+    setOrder(loaded);
+
+    const [
+      paymentResult,
+      disputesResult,
+      reviewResult,
+      cancellationResult,
+      historyResult,
+      transitionsResult,
+      shipmentEventsResult,
+      deliveryCodeResult,
+      deliveryProofResult,
+    ] = await Promise.all([
+      supabase
+        .from('payments')
+        .select('*')
+        .or(loaded.checkout_group_id
+          ? `order_id.eq.${loaded.id},checkout_group_id.eq.${loaded.checkout_group_id}`
+          : `order_id.eq.${loaded.id}`)
+        .order('created_at', { ascending: false })
+        .limit(1)
+        .maybeSingle(),
+      supabase
+        .from('disputes')
+        .select('*')
+        .eq('order_id', orderId)
+        .order('created_at', { ascending: false }),
+      supabase
+        .from('reviews')
+        .select('id')
+        .eq('order_id', orderId)
+        .eq('reviewer_id', user?.id ?? '')
+        .maybeSingle(),
+      supabase
+        .from('order_cancellations')
+        .select('*')
+        .eq('order_id', orderId)
+        .maybeSingle(),
+      fetchOrderStatusHistory(orderId),
+      fetchOrderStatusTransitions(),
+      loaded.shipments ? fetchShipmentEvents(loaded.shipments.id) : Promise.resolve([]),
+      loaded.shipments ? fetchDeliveryCode(loaded.shipments.id) : Promise.resolve(null),
+      loaded.shipments ? fetchDeliveryProof(loaded.shipments.id) : Promise.resolve(null),
+    ]);
+
+    setPayment(paymentResult.data);
+    setDisputes(disputesResult.data ?? []);
+    setHasReviewed(Boolean(reviewResult.data));
+    setCancellation(cancellationResult.data);
+    setHistory(historyResult);
+    setTransitions(transitionsResult);
+    setShipmentEvents(shipmentEventsResult);
+    setDeliveryCode(deliveryCodeResult);
+    setDeliveryProof(deliveryProofResult);
+    setLoading(false);
+  };
+
+  const formatDate = (date: string) => {
+    return new Date(date).toLocaleString('en-GH', {
+      day: 'numeric',
+      month: 'short',
+      year: 'numeric',
+      hour: 'numeric',
+      minute: '2-digit',
+    });
+  };
+
+  const runAction = async (action: () => Promise<string | null>, success: string) => {
+    setWorking(true);
+    setError('');
+    setMessage('');
+
+    const failure = await action();
+
+    if (failure) {
+      setError(failure);
+    } else {
+      setMessage(success);
+      await loadOrder();
+    }
+
+    setWorking(false);
+  };
+
+  const handleMessageSeller = async () => {
+    if (!order || !user) return;
+
+    setWorking(true);
+    setError('');
+
+    try {
+      const conversation = await openConversation(user.id, order.seller_profiles.user_id, order.id);
+      onMessageSeller?.(conversation.id);
+    } catch (openError) {
+      setError(openError instanceof Error ? openError.message : 'Could not open a conversation with the seller');
+      setWorking(false);
+    }
+  };
+
+  const handleRefreshTracking = () => runAction(async () => {
+    const result = await refreshTracking(orderId);
+    return result.success ? null : result.error ?? 'Could not refresh tracking';
+  }, 'Tracking is up to date');
+
+  const confirmDelivery = () => runAction(async () => {
+    if (!order) return null;
+
+    // The escrow can only be released once the order is delivered.
+    if (order.status === 'shipped') {
+      const updated = await updateOrderStatus(order.id, 'delivered', 'Buyer confirmed delivery');
+      if (updated.error) return updated.error;
+    }
+
+    const released = await releaseEscrow(order.id);
+    return released.success ? null : released.error || 'Could not confirm delivery';
+  }, 'Thanks for confirming. The payment has been released to the seller.');
+
+  const submitDispute = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!disputeReason.trim()) {
+      setError('Tell us what went wrong');
+      return;
+    }
+
+    runAction(async () => {
+      const { error: insertError } = await supabase
+        .from('disputes')
+        .insert({ order_id: orderId, raised_by: user!.id, reason: disputeReason.trim() });
+
+      if (insertError) return insertError.message;
+
+      setShowDisputeForm(false);
+      setDisputeReason('');
+      return null;
+    }, 'Dispute opened. The payment stays in escrow until our team resolves it.');
+  };
+
+  const submitCancel = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    runAction(async () => {
+      const result = await cancelOrder(orderId, cancelReason, cancelDetails.trim() || undefined);
+      if (!result.success) return result.error || 'Could not cancel the order';
+
+      setShowCancelForm(false);
+      return null;
+    }, order?.status === 'paid_in_escrow'
+      ? 'Order cancelled. Your payment is being refunded.'
+      : 'Order cancelled.');
+  };
+
+  const submitReview = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    runAction(async () => {
+      const { error: insertError } = await supabase
+        .from('reviews')
+        .insert({
+          order_id: orderId,
+          reviewer_id: user!.id,
+          seller_id: order?.seller_id,
+          rating,
+          review_text: reviewText.trim() || null,
+          review_type: 'seller',
+        });
+
+      if (insertError) return insertError.message;
+
+      setShowReviewForm(false);
+      return null;
+    }, 'Thanks for your review!');
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  if (!order) {
+    return (
+      <div className="min-h-screen flex flex-col items-center justify-center gap-4">
+        <p className="text-gray-600">Order not found</p>
+        <button onClick={onBack} className="text-blue-600 font-medium">Back to orders</button>
+      </div>
+    );
+  }
+
+  const nextStatuses = allowedNextStatuses(transitions, order.status, 'buyer');
+  const escrow = order.escrows;
+  const shipment = order.shipments;
+  const openDispute = disputes.find((dispute) => dispute.status === 'open' || dispute.status === 'investigating');
+  const canConfirmDelivery = escrow?.status === 'holding'
+    && (order.status === 'delivered' || nextStatuses.includes('delivered'));
+  const canDispute = !openDispute && nextStatuses.includes('disputed');
+  const canReview = order.status === 'completed' && !hasReviewed;
+  const canCancel = !cancellation
+    && (order.status === 'created' || order.status === 'paid_in_escrow')
+    && (!shipment || shipment.status === 'pending' || shipment.status === 'assigned');
+  const currentStep = shipment ? shipmentSteps.findIndex((step) => step.status === shipment.status) : -1;
+  const canRefreshTracking = Boolean(shipment?.courier_reference)
+    && (shipment?.status === 'assigned' || shipment?.status === 'picked_up' || shipment?.status === 'in_transit');
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="max-w-4xl mx-auto p-4 pb-24">
+        <button
+          onClick={onBack}
+          className="mb-4 flex items-center gap-2 text-gray-600 hover:text-gray-900"
+        >
+          <ChevronLeft className="w-5 h-5" />
+          Back to orders
+        </button>
+
+        <div className="flex items-center justify-between gap-4 mb-6">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">{order.order_number}</h1>
+            <p className="text-sm text-gray-600">Placed {formatDate(order.created_at)}</p>
+          </div>
+          <OrderStatusBadge status={order.status} />
+        </div>
+
+        {message && (
+          <div className="mb-4 p-3 bg-green-50 text-green-800 rounded-lg text-sm">{message}</div>
+        )}
+        {error && (
+          <div className="mb-4 p-3 bg-red-50 text-red-700 rounded-lg text-sm">{error}</div>
+        )}
+
+        <div className="grid md:grid-cols-3 gap-6">
+          <div className="md:col-span-2 space-y-6">
+            <div className="bg-white rounded-lg shadow-sm">
+              <div className="flex items-center gap-3 p-4 border-b border-gray-200">
+                {order.seller_profiles?.logo_url ? (
+                  <img src={order.seller_profiles.logo_url} alt={order.seller_profiles.store_name} className="w-8 h-8 rounded-full" />
+                ) : (
+                  <div className="w-8 h-8 rounded-full bg-gray-200 flex items-center justify-center">
+                    <Store className="w-4 h-4 text-gray-600" />
+                  </div>
+                )}
+                <h2 className="font-semibold text-gray-900 flex-1">{order.seller_profiles?.store_name}</h2>
+                {onMessageSeller && order.buyer_id === user?.id && (
+                  <button
+                    onClick={handleMessageSeller}
+                    disabled={working}
+                    className="flex items-center gap-1 text-sm text-blue-600 font-medium disabled:opacity-50"
+                  >
+                    <MessageCircle className="w-4 h-4" />
+                    Message seller
+                  </button>
+                )}
+              </div>
+              <div className="divide-y divide-gray-200">
+                {order.order_items.map((item) => (
+                  <div key={item.id} className="flex gap-4 p-4">
+                    <div className="flex-shrink-0 w-16 h-16 rounded-lg overflow-hidden bg-gray-100 flex items-center justify-center">
+                      {item.product_snapshot?.images && item.product_snapshot.images.length > 0 ? (
+                        <img src={item.product_snapshot.images[0]} alt={item.product_snapshot.title} className="w-full h-full object-cover" />
+                      ) : (
+                        <Package className="w-6 h-6 text-gray-400" />
+                      )}
+                    </div>
+                    <div className="flex-1 min-w-0">
+                      <p className="font-medium text-gray-900">{item.product_snapshot?.title}</p>
+                      <p className="text-sm text-gray-600">
+                        {item.quantity} × {formatAmount(item.unit_price, order.currency)}
+                      </p>
+                    </div>
+                    <p className="font-semibold text-gray-900">{formatAmount(item.total_price, order.currency)}</p>
+                  </div>
+                ))}
+              </div>
+              <div className="p-4 border-t border-gray-200 space-y-1 text-sm">
+                <div className="flex justify-between">
+                  <span className="text-gray-600">Delivery ({order.delivery_method})</span>
+                  <span>{formatAmount(order.delivery_cost, order.currency)}</span>
+                </div>
+                <div className="flex justify-between font-semibold text-gray-900">
+                  <span>Total</span>
+                  <span>{formatAmount(order.total_amount, order.currency)}</span>
+                </div>
+              </div>
+            </div>
+
+            <div className="bg-white rounded-lg shadow-sm p-4">
+              <h2 className="font-semibold text-gray-900 mb-4 flex items-center gap-2">
+                <Truck className="w-5 h-5" />
+                Delivery
+              </h2>
+              {order.delivery_address && (
+                <p className="text-sm text-gray-600 mb-4">{order.delivery_address}</p>
+              )}
+              {shipment ? (
+                <>
+                  {shipment.status === 'failed' ? (
+                    <p className="text-sm text-red-600 mb-4">The delivery attempt failed. The seller will arrange another.</p>
+                  ) : shipment.status === 'cancelled' ? (
+                    <p className="text-sm text-gray-600 mb-4">The courier booking was cancelled.</p>
+                  ) : (
+                    <ol className="space-y-3 mb-4">
+                      {shipmentSteps.map((step, index) => (
+                        <li key={step.status} className="flex items-center gap-3 text-sm">
+                          {index <= currentStep ? (
+                            <CheckCircle className="w-5 h-5 text-green-600" />
+                          ) : (
+                            <Circle className="w-5 h-5 text-gray-300" />
+                          )}
+                          <span className={index <= currentStep ? 'text-gray-900 font-medium' : 'text-gray-500'}>
+                            {step.label}
+                          </span>
+                          {index === currentStep && (
+                            <span className="text-xs text-gray-500 ml-auto">{formatDate(shipment.updated_at)}</span>
+                          )}
+                        </li>
+                      ))}
+                    </ol>
+                  )}
+                  {deliveryCode && !deliveryCode.used_at
+                    && (shipment.status === 'picked_up' || shipment.status === 'in_transit') && (
+                    <div className="mb-4 p-3 bg-blue-50 rounded-lg text-sm">
+                      <p className="font-semibold text-blue-900 flex items-center gap-2">
+                        <KeyRound className="w-4 h-4" />
+                        Delivery code: <span className="font-mono tracking-widest">{deliveryCode.code}</span>
+                      </p>
+                      <p className="text-blue-800 mt-1">
+                        Give this code to the rider only once you have your parcel. It confirms you received it.
+                      </p>
+                    </div>
+                  )}
+                  {deliveryProof && (
+                    <div className="mb-4 p-3 bg-green-50 rounded-lg text-sm text-green-900 space-y-1">
+                      <p className="font-semibold">
+                        Handed over with your delivery code on {formatDate(deliveryProof.delivered_at)}
+                      </p>
+                      {deliveryProof.distance_km !== null && (
+                        <p>Confirmed {deliveryProof.distance_km} km from your delivery location</p>
+                      )}
+                      {deliveryProof.photo_url && (
+                        <a href={deliveryProof.photo_url} target="_blank" rel="noreferrer" className="text-blue-600 font-medium">
+                          View handover photo
+                        </a>
+                      )}
+                    </div>
+                  )}
+                  <div className="text-sm text-gray-600 space-y-1">
+                    {shipment.courier_name && <p>Courier: {shipment.courier_name}{shipment.courier_phone && ` (${shipment.courier_phone})`}</p>}
+                    {shipment.tracking_number && <p>Tracking number: {shipment.tracking_number}</p>}
+                    {shipment.tracking_url && (
+                      <a href={shipment.tracking_url} target="_blank" rel="noreferrer" className="text-blue-600 font-medium">
+                        Track with the courier
+                      </a>
+                    )}
+                    {shipment.eta_minutes && shipment.status === 'in_transit' && <p>Arriving in about {shipment.eta_minutes} minutes</p>}
+                  </div>
+                  {shipmentEvents.length > 0 && (
+                    <ul className="mt-4 pt-4 border-t border-gray-200 space-y-2 text-sm">
+                      {[...shipmentEvents].reverse().map((event) => (
+                        <li key={event.id} className="flex justify-between gap-4">
+                          <span className="text-gray-900">{event.description ?? event.status.replace('_', ' ')}</span>
+                          <span className="text-xs text-gray-500 whitespace-nowrap">{formatDate(event.occurred_at)}</span>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                  {canRefreshTracking && (
+                    <button
+                      onClick={handleRefreshTracking}
+                      disabled={working}
+                      className="mt-4 flex items-center gap-1 text-sm text-blue-600 font-medium disabled:opacity-50"
+                    >
+                      <RefreshCw className="w-4 h-4" />
+                      Refresh tracking
+                    </button>
+                  )}
+                </>
+              ) : (
+                <p className="text-sm text-gray-600">
+                  {order.delivery_method === 'pickup'
+                    ? 'Arrange a pickup time and place with the seller.'
+                    : 'The seller has not shipped this order yet.'}
+                </p>
+              )}
+            </div>
+
+            <div className="bg-white rounded-lg shadow-sm p-4">
+              <h2 className="font-semibold text-gray-900 mb-4">Timeline</h2>
+              <ol className="relative border-l border-gray-200 ml-2 space-y-4">
+                {history.map((entry) => (
+                  <li key={entry.id} className="ml-4">
+                    <div className="absolute -left-1.5 mt-1.5 w-3 h-3 rounded-full bg-blue-600"></div>
+                    <p className="text-sm font-medium text-gray-900">{getOrderStatusLabel(entry.to_status)}</p>
+                    <p className="text-xs text-gray-500">{formatDate(entry.created_at)}</p>
+                    {entry.reason && <p className="text-sm text-gray-600">{entry.reason}</p>}
+                  </li>
+                ))}
+              </ol>
+            </div>
+          </div>
+
+          <div className="space-y-6">
+            <div className="bg-white rounded-lg shadow-sm p-4 text-sm">
+              <h2 className="font-semibold text-gray-900 mb-3">Payment</h2>
+              {payment ? (
+                <div className="space-y-1 text-gray-600">
+                  <p className="flex justify-between">
+                    <span>Status</span>
+                    <span className="font-medium text-gray-900">{paymentStatusLabels[payment.status]}</span>
+                  </p>
+                  <p className="flex justify-between">
+                    <span>Method</span>
+                    <span>{getPaymentMethodLabel(payment.method)}</span>
+                  </p>
+                  <p className="flex justify-between">
+                    <span>Amount</span>
+                    <span>{formatAmount(payment.amount, payment.currency)}</span>
+                  </p>
+                  {payment.checkout_group_id && (
+                    <p className="text-xs text-gray-500">Paid together with your other orders from the same checkout.</p>
+                  )}
+                </div>
+              ) : (
+                <p className="text-gray-600">No payment yet.</p>
+              )}
+            </div>
+
+            {escrow && (
+              <div className="bg-white rounded-lg shadow-sm p-4 text-sm">
+                <h2 className="font-semibold text-gray-900 mb-3 flex items-center gap-2">
+                  <Shield className="w-5 h-5 text-blue-600" />
+                  Escrow
+                </h2>
+                <div className="space-y-1 text-gray-600">
+                  <p className="flex justify-between">
+                    <span>Held</span>
+                    <span>{formatAmount(escrow.amount, order.currency)}</span>
+                  </p>
+                  {escrow.released_amount > 0 && (
+                    <p className="flex justify-between">
+                      <span>Released to seller</span>
+                      <span>{formatAmount(escrow.released_amount, order.currency)}</span>
+                    </p>
+                  )}
+                  {escrow.refunded_amount > 0 && (
+                    <p className="flex justify-between">
+                      <span>Refunded to you</span>
+                      <span>{formatAmount(escrow.refunded_amount, order.currency)}</span>
+                    </p>
+                  )}
+                </div>
+                {escrow.status === 'holding' && escrow.hold_until && (
+                  <p className="mt-3 text-gray-600">
+                    Once delivered, the payment is released to the seller on {new Date(escrow.hold_until).toDateString()} unless you confirm sooner or open a dispute.
+                  </p>
+                )}
+                {escrow.status === 'frozen' && (
+                  <p className="mt-3 text-gray-600">The payment is on hold while the dispute is reviewed.</p>
+                )}
+              </div>
+            )}
+
+            {openDispute && (
+              <div className="bg-red-50 rounded-lg p-4 text-sm">
+                <p className="font-semibold text-red-800 flex items-center gap-2 mb-1">
+                  <AlertTriangle className="w-4 h-4" />
+                  Dispute {openDispute.status}
+                </p>
+                <p className="text-red-700">{openDispute.reason}</p>
+              </div>
+            )}
+
+            {cancellation && (
+              <div className="bg-gray-100 rounded-lg p-4 text-sm">
+                <p className="font-semibold text-gray-900 mb-1">
+                  Cancelled by {cancellation.actor_role === 'buyer' ? 'you' : `the ${cancellation.actor_role}`}
+                </p>
+                <p className="text-gray-700">
+                  {cancellationReasonLabels[cancellation.reason]}
+                  {cancellation.details && ` - ${cancellation.details}`}
+                </p>
+                {cancellation.refund_id && (
+                  <p className="text-gray-600 mt-1">Your payment is being returned to your original payment method.</p>
+                )}
+              </div>
+            )}
+
+            <div className="space-y-3">
+              {canConfirmDelivery && (
+                <button
+                  onClick={confirmDelivery}
+                  disabled={working}
+                  className="w-full py-3 bg-green-600 text-white rounded-lg font-semibold hover:bg-green-700 disabled:opacity-50"
+                >
+                  Confirm Delivery
+                </button>
+              )}
+
+              {canDispute && !showDisputeForm && (
+                <button
+                  onClick={() => setShowDisputeForm(true)}
+                  disabled={working}
+                  className="w-full py-3 border border-red-300 text-red-600 rounded-lg font-medium hover:bg-red-50 disabled:opacity-50"
+                >
+                  Open a Dispute
+                </button>
+              )}
+
+              {showDisputeForm && (
+                <form onSubmit={submitDispute} className="bg-white rounded-lg shadow-sm p-4 space-y-3">
+                  <label className="block text-sm font-medium text-gray-700">What went wrong?</label>
+                  <textarea
+                    value={disputeReason}
+                    onChange={(e) => setDisputeReason(e.target.value)}
+                    rows={3}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                  <div className="flex gap-2">
+                    <button
+                      type="submit"
+                      disabled={working}
+                      className="flex-1 py-2 bg-red-600 text-white rounded-lg font-medium hover:bg-red-700 disabled:opacity-50"
+                    >
+                      Submit
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => setShowDisputeForm(false)}
+                      className="flex-1 py-2 border border-gray-300 rounded-lg font-medium hover:bg-gray-50"
+                    >
+                      Cancel
+                    </button>
+                  </div>
+                </form>
+              )}
+
+              {canCancel && !showCancelForm && (
+                <button
+                  onClick={() => setShowCancelForm(true)}
+                  disabled={working}
+                  className="w-full py-3 border border-gray-300 text-gray-700 rounded-lg font-medium hover:bg-gray-50 disabled:opacity-50"
+                >
+                  Cancel Order
+                </button>
+              )}
+
+              {showCancelForm && (
+                <form onSubmit={submitCancel} className="bg-white rounded-lg shadow-sm p-4 space-y-3">
+                  <label className="block text-sm font-medium text-gray-700">Why are you cancelling?</label>
+                  <select
+                    value={cancelReason}
+                    onChange={(e) => setCancelReason(e.target.value as CancellationReason)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    {buyerCancellationReasons.map((reason) => (
+                      <option key={reason} value={reason}>{cancellationReasonLabels[reason]}</option>
+                    ))}
+                  </select>
+                  <textarea
+                    value={cancelDetails}
+                    onChange={(e) => setCancelDetails(e.target.value)}
+                    rows={2}
+                    placeholder="Anything else the seller should know (optional)"
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                  {order.status === 'paid_in_escrow' && (
+                    <p className="text-sm text-gray-600">
+                      You'll get {formatAmount(escrow?.amount ?? order.total_amount, order.currency)} back on your original payment method.
+                    </p>
+                  )}
+                  <div className="flex gap-2">
+                    <button
+                      type="submit"
+                      disabled={working}
+                      className="flex-1 py-2 bg-red-600 text-white rounded-lg font-medium hover:bg-red-700 disabled:opacity-50"
+                    >
+                      Cancel Order
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => setShowCancelForm(false)}
+                      className="flex-1 py-2 border border-gray-300 rounded-lg font-medium hover:bg-gray-50"
+                    >
+                      Keep Order
+                    </button>
+                  </div>
+                </form>
+              )}
+
+              {canReview && !showReviewForm && (
+                <button
+                  onClick={() => setShowReviewForm(true)}
+                  className="w-full py-3 border border-gray-300 rounded-lg font-medium hover:bg-gray-50"
+                >
+                  Leave a Review
+                </button>
+              )}
+
+              {showReviewForm && (
+                <form onSubmit={submitReview} className="bg-white rounded-lg shadow-sm p-4 space-y-3">
+                  <div className="flex gap-1">
+                    {[1, 2, 3, 4, 5].map((value) => (
+                      <button key={value} type="button" onClick={() => setRating(value)}>
+                        <Star className={`w-6 h-6 ${value <= rating ? 'fill-yellow-400 text-yellow-400' : 'text-gray-300'}`} />
+                      </button>
+                    ))}
+                  </div>
+                  <textarea
+                    value={reviewText}
+                    onChange={(e) => setReviewText(e.target.value)}
+                    rows={3}
+                    placeholder="How was your experience with this seller?"
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                  <div className="flex gap-2">
+                    <button
+                      type="submit"
+                      disabled={working}
+                      className="flex-1 py-2 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 disabled:opacity-50"
+                    >
+                      Post Review
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => setShowReviewForm(false)}
+                      className="flex-1 py-2 border border-gray-300 rounded-lg font-medium hover:bg-gray-50"
+                    >
+                      Cancel
+                    </button>
+                  </div>
+                </form>
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,179 @@
+import { useEffect, useState } from 'react';
+import { ChevronLeft, ChevronRight, Package, Store } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import { OrderStatusBadge } from '../components/OrderStatusBadge';
+import { readProductSnapshot, type ProductSnapshot } from '../lib/orders';
+import type { Database, OrderStatus } from '../lib/database.types';
+
+type Order = Database['public']['Tables']['orders']['Row'];
+
+type OrderSummary = Order & {
+  seller_profiles: {
+    store_name: string;
+    logo_url: string | null;
+  };
+  order_items: {
+    id: string;
+    quantity: number;
+    product_snapshot: ProductSnapshot | null;
+  }[];
+};
+
+interface OrdersPageProps {
+  onBack?: () => void;
+  onOrderClick?: (orderId: string) => void;
+}
+
+const filters: { value: OrderStatus | 'all'; label: string }[] = [
+  { value: 'all', label: 'All' },
+  { value: 'created', label: 'Awaiting payment' },
+  { value: 'paid_in_escrow', label: 'Paid' },
+  { value: 'shipped', label: 'Shipped' },
+  { value: 'delivered', label: 'Delivered' },
+  { value: 'completed', label: 'Completed' },
+  { value: 'disputed', label: 'Disputed' },
+  { value: 'refunded', label: 'Refunded' },
+  { value: 'cancelled', label: 'Cancelled' },
+];
+
+export function OrdersPage({ onBack, onOrderClick }: OrdersPageProps) {
+  const { user } = useAuth();
+  const [orders, setOrders] = useState<OrderSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [statusFilter, setStatusFilter] = useState<OrderStatus | 'all'>('all');
+
+  useEffect(() => {
+    loadOrders();
+  }, [user?.id, statusFilter]);
+
+  const loadOrders = async () => {
+    if (!user) return;
+    setLoading(true);
+
+    let query = supabase
+      .from('orders')
+      .select('*, seller_profiles(store_name, logo_url), order_items(id, quantity, product_snapshot)')
+      .eq('buyer_id', user.id)
+      .order('created_at', { ascending: false })
+      .limit(50);
+
+    if (statusFilter !== 'all') {
+      query = query.eq('status', statusFilter);
+    }
+
+    const { data } = await query;
+
+    if (data) {
+      setOrders(data.map((order) => ({
+        ...order,
+        order_items: order.order_items.map((item) => ({
+          ...item,
+          product_snapshot: readProductSnapshot(item.product_snapshot),
+        })),
+      })));
+    }
+
+    setLoading(false);
+  };
+
+  const formatPrice = (price: number) => {
+    return new Intl.NumberFormat('en-GH', {
+      style: 'currency',
+      currency: 'GHS',
+      minimumFractionDigits: 0,
+      maximumFractionDigits: 2,
+    }).format(price);
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="max-w-4xl mx-auto p-4 pb-24">
+        <button
+          onClick={onBack}
+          className="mb-4 flex items-center gap-2 text-gray-600 hover:text-gray-900"
+        >
+          <ChevronLeft className="w-5 h-5" />
+          Back
+        </button>
+
+        <h1 className="text-2xl font-bold text-gray-900 mb-4">My Orders</h1>
+
+        <div className="flex gap-2 overflow-x-auto pb-2 mb-4">
+          {filters.map((filter) => (
+            <button
+              key={filter.value}
+              onClick={() => setStatusFilter(filter.value)}
+              className={`px-4 py-2 rounded-full whitespace-nowrap text-sm font-medium transition-colors ${
+                statusFilter === filter.value
+                  ? 'bg-blue-600 text-white'
+                  : 'bg-white text-gray-700 hover:bg-gray-100'
+              }`}
+            >
+              {filter.label}
+            </button>
+          ))}
+        </div>
+
+        {loading ? (
+          <div className="flex justify-center py-12">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+          </div>
+        ) : orders.length === 0 ? (
+          <div className="bg-white rounded-lg shadow-sm p-12 text-center">
+            <Package className="w-12 h-12 text-gray-300 mx-auto mb-4" />
+            <p className="text-gray-600">
+              {statusFilter === 'all' ? "You haven't placed any orders yet" : 'No orders with this status'}
+            </p>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {orders.map((order) => {
+              const firstItem = order.order_items[0]?.product_snapshot;
+              const itemCount = order.order_items.reduce((sum, item) => sum + item.quantity, 0);
+
+              return (
+                <button
+                  key={order.id}
+                  onClick={() => onOrderClick?.(order.id)}
+                  className="w-full bg-white rounded-lg shadow-sm p-4 flex gap-4 text-left hover:shadow-md transition-shadow"
+                >
+                  <div className="flex-shrink-0 w-16 h-16 rounded-lg overflow-hidden bg-gray-100 flex items-center justify-center">
+                    {firstItem?.images && firstItem.images.length > 0 ? (
+                      <img src={firstItem.images[0]} alt={firstItem.title} className="w-full h-full object-cover" />
+                    ) : (
+                      <Package className="w-6 h-6 text-gray-400" />
+                    )}
+                  </div>
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center justify-between gap-2 mb-1">
+                      <span className="font-semibold text-gray-900">{order.order_number}</span>
+                      <OrderStatusBadge status={order.status} />
+                    </div>
+                    <p className="text-sm text-gray-700 truncate">
+                      {firstItem?.title}
+                      {order.order_items.length > 1 && ` and ${order.order_items.length - 1} more`}
+                    </p>
+                    <div className="flex items-center justify-between gap-2 mt-1 text-sm text-gray-600">
+                      <span className="flex items-center gap-1 truncate">
+                        <Store className="w-4 h-4" />
+                        {order.seller_profiles?.store_name}
+                      </span>
+                      <span>
+                        {itemCount} {itemCount === 1 ? 'item' : 'items'} · {formatPrice(order.total_amount)}
+                      </span>
+                    </div>
+                    <p className="text-xs text-gray-500 mt-1">
+                      {new Date(order.created_at).toLocaleDateString()}
+                    </p>
+                  </div>
+                  <ChevronRight className="w-5 h-5 text-gray-400 self-center" />
+                </button>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
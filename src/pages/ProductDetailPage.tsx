@@ -1,7 +1,8 @@
 import { useState, useEffect } from 'react';
-import { MapPin, Heart, Share2, MessageCircle, Star, ChevronLeft, ChevronRight, Store, Package, Shield } from 'lucide-react';
+import { MapPin, Heart, Share2, MessageCircle, Star, ChevronLeft, ChevronRight, Store, Package, Shield, ShoppingCart } from 'lucide-react';
 import { supabase } from '../lib/supabase';
 import { useAuth } from '../contexts/AuthContext';
+import { useCart } from '../contexts/CartContext';
 import type { Database } from '../lib/database.types';
 
 type Product = Database['public']['Tables']['products']['Row'];
@@ -12,15 +13,21 @@ interface ProductDetailPageProps {
   onBack?: () => void;
   onMessageSeller?: (sellerId: string) => void;
   onViewStore?: (storeSlug: string) => void;
+  onCheckout?: (cartItemIds: string[]) => void;
+  onViewCart?: () => void;
 }
 
-export function ProductDetailPage({ productId, onBack, onMessageSeller, onViewStore }: ProductDetailPageProps) {
+export function ProductDetailPage({ productId, onBack, onMessageSeller, onViewStore, onCheckout, onViewCart }: ProductDetailPageProps) {
   const { profile } = useAuth();
+  const { items: cartItems, addToCart, updateQuantity } = useCart();
   const [product, setProduct] = useState<Product | null>(null);
   const [seller, setSeller] = useState<SellerProfile | null>(null);
   const [currentImageIndex, setCurrentImageIndex] = useState(0);
   const [loading, setLoading] = useState(true);
   const [quantity, setQuantity] = useState(1);
+  const [adding, setAdding] = useState(false);
+  const [cartError, setCartError] = useState('');
+  const [addedToCart, setAddedToCart] = useState(false);
 
   useEffect(() => {
     loadProduct();
@@ -69,6 +76,48 @@ export function ProductDetailPage({ productId, onBack, onMessageSeller, onViewSt
     }).format(price);
   };
 
+  const handleAddToCart = async () => {
+    setAdding(true);
+    setCartError('');
+    const { error, itemId } = await addToCart(productId, quantity);
+    setAdding(false);
+
+    if (error) {
+      setCartError('Could not add this item to your cart');
+      return null;
+    }
+
+    setAddedToCart(true);
+    return itemId ?? null;
+  };
+
+  // Buying now checks out just this product, in exactly the quantity picked
+  // here, and leaves the rest of the cart for later.
+  const handleBuyNow = async () => {
+    const existing = cartItems.find((item) => item.product_id === productId);
+
+    if (existing) {
+      setAdding(true);
+      setCartError('');
+      const { error } = await updateQuantity(existing.id, quantity);
+      setAdding(false);
+
+      if (error) {
+        setCartError('Could not add this item to your cart');
+        return;
+      }
+
+      onCheckout?.([existing.id]);
+      return;
+    }
+
+    const itemId = await handleAddToCart();
+
+    if (itemId) {
+      onCheckout?.([itemId]);
+    }
+  };
+
   const images = product?.images && product.images.length > 0
     ? product.images
     : ['https://images.pexels.com/photos/1659438/pexels-photo-1659438.jpeg?auto=compress&cs=tinysrgb&w=1200'];
@@ -89,6 +138,9 @@ export function ProductDetailPage({ productId, onBack, onMessageSeller, onViewSt
     );
   }
 
+  const ownProduct = seller.user_id === profile?.id;
+  const canBuy = !ownProduct && product.status === 'active' && product.stock_count > 0;
+
   return (
     <div className="min-h-screen bg-gray-50">
       <div className="max-w-6xl mx-auto p-4 pb-24">
@@ -210,9 +262,21 @@ export function ProductDetailPage({ productId, onBack, onMessageSeller, onViewSt
                 </div>
               </div>
 
-              <div className="flex gap-3 mb-6">
-                <button className="flex-1 bg-blue-600 text-white py-3 rounded-lg font-semibold hover:bg-blue-700 transition-colors">
-                  Buy Now
+              <div className="flex gap-3 mb-3">
+                <button
+                  onClick={handleBuyNow}
+                  disabled={!canBuy || adding}
+                  className="flex-1 bg-blue-600 text-white py-3 rounded-lg font-semibold hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {product.stock_count > 0 ? 'Buy Now' : 'Out of Stock'}
+                </button>
+                <button
+                  onClick={handleAddToCart}
+                  disabled={!canBuy || adding}
+                  className="flex items-center gap-2 px-6 py-3 border-2 border-blue-600 text-blue-600 rounded-lg font-semibold hover:bg-blue-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                  title="Add to Cart"
+                >
+                  <ShoppingCart className="w-5 h-5" />
                 </button>
                 <button
                   onClick={() => onMessageSeller?.(seller.user_id)}
@@ -223,6 +287,23 @@ export function ProductDetailPage({ productId, onBack, onMessageSeller, onViewSt
                 </button>
               </div>
 
+              <div className="mb-6 text-sm">
+                {ownProduct && (
+                  <p className="text-gray-600">This is your own listing</p>
+                )}
+                {cartError && (
+                  <p className="text-red-600">{cartError}</p>
+                )}
+                {addedToCart && (
+                  <p className="text-green-700">
+                    Added to your cart.{' '}
+                    <button onClick={onViewCart} className="font-medium underline">
+                      View cart
+                    </button>
+                  </p>
+                )}
+              </div>
+
               <div
                 onClick={() => onViewStore?.(seller.store_slug)}
                 className="p-4 border border-gray-200 rounded-lg hover:border-blue-300 cursor-pointer transition-colors"
@@ -285,9 +366,20 @@ export function ProductDetailPage({ productId, onBack, onMessageSeller, onViewSt
 
       <div className="fixed bottom-0 left-0 right-0 bg-white border-t border-gray-200 p-4 md:hidden">
         <div className="flex gap-3">
-          <button className="flex-1 bg-blue-600 text-white py-3 rounded-lg font-semibold">
+          <button
+            onClick={handleBuyNow}
+            disabled={!canBuy || adding}
+            className="flex-1 bg-blue-600 text-white py-3 rounded-lg font-semibold disabled:opacity-50"
+          >
             Buy Now - {formatPrice(product.price * quantity)}
           </button>
+          <button
+            onClick={handleAddToCart}
+            disabled={!canBuy || adding}
+            className="p-3 border-2 border-blue-600 text-blue-600 rounded-lg disabled:opacity-50"
+          >
+            <ShoppingCart className="w-6 h-6" />
+          </button>
           <button
             onClick={() => onMessageSeller?.(seller.user_id)}
             className="p-3 border-2 border-blue-600 text-blue-600 rounded-lg"
@@ -2,7 +2,7 @@ import { useState, useEffect } from 'react';
 import { ChevronLeft, Save, X } from 'lucide-react';
 import { useAuth } from '../contexts/AuthContext';
 import { supabase } from '../lib/supabase';
-import type { Database } from '../lib/database.types';
+import type { Database, PackageSize } from '../lib/database.types';
 
 type Product = Database['public']['Tables']['products']['Row'];
 
@@ -25,6 +25,7 @@ export function ProductFormPage({ productId, onBack, onComplete }: ProductFormPa
     category: '',
     stock_count: '',
     condition: 'new' as const,
+    package_size: 'small' as PackageSize,
     images: [] as string[],
   });
 
@@ -53,6 +54,7 @@ export function ProductFormPage({ productId, onBack, onComplete }: ProductFormPa
         category: data.category,
         stock_count: data.stock_count.toString(),
         condition: data.condition as any,
+        package_size: data.package_size,
         images: data.images || [],
       });
     }
@@ -91,6 +93,7 @@ export function ProductFormPage({ productId, onBack, onComplete }: ProductFormPa
         category: formData.category,
         stock_count: parseInt(formData.stock_count),
         condition: formData.condition,
+        package_size: formData.package_size,
         images: formData.images,
         updated_at: new Date().toISOString(),
       };
@@ -252,6 +255,24 @@ export function ProductFormPage({ productId, onBack, onComplete }: ProductFormPa
                   placeholder="0"
                 />
               </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Package Size <span className="text-red-500">*</span>
+                </label>
+                <select
+                  required
+                  value={formData.package_size}
+                  onChange={(e) => setFormData({ ...formData, package_size: e.target.value as PackageSize })}
+                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  <option value="small">Small - fits on a motorbike</option>
+                  <option value="medium">Medium - shoebox to small carton</option>
+                  <option value="large">Large - needs a car</option>
+                  <option value="bulky">Bulky - needs a van</option>
+                </select>
+                <p className="mt-1 text-xs text-gray-500">Used to price courier delivery</p>
+              </div>
             </div>
 
             <div className="md:col-span-2">
@@ -0,0 +1,684 @@
+import { useEffect, useState } from 'react';
+import { CheckCircle, ChevronLeft, Crosshair, KeyRound, Package, Printer, Truck, User } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import { OrderStatusBadge } from '../components/OrderStatusBadge';
+import { PackingSlip } from '../components/PackingSlip';
+import { bookCourier, cancelOrder, confirmHandover, type CourierQuote } from '../lib/payment';
+import {
+  acceptOrders,
+  cancellationReasonLabels,
+  createOrderShipments,
+  handOverPickupOrders,
+  markOrdersShipped,
+  readProductSnapshot,
+  sellerCancellationReasons,
+  type FulfilmentResult,
+  type ProductSnapshot,
+} from '../lib/orders';
+import type { CancellationReason, Database, OrderStatus } from '../lib/database.types';
+
+type Tables = Database['public']['Tables'];
+
+type SellerOrder = Tables['orders']['Row'] & {
+  profiles: { full_name: string; phone: string } | null;
+  order_items: {
+    id: string;
+    quantity: number;
+    total_price: number;
+    product_snapshot: ProductSnapshot | null;
+  }[];
+  shipments: Tables['shipments']['Row'] | null;
+};
+
+type BulkForm = 'shipment' | 'book' | 'ship' | 'handover' | 'reject';
+
+interface SellerOrdersPageProps {
+  onBack?: () => void;
+}
+
+const filters: { value: OrderStatus | 'all'; label: string }[] = [
+  { value: 'paid_in_escrow', label: 'To fulfil' },
+  { value: 'shipped', label: 'Shipped' },
+  { value: 'delivered', label: 'Delivered' },
+  { value: 'disputed', label: 'Disputed' },
+  { value: 'completed', label: 'Completed' },
+  { value: 'all', label: 'All' },
+];
+
+export function SellerOrdersPage({ onBack }: SellerOrdersPageProps) {
+  const { user } = useAuth();
+  const [store, setStore] = useState<{ id: string; store_name: string } | null>(null);
+  const [orders, setOrders] = useState<SellerOrder[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [statusFilter, setStatusFilter] = useState<OrderStatus | 'all'>('paid_in_escrow');
+  const [selected, setSelected] = useState<string[]>([]);
+  const [action, setAction] = useState<BulkForm | null>(null);
+  const [working, setWorking] = useState(false);
+  const [message, setMessage] = useState('');
+  const [failures, setFailures] = useState<string[]>([]);
+  const [courierName, setCourierName] = useState('');
+  const [courierPhone, setCourierPhone] = useState('');
+  const [pickupAddress, setPickupAddress] = useState('');
+  const [trackingNumbers, setTrackingNumbers] = useState<Record<string, string>>({});
+  const [printing, setPrinting] = useState<SellerOrder[]>([]);
+  const [rejectReason, setRejectReason] = useState<CancellationReason>('out_of_stock');
+  const [rejectDetails, setRejectDetails] = useState('');
+  const [quotes, setQuotes] = useState<Record<string, CourierQuote | string>>({});
+  const [handoverCodes, setHandoverCodes] = useState<Record<string, string>>({});
+  const [handoverPhotos, setHandoverPhotos] = useState<Record<string, string>>({});
+  const [handoverLocation, setHandoverLocation] = useState<{ lat: number; lon: number } | null>(null);
+
+  useEffect(() => {
+    loadStore();
+  }, [user?.id]);
+
+  useEffect(() => {
+    if (store) {
+      loadOrders();
+    }
+  }, [store, statusFilter]);
+
+  useEffect(() => {
+    if (printing.length === 0) return;
+
+    window.print();
+    setPrinting([]);
+  }, [printing]);
+
+  const loadStore = async () => {
+    if (!user) return;
+
+    const { data } = await supabase
+      .from('seller_profiles')
+      .select('id, store_name')
+      .eq('user_id', user.id)
+      .maybeSingle();
+
+    setStore(data);
+    if (!data) {
+      setLoading(false);
+    }
+  };
+
+  const loadOrders = async () => {
+    if (!store) return;
+    setLoading(true);
+
+    let query = supabase
+      .from('orders')
+      .select('*, profiles(full_name, phone), order_items(id, quantity, total_price, product_snapshot), shipments(*)')
+      .eq('seller_id', store.id)
+      .limit(200);
+
+    if (statusFilter === 'all') {
+      query = query.order('created_at', { ascending: false });
+    } else {
+      // Oldest first, so the orders that have waited longest are at the top.
+      query = query.eq('status', statusFilter).order('created_at', { ascending: true });
+    }
+
+    const { data } = await query;
+
+    if (data) {
+      setOrders(data.map((order) => ({
+        ...order,
+        order_items: order.order_items.map((item) => ({
+          ...item,
+          product_snapshot: readProductSnapshot(item.product_snapshot),
+        })),
+      })));
+    }
+
+    setSelected([]);
+    setLoading(false);
+  };
+
+  const formatPrice = (price: number) => {
+    return new Intl.NumberFormat('en-GH', {
+      style: 'currency',
+      currency: 'GHS',
+      minimumFractionDigits: 0,
+      maximumFractionDigits: 2,
+    }).format(price);
+  };
+
+  const toggle = (orderId: string) => {
+    setSelected((current) => current.includes(orderId)
+      ? current.filter((id) => id !== orderId)
+      : [...current, orderId]);
+  };
+
+  const selectedOrders = orders.filter((order) => selected.includes(order.id));
+  const courierOrders = selectedOrders.filter((order) => order.delivery_method === 'courier');
+  const pickupOrders = selectedOrders.filter((order) => order.delivery_method === 'pickup');
+  const pending = selectedOrders.filter((order) => order.status === 'paid_in_escrow');
+  const bookable = courierOrders.filter((order) => order.status === 'paid_in_escrow'
+    && (!order.shipments || order.shipments.status === 'pending' || order.shipments.status === 'cancelled'));
+  const outForDelivery = courierOrders.filter((order) => order.status === 'shipped'
+    && (order.shipments?.status === 'picked_up' || order.shipments?.status === 'in_transit'));
+  const quotedTotal = bookable.reduce((sum, order) => {
+    const quote = quotes[order.id];
+    return typeof quote === 'object' ? sum + quote.cost : sum;
+  }, 0);
+
+  const showResults = (results: FulfilmentResult[], error: string | undefined, done: string) => {
+    if (error) {
+      setFailures([error]);
+      return;
+    }
+
+    const succeeded = results.filter((result) => result.success).length;
+    setMessage(`${succeeded} ${succeeded === 1 ? 'order' : 'orders'} ${done}`);
+    setFailures(results.filter((result) => !result.success).map((result) => result.error || 'Failed'));
+  };
+
+  const runBulk = async (run: () => Promise<{ results: FulfilmentResult[]; error?: string }>, done: string) => {
+    setWorking(true);
+    setMessage('');
+    setFailures([]);
+
+    const { results, error } = await run();
+    showResults(results, error, done);
+
+    setAction(null);
+    setWorking(false);
+    await loadOrders();
+  };
+
+  const submitShipments = (e: React.FormEvent) => {
+    e.preventDefault();
+    runBulk(() => createOrderShipments(courierOrders.map((order) => order.id), {
+      courierName,
+      courierPhone,
+      pickupAddress,
+    }), 'ready for the courier');
+  };
+
+  const submitShipped = (e: React.FormEvent) => {
+    e.preventDefault();
+    runBulk(() => markOrdersShipped(courierOrders.map((order) => ({
+      orderId: order.id,
+      trackingNumber: trackingNumbers[order.id] ?? order.shipments?.tracking_number ?? '',
+      courierName: courierName || order.shipments?.courier_name || undefined,
+    }))), 'marked as shipped');
+  };
+
+  const openBookForm = async () => {
+    if (action === 'book') {
+      setAction(null);
+      return;
+    }
+
+    setAction('book');
+    setQuotes({});
+
+    const loaded: Record<string, CourierQuote | string> = {};
+
+    for (const order of bookable) {
+      const result = await bookCourier(order.id, true);
+      loaded[order.id] = result.quote ?? result.error ?? 'No quote';
+      setQuotes({ ...loaded });
+    }
+  };
+
+  // Each booking is a call to the courier, so they are made one at a time.
+  const submitBook = (e: React.FormEvent) => {
+    e.preventDefault();
+    runBulk(async () => {
+      const results: FulfilmentResult[] = [];
+
+      for (const order of bookable) {
+        const result = await bookCourier(order.id);
+        results.push({
+          order_id: order.id,
+          success: result.success,
+          error: result.error && `${order.order_number}: ${result.error}`,
+        });
+      }
+
+      return { results };
+    }, 'booked with the courier');
+  };
+
+  const attachLocation = () => {
+    if (!navigator.geolocation) {
+      setFailures(['Your browser cannot share its location']);
+      return;
+    }
+
+    navigator.geolocation.getCurrentPosition(
+      (position) => {
+        setHandoverLocation({
+          lat: position.coords.latitude,
+          lon: position.coords.longitude,
+        });
+      },
+      (error) => {
+        console.error('Error getting location:', error);
+        setFailures(['We could not get your location']);
+      }
+    );
+  };
+
+  // Only orders with a code entered are confirmed; the rest are left as they are.
+  const submitHandover = (e: React.FormEvent) => {
+    e.preventDefault();
+    runBulk(async () => {
+      const results: FulfilmentResult[] = [];
+
+      for (const order of outForDelivery.filter((candidate) => handoverCodes[candidate.id]?.trim())) {
+        const result = await confirmHandover({
+          orderId: order.id,
+          code: handoverCodes[order.id].trim(),
+          photoUrl: handoverPhotos[order.id]?.trim() || undefined,
+          lat: handoverLocation?.lat,
+          lon: handoverLocation?.lon,
+        });
+        const attempts = result.attemptsLeft !== undefined ? ` (${result.attemptsLeft} attempts left)` : '';
+
+        results.push({
+          order_id: order.id,
+          success: result.success,
+          error: result.error && `${order.order_number}: ${result.error}${attempts}`,
+        });
+      }
+
+      setHandoverCodes({});
+      setHandoverPhotos({});
+      return { results };
+    }, 'delivered');
+  };
+
+  // Rejecting refunds the buyer through the payment provider, so orders are
+  // cancelled one at a time rather than in a single database call.
+  const submitReject = (e: React.FormEvent) => {
+    e.preventDefault();
+    runBulk(async () => {
+      const results: FulfilmentResult[] = [];
+
+      for (const order of pending) {
+        const result = await cancelOrder(order.id, rejectReason, rejectDetails.trim() || undefined);
+        results.push({
+          order_id: order.id,
+          success: result.success,
+          error: result.error && `${order.order_number}: ${result.error}`,
+        });
+      }
+
+      return { results };
+    }, 'rejected');
+  };
+
+  if (!loading && !store) {
+    return (
+      <div className="min-h-screen flex flex-col items-center justify-center gap-4">
+        <p className="text-gray-600">Set up your store to start receiving orders.</p>
+        <button onClick={onBack} className="text-blue-600 font-medium">Back</button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="hidden print:block">
+        {printing.map((order) => (
+          <PackingSlip key={order.id} storeName={store?.store_name ?? ''} order={order} />
+        ))}
+      </div>
+
+      <div className="max-w-5xl mx-auto p-4 pb-32 print:hidden">
+        <button
+          onClick={onBack}
+          className="mb-4 flex items-center gap-2 text-gray-600 hover:text-gray-900"
+        >
+          <ChevronLeft className="w-5 h-5" />
+          Back
+        </button>
+
+        <h1 className="text-2xl font-bold text-gray-900 mb-4">Orders</h1>
+
+        <div className="flex gap-2 overflow-x-auto pb-2 mb-4">
+          {filters.map((filter) => (
+            <button
+              key={filter.value}
+              onClick={() => setStatusFilter(filter.value)}
+              className={`px-4 py-2 rounded-full whitespace-nowrap text-sm font-medium transition-colors ${
+                statusFilter === filter.value
+                  ? 'bg-blue-600 text-white'
+                  : 'bg-white text-gray-700 hover:bg-gray-100'
+              }`}
+            >
+              {filter.label}
+            </button>
+          ))}
+        </div>
+
+        {message && (
+          <div className="mb-4 p-3 bg-green-50 text-green-800 rounded-lg text-sm">{message}</div>
+        )}
+        {failures.length > 0 && (
+          <div className="mb-4 p-3 bg-red-50 text-red-700 rounded-lg text-sm space-y-1">
+            {failures.map((failure, index) => (
+              <p key={index}>{failure}</p>
+            ))}
+          </div>
+        )}
+
+        {loading ? (
+          <div className="flex justify-center py-12">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+          </div>
+        ) : orders.length === 0 ? (
+          <div className="bg-white rounded-lg shadow-sm p-12 text-center">
+            <Package className="w-12 h-12 text-gray-300 mx-auto mb-4" />
+            <p className="text-gray-600">
+              {statusFilter === 'paid_in_escrow' ? 'Nothing to fulfil right now' : 'No orders with this status'}
+            </p>
+          </div>
+        ) : (
+          <>
+            <label className="flex items-center gap-2 mb-3 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={selected.length === orders.length}
+                onChange={() => setSelected(selected.length === orders.length ? [] : orders.map((order) => order.id))}
+                className="w-4 h-4"
+              />
+              Select all ({orders.length})
+            </label>
+
+            <div className="space-y-3">
+              {orders.map((order) => (
+                <div key={order.id} className="bg-white rounded-lg shadow-sm p-4 flex gap-4">
+                  <input
+                    type="checkbox"
+                    checked={selected.includes(order.id)}
+                    onChange={() => toggle(order.id)}
+                    className="w-4 h-4 mt-1"
+                  />
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center justify-between gap-2 mb-2">
+                      <div className="flex items-center gap-2">
+                        <span className="font-semibold text-gray-900">{order.order_number}</span>
+                        {order.accepted_at && order.status === 'paid_in_escrow' && (
+                          <span className="text-xs text-green-700 flex items-center gap-1">
+                            <CheckCircle className="w-3 h-3" />
+                            Accepted
+                          </span>
+                        )}
+                      </div>
+                      <OrderStatusBadge status={order.status} />
+                    </div>
+
+                    <div className="grid sm:grid-cols-2 gap-2 text-sm text-gray-600">
+                      <div className="flex items-start gap-2">
+                        <User className="w-4 h-4 mt-0.5 flex-shrink-0" />
+                        <span>
+                          {order.profiles?.full_name} · {order.profiles?.phone}
+                          {order.delivery_method === 'courier' && order.delivery_address && (
+                            <span className="block">{order.delivery_address}</span>
+                          )}
+                        </span>
+                      </div>
+                      <div className="flex items-start gap-2">
+                        <Truck className="w-4 h-4 mt-0.5 flex-shrink-0" />
+                        <span>
+                          {order.delivery_method === 'pickup' ? 'Buyer collects' : 'Courier'}
+                          {order.shipments && (
+                            <span className="block">
+                              Shipment {order.shipments.status.replace('_', ' ')}
+                              {order.shipments.courier_name && ` with ${order.shipments.courier_name}`}
+                              {order.shipments.tracking_number && ` · ${order.shipments.tracking_number}`}
+                            </span>
+                          )}
+                        </span>
+                      </div>
+                    </div>
+
+                    <ul className="mt-2 text-sm text-gray-700">
+                      {order.order_items.map((item) => (
+                        <li key={item.id}>
+                          {item.quantity} × {item.product_snapshot?.title}
+                        </li>
+                      ))}
+                    </ul>
+
+                    <div className="flex items-center justify-between mt-2 text-sm">
+                      <span className="text-gray-500">{new Date(order.created_at).toLocaleString('en-GH')}</span>
+                      <span className="font-semibold text-gray-900">{formatPrice(order.total_amount)}</span>
+                    </div>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </>
+        )}
+      </div>
+
+      {selected.length > 0 && (
+        <div className="fixed bottom-0 inset-x-0 bg-white border-t border-gray-200 shadow-lg print:hidden">
+          <div className="max-w-5xl mx-auto p-4">
+            {action === 'shipment' && (
+              <form onSubmit={submitShipments} className="grid sm:grid-cols-4 gap-2 mb-3">
+                <input
+                  value={courierName}
+                  onChange={(e) => setCourierName(e.target.value)}
+                  placeholder="Courier (e.g. VIP Bus)"
+                  className="px-3 py-2 border border-gray-300 rounded-lg"
+                />
+                <input
+                  value={courierPhone}
+                  onChange={(e) => setCourierPhone(e.target.value)}
+                  placeholder="Courier phone"
+                  className="px-3 py-2 border border-gray-300 rounded-lg"
+                />
+                <input
+                  value={pickupAddress}
+                  onChange={(e) => setPickupAddress(e.target.value)}
+                  placeholder="Pickup address"
+                  className="px-3 py-2 border border-gray-300 rounded-lg"
+                />
+                <button
+                  type="submit"
+                  disabled={working || courierOrders.length === 0}
+                  className="py-2 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 disabled:opacity-50"
+                >
+                  Create {courierOrders.length} {courierOrders.length === 1 ? 'shipment' : 'shipments'}
+                </button>
+              </form>
+            )}
+
+            {action === 'book' && (
+              <form onSubmit={submitBook} className="mb-3 space-y-2 max-h-64 overflow-y-auto">
+                {bookable.map((order) => {
+                  const quote = quotes[order.id];
+
+                  return (
+                    <div key={order.id} className="flex items-center justify-between gap-2 text-sm">
+                      <span className="font-medium text-gray-900">{order.order_number}</span>
+                      {quote === undefined ? (
+                        <span className="text-gray-500">Getting quote...</span>
+                      ) : typeof quote === 'string' ? (
+                        <span className="text-red-600">{quote}</span>
+                      ) : (
+                        <span className="text-gray-700">
+                          {formatPrice(quote.cost)} · about {quote.etaMinutes} min
+                        </span>
+                      )}
+                    </div>
+                  );
+                })}
+                <button
+                  type="submit"
+                  disabled={working || bookable.length === 0}
+                  className="w-full py-2 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 disabled:opacity-50"
+                >
+                  Book courier for {bookable.length} ({formatPrice(quotedTotal)})
+                </button>
+              </form>
+            )}
+
+            {action === 'ship' && (
+              <form onSubmit={submitShipped} className="mb-3 space-y-2 max-h-64 overflow-y-auto">
+                {courierOrders.map((order) => (
+                  <div key={order.id} className="flex items-center gap-2">
+                    <span className="w-40 text-sm font-medium text-gray-900">{order.order_number}</span>
+                    <input
+                      value={trackingNumbers[order.id] ?? order.shipments?.tracking_number ?? ''}
+                      onChange={(e) => setTrackingNumbers({ ...trackingNumbers, [order.id]: e.target.value })}
+                      placeholder="Tracking number"
+                      required
+                      className="flex-1 px-3 py-2 border border-gray-300 rounded-lg"
+                    />
+                  </div>
+                ))}
+                <button
+                  type="submit"
+                  disabled={working || courierOrders.length === 0}
+                  className="w-full py-2 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 disabled:opacity-50"
+                >
+                  Mark {courierOrders.length} shipped
+                </button>
+              </form>
+            )}
+
+            {action === 'handover' && (
+              <form onSubmit={submitHandover} className="mb-3 space-y-2 max-h-64 overflow-y-auto">
+                <p className="text-sm text-gray-600">
+                  Ask the buyer for the delivery code on their order page once they have the parcel.
+                </p>
+                {outForDelivery.map((order) => (
+                  <div key={order.id} className="grid sm:grid-cols-3 gap-2 items-center">
+                    <span className="text-sm font-medium text-gray-900">{order.order_number}</span>
+                    <input
+                      value={handoverCodes[order.id] ?? ''}
+                      onChange={(e) => setHandoverCodes({ ...handoverCodes, [order.id]: e.target.value })}
+                      placeholder="Buyer's delivery code"
+                      inputMode="numeric"
+                      maxLength={6}
+                      className="px-3 py-2 border border-gray-300 rounded-lg font-mono"
+                    />
+                    <input
+                      type="url"
+                      value={handoverPhotos[order.id] ?? ''}
+                      onChange={(e) => setHandoverPhotos({ ...handoverPhotos, [order.id]: e.target.value })}
+                      placeholder="Photo link (optional)"
+                      className="px-3 py-2 border border-gray-300 rounded-lg"
+                    />
+                  </div>
+                ))}
+                <div className="flex items-center gap-2">
+                  <button
+                    type="button"
+                    onClick={attachLocation}
+                    className="flex items-center gap-1 px-4 py-2 border border-gray-300 rounded-lg text-sm font-medium hover:bg-gray-50"
+                  >
+                    <Crosshair className="w-4 h-4" />
+                    {handoverLocation ? 'Location attached' : 'Attach my location'}
+                  </button>
+                  <button
+                    type="submit"
+                    disabled={working || !outForDelivery.some((order) => handoverCodes[order.id]?.trim())}
+                    className="flex-1 py-2 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 disabled:opacity-50"
+                  >
+                    Confirm delivery
+                  </button>
+                </div>
+              </form>
+            )}
+
+            {action === 'reject' && (
+              <form onSubmit={submitReject} className="grid sm:grid-cols-4 gap-2 mb-3">
+                <select
+                  value={rejectReason}
+                  onChange={(e) => setRejectReason(e.target.value as CancellationReason)}
+                  className="px-3 py-2 border border-gray-300 rounded-lg"
+                >
+                  {sellerCancellationReasons.map((reason) => (
+                    <option key={reason} value={reason}>{cancellationReasonLabels[reason]}</option>
+                  ))}
+                </select>
+                <input
+                  value={rejectDetails}
+                  onChange={(e) => setRejectDetails(e.target.value)}
+                  placeholder="Message to the buyer (optional)"
+                  className="sm:col-span-2 px-3 py-2 border border-gray-300 rounded-lg"
+                />
+                <button
+                  type="submit"
+                  disabled={working || pending.length === 0}
+                  className="py-2 bg-red-600 text-white rounded-lg font-medium hover:bg-red-700 disabled:opacity-50"
+                >
+                  Reject and refund {pending.length}
+                </button>
+              </form>
+            )}
+
+            <div className="flex flex-wrap items-center gap-2">
+              <span className="text-sm text-gray-700 mr-auto">{selected.length} selected</span>
+              <button
+                onClick={() => setPrinting(selectedOrders)}
+                className="flex items-center gap-1 px-4 py-2 border border-gray-300 rounded-lg text-sm font-medium hover:bg-gray-50"
+              >
+                <Printer className="w-4 h-4" />
+                Packing slips
+              </button>
+              <button
+                onClick={() => runBulk(() => acceptOrders(pending.map((order) => order.id)), 'accepted')}
+                disabled={working || pending.length === 0}
+                className="px-4 py-2 border border-gray-300 rounded-lg text-sm font-medium hover:bg-gray-50 disabled:opacity-50"
+              >
+                Accept
+              </button>
+              <button
+                onClick={() => setAction(action === 'reject' ? null : 'reject')}
+                disabled={working || pending.length === 0}
+                className="px-4 py-2 border border-red-300 text-red-600 rounded-lg text-sm font-medium hover:bg-red-50 disabled:opacity-50"
+              >
+                Reject
+              </button>
+              <button
+                onClick={() => setAction(action === 'shipment' ? null : 'shipment')}
+                disabled={working || courierOrders.length === 0}
+                className="px-4 py-2 border border-gray-300 rounded-lg text-sm font-medium hover:bg-gray-50 disabled:opacity-50"
+              >
+                Create shipment
+              </button>
+              <button
+                onClick={openBookForm}
+                disabled={working || bookable.length === 0}
+                className="flex items-center gap-1 px-4 py-2 border border-gray-300 rounded-lg text-sm font-medium hover:bg-gray-50 disabled:opacity-50"
+              >
+                <Truck className="w-4 h-4" />
+                Book courier
+              </button>
+              <button
+                onClick={() => setAction(action === 'ship' ? null : 'ship')}
+                disabled={working || courierOrders.length === 0}
+                className="px-4 py-2 border border-gray-300 rounded-lg text-sm font-medium hover:bg-gray-50 disabled:opacity-50"
+              >
+                Mark shipped
+              </button>
+              <button
+                onClick={() => setAction(action === 'handover' ? null : 'handover')}
+                disabled={working || outForDelivery.length === 0}
+                className="flex items-center gap-1 px-4 py-2 border border-gray-300 rounded-lg text-sm font-medium hover:bg-gray-50 disabled:opacity-50"
+              >
+                <KeyRound className="w-4 h-4" />
+                Confirm handover
+              </button>
+              <button
+                onClick={() => runBulk(() => handOverPickupOrders(pickupOrders.map((order) => order.id)), 'handed over')}
+                disabled={working || pickupOrders.length === 0}
+                className="px-4 py-2 bg-blue-600 text-white rounded-lg text-sm font-medium hover:bg-blue-700 disabled:opacity-50"
+              >
+                Handed over
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
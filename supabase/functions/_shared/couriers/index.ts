@@ -0,0 +1,37 @@
+import { mockCourierAdapter } from './mock.ts';
+import type { CourierAdapter } from './types.ts';
+
+export type * from './types.ts';
+
+function availableAdapters(): CourierAdapter[] {
+  const adapters: CourierAdapter[] = [];
+
+  if (Deno.env.get('COURIER_MOCK_ENABLED') === 'true') {
+    adapters.push(mockCourierAdapter);
+  }
+
+  return adapters;
+}
+
+export function getCourierAdapter(provider: string): CourierAdapter | null {
+  return availableAdapters().find((adapter) => adapter.name === provider) ?? null;
+}
+
+export function getCourierWebhookAdapter(headers: Headers): CourierAdapter | null {
+  return availableAdapters().find((adapter) => adapter.matchesWebhook(headers)) ?? null;
+}
+
+/**
+ * The courier new shipments are booked with, from `COURIER_PROVIDER`
+ * (defaults to the mock courier).
+ */
+export function getDefaultCourierAdapter(): CourierAdapter {
+  const provider = Deno.env.get('COURIER_PROVIDER') ?? 'mock';
+  const adapter = getCourierAdapter(provider);
+
+  if (!adapter) {
+    throw new Error(`Courier ${provider} is not available`);
+  }
+
+  return adapter;
+}
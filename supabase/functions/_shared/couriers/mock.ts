@@ -0,0 +1,181 @@
+import { createHmac } from 'node:crypto';
+import type { CourierAdapter, CourierUpdate, Location, ShipmentStatus } from './types.ts';
+
+interface MockCourierWebhook {
+  id: string;
+  event: string;
+  data: {
+    reference: string;
+    status: string;
+    occurred_at: string;
+    description?: string;
+    eta_minutes?: number;
+    rider_name?: string;
+    rider_phone?: string;
+    lat?: number;
+    lon?: number;
+    handover_code?: string;
+    photo_url?: string;
+  };
+}
+
+const RIDER_NAME = 'Kofi Mensah (Mock Rider)';
+const RIDER_PHONE = '0240000000';
+
+// Used when either end of the trip has no coordinates.
+const DEFAULT_DISTANCE_KM = 5;
+
+const progress: { status: ShipmentStatus; description: string }[] = [
+  { status: 'assigned', description: 'Rider assigned' },
+  { status: 'picked_up', description: 'Parcel collected from the seller' },
+  { status: 'in_transit', description: 'On the way to the buyer' },
+];
+
+const webhookStatuses: Record<string, ShipmentStatus> = {
+  assigned: 'assigned',
+  picked_up: 'picked_up',
+  in_transit: 'in_transit',
+  delivered: 'delivered',
+  failed: 'failed',
+  cancelled: 'cancelled',
+};
+
+function mockSecret() {
+  return Deno.env.get('MOCK_WEBHOOK_SECRET') ?? 'mock_secret';
+}
+
+function stepMs() {
+  return Number(Deno.env.get('MOCK_COURIER_STEP_SECONDS') ?? 60) * 1000;
+}
+
+function distanceKm(from: Location, to: Location) {
+  if (from.lat == null || from.lon == null || to.lat == null || to.lon == null) {
+    return DEFAULT_DISTANCE_KM;
+  }
+
+  const toRadians = (degrees: number) => (Number(degrees) * Math.PI) / 180;
+  const dLat = toRadians(to.lat - from.lat);
+  const dLon = toRadians(to.lon - from.lon);
+  const a = Math.sin(dLat / 2) ** 2
+    + Math.cos(toRadians(from.lat)) * Math.cos(toRadians(to.lat)) * Math.sin(dLon / 2) ** 2;
+
+  return 6371 * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+}
+
+export function signMockCourierWebhook(rawBody: string) {
+  return createHmac('sha512', mockSecret()).update(rawBody).digest('hex');
+}
+
+/**
+ * Simulated courier for local development, enabled with
+ * `COURIER_MOCK_ENABLED=true`. Quotes are priced from the straight-line
+ * distance between the two ends, and a booking moves one step along
+ * assigned -> picked_up -> in_transit every `MOCK_COURIER_STEP_SECONDS` (60
+ * by default) as it is tracked. The simulated rider doesn't know the buyer's
+ * handover code, so it stays in transit until the code is entered with
+ * `delivery-confirm` or sent in a `delivered` webhook. Setting
+ * `MOCK_COURIER_OUTCOME=failed` makes it fail the delivery instead. Webhooks
+ * can be sent by hand, signed with `signMockCourierWebhook`.
+ */
+export const mockCourierAdapter: CourierAdapter = {
+  name: 'mock',
+
+  async quote({ pickup, dropoff }) {
+    const km = distanceKm(pickup, dropoff);
+    const costPesewas = Math.round((10 + 2.5 * km) * 100);
+    const etaMinutes = Math.round(20 + 4 * km);
+
+    return {
+      quoteId: `MOCK-QTE-${costPesewas}-${etaMinutes}`,
+      cost: costPesewas / 100,
+      currency: 'GHS',
+      etaMinutes,
+    };
+  },
+
+  async book({ quoteId, reference }) {
+    const [costPesewas, etaMinutes] = quoteId.replace('MOCK-QTE-', '').split('-').map(Number);
+
+    if (!Number.isFinite(costPesewas) || !Number.isFinite(etaMinutes)) {
+      throw new Error('Unknown quote');
+    }
+
+    return {
+      courierReference: `MOCK-DLV-${reference}`,
+      trackingNumber: `MCK${reference.replaceAll('-', '').slice(0, 10).toUpperCase()}`,
+      cost: costPesewas / 100,
+      etaMinutes,
+    };
+  },
+
+  async cancel() {
+    // Nothing to undo; the simulated booking only exists in the shipment row.
+  },
+
+  async track({ courier_reference, booked_at, eta_minutes }) {
+    const bookedAt = new Date(booked_at).getTime();
+    const failed = Deno.env.get('MOCK_COURIER_OUTCOME') === 'failed';
+    const lastStep = failed ? progress.length : progress.length - 1;
+    const step = Math.min(Math.floor((Date.now() - bookedAt) / stepMs()), lastStep);
+    const occurredAt = new Date(bookedAt + step * stepMs()).toISOString();
+
+    const update: Omit<CourierUpdate, 'eventId' | 'status'> = {
+      courierReference: courier_reference,
+      occurredAt,
+      riderName: RIDER_NAME,
+      riderPhone: RIDER_PHONE,
+    };
+
+    if (step === progress.length) {
+      return {
+        ...update,
+        eventId: `${courier_reference}:failed`,
+        status: 'failed',
+        description: 'Buyer could not be reached',
+        etaMinutes: 0,
+      };
+    }
+
+    const remainingSteps = progress.length - step;
+
+    return {
+      ...update,
+      eventId: `${courier_reference}:${progress[step].status}`,
+      status: progress[step].status,
+      description: progress[step].description,
+      etaMinutes: eta_minutes == null ? null : Math.ceil((eta_minutes * remainingSteps) / progress.length),
+    };
+  },
+
+  matchesWebhook(headers) {
+    return headers.has('x-mock-courier-signature');
+  },
+
+  verifyWebhookSignature(rawBody, headers) {
+    return signMockCourierWebhook(rawBody) === headers.get('x-mock-courier-signature');
+  },
+
+  parseWebhook(body) {
+    const { id, event, data } = body as MockCourierWebhook;
+    const status = webhookStatuses[data?.status];
+
+    if (event !== 'delivery.status' || !status) {
+      return null;
+    }
+
+    return {
+      eventId: id,
+      courierReference: data.reference,
+      status,
+      occurredAt: data.occurred_at,
+      description: data.description,
+      etaMinutes: data.eta_minutes ?? null,
+      riderName: data.rider_name ?? null,
+      riderPhone: data.rider_phone ?? null,
+      lat: data.lat ?? null,
+      lon: data.lon ?? null,
+      handoverCode: data.handover_code ?? null,
+      photoUrl: data.photo_url ?? null,
+    };
+  },
+};
@@ -0,0 +1,88 @@
+export type CourierProvider = 'mock';
+
+export type ShipmentStatus =
+  | 'pending'
+  | 'assigned'
+  | 'picked_up'
+  | 'in_transit'
+  | 'delivered'
+  | 'failed'
+  | 'cancelled';
+
+export interface Location {
+  address: string | null;
+  lat?: number | null;
+  lon?: number | null;
+  handoverCode?: string | null;
+  photoUrl?: string | null;
+}
+
+export interface QuoteParams {
+  pickup: Location;
+  dropoff: Location;
+}
+
+export interface CourierQuote {
+  quoteId: string;
+  cost: number;
+  currency: string;
+  etaMinutes: number;
+}
+
+export interface BookParams {
+  quoteId: string;
+  // Our shipment ID, passed to the courier so it can be echoed back.
+  reference: string;
+  pickup: Location & { contactName: string; contactPhone: string | null };
+  dropoff: Location & { contactName: string; contactPhone: string | null };
+  notes?: string | null;
+}
+
+export interface CourierBooking {
+  courierReference: string;
+  trackingNumber: string;
+  cost: number;
+  etaMinutes: number;
+  trackingUrl?: string;
+}
+
+export interface TrackedShipment {
+  courier_reference: string;
+  booked_at: string;
+  eta_minutes: number | null;
+}
+
+/**
+ * A progress report from the courier. `eventId` must be the same every time
+ * the courier reports the same change, whether it arrives by webhook or from
+ * `track`, so repeated reports are recorded once. A `delivered` report is
+ * only applied with the code the buyer gave the rider in `handoverCode`.
+ */
+export interface CourierUpdate {
+  eventId: string;
+  courierReference: string;
+  status: ShipmentStatus;
+  occurredAt: string;
+  description?: string;
+  etaMinutes?: number | null;
+  riderName?: string | null;
+  riderPhone?: string | null;
+  lat?: number | null;
+  lon?: number | null;
+}
+
+/**
+ * Everything shipments need from a courier. `book` must be given a quote from
+ * the same adapter, and `track` returns the courier's latest view of a
+ * booking for couriers (or deliveries) that don't send webhooks.
+ */
+export interface CourierAdapter {
+  name: CourierProvider;
+  quote(params: QuoteParams): Promise<CourierQuote>;
+  book(params: BookParams): Promise<CourierBooking>;
+  cancel(courierReference: string): Promise<void>;
+  track(shipment: TrackedShipment): Promise<CourierUpdate | null>;
+  matchesWebhook(headers: Headers): boolean;
+  verifyWebhookSignature(rawBody: string, headers: Headers): boolean;
+  parseWebhook(body: unknown): CourierUpdate | null;
+}
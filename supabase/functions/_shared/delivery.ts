@@ -0,0 +1,166 @@
+import type { SupabaseClient } from 'npm:@supabase/supabase-js@2.57.4';
+import { toMinorUnits } from './orders.ts';
+
+export const PACKAGE_SIZES = ['small', 'medium', 'large', 'bulky'] as const;
+
+export type PackageSize = typeof PACKAGE_SIZES[number];
+export type DeliverySpeed = 'standard' | 'express';
+
+export interface Coordinates {
+  lat: number;
+  lon: number;
+}
+
+interface RateBand {
+  max_km: number | null;
+  fee: number;
+  eta_minutes: number;
+}
+
+interface RegionSurcharge {
+  id: string;
+  name: string;
+  lat: number;
+  lon: number;
+  radius_km: number;
+  surcharge: number;
+  extra_eta_minutes: number;
+}
+
+export interface DeliveryOption {
+  speed: DeliverySpeed;
+  packageSize: PackageSize;
+  distanceKm: number | null;
+  regionSurchargeId: string | null;
+  region: string | null;
+  distanceFee: number;
+  regionSurcharge: number;
+  packageSurcharge: number;
+  amount: number;
+  etaMinutes: number;
+}
+
+// Roads are rarely straight; this turns the great-circle distance into a
+// rough road distance.
+const ROAD_DISTANCE_FACTOR = 1.3;
+
+function expressMaxKm() {
+  return Number(Deno.env.get('EXPRESS_DELIVERY_MAX_KM') ?? 40);
+}
+
+function expressMultiplier() {
+  return Number(Deno.env.get('EXPRESS_DELIVERY_MULTIPLIER') ?? 1.5);
+}
+
+export function straightLineKm(from: Coordinates, to: Coordinates) {
+  const toRadians = (degrees: number) => (Number(degrees) * Math.PI) / 180;
+  const dLat = toRadians(to.lat - from.lat);
+  const dLon = toRadians(to.lon - from.lon);
+  const a = Math.sin(dLat / 2) ** 2
+    + Math.cos(toRadians(from.lat)) * Math.cos(toRadians(to.lat)) * Math.sin(dLon / 2) ** 2;
+
+  return 6371 * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+}
+
+/**
+ * The package size a store's parcel is charged at: that of its largest item.
+ */
+export function largestPackageSize(sizes: (string | null | undefined)[]): PackageSize {
+  return sizes.reduce<PackageSize>((largest, size) => {
+    const index = PACKAGE_SIZES.indexOf((size ?? 'small') as PackageSize);
+    return index > PACKAGE_SIZES.indexOf(largest) ? PACKAGE_SIZES[index] : largest;
+  }, 'small');
+}
+
+/**
+ * How long a quote can be used to check out, configurable with
+ * `DELIVERY_QUOTE_MINUTES`.
+ */
+export function quoteExpiry(from = new Date()) {
+  const minutes = Number(Deno.env.get('DELIVERY_QUOTE_MINUTES') ?? 30);
+  return new Date(from.getTime() + minutes * 60 * 1000).toISOString();
+}
+
+/**
+ * Prices delivering one store's parcel from the seller to the buyer using
+ * the active rate tables: the fee of the distance band the trip falls in,
+ * plus the surcharge of the region the buyer is in (the highest if several
+ * overlap) and of the parcel's package size. Standard delivery is always
+ * offered; express costs `EXPRESS_DELIVERY_MULTIPLIER` times as much, takes
+ * half as long and is only offered for trips up to `EXPRESS_DELIVERY_MAX_KM`.
+ * Without a pickup location the distance is unknown and the widest band
+ * applies.
+ */
+export async function priceDelivery(
+  supabase: SupabaseClient,
+  { pickup, dropoff, packageSize }: { pickup: Coordinates | null; dropoff: Coordinates; packageSize: PackageSize },
+): Promise<DeliveryOption[]> {
+  const [{ data: bands, error: bandsError }, { data: regions, error: regionsError }, { data: packageRate }] =
+    await Promise.all([
+      supabase
+        .from('delivery_rate_bands')
+        .select('max_km, fee, eta_minutes')
+        .eq('active', true),
+      supabase
+        .from('delivery_region_surcharges')
+        .select('id, name, lat, lon, radius_km, surcharge, extra_eta_minutes')
+        .eq('active', true),
+      supabase
+        .from('delivery_package_rates')
+        .select('surcharge')
+        .eq('package_size', packageSize)
+        .maybeSingle(),
+    ]);
+
+  if (bandsError || regionsError) {
+    throw bandsError ?? regionsError;
+  }
+
+  const distanceKm = pickup
+    ? Math.round(straightLineKm(pickup, dropoff) * ROAD_DISTANCE_FACTOR * 10) / 10
+    : null;
+
+  // Bands without a limit sort last, so an unknown distance lands in them.
+  const band = ((bands ?? []) as RateBand[])
+    .sort((a, b) => (a.max_km ?? Infinity) - (b.max_km ?? Infinity))
+    .find((candidate) => distanceKm === null ? candidate.max_km === null : distanceKm <= (candidate.max_km ?? Infinity));
+
+  if (!band) {
+    throw new Error('No delivery rate covers this distance');
+  }
+
+  const region = ((regions ?? []) as RegionSurcharge[])
+    .filter((candidate) => straightLineKm(candidate, dropoff) <= Number(candidate.radius_km))
+    .sort((a, b) => b.surcharge - a.surcharge)[0] ?? null;
+
+  const distanceFee = Number(band.fee);
+  const regionSurcharge = Number(region?.surcharge ?? 0);
+  const packageSurcharge = Number(packageRate?.surcharge ?? 0);
+  const standardAmount = toMinorUnits(distanceFee) + toMinorUnits(regionSurcharge) + toMinorUnits(packageSurcharge);
+  const standardEta = band.eta_minutes + (region?.extra_eta_minutes ?? 0);
+
+  const base = {
+    packageSize,
+    distanceKm,
+    regionSurchargeId: region?.id ?? null,
+    region: region?.name ?? null,
+    distanceFee,
+    regionSurcharge,
+    packageSurcharge,
+  };
+
+  const options: DeliveryOption[] = [
+    { ...base, speed: 'standard', amount: standardAmount / 100, etaMinutes: standardEta },
+  ];
+
+  if (distanceKm !== null && distanceKm <= expressMaxKm()) {
+    options.push({
+      ...base,
+      speed: 'express',
+      amount: Math.round(standardAmount * expressMultiplier()) / 100,
+      etaMinutes: Math.ceil(standardEta / 2),
+    });
+  }
+
+  return options;
+}
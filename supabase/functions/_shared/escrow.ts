@@ -0,0 +1,120 @@
+import type { SupabaseClient } from 'npm:@supabase/supabase-js@2.57.4';
+import { calculateReleaseSplit } from './fees.ts';
+import { processPayout, type Payout } from './payouts.ts';
+
+export interface ReleasableOrder {
+  id: string;
+  buyer_id: string;
+  seller_id: string;
+  order_number: string;
+  seller_profiles: { user_id: string };
+}
+
+export interface ReleasableEscrow {
+  id: string;
+  amount: number;
+  refunded_amount: number;
+  released_amount?: number;
+}
+
+export interface ReleaseOptions {
+  notes: string;
+  buyerMessage: string;
+  fromStatuses?: string[];
+  amount?: number;
+  orderItemIds?: string[];
+  createdBy?: string | null;
+}
+
+/**
+ * Releases a holding escrow to the seller: books commission and e-levy in the
+ * ledger, queues the net payout and records the portion as a settlement, all
+ * in the `release_escrow` database function, then tries the transfer once.
+ * By default everything left in the escrow is released, which completes the
+ * order; passing `amount` releases only part of it (for example the items the
+ * buyer confirmed) and leaves the rest held. The escrow is claimed with a
+ * conditional update, so a buyer confirmation racing the auto-release sweep
+ * releases it once; the loser gets null. Only holding escrows are released
+ * unless `fromStatuses` says otherwise (dispute resolution releases frozen
+ * ones).
+ */
+export async function releaseEscrow(
+  supabase: SupabaseClient,
+  order: ReleasableOrder,
+  escrow: ReleasableEscrow,
+  {
+    notes,
+    buyerMessage,
+    fromStatuses = ['holding'],
+    amount,
+    orderItemIds = [],
+    createdBy = null,
+  }: ReleaseOptions,
+) {
+  const split = await calculateReleaseSplit(supabase, order, escrow, amount);
+
+  const { data, error: releaseError } = await supabase.rpc('release_escrow', {
+    p_escrow_id: escrow.id,
+    p_from_statuses: fromStatuses,
+    p_expected_released: escrow.released_amount ?? 0,
+    p_expected_refunded: escrow.refunded_amount ?? 0,
+    p_amount: split.gross,
+    p_commission: split.commission,
+    p_elevy: split.elevy,
+    p_order_item_ids: orderItemIds,
+    p_notes: notes,
+    p_buyer_message: buyerMessage,
+    p_created_by: createdBy,
+  });
+
+  if (releaseError) {
+    throw releaseError;
+  }
+
+  if (!data) {
+    return null;
+  }
+
+  const payout = data.payout as Payout;
+
+  // The release stands even if the first transfer attempt fails;
+  // payout-process retries it.
+  let payoutStatus = payout.status;
+
+  try {
+    payoutStatus = (await processPayout(supabase, payout))?.status ?? payoutStatus;
+  } catch (error) {
+    console.error('Payout attempt error:', error);
+  }
+
+  return { payout, payoutStatus, split, settlement: data.settlement, escrow: data.escrow };
+}
+
+/**
+ * Lists the order's items that no settlement of this escrow has released or
+ * refunded yet, with their line totals.
+ */
+export async function unsettledOrderItems(
+  supabase: SupabaseClient,
+  orderId: string,
+  escrowId: string,
+) {
+  const [{ data: items, error: itemsError }, { data: settlements }] = await Promise.all([
+    supabase
+      .from('order_items')
+      .select('id, product_id, quantity, total_price, product_snapshot')
+      .eq('order_id', orderId),
+    supabase
+      .from('escrow_settlements')
+      .select('order_item_ids')
+      .eq('escrow_id', escrowId),
+  ]);
+
+  if (itemsError) {
+    throw itemsError;
+  }
+
+  const settled = new Set((settlements ?? []).flatMap((settlement) => settlement.order_item_ids ?? []));
+
+  return (items ?? []).filter((item) => !settled.has(item.id));
+}
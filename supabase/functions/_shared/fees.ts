@@ -0,0 +1,138 @@
+import type { SupabaseClient } from 'npm:@supabase/supabase-js@2.57.4';
+import { toMinorUnits } from './orders.ts';
+
+interface CommissionRule {
+  category_id: string | null;
+  seller_tier: string | null;
+  rate: number;
+}
+
+interface FeeRate {
+  provider: string | null;
+  method: string | null;
+  rate: number;
+  flat_amount: number;
+  cap: number | null;
+}
+
+// A rule naming the category beats one naming the tier, which beats the
+// catch-all default.
+function ruleSpecificity(rule: CommissionRule) {
+  return (rule.category_id ? 2 : 0) + (rule.seller_tier ? 1 : 0);
+}
+
+function findCommissionRule(rules: CommissionRule[], categoryId: string | null, tier: string) {
+  return rules
+    .filter((rule) => (!rule.category_id || rule.category_id === categoryId)
+      && (!rule.seller_tier || rule.seller_tier === tier))
+    .sort((a, b) => ruleSpecificity(b) - ruleSpecificity(a))[0] ?? null;
+}
+
+/**
+ * Works out the platform's commission on an order's items (delivery is not
+ * commissioned) using the most specific active rule for each item's category
+ * and the seller's tier.
+ */
+export async function calculateCommission(
+  supabase: SupabaseClient,
+  order: { id: string; seller_id: string },
+) {
+  const [{ data: items, error: itemsError }, { data: seller }, { data: rules }] = await Promise.all([
+    supabase
+      .from('order_items')
+      .select('quantity, unit_price, products(category_id)')
+      .eq('order_id', order.id),
+    supabase
+      .from('seller_profiles')
+      .select('tier')
+      .eq('id', order.seller_id)
+      .single(),
+    supabase
+      .from('commission_rules')
+      .select('category_id, seller_tier, rate')
+      .eq('active', true),
+  ]);
+
+  if (itemsError) {
+    throw itemsError;
+  }
+
+  const tier = seller?.tier ?? 'standard';
+
+  const commission = (items ?? []).reduce((sum, item) => {
+    const product = item.products as { category_id: string | null } | null;
+    const rule = findCommissionRule(rules ?? [], product?.category_id ?? null, tier);
+    const lineTotal = toMinorUnits(item.unit_price) * item.quantity;
+
+    return sum + Math.round(lineTotal * Number(rule?.rate ?? 0));
+  }, 0);
+
+  return commission / 100;
+}
+
+/**
+ * Applies the most specific active fee rate of the given kind to an amount.
+ * Returns 0 when no rate applies.
+ */
+export async function calculateFee(
+  supabase: SupabaseClient,
+  kind: 'provider_fee' | 'elevy',
+  { amount, provider = null, method = null }: { amount: number; provider?: string | null; method?: string | null },
+) {
+  const { data: rates } = await supabase
+    .from('fee_rates')
+    .select('provider, method, rate, flat_amount, cap')
+    .eq('kind', kind)
+    .eq('active', true);
+
+  const feeRate = ((rates ?? []) as FeeRate[])
+    .filter((rate) => (!rate.provider || rate.provider === provider)
+      && (!rate.method || rate.method === method))
+    .sort((a, b) => (Number(!!b.provider) + Number(!!b.method)) - (Number(!!a.provider) + Number(!!a.method)))[0];
+
+  if (!feeRate) {
+    return 0;
+  }
+
+  let fee = Math.round(toMinorUnits(amount) * Number(feeRate.rate)) + toMinorUnits(feeRate.flat_amount);
+
+  if (feeRate.cap !== null) {
+    fee = Math.min(fee, toMinorUnits(feeRate.cap));
+  }
+
+  return fee / 100;
+}
+
+/**
+ * Splits an amount released from escrow (by default everything still in it)
+ * into the platform's commission, e-levy and the seller's net payout. The
+ * commission is charged in proportion to the share of the escrow released, so
+ * after a partial refund or across several partial releases the seller pays
+ * commission only on what they receive.
+ */
+export async function calculateReleaseSplit(
+  supabase: SupabaseClient,
+  order: { id: string; seller_id: string },
+  escrow: { amount: number; refunded_amount: number; released_amount?: number },
+  amount?: number,
+) {
+  const gross = amount ?? (
+    toMinorUnits(escrow.amount) - toMinorUnits(escrow.refunded_amount ?? 0) - toMinorUnits(escrow.released_amount ?? 0)
+  ) / 100;
+  const fullCommission = await calculateCommission(supabase, order);
+
+  const commission = toMinorUnits(escrow.amount) > 0
+    ? Math.min(
+      Math.round(toMinorUnits(fullCommission) * toMinorUnits(gross) / toMinorUnits(escrow.amount)),
+      toMinorUnits(gross),
+    ) / 100
+    : 0;
+
+  const elevy = await calculateFee(supabase, 'elevy', {
+    amount: (toMinorUnits(gross) - toMinorUnits(commission)) / 100,
+  });
+
+  const net = (toMinorUnits(gross) - toMinorUnits(commission) - toMinorUnits(elevy)) / 100;
+
+  return { gross, commission, elevy, net };
+}
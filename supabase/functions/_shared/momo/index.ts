@@ -0,0 +1,34 @@
+import { mtnOperator } from './mtn.ts';
+import { simulatorOperator } from './simulator.ts';
+import { vodafoneOperator } from './vodafone.ts';
+import type { MomoOperator } from './types.ts';
+
+export type * from './types.ts';
+
+/**
+ * Normalises Ghanaian numbers (024..., +233 24..., 23324...) to the
+ * 233XXXXXXXXX form operators expect. Returns null for anything else.
+ */
+export function toMsisdn(phoneNumber: string | null | undefined) {
+  const digits = (phoneNumber ?? '').replace(/\D/g, '');
+
+  if (/^0\d{9}$/.test(digits)) {
+    return `233${digits.slice(1)}`;
+  }
+  return /^233\d{9}$/.test(digits) ? digits : null;
+}
+
+export function getMomoOperator(method: string): MomoOperator {
+  if (Deno.env.get('MOMO_SIMULATOR_ENABLED') === 'true') {
+    return simulatorOperator;
+  }
+
+  switch (method) {
+    case 'mtn_momo':
+      return mtnOperator;
+    case 'vodafone_cash':
+      return vodafoneOperator;
+    default:
+      throw new Error(`Direct collection is not available for ${method.replace('_', ' ')}`);
+  }
+}
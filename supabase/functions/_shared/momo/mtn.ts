@@ -0,0 +1,149 @@
+import { createHash } from 'node:crypto';
+import type { MomoOperator, MomoTransactionStatus } from './types.ts';
+
+type MtnProduct = 'collection' | 'disbursement';
+
+function baseUrl() {
+  return Deno.env.get('MTN_MOMO_BASE_URL') ?? 'https://sandbox.momodeveloper.mtn.com';
+}
+
+function targetEnvironment() {
+  return Deno.env.get('MTN_MOMO_ENVIRONMENT') ?? 'sandbox';
+}
+
+function credentials(product: MtnProduct) {
+  const prefix = `MTN_MOMO_${product.toUpperCase()}`;
+  const apiUser = Deno.env.get(`${prefix}_USER`);
+  const apiKey = Deno.env.get(`${prefix}_KEY`);
+  const subscriptionKey = Deno.env.get(`${prefix}_SUBSCRIPTION_KEY`);
+
+  if (!apiUser || !apiKey || !subscriptionKey) {
+    throw new Error(`MTN MoMo ${product} is not configured`);
+  }
+
+  return { apiUser, apiKey, subscriptionKey };
+}
+
+// The MoMo API wants a UUID per request. Deriving it from our reference means
+// the status lookup can be rebuilt from the payment row alone.
+function referenceId(reference: string) {
+  const hex = createHash('sha1').update(reference).digest('hex');
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-5${hex.slice(13, 16)}-a${hex.slice(17, 20)}-${hex.slice(20, 32)}`;
+}
+
+async function accessToken(product: MtnProduct) {
+  const { apiUser, apiKey, subscriptionKey } = credentials(product);
+
+  const tokenResponse = await fetch(`${baseUrl()}/${product}/token/`, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Basic ${btoa(`${apiUser}:${apiKey}`)}`,
+      'Ocp-Apim-Subscription-Key': subscriptionKey,
+    },
+  });
+
+  if (!tokenResponse.ok) {
+    throw new Error(`MTN MoMo ${product} authentication failed`);
+  }
+
+  const tokenData = await tokenResponse.json();
+  return { token: tokenData.access_token as string, subscriptionKey };
+}
+
+function toStatus(mtnStatus: string): MomoTransactionStatus {
+  if (mtnStatus === 'SUCCESSFUL') {
+    return 'successful';
+  }
+  return mtnStatus === 'FAILED' || mtnStatus === 'REJECTED' || mtnStatus === 'TIMEOUT' ? 'failed' : 'pending';
+}
+
+export const mtnOperator: MomoOperator = {
+  network: 'mtn',
+
+  async requestToPay({ reference, amount, currency, msisdn, narration }) {
+    const { token, subscriptionKey } = await accessToken('collection');
+
+    const mtnResponse = await fetch(`${baseUrl()}/collection/v1_0/requesttopay`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${token}`,
+        'X-Reference-Id': referenceId(reference),
+        'X-Target-Environment': targetEnvironment(),
+        'X-Callback-Url': `${Deno.env.get('SUPABASE_URL')}/functions/v1/momo-callback?network=mtn`,
+        'Ocp-Apim-Subscription-Key': subscriptionKey,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        amount: amount.toFixed(2),
+        currency,
+        externalId: reference,
+        payer: { partyIdType: 'MSISDN', partyId: msisdn },
+        payerMessage: narration,
+        payeeNote: reference,
+      }),
+    });
+
+    if (mtnResponse.status !== 202) {
+      throw new Error(`MTN MoMo request to pay failed (${mtnResponse.status})`);
+    }
+  },
+
+  async getCollectionStatus({ reference }) {
+    const { token, subscriptionKey } = await accessToken('collection');
+
+    const mtnResponse = await fetch(
+      `${baseUrl()}/collection/v1_0/requesttopay/${referenceId(reference)}`,
+      {
+        headers: {
+          'Authorization': `Bearer ${token}`,
+          'X-Target-Environment': targetEnvironment(),
+          'Ocp-Apim-Subscription-Key': subscriptionKey,
+        },
+      },
+    );
+
+    if (!mtnResponse.ok) {
+      throw new Error(`MTN MoMo status lookup failed (${mtnResponse.status})`);
+    }
+
+    const mtnData = await mtnResponse.json();
+
+    return {
+      status: toStatus(mtnData.status),
+      amount: Number(mtnData.amount),
+      currency: mtnData.currency,
+      operatorReference: mtnData.financialTransactionId,
+      reason: mtnData.reason,
+    };
+  },
+
+  async transfer({ reference, amount, currency, msisdn, narration }) {
+    const { token, subscriptionKey } = await accessToken('disbursement');
+    const transferId = referenceId(reference);
+
+    const mtnResponse = await fetch(`${baseUrl()}/disbursement/v1_0/transfer`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${token}`,
+        'X-Reference-Id': transferId,
+        'X-Target-Environment': targetEnvironment(),
+        'Ocp-Apim-Subscription-Key': subscriptionKey,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        amount: amount.toFixed(2),
+        currency,
+        externalId: reference,
+        payee: { partyIdType: 'MSISDN', partyId: msisdn },
+        payerMessage: narration,
+        payeeNote: narration,
+      }),
+    });
+
+    if (mtnResponse.status !== 202) {
+      throw new Error(`MTN MoMo transfer failed (${mtnResponse.status})`);
+    }
+
+    return { status: 'pending', operatorReference: transferId };
+  },
+};
@@ -0,0 +1,46 @@
+import type { MomoOperator } from './types.ts';
+
+/**
+ * Stands in for the operator APIs when MOMO_SIMULATOR_ENABLED=true. It keeps
+ * no state: the outcome of a collection is decided by the payer's number and
+ * the time since the prompt was sent.
+ *
+ * - numbers ending in 0 decline the prompt (failed)
+ * - numbers ending in 1 never answer it (stays pending)
+ * - any other number approves after MOMO_SIMULATOR_DELAY_MS (default 10s)
+ *
+ * Transfers always succeed immediately.
+ */
+export const simulatorOperator: MomoOperator = {
+  network: 'simulator',
+
+  async requestToPay({ msisdn }) {
+    if (!/^233\d{9}$/.test(msisdn)) {
+      throw new Error('Simulator: invalid MSISDN');
+    }
+  },
+
+  async getCollectionStatus({ reference, amount, msisdn, requestedAt }) {
+    const delayMs = Number(Deno.env.get('MOMO_SIMULATOR_DELAY_MS') ?? 10000);
+    const answered = Date.now() >= new Date(requestedAt).getTime() + delayMs;
+
+    if (msisdn.endsWith('0') && answered) {
+      return { status: 'failed', amount, currency: 'GHS', reason: 'APPROVAL_REJECTED' };
+    }
+
+    if (msisdn.endsWith('1') || !answered) {
+      return { status: 'pending', amount, currency: 'GHS' };
+    }
+
+    return {
+      status: 'successful',
+      amount,
+      currency: 'GHS',
+      operatorReference: `SIM-${reference}`,
+    };
+  },
+
+  async transfer({ reference }) {
+    return { status: 'successful', operatorReference: `SIM-TRF-${reference}` };
+  },
+};
@@ -0,0 +1,52 @@
+export type MomoNetwork = 'mtn' | 'vodafone' | 'simulator';
+
+export type MomoTransactionStatus = 'pending' | 'successful' | 'failed';
+
+export interface CollectionRequest {
+  reference: string;
+  amount: number;
+  currency: string;
+  msisdn: string;
+  narration: string;
+}
+
+export interface CollectionLookup {
+  reference: string;
+  amount: number;
+  msisdn: string;
+  requestedAt: string;
+}
+
+export interface CollectionStatus {
+  status: MomoTransactionStatus;
+  amount: number;
+  currency: string;
+  operatorReference?: string;
+  reason?: string;
+}
+
+export interface TransferRequest {
+  reference: string;
+  amount: number;
+  currency: string;
+  msisdn: string;
+  narration: string;
+}
+
+export interface TransferResult {
+  status: MomoTransactionStatus;
+  operatorReference: string;
+}
+
+/**
+ * A mobile network operator's merchant API. `requestToPay` pushes an approval
+ * prompt to the payer's handset; the outcome is read back with
+ * `getCollectionStatus`, either when polling or when the operator calls
+ * momo-callback.
+ */
+export interface MomoOperator {
+  network: MomoNetwork;
+  requestToPay(request: CollectionRequest): Promise<void>;
+  getCollectionStatus(lookup: CollectionLookup): Promise<CollectionStatus>;
+  transfer(request: TransferRequest): Promise<TransferResult>;
+}
@@ -0,0 +1,90 @@
+import type { MomoOperator, MomoTransactionStatus } from './types.ts';
+
+function config() {
+  const baseUrl = Deno.env.get('VODAFONE_CASH_BASE_URL');
+  const merchantId = Deno.env.get('VODAFONE_CASH_MERCHANT_ID');
+  const apiKey = Deno.env.get('VODAFONE_CASH_API_KEY');
+
+  if (!baseUrl || !merchantId || !apiKey) {
+    throw new Error('Vodafone Cash is not configured');
+  }
+
+  return { baseUrl, merchantId, apiKey };
+}
+
+function toStatus(vodafoneStatus: string): MomoTransactionStatus {
+  if (vodafoneStatus === 'SUCCESSFUL') {
+    return 'successful';
+  }
+  return vodafoneStatus === 'FAILED' ? 'failed' : 'pending';
+}
+
+async function vodafoneRequest(path: string, init: RequestInit = {}) {
+  const { baseUrl, apiKey } = config();
+
+  const vodafoneResponse = await fetch(`${baseUrl}${path}`, {
+    ...init,
+    headers: {
+      'Authorization': `Bearer ${apiKey}`,
+      'Content-Type': 'application/json',
+    },
+  });
+
+  const vodafoneData = await vodafoneResponse.json();
+
+  if (!vodafoneResponse.ok) {
+    throw new Error(vodafoneData.message || `Vodafone Cash request failed (${vodafoneResponse.status})`);
+  }
+
+  return vodafoneData;
+}
+
+export const vodafoneOperator: MomoOperator = {
+  network: 'vodafone',
+
+  async requestToPay({ reference, amount, currency, msisdn, narration }) {
+    await vodafoneRequest('/collections', {
+      method: 'POST',
+      body: JSON.stringify({
+        merchantId: config().merchantId,
+        reference,
+        amount: amount.toFixed(2),
+        currency,
+        msisdn,
+        narration,
+        callbackUrl: `${Deno.env.get('SUPABASE_URL')}/functions/v1/momo-callback?network=vodafone`,
+      }),
+    });
+  },
+
+  async getCollectionStatus({ reference }) {
+    const vodafoneData = await vodafoneRequest(`/collections/${encodeURIComponent(reference)}`);
+
+    return {
+      status: toStatus(vodafoneData.status),
+      amount: Number(vodafoneData.amount),
+      currency: vodafoneData.currency,
+      operatorReference: vodafoneData.transactionId,
+      reason: vodafoneData.reason,
+    };
+  },
+
+  async transfer({ reference, amount, currency, msisdn, narration }) {
+    const vodafoneData = await vodafoneRequest('/disbursements', {
+      method: 'POST',
+      body: JSON.stringify({
+        merchantId: config().merchantId,
+        reference,
+        amount: amount.toFixed(2),
+        currency,
+        msisdn,
+        narration,
+      }),
+    });
+
+    return {
+      status: toStatus(vodafoneData.status),
+      operatorReference: vodafoneData.transactionId ?? reference,
+    };
+  },
+};
@@ -0,0 +1,58 @@
+import type { SupabaseClient } from 'npm:@supabase/supabase-js@2.57.4';
+
+export function toMinorUnits(amount: number) {
+  return Math.round(Number(amount) * 100);
+}
+
+/**
+ * Works out what the buyer owes for an order from its line items and delivery
+ * cost. Returns null for orders without items so callers can refuse payment.
+ */
+export async function calculateAmountDue(
+  supabase: SupabaseClient,
+  order: { id: string; delivery_cost: number },
+) {
+  const { data: items, error } = await supabase
+    .from('order_items')
+    .select('quantity, unit_price')
+    .eq('order_id', order.id);
+
+  if (error) {
+    throw error;
+  }
+
+  if (!items || items.length === 0) {
+    return null;
+  }
+
+  const itemsTotal = items.reduce(
+    (sum, item) => sum + toMinorUnits(item.unit_price) * item.quantity,
+    0,
+  );
+
+  return (itemsTotal + toMinorUnits(order.delivery_cost ?? 0)) / 100;
+}
+
+/**
+ * When stock reserved for an order awaiting payment is released again,
+ * configurable with `STOCK_RESERVATION_MINUTES`. Every payment attempt starts
+ * a fresh window.
+ */
+export function reservationExpiry(from = new Date()) {
+  const minutes = Number(Deno.env.get('STOCK_RESERVATION_MINUTES') ?? 15);
+  return new Date(from.getTime() + minutes * 60 * 1000).toISOString();
+}
+
+export const CANCELLATION_REASONS = [
+  'changed_mind',
+  'ordered_by_mistake',
+  'found_better_price',
+  'delivery_too_slow',
+  'out_of_stock',
+  'cannot_deliver',
+  'pricing_error',
+  'suspected_fraud',
+  'other',
+] as const;
+
+export type CancellationReason = typeof CANCELLATION_REASONS[number];
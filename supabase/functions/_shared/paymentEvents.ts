@@ -0,0 +1,71 @@
+import type { SupabaseClient } from 'npm:@supabase/supabase-js@2.57.4';
+
+/**
+ * Records the delivery and claims it for processing. Returns null when the
+ * event was already handled (or is being handled) so redeliveries are no-ops;
+ * events whose previous attempt failed are claimed again.
+ */
+export async function claimPaymentEvent(
+  supabase: SupabaseClient,
+  provider: string,
+  eventId: string,
+  payload: Record<string, unknown>,
+  eventType = payload.event,
+) {
+  const { data: inserted, error: insertError } = await supabase
+    .from('payment_events')
+    .insert({
+      provider,
+      event_id: eventId,
+      event_type: eventType,
+      payload,
+      status: 'processing',
+    })
+    .select()
+    .single();
+
+  if (!insertError) {
+    return inserted;
+  }
+
+  if (insertError.code !== '23505') {
+    throw insertError;
+  }
+
+  const { data: existing } = await supabase
+    .from('payment_events')
+    .select('id, attempts')
+    .eq('provider', provider)
+    .eq('event_id', eventId)
+    .single();
+
+  const { data: reclaimed } = await supabase
+    .from('payment_events')
+    .update({
+      status: 'processing',
+      attempts: existing.attempts + 1,
+      error: null,
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', existing.id)
+    .eq('status', 'failed')
+    .select()
+    .maybeSingle();
+
+  return reclaimed;
+}
+
+export async function finishPaymentEvent(
+  supabase: SupabaseClient,
+  id: string,
+  changes: Record<string, unknown>,
+) {
+  await supabase
+    .from('payment_events')
+    .update({
+      ...changes,
+      processed_at: new Date().toISOString(),
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', id);
+}
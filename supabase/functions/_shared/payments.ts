@@ -0,0 +1,195 @@
+import type { SupabaseClient } from 'npm:@supabase/supabase-js@2.57.4';
+import { calculateFee } from './fees.ts';
+import { toMinorUnits } from './orders.ts';
+import { getPaymentAdapter, type ProviderPayment } from './providers/index.ts';
+
+export interface SettledPayment {
+  id: string;
+  order_id: string | null;
+  checkout_group_id?: string | null;
+  amount: number;
+  provider?: string;
+  method?: string;
+}
+
+export interface ReceivedFunds {
+  amount: number;
+  currency: string;
+  fee?: number;
+}
+
+export type ReconciliationStatus = 'matched' | 'underpaid' | 'overpaid' | 'currency_mismatch' | 'out_of_stock' | 'order_cancelled' | 'duplicate';
+
+export function reconcilePayment(expected: ReceivedFunds, received: ReceivedFunds): ReconciliationStatus {
+  if (expected.currency.toUpperCase() !== received.currency.toUpperCase()) {
+    return 'currency_mismatch';
+  }
+
+  const difference = toMinorUnits(received.amount) - toMinorUnits(expected.amount);
+
+  if (difference < 0) {
+    return 'underpaid';
+  }
+  return difference > 0 ? 'overpaid' : 'matched';
+}
+
+/**
+ * Records funds the provider reports for a pending payment. The amount and
+ * currency are reconciled against the order (or checkout group) total first:
+ * matching payments are settled into escrow, one escrow per order, anything
+ * else is held as `under_review` and no money moves. So is a matching payment
+ * whose stock reservation lapsed and sold out in the meantime
+ * (`out_of_stock`), one that was cancelled along with its order before
+ * the money arrived (`order_cancelled`), and one that arrives after another
+ * payment already paid for the same orders (`duplicate`). The provider's fee (as reported, or estimated from
+ * `fee_rates`) is booked as a platform expense. Everything after the
+ * reconciliation happens in the `record_successful_payment` database function,
+ * so a failure part way leaves the payment pending for the next webhook or
+ * poll. Returns a null payment when it had already been recorded.
+ */
+export async function recordSuccessfulPayment(
+  supabase: SupabaseClient,
+  payment: SettledPayment,
+  received: ReceivedFunds,
+) {
+  const { data: payable, error: payableError } = payment.checkout_group_id
+    ? await supabase
+      .from('checkout_groups')
+      .select('total_amount, currency')
+      .eq('id', payment.checkout_group_id)
+      .single()
+    : await supabase
+      .from('orders')
+      .select('total_amount, currency')
+      .eq('id', payment.order_id)
+      .single();
+
+  if (payableError || !payable) {
+    throw new Error(payment.checkout_group_id ? 'Checkout not found' : 'Order not found');
+  }
+
+  const expected = { amount: payable.total_amount, currency: payable.currency ?? 'GHS' };
+  const reconciliation = reconcilePayment(expected, received);
+
+  const fee = received.fee ?? await calculateFee(supabase, 'provider_fee', {
+    amount: received.amount,
+    provider: payment.provider,
+    method: payment.method,
+  });
+
+  const { data, error } = await supabase.rpc('record_successful_payment', {
+    p_payment_id: payment.id,
+    p_amount: received.amount,
+    p_currency: received.currency,
+    p_reconciliation: reconciliation,
+    p_fee: fee,
+  });
+
+  if (error) {
+    throw error;
+  }
+
+  return {
+    payment: data.payment,
+    reconciliation: (data.payment?.reconciliation_status ?? reconciliation) as ReconciliationStatus,
+    orders: data.orders,
+  };
+}
+
+/**
+ * Records a charge that never completed. The order (or the checkout's orders)
+ * is left in `created` so the buyer can pay again.
+ */
+export async function recordFailedPayment(
+  supabase: SupabaseClient,
+  payment: SettledPayment,
+  reason: 'failed' | 'abandoned' | 'reversed',
+) {
+  const { data: updated, error } = await supabase.rpc('record_failed_payment', {
+    p_payment_id: payment.id,
+    p_reason: reason,
+  });
+
+  if (error) {
+    throw error;
+  }
+
+  return updated;
+}
+
+/**
+ * Records a charge the buyer's bank or wallet pulled back after it succeeded.
+ * Every escrow still holding funds from it is frozen and its order marked
+ * disputed so it can be investigated; orders that never reached escrow are
+ * cancelled. Orders already completed or refunded are returned as `review`
+ * and left for an admin.
+ */
+export async function recordReversedPayment(
+  supabase: SupabaseClient,
+  payment: SettledPayment,
+) {
+  const { data, error } = await supabase.rpc('record_reversed_payment', {
+    p_payment_id: payment.id,
+  });
+
+  if (error) {
+    throw error;
+  }
+
+  if (!data) {
+    return null;
+  }
+
+  return { payment: data.payment, escrows: data.escrows, orders: data.orders, review: data.review };
+}
+
+/**
+ * The settled payment that funded an order's escrow: either a payment for the
+ * order itself or one for the checkout group it was bought in.
+ */
+export async function findSettledPayment(
+  supabase: SupabaseClient,
+  order: { id: string; checkout_group_id: string | null },
+) {
+  const { data, error } = await supabase
+    .from('payments')
+    .select('*')
+    .or(order.checkout_group_id
+      ? `order_id.eq.${order.id},checkout_group_id.eq.${order.checkout_group_id}`
+      : `order_id.eq.${order.id}`)
+    .in('status', ['successful', 'partially_refunded'])
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+
+  return data;
+}
+
+/**
+ * Asks the provider for the current state of a pending payment and records
+ * the outcome. Used when the buyer polls from checkout and when an operator
+ * callback arrives that we do not trust on its own.
+ */
+export async function syncPaymentWithProvider(
+  supabase: SupabaseClient,
+  payment: ProviderPayment & SettledPayment & { provider: string; status: string },
+) {
+  if (payment.status !== 'pending') {
+    return null;
+  }
+
+  const adapter = getPaymentAdapter(payment.provider);
+  const transaction = adapter ? await adapter.verify(payment) : null;
+
+  if (transaction?.status === 'successful') {
+    await recordSuccessfulPayment(supabase, payment, transaction);
+  } else if (transaction && transaction.status !== 'pending') {
+    await recordFailedPayment(supabase, payment, transaction.status);
+  }
+
+  return transaction;
+}
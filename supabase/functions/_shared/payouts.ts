@@ -0,0 +1,213 @@
+import type { SupabaseClient } from 'npm:@supabase/supabase-js@2.57.4';
+import { getTransferAdapter, type TransferResult } from './transfers/index.ts';
+
+export const MAX_PAYOUT_ATTEMPTS = 5;
+
+export interface Payout {
+  id: string;
+  escrow_id: string;
+  order_id: string;
+  seller_id: string;
+  payout_account_id: string | null;
+  provider: string | null;
+  amount: number;
+  currency: string;
+  status: 'queued' | 'processing' | 'paid' | 'failed';
+  reference: string;
+  transfer_reference: string | null;
+  attempts: number;
+}
+
+function retryDelayMinutes(attempt: number) {
+  return 5 * 2 ** (attempt - 1);
+}
+
+async function notifySeller(
+  supabase: SupabaseClient,
+  payout: Payout,
+  notification: { type: string; title: string; message: string },
+) {
+  const { data: seller } = await supabase
+    .from('seller_profiles')
+    .select('user_id')
+    .eq('id', payout.seller_id)
+    .single();
+
+  if (seller) {
+    await supabase.from('notifications').insert({
+      user_id: seller.user_id,
+      ...notification,
+      data: { order_id: payout.order_id, payout_id: payout.id, amount: payout.amount },
+    });
+  }
+}
+
+async function applyTransferResult(
+  supabase: SupabaseClient,
+  payout: Payout,
+  result: TransferResult,
+) {
+  const now = new Date();
+
+  if (result.status === 'pending') {
+    await supabase
+      .from('payouts')
+      .update({ transfer_code: result.transferCode ?? null, updated_at: now.toISOString() })
+      .eq('id', payout.id);
+
+    return { ...payout, status: 'processing' as const };
+  }
+
+  if (result.status === 'paid') {
+    const { data: paid, error } = await supabase.rpc('mark_payout_paid', {
+      p_payout_id: payout.id,
+      p_transfer_code: result.transferCode ?? null,
+    });
+
+    if (error) {
+      throw error;
+    }
+
+    return (paid ?? payout) as Payout;
+  }
+
+  const exhausted = payout.attempts >= MAX_PAYOUT_ATTEMPTS;
+  const nextAttempt = new Date(now.getTime() + retryDelayMinutes(payout.attempts) * 60 * 1000);
+
+  const { data: failed } = await supabase
+    .from('payouts')
+    .update({
+      status: 'failed',
+      transfer_code: result.transferCode ?? null,
+      last_error: result.reason ?? 'Transfer failed',
+      next_attempt_at: exhausted ? null : nextAttempt.toISOString(),
+      updated_at: now.toISOString(),
+    })
+    .eq('id', payout.id)
+    .eq('status', 'processing')
+    .select()
+    .maybeSingle();
+
+  if (failed && exhausted) {
+    await notifySeller(supabase, payout, {
+      type: 'payout_failed',
+      title: 'Payout Failed',
+      message: `We could not send GHS ${payout.amount} to your payout account. Please check your payout details; our team has been alerted.`,
+    });
+  }
+
+  return (failed ?? payout) as Payout;
+}
+
+/**
+ * Attempts the transfer for a queued or failed payout. The payout is claimed
+ * by bumping `attempts` before the provider is called, so concurrent runs
+ * cannot send the same payout twice. If the provider call itself errors the
+ * outcome is unknown, so the payout stays `processing` for `syncPayout` to
+ * check rather than being retried under a new reference.
+ */
+export async function processPayout(supabase: SupabaseClient, payout: Payout) {
+  if (payout.status !== 'queued' && payout.status !== 'failed') {
+    return payout;
+  }
+
+  if (payout.attempts >= MAX_PAYOUT_ATTEMPTS) {
+    return payout;
+  }
+
+  let accountId = payout.payout_account_id;
+
+  if (!accountId) {
+    const { data: defaultAccount } = await supabase
+      .from('payout_accounts')
+      .select('id')
+      .eq('seller_id', payout.seller_id)
+      .eq('is_default', true)
+      .maybeSingle();
+
+    accountId = defaultAccount?.id ?? null;
+  }
+
+  const { data: account } = accountId
+    ? await supabase.from('payout_accounts').select('*').eq('id', accountId).single()
+    : { data: null };
+
+  if (!account) {
+    await supabase
+      .from('payouts')
+      .update({ last_error: 'Seller has not added a payout account', updated_at: new Date().toISOString() })
+      .eq('id', payout.id);
+
+    return payout;
+  }
+
+  const adapter = getTransferAdapter(account.provider);
+
+  if (!adapter) {
+    throw new Error(`Payout provider ${account.provider} is not available`);
+  }
+
+  const attempt = payout.attempts + 1;
+  const transferReference = `${payout.reference}-${attempt}`;
+
+  const { data: claimed } = await supabase
+    .from('payouts')
+    .update({
+      status: 'processing',
+      payout_account_id: account.id,
+      provider: account.provider,
+      attempts: attempt,
+      transfer_reference: transferReference,
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', payout.id)
+    .eq('status', payout.status)
+    .eq('attempts', payout.attempts)
+    .select()
+    .maybeSingle();
+
+  if (!claimed) {
+    return null;
+  }
+
+  let result: TransferResult;
+
+  try {
+    result = await adapter.transfer({
+      reference: transferReference,
+      amount: payout.amount,
+      currency: payout.currency,
+      recipientCode: account.recipient_code,
+      reason: `GhanaMarket payout ${payout.reference}`,
+    });
+  } catch (error) {
+    await supabase
+      .from('payouts')
+      .update({ last_error: error.message, updated_at: new Date().toISOString() })
+      .eq('id', payout.id);
+
+    return claimed as Payout;
+  }
+
+  return applyTransferResult(supabase, claimed as Payout, result);
+}
+
+/**
+ * Re-reads a processing payout's transfer from the provider and records the
+ * outcome. Used for transfer webhooks and by payout-process for transfers
+ * that were still pending.
+ */
+export async function syncPayout(supabase: SupabaseClient, payout: Payout) {
+  if (payout.status !== 'processing' || !payout.transfer_reference || !payout.provider) {
+    return payout;
+  }
+
+  const adapter = getTransferAdapter(payout.provider);
+
+  if (!adapter) {
+    throw new Error(`Payout provider ${payout.provider} is not available`);
+  }
+
+  const result = await adapter.getTransfer(payout.transfer_reference);
+  return applyTransferResult(supabase, payout, result);
+}
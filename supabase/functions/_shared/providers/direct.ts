@@ -0,0 +1,102 @@
+import { getMomoOperator, toMsisdn } from '../momo/index.ts';
+import type { PaymentAdapter } from './types.ts';
+
+const networkLabels: Record<string, string> = {
+  mtn_momo: 'MTN MoMo',
+  vodafone_cash: 'Vodafone Cash',
+  airteltigo_money: 'AirtelTigo Money',
+};
+
+/**
+ * Collects mobile money straight from the operator instead of going through
+ * an aggregator. Operators report outcomes to momo-callback, which re-reads
+ * the status from the operator rather than trusting the unsigned callback,
+ * so this adapter never matches payment-webhook deliveries.
+ */
+export const directAdapter: PaymentAdapter = {
+  name: 'direct',
+
+  async initialize({ reference, amount, currency, method, phoneNumber }) {
+    if (method === 'card') {
+      throw new Error('Direct collection only supports mobile money');
+    }
+
+    const msisdn = toMsisdn(phoneNumber);
+
+    if (!msisdn) {
+      throw new Error('A valid Ghanaian mobile money number is required');
+    }
+
+    await getMomoOperator(method).requestToPay({
+      reference,
+      amount,
+      currency,
+      msisdn,
+      narration: `GhanaMarket order payment ${reference}`,
+    });
+
+    return {
+      instructions: `Approve the ${networkLabels[method]} prompt sent to ${phoneNumber} to pay ${currency} ${amount}. Reference: ${reference}`,
+    };
+  },
+
+  async verify(payment) {
+    const msisdn = toMsisdn(payment.phone_number);
+
+    if (!msisdn) {
+      return null;
+    }
+
+    const collection = await getMomoOperator(payment.method).getCollectionStatus({
+      reference: payment.provider_reference,
+      amount: payment.amount,
+      msisdn,
+      requestedAt: payment.created_at,
+    });
+
+    return {
+      reference: payment.provider_reference,
+      status: collection.status,
+      amount: collection.amount,
+      currency: collection.currency,
+      providerTransactionId: collection.operatorReference,
+    };
+  },
+
+  matchesWebhook() {
+    return false;
+  },
+
+  verifyWebhookSignature() {
+    return false;
+  },
+
+  getWebhookEventId() {
+    return '';
+  },
+
+  parseWebhook() {
+    return null;
+  },
+
+  async refund({ reference, amount, method, phoneNumber }) {
+    const msisdn = toMsisdn(phoneNumber);
+
+    if (!method || !msisdn || amount === undefined) {
+      throw new Error('Direct refunds need the payment method, phone number and amount');
+    }
+
+    const transfer = await getMomoOperator(method).transfer({
+      reference: `RFD-${reference}-${Date.now()}`,
+      amount,
+      currency: 'GHS',
+      msisdn,
+      narration: `GhanaMarket refund ${reference}`,
+    });
+
+    return {
+      status: transfer.status === 'successful' ? 'processed' : transfer.status === 'failed' ? 'failed' : 'pending',
+      reference: transfer.operatorReference,
+    };
+  },
+};
@@ -0,0 +1,184 @@
+import type { PaymentAdapter, ProviderPaymentStatus } from './types.ts';
+
+interface FlutterwaveWebhook {
+  event: string;
+  data: {
+    id: number;
+    tx_ref: string;
+    amount: number;
+    currency: string;
+    status: string;
+    app_fee?: number;
+  };
+}
+
+function toPaymentStatus(flutterwaveStatus: string): ProviderPaymentStatus {
+  switch (flutterwaveStatus) {
+    case 'successful':
+      return 'successful';
+    case 'failed':
+      return 'failed';
+    case 'cancelled':
+      return 'abandoned';
+    default:
+      return 'pending';
+  }
+}
+
+async function fetchTransactionByReference(flutterwaveKey: string, reference: string) {
+  const flutterwaveResponse = await fetch(
+    `https://api.flutterwave.com/v3/transactions/verify_by_reference?tx_ref=${encodeURIComponent(reference)}`,
+    { headers: { 'Authorization': `Bearer ${flutterwaveKey}` } },
+  );
+
+  const flutterwaveData = await flutterwaveResponse.json();
+
+  if (flutterwaveData.status !== 'success') {
+    throw new Error(flutterwaveData.message || 'Flutterwave verification failed');
+  }
+
+  return flutterwaveData.data;
+}
+
+export const flutterwaveAdapter: PaymentAdapter = {
+  name: 'flutterwave',
+
+  async initialize({ orderId, reference, amount, currency, method, email, phoneNumber, metadata }) {
+    const flutterwaveKey = Deno.env.get('FLUTTERWAVE_SECRET_KEY');
+
+    if (!flutterwaveKey) {
+      return {
+        instructions: 'Payment provider configuration pending. Using test mode.',
+        authorizationUrl: `https://checkout.flutterwave.com/test-${reference}`,
+      };
+    }
+
+    const flutterwaveResponse = await fetch('https://api.flutterwave.com/v3/payments', {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${flutterwaveKey}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        tx_ref: reference,
+        amount,
+        currency,
+        redirect_url: `${Deno.env.get('SUPABASE_URL')}/functions/v1/payment-callback`,
+        payment_options: method === 'card' ? 'card' : 'mobilemoneyghana',
+        customer: {
+          email,
+          phonenumber: phoneNumber,
+        },
+        customizations: {
+          title: 'GhanaMarket',
+          description: `Payment for order ${orderId}`,
+        },
+        meta: {
+          ...metadata,
+          order_id: orderId,
+          payment_method: method,
+        },
+      }),
+    });
+
+    const flutterwaveData = await flutterwaveResponse.json();
+
+    if (flutterwaveData.status !== 'success') {
+      throw new Error(flutterwaveData.message || 'Flutterwave initialization failed');
+    }
+
+    return { authorizationUrl: flutterwaveData.data.link };
+  },
+
+  async verify(payment) {
+    const flutterwaveKey = Deno.env.get('FLUTTERWAVE_SECRET_KEY');
+
+    if (!flutterwaveKey) {
+      return null;
+    }
+
+    const transaction = await fetchTransactionByReference(flutterwaveKey, payment.provider_reference);
+
+    return {
+      reference: transaction.tx_ref,
+      status: toPaymentStatus(transaction.status),
+      amount: transaction.amount,
+      currency: transaction.currency,
+      providerTransactionId: String(transaction.id),
+      fee: transaction.app_fee,
+    };
+  },
+
+  matchesWebhook(headers) {
+    return headers.has('verif-hash');
+  },
+
+  verifyWebhookSignature(_rawBody, headers) {
+    const flutterwaveHash = Deno.env.get('FLUTTERWAVE_SECRET_HASH');
+
+    return !flutterwaveHash || headers.get('verif-hash') === flutterwaveHash;
+  },
+
+  getWebhookEventId(body) {
+    const { event, data } = body as FlutterwaveWebhook;
+    return `${event}:${data.id}`;
+  },
+
+  parseWebhook(body) {
+    const { event, data } = body as FlutterwaveWebhook;
+
+    if (event !== 'charge.completed') {
+      return null;
+    }
+
+    const status = toPaymentStatus(data.status);
+
+    if (status === 'pending') {
+      return null;
+    }
+
+    return {
+      event,
+      reference: data.tx_ref,
+      status,
+      amount: data.amount,
+      currency: data.currency,
+      providerTransactionId: String(data.id),
+      fee: data.app_fee,
+    };
+  },
+
+  async refund({ reference, amount, providerTransactionId }) {
+    const flutterwaveKey = Deno.env.get('FLUTTERWAVE_SECRET_KEY');
+
+    if (!flutterwaveKey) {
+      throw new Error('Flutterwave is not configured');
+    }
+
+    const transactionId = providerTransactionId
+      ?? String((await fetchTransactionByReference(flutterwaveKey, reference)).id);
+
+    const flutterwaveResponse = await fetch(
+      `https://api.flutterwave.com/v3/transactions/${transactionId}/refund`,
+      {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${flutterwaveKey}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(amount !== undefined ? { amount } : {}),
+      },
+    );
+
+    const flutterwaveData = await flutterwaveResponse.json();
+
+    if (flutterwaveData.status !== 'success') {
+      throw new Error(flutterwaveData.message || 'Flutterwave refund failed');
+    }
+
+    return {
+      status: flutterwaveData.data.status === 'completed' ? 'processed' : 'pending',
+      reference: String(flutterwaveData.data.id),
+    };
+  },
+};
@@ -0,0 +1,25 @@
+import { directAdapter } from './direct.ts';
+import { flutterwaveAdapter } from './flutterwave.ts';
+import { mockAdapter } from './mock.ts';
+import { paystackAdapter } from './paystack.ts';
+import type { PaymentAdapter } from './types.ts';
+
+export type * from './types.ts';
+
+function availableAdapters(): PaymentAdapter[] {
+  const adapters = [paystackAdapter, flutterwaveAdapter, directAdapter];
+
+  if (Deno.env.get('PAYMENT_MOCK_ENABLED') === 'true') {
+    adapters.push(mockAdapter);
+  }
+
+  return adapters;
+}
+
+export function getPaymentAdapter(provider: string): PaymentAdapter | null {
+  return availableAdapters().find((adapter) => adapter.name === provider) ?? null;
+}
+
+export function getWebhookAdapter(headers: Headers): PaymentAdapter | null {
+  return availableAdapters().find((adapter) => adapter.matchesWebhook(headers)) ?? null;
+}
@@ -0,0 +1,110 @@
+import { createHmac } from 'node:crypto';
+import type { PaymentAdapter, ProviderPaymentStatus } from './types.ts';
+
+interface MockWebhook {
+  id: string;
+  event: string;
+  data: {
+    reference: string;
+    amount: number;
+    currency: string;
+    status: string;
+  };
+}
+
+function mockSecret() {
+  return Deno.env.get('MOCK_WEBHOOK_SECRET') ?? 'mock_secret';
+}
+
+const webhookStatuses: Record<string, ProviderPaymentStatus> = {
+  'charge.success': 'successful',
+  'charge.failed': 'failed',
+  'charge.abandoned': 'abandoned',
+  'charge.reversed': 'reversed',
+};
+
+function toPaymentStatus(outcome: unknown): ProviderPaymentStatus {
+  switch (outcome) {
+    case 'failure':
+      return 'failed';
+    case 'abandoned':
+    case 'pending':
+      return outcome;
+    default:
+      return 'successful';
+  }
+}
+
+export function signMockWebhook(rawBody: string) {
+  return createHmac('sha512', mockSecret()).update(rawBody).digest('hex');
+}
+
+/**
+ * Local stand-in for a real provider. The outcome of a payment is chosen by
+ * the caller through `metadata.mock_outcome` ('success', 'failure',
+ * 'abandoned' or 'pending') and it only settles once `metadata.mock_delay_ms` (or
+ * MOCK_PAYMENT_DELAY_MS) has passed since the payment was created, so the
+ * whole checkout flow can be exercised without any network access.
+ */
+export const mockAdapter: PaymentAdapter = {
+  name: 'mock',
+
+  async initialize({ reference, method }) {
+    return {
+      instructions: method === 'card'
+        ? `Mock card payment created. Reference: ${reference}`
+        : `Mock mobile money prompt sent. Reference: ${reference}`,
+    };
+  },
+
+  async verify(payment) {
+    const metadata = payment.metadata ?? {};
+    const delayMs = Number(metadata.mock_delay_ms ?? Deno.env.get('MOCK_PAYMENT_DELAY_MS') ?? 0);
+    const settlesAt = new Date(payment.created_at).getTime() + delayMs;
+
+    return {
+      reference: payment.provider_reference,
+      status: Date.now() < settlesAt ? 'pending' : toPaymentStatus(metadata.mock_outcome),
+      amount: Number(metadata.mock_amount ?? payment.amount),
+      currency: String(metadata.mock_currency ?? 'GHS'),
+      providerTransactionId: `MOCK-${payment.id}`,
+    };
+  },
+
+  matchesWebhook(headers) {
+    return headers.has('x-mock-signature');
+  },
+
+  verifyWebhookSignature(rawBody, headers) {
+    return signMockWebhook(rawBody) === headers.get('x-mock-signature');
+  },
+
+  getWebhookEventId(body) {
+    return (body as MockWebhook).id;
+  },
+
+  parseWebhook(body) {
+    const { id, event, data } = body as MockWebhook;
+    const status = webhookStatuses[event];
+
+    if (!status) {
+      return null;
+    }
+
+    return {
+      event,
+      reference: data.reference,
+      status,
+      amount: data.amount,
+      currency: data.currency,
+      providerTransactionId: id,
+    };
+  },
+
+  async refund({ reference }) {
+    return {
+      status: 'processed',
+      reference: `MOCK-RFD-${reference}`,
+    };
+  },
+};
@@ -0,0 +1,189 @@
+import { createHmac } from 'node:crypto';
+import type { PaymentAdapter, ProviderPaymentStatus } from './types.ts';
+
+interface PaystackTransaction {
+  id: number;
+  reference: string;
+  amount: number;
+  currency: string;
+  status: string;
+  fees?: number | null;
+}
+
+interface PaystackWebhook {
+  event: string;
+  data: PaystackTransaction & {
+    transaction?: PaystackTransaction;
+  };
+}
+
+function toPaymentStatus(paystackStatus: string): ProviderPaymentStatus {
+  if (paystackStatus === 'success') {
+    return 'successful';
+  }
+  if (paystackStatus === 'failed' || paystackStatus === 'abandoned' || paystackStatus === 'reversed') {
+    return paystackStatus;
+  }
+  return 'pending';
+}
+
+export const paystackAdapter: PaymentAdapter = {
+  name: 'paystack',
+
+  async initialize({ orderId, reference, amount, currency, method, email, metadata }) {
+    const paystackKey = Deno.env.get('PAYSTACK_SECRET_KEY');
+
+    if (!paystackKey) {
+      return {
+        instructions: 'Payment provider configuration pending. Using test mode.',
+        authorizationUrl: `https://checkout.paystack.com/test-${reference}`,
+      };
+    }
+
+    const paystackResponse = await fetch('https://api.paystack.co/transaction/initialize', {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${paystackKey}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        email,
+        amount: Math.round(amount * 100),
+        reference,
+        currency,
+        channels: method === 'card' ? ['card'] : ['mobile_money'],
+        metadata: {
+          ...metadata,
+          order_id: orderId,
+          payment_method: method,
+        },
+      }),
+    });
+
+    const paystackData = await paystackResponse.json();
+
+    if (!paystackData.status) {
+      throw new Error(paystackData.message || 'Paystack initialization failed');
+    }
+
+    return { authorizationUrl: paystackData.data.authorization_url };
+  },
+
+  async verify(payment) {
+    const paystackKey = Deno.env.get('PAYSTACK_SECRET_KEY');
+
+    if (!paystackKey) {
+      return null;
+    }
+
+    const paystackResponse = await fetch(
+      `https://api.paystack.co/transaction/verify/${encodeURIComponent(payment.provider_reference)}`,
+      { headers: { 'Authorization': `Bearer ${paystackKey}` } },
+    );
+
+    const paystackData = await paystackResponse.json();
+
+    if (!paystackData.status) {
+      throw new Error(paystackData.message || 'Paystack verification failed');
+    }
+
+    return {
+      reference: paystackData.data.reference,
+      status: toPaymentStatus(paystackData.data.status),
+      amount: paystackData.data.amount / 100,
+      currency: paystackData.data.currency,
+      providerTransactionId: String(paystackData.data.id),
+      fee: paystackData.data.fees != null ? paystackData.data.fees / 100 : undefined,
+    };
+  },
+
+  matchesWebhook(headers) {
+    return headers.has('x-paystack-signature');
+  },
+
+  verifyWebhookSignature(rawBody, headers) {
+    const paystackKey = Deno.env.get('PAYSTACK_SECRET_KEY');
+
+    if (!paystackKey) {
+      return true;
+    }
+
+    const hash = createHmac('sha512', paystackKey)
+      .update(rawBody)
+      .digest('hex');
+
+    return hash === headers.get('x-paystack-signature');
+  },
+
+  getWebhookEventId(body) {
+    const { event, data } = body as PaystackWebhook;
+    return `${event}:${data.id}`;
+  },
+
+  parseWebhook(body) {
+    const { event, data } = body as PaystackWebhook;
+
+    // Chargebacks arrive as dispute events wrapping the original transaction.
+    if (event === 'charge.dispute.create' && data.transaction) {
+      return {
+        event,
+        reference: data.transaction.reference,
+        status: 'reversed',
+        amount: data.transaction.amount / 100,
+        currency: data.transaction.currency,
+        providerTransactionId: String(data.transaction.id),
+      };
+    }
+
+    if (!event.startsWith('charge.')) {
+      return null;
+    }
+
+    const status = toPaymentStatus(data.status);
+
+    if (status === 'pending') {
+      return null;
+    }
+
+    return {
+      event,
+      reference: data.reference,
+      status,
+      amount: data.amount / 100,
+      currency: data.currency,
+      providerTransactionId: String(data.id),
+      fee: data.fees != null ? data.fees / 100 : undefined,
+    };
+  },
+
+  async refund({ reference, amount }) {
+    const paystackKey = Deno.env.get('PAYSTACK_SECRET_KEY');
+
+    if (!paystackKey) {
+      throw new Error('Paystack is not configured');
+    }
+
+    const paystackResponse = await fetch('https://api.paystack.co/refund', {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${paystackKey}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        transaction: reference,
+        ...(amount !== undefined ? { amount: Math.round(amount * 100) } : {}),
+      }),
+    });
+
+    const paystackData = await paystackResponse.json();
+
+    if (!paystackData.status) {
+      throw new Error(paystackData.message || 'Paystack refund failed');
+    }
+
+    return {
+      status: paystackData.data.status === 'processed' ? 'processed' : 'pending',
+      reference: String(paystackData.data.id),
+    };
+  },
+};
@@ -0,0 +1,74 @@
+export type PaymentMethod = 'mtn_momo' | 'vodafone_cash' | 'airteltigo_money' | 'card';
+export type PaymentProvider = 'paystack' | 'flutterwave' | 'direct' | 'mock';
+
+export type ProviderPaymentStatus = 'successful' | 'failed' | 'abandoned' | 'reversed' | 'pending';
+
+export interface ProviderPayment {
+  id: string;
+  provider_reference: string;
+  method: PaymentMethod;
+  amount: number;
+  phone_number?: string | null;
+  metadata?: Record<string, unknown> | null;
+  created_at: string;
+}
+
+export interface InitializeParams {
+  // The order being paid for, or the checkout group for multi-store carts.
+  orderId: string;
+  reference: string;
+  amount: number;
+  currency: string;
+  method: PaymentMethod;
+  email: string;
+  phoneNumber?: string;
+  metadata?: Record<string, unknown>;
+}
+
+export interface InitializeResult {
+  authorizationUrl?: string;
+  instructions?: string;
+}
+
+export interface ProviderTransaction {
+  reference: string;
+  status: ProviderPaymentStatus;
+  amount: number;
+  currency: string;
+  providerTransactionId?: string;
+  fee?: number;
+}
+
+export interface WebhookEvent extends ProviderTransaction {
+  event: string;
+}
+
+export interface RefundParams {
+  reference: string;
+  amount?: number;
+  providerTransactionId?: string;
+  method?: PaymentMethod;
+  phoneNumber?: string | null;
+}
+
+export interface RefundResult {
+  status: 'pending' | 'processed' | 'failed';
+  reference: string;
+}
+
+/**
+ * Everything an edge function needs from a payment provider. Adapters return
+ * null from `verify` when the provider is not configured so callers can leave
+ * the payment pending instead of failing it. `getWebhookEventId` must return
+ * the same value every time the provider redelivers an event.
+ */
+export interface PaymentAdapter {
+  name: PaymentProvider;
+  initialize(params: InitializeParams): Promise<InitializeResult>;
+  verify(payment: ProviderPayment): Promise<ProviderTransaction | null>;
+  matchesWebhook(headers: Headers): boolean;
+  verifyWebhookSignature(rawBody: string, headers: Headers): boolean;
+  getWebhookEventId(body: unknown): string;
+  parseWebhook(body: unknown): WebhookEvent | null;
+  refund(params: RefundParams): Promise<RefundResult>;
+}
@@ -0,0 +1,125 @@
+import type { SupabaseClient } from 'npm:@supabase/supabase-js@2.57.4';
+import { toMinorUnits, type CancellationReason } from './orders.ts';
+import { getPaymentAdapter } from './providers/index.ts';
+
+export interface RefundableEscrow {
+  id: string;
+  amount: number;
+  refunded_amount: number;
+  released_amount?: number;
+}
+
+export interface RefundablePayment {
+  id: string;
+  provider: string;
+  provider_reference: string;
+  method: string;
+  phone_number?: string | null;
+}
+
+export interface RefundCancellation {
+  actor: 'buyer' | 'seller' | 'admin';
+  reason: CancellationReason;
+  details: string | null;
+}
+
+export interface RefundEscrowParams {
+  escrow: RefundableEscrow;
+  payment: RefundablePayment;
+  amount: number;
+  reason: string;
+  requestedBy: string | null;
+  orderItemIds?: string[];
+  disputeId?: string | null;
+  cancellation?: RefundCancellation | null;
+}
+
+export function remainingEscrowBalance(escrow: RefundableEscrow) {
+  return (
+    toMinorUnits(escrow.amount) - toMinorUnits(escrow.refunded_amount ?? 0) - toMinorUnits(escrow.released_amount ?? 0)
+  ) / 100;
+}
+
+/**
+ * Returns part or all of an escrow to the buyer through the provider that
+ * collected the payment. The amount is reserved on the escrow and the refund
+ * recorded as pending before the provider is called, so two refunds racing
+ * for the same escrow cannot return more than was paid; the reservation is
+ * undone if the provider refuses. Both steps, and settling the escrow,
+ * payment and order afterwards, are single database functions.
+ * Returns null when the escrow changed underneath us and nothing was refunded.
+ */
+export async function refundEscrow(
+  supabase: SupabaseClient,
+  { escrow, payment, amount, reason, requestedBy, orderItemIds = [], disputeId = null, cancellation = null }: RefundEscrowParams,
+) {
+  const adapter = getPaymentAdapter(payment.provider);
+
+  if (!adapter) {
+    throw new Error(`Refunds are not supported for ${payment.provider} payments`);
+  }
+
+  const refundedAmount = (toMinorUnits(escrow.refunded_amount ?? 0) + toMinorUnits(amount)) / 100;
+
+  const { data: refund, error: reserveError } = await supabase.rpc('reserve_escrow_refund', {
+    p_escrow_id: escrow.id,
+    p_expected_refunded: escrow.refunded_amount ?? 0,
+    p_payment_id: payment.id,
+    p_amount: amount,
+    p_reason: reason,
+    p_requested_by: requestedBy,
+    p_dispute_id: disputeId,
+    p_cancellation_actor: cancellation?.actor ?? null,
+    p_cancellation_reason: cancellation?.reason ?? null,
+    p_cancellation_details: cancellation?.details ?? null,
+  });
+
+  if (reserveError) {
+    throw reserveError;
+  }
+
+  if (!refund) {
+    return null;
+  }
+
+  let providerRefund;
+
+  try {
+    providerRefund = await adapter.refund({
+      reference: payment.provider_reference,
+      amount,
+      method: payment.method,
+      phoneNumber: payment.phone_number ?? undefined,
+    });
+
+    if (providerRefund.status === 'failed') {
+      throw new Error('The provider declined the refund');
+    }
+  } catch (error) {
+    await supabase.rpc('fail_escrow_refund', {
+      p_refund_id: refund.id,
+      p_error: error.message,
+      p_provider_reference: providerRefund?.reference ?? null,
+    });
+
+    throw error;
+  }
+
+  const { data: completed, error: completeError } = await supabase.rpc('complete_escrow_refund', {
+    p_refund_id: refund.id,
+    p_status: providerRefund.status,
+    p_provider_reference: providerRefund.reference,
+    p_order_item_ids: orderItemIds,
+  });
+
+  if (completeError) {
+    throw completeError;
+  }
+
+  return {
+    refund: completed?.refund ?? refund,
+    settlement: completed?.settlement ?? null,
+    fullRefund: completed?.full_refund ?? false,
+    refundedAmount,
+  };
+}
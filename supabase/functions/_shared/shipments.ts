@@ -0,0 +1,97 @@
+import type { SupabaseClient } from 'npm:@supabase/supabase-js@2.57.4';
+import { getCourierAdapter, type CourierUpdate } from './couriers/index.ts';
+
+export interface BookedShipment {
+  id: string;
+  courier_provider: string | null;
+  courier_reference: string | null;
+  booked_at: string | null;
+  eta_minutes: number | null;
+}
+
+/**
+ * Records a courier's progress report against the shipment it booked and
+ * moves the shipment, and its order, along. Returns null when no shipment
+ * has that courier reference.
+ */
+export async function applyCourierUpdate(
+  supabase: SupabaseClient,
+  provider: string,
+  update: CourierUpdate,
+) {
+  const { data, error } = await supabase.rpc('apply_courier_update', {
+    p_provider: provider,
+    p_update: {
+      event_id: update.eventId,
+      courier_reference: update.courierReference,
+      status: update.status,
+      occurred_at: update.occurredAt,
+      description: update.description ?? null,
+      eta_minutes: update.etaMinutes ?? null,
+      rider_name: update.riderName ?? null,
+      rider_phone: update.riderPhone ?? null,
+      lat: update.lat ?? null,
+      lon: update.lon ?? null,
+      handover_code: update.handoverCode ?? null,
+      photo_url: update.photoUrl ?? null,
+    },
+  });
+
+  if (error) {
+    throw error;
+  }
+
+  return data as {
+    shipment: Record<string, unknown>;
+    applied: boolean;
+    duplicate: boolean;
+    error?: string;
+  } | null;
+}
+
+/**
+ * Asks the courier for the latest state of a booking and applies it, for
+ * couriers (or deliveries) whose webhooks never arrived.
+ */
+export async function syncShipment(supabase: SupabaseClient, shipment: BookedShipment) {
+  const adapter = shipment.courier_provider ? getCourierAdapter(shipment.courier_provider) : null;
+
+  if (!adapter || !shipment.courier_reference || !shipment.booked_at) {
+    return null;
+  }
+
+  const update = await adapter.track({
+    courier_reference: shipment.courier_reference,
+    booked_at: shipment.booked_at,
+    eta_minutes: shipment.eta_minutes,
+  });
+
+  return update ? applyCourierUpdate(supabase, adapter.name, update) : null;
+}
+
+/**
+ * Calls off a booking that the courier has not collected yet and marks the
+ * shipment cancelled. Throws if the courier refuses, so callers can stop
+ * before, for example, refunding an order a rider is still coming for.
+ */
+export async function cancelCourierBooking(supabase: SupabaseClient, shipment: BookedShipment) {
+  if (!shipment.courier_provider || !shipment.courier_reference) {
+    return;
+  }
+
+  const adapter = getCourierAdapter(shipment.courier_provider);
+
+  if (!adapter) {
+    throw new Error(`Courier ${shipment.courier_provider} is not available`);
+  }
+
+  await adapter.cancel(shipment.courier_reference);
+
+  await applyCourierUpdate(supabase, adapter.name, {
+    eventId: `${shipment.courier_reference}:cancelled`,
+    courierReference: shipment.courier_reference,
+    status: 'cancelled',
+    occurredAt: new Date().toISOString(),
+    description: 'Booking cancelled',
+  });
+}
@@ -0,0 +1,34 @@
+import { mockTransferAdapter } from './mock.ts';
+import { paystackTransferAdapter } from './paystack.ts';
+import type { TransferAdapter } from './types.ts';
+
+export type * from './types.ts';
+
+function availableAdapters(): TransferAdapter[] {
+  const adapters = [paystackTransferAdapter];
+
+  if (Deno.env.get('PAYMENT_MOCK_ENABLED') === 'true') {
+    adapters.push(mockTransferAdapter);
+  }
+
+  return adapters;
+}
+
+export function getTransferAdapter(provider: string): TransferAdapter | null {
+  return availableAdapters().find((adapter) => adapter.name === provider) ?? null;
+}
+
+/**
+ * The provider new payout accounts are registered with, from
+ * `PAYOUT_PROVIDER` (defaults to Paystack).
+ */
+export function getDefaultTransferAdapter(): TransferAdapter {
+  const provider = Deno.env.get('PAYOUT_PROVIDER') ?? 'paystack';
+  const adapter = getTransferAdapter(provider);
+
+  if (!adapter) {
+    throw new Error(`Payout provider ${provider} is not available`);
+  }
+
+  return adapter;
+}
@@ -0,0 +1,39 @@
+import type { TransferAdapter } from './types.ts';
+
+/**
+ * Transfer provider for local development, enabled together with the mock
+ * payment provider. Account numbers ending in 0 are rejected by the name
+ * lookup and numbers ending in 9 have every transfer fail, so retries can be
+ * exercised; everything else is paid immediately.
+ */
+export const mockTransferAdapter: TransferAdapter = {
+  name: 'mock',
+
+  async resolveAccount({ accountNumber }) {
+    if (accountNumber.endsWith('0')) {
+      throw new Error('Account could not be resolved');
+    }
+
+    return { accountName: 'Mock Account Holder' };
+  },
+
+  async createRecipient({ accountNumber }) {
+    return `MOCK-RCP-${accountNumber}`;
+  },
+
+  async transfer({ reference, recipientCode }) {
+    if (recipientCode.endsWith('9')) {
+      return { status: 'failed', reason: 'Mock transfer declined' };
+    }
+
+    return { status: 'paid', transferCode: `MOCK-TRF-${reference}` };
+  },
+
+  async getTransfer(reference) {
+    return { status: 'paid', transferCode: `MOCK-TRF-${reference}` };
+  },
+
+  parseTransferWebhook() {
+    return null;
+  },
+};
@@ -0,0 +1,110 @@
+import type { TransferAdapter, TransferResult } from './types.ts';
+
+interface PaystackTransferWebhook {
+  event: string;
+  data: {
+    reference: string;
+  };
+}
+
+function paystackKey() {
+  const key = Deno.env.get('PAYSTACK_SECRET_KEY');
+
+  if (!key) {
+    throw new Error('Paystack is not configured');
+  }
+
+  return key;
+}
+
+async function paystackRequest(path: string, init: RequestInit = {}) {
+  const paystackResponse = await fetch(`https://api.paystack.co${path}`, {
+    ...init,
+    headers: {
+      'Authorization': `Bearer ${paystackKey()}`,
+      'Content-Type': 'application/json',
+    },
+  });
+
+  const paystackData = await paystackResponse.json();
+
+  if (!paystackData.status) {
+    throw new Error(paystackData.message || `Paystack request failed (${paystackResponse.status})`);
+  }
+
+  return paystackData.data;
+}
+
+function toTransferResult(transfer: { status: string; transfer_code?: string; reason?: string }): TransferResult {
+  if (transfer.status === 'success') {
+    return { status: 'paid', transferCode: transfer.transfer_code };
+  }
+
+  if (transfer.status === 'failed' || transfer.status === 'reversed' || transfer.status === 'abandoned') {
+    return {
+      status: 'failed',
+      transferCode: transfer.transfer_code,
+      reason: transfer.reason || `Transfer ${transfer.status}`,
+    };
+  }
+
+  return { status: 'pending', transferCode: transfer.transfer_code };
+}
+
+export const paystackTransferAdapter: TransferAdapter = {
+  name: 'paystack',
+
+  async resolveAccount({ bankCode, accountNumber }) {
+    const resolved = await paystackRequest(
+      `/bank/resolve?account_number=${encodeURIComponent(accountNumber)}&bank_code=${encodeURIComponent(bankCode)}`,
+    );
+
+    return { accountName: resolved.account_name };
+  },
+
+  async createRecipient({ accountType, bankCode, accountNumber, accountName }) {
+    const recipient = await paystackRequest('/transferrecipient', {
+      method: 'POST',
+      body: JSON.stringify({
+        type: accountType === 'mobile_money' ? 'mobile_money' : 'ghipss',
+        name: accountName,
+        account_number: accountNumber,
+        bank_code: bankCode,
+        currency: 'GHS',
+      }),
+    });
+
+    return recipient.recipient_code;
+  },
+
+  async transfer({ reference, amount, currency, recipientCode, reason }) {
+    const transfer = await paystackRequest('/transfer', {
+      method: 'POST',
+      body: JSON.stringify({
+        source: 'balance',
+        amount: Math.round(amount * 100),
+        currency,
+        recipient: recipientCode,
+        reference,
+        reason,
+      }),
+    });
+
+    return toTransferResult(transfer);
+  },
+
+  async getTransfer(reference) {
+    const transfer = await paystackRequest(`/transfer/verify/${encodeURIComponent(reference)}`);
+    return toTransferResult(transfer);
+  },
+
+  parseTransferWebhook(body) {
+    const { event, data } = body as PaystackTransferWebhook;
+
+    if (!event?.startsWith('transfer.') || !data?.reference) {
+      return null;
+    }
+
+    return data.reference;
+  },
+};
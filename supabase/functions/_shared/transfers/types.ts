@@ -0,0 +1,43 @@
+export type PayoutProvider = 'paystack' | 'mock';
+export type PayoutAccountType = 'mobile_money' | 'bank';
+
+export type TransferStatus = 'pending' | 'paid' | 'failed';
+
+export interface PayoutDestination {
+  accountType: PayoutAccountType;
+  bankCode: string;
+  accountNumber: string;
+}
+
+export interface ResolvedAccount {
+  accountName: string;
+}
+
+export interface TransferParams {
+  reference: string;
+  amount: number;
+  currency: string;
+  recipientCode: string;
+  reason: string;
+}
+
+export interface TransferResult {
+  status: TransferStatus;
+  transferCode?: string;
+  reason?: string;
+}
+
+/**
+ * Everything payouts need from a transfer provider. `resolveAccount` is the
+ * name lookup used to verify a destination before it is saved, and
+ * `getTransfer` must accept the same reference `transfer` was called with so
+ * a payout can be re-checked after a webhook or a timeout.
+ */
+export interface TransferAdapter {
+  name: PayoutProvider;
+  resolveAccount(destination: PayoutDestination): Promise<ResolvedAccount>;
+  createRecipient(destination: PayoutDestination & ResolvedAccount): Promise<string>;
+  transfer(params: TransferParams): Promise<TransferResult>;
+  getTransfer(reference: string): Promise<TransferResult>;
+  parseTransferWebhook(body: unknown): string | null;
+}
@@ -0,0 +1,125 @@
+import { createClient } from 'npm:@supabase/supabase-js@2.57.4';
+import { syncShipment } from '../_shared/shipments.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Client-Info, Apikey',
+};
+
+const BATCH_SIZE = 50;
+const ACTIVE_STATUSES = ['assigned', 'picked_up', 'in_transit'];
+
+// Meant to run on a schedule with the service role key, as a fallback for
+// courier webhooks that never arrive. The buyer or seller can also refresh a
+// single order's shipment by passing `orderId`.
+Deno.serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, {
+      status: 200,
+      headers: corsHeaders,
+    });
+  }
+
+  try {
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(Deno.env.get('SUPABASE_URL')!, serviceRoleKey);
+
+    const token = req.headers.get('Authorization')?.replace('Bearer ', '');
+
+    if (!token) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Unauthorized' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
+      );
+    }
+
+    const { orderId } = await req.json().catch(() => ({}));
+    let isAdmin = token === serviceRoleKey;
+
+    if (!isAdmin) {
+      const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+
+      if (authError || !user) {
+        return new Response(
+          JSON.stringify({ success: false, error: 'Unauthorized' }),
+          { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
+        );
+      }
+
+      const { data: profile } = await supabase
+        .from('profiles')
+        .select('role')
+        .eq('id', user.id)
+        .single();
+
+      isAdmin = profile?.role === 'admin';
+
+      if (!isAdmin && !orderId) {
+        return new Response(
+          JSON.stringify({ success: false, error: 'Only admins can run the courier sweep' }),
+          { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
+        );
+      }
+
+      if (!isAdmin) {
+        const { data: order } = await supabase
+          .from('orders')
+          .select('buyer_id, seller_profiles!inner(user_id)')
+          .eq('id', orderId)
+          .maybeSingle();
+
+        if (!order || (order.buyer_id !== user.id && order.seller_profiles.user_id !== user.id)) {
+          return new Response(
+            JSON.stringify({ success: false, error: 'Only the buyer or seller can refresh this order' }),
+            { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
+          );
+        }
+      }
+    }
+
+    let query = supabase
+      .from('shipments')
+      .select('id, courier_provider, courier_reference, booked_at, eta_minutes')
+      .not('courier_reference', 'is', null)
+      .in('status', ACTIVE_STATUSES);
+
+    query = orderId
+      ? query.eq('order_id', orderId)
+      : query.order('updated_at', { ascending: true }).limit(BATCH_SIZE);
+
+    const { data: shipments, error } = await query;
+
+    if (error) {
+      throw error;
+    }
+
+    const summary = { checked: 0, updated: 0, errors: 0 };
+
+    for (const shipment of shipments ?? []) {
+      try {
+        const result = await syncShipment(supabase, shipment);
+
+        summary.checked += 1;
+
+        if (result?.applied) {
+          summary.updated += 1;
+        }
+      } catch (error) {
+        summary.errors += 1;
+        console.error(`Courier sync of shipment ${shipment.id} failed:`, error);
+      }
+    }
+
+    return new Response(
+      JSON.stringify({ success: true, ...summary }),
+      { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
+    );
+  } catch (error) {
+    console.error('Courier sync error:', error);
+    return new Response(
+      JSON.stringify({ success: false, error: error.message || 'Courier sync failed' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
+    );
+  }
+});
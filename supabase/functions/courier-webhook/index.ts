@@ -0,0 +1,74 @@
+import { createClient } from 'npm:@supabase/supabase-js@2.57.4';
+import { getCourierWebhookAdapter } from '../_shared/couriers/index.ts';
+import { applyCourierUpdate } from '../_shared/shipments.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Client-Info, Apikey',
+};
+
+// Couriers retry until they get a 2xx, so reports we can't match to a
+// shipment are acknowledged and dropped; repeated reports are recorded once
+// by apply_courier_update.
+Deno.serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, {
+      status: 200,
+      headers: corsHeaders,
+    });
+  }
+
+  try {
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!,
+    );
+
+    const rawBody = await req.text();
+    const adapter = getCourierWebhookAdapter(req.headers);
+
+    if (!adapter) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Unknown webhook source' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
+      );
+    }
+
+    if (!adapter.verifyWebhookSignature(rawBody, req.headers)) {
+      console.warn(`Rejected ${adapter.name} courier webhook with an invalid signature`);
+
+      return new Response(
+        JSON.stringify({ success: false, error: 'Invalid signature' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
+      );
+    }
+
+    const update = adapter.parseWebhook(JSON.parse(rawBody));
+
+    if (!update) {
+      return new Response(
+        JSON.stringify({ success: true, ignored: true }),
+        { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
+      );
+    }
+
+    const result = await applyCourierUpdate(supabase, adapter.name, update);
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        ignored: !result,
+        duplicate: result?.duplicate ?? false,
+        applied: result?.applied ?? false,
+      }),
+      { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
+    );
+  } catch (error) {
+    console.error('Courier webhook error:', error);
+    return new Response(
+      JSON.stringify({ success: false, error: error.message || 'Webhook processing failed' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
+    );
+  }
+});
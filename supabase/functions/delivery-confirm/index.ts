@@ -0,0 +1,154 @@
+import { createClient } from 'npm:@supabase/supabase-js@2.57.4';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Client-Info, Apikey',
+};
+
+function isValidPhotoUrl(value: unknown) {
+  try {
+    return typeof value === 'string' && ['http:', 'https:'].includes(new URL(value).protocol);
+  } catch {
+    return false;
+  }
+}
+
+// The seller (or whoever they sent) enters the code the buyer gives them at
+// the door. A matching code marks the shipment and the order delivered and
+// keeps the photo and location as proof of the handover.
+Deno.serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, {
+      status: 200,
+      headers: corsHeaders,
+    });
+  }
+
+  try {
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!,
+    );
+
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Unauthorized' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
+      );
+    }
+
+    const token = authHeader.replace('Bearer ', '');
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+
+    if (authError || !user) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Unauthorized' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
+      );
+    }
+
+    const { orderId, code, photoUrl, lat, lon } = await req.json();
+
+    if (!orderId || typeof code !== 'string' || !code.trim()) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Order ID and the buyer\'s delivery code are required' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
+      );
+    }
+
+    if (photoUrl != null && photoUrl !== '' && !isValidPhotoUrl(photoUrl)) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'photoUrl must be an http(s) link' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
+      );
+    }
+
+    const hasLocation = lat != null || lon != null;
+
+    if (hasLocation && !(Math.abs(Number(lat)) <= 90 && Math.abs(Number(lon)) <= 180)) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'lat and lon must be given together as valid coordinates' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
+      );
+    }
+
+    const { data: order, error: orderError } = await supabase
+      .from('orders')
+      .select('id, delivery_method, seller_profiles!inner(user_id), shipments(id, status)')
+      .eq('id', orderId)
+      .single();
+
+    if (orderError || !order) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Order not found' }),
+        { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
+      );
+    }
+
+    const { data: profile } = await supabase
+      .from('profiles')
+      .select('role')
+      .eq('id', user.id)
+      .single();
+
+    const isAdmin = profile?.role === 'admin';
+
+    if (order.seller_profiles.user_id !== user.id && !isAdmin) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Only the seller can confirm a handover for this order' }),
+        { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
+      );
+    }
+
+    if (order.delivery_method !== 'courier' || !order.shipments) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'This order has no shipment to hand over' }),
+        { status: 409, headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
+      );
+    }
+
+    const { data: result, error: confirmError } = await supabase.rpc('confirm_delivery_handover', {
+      p_shipment_id: order.shipments.id,
+      p_code: code,
+      p_proof: {
+        confirmed_by: user.id,
+        actor_role: isAdmin ? 'admin' : 'seller',
+        photo_url: photoUrl || null,
+        lat: hasLocation ? Number(lat) : null,
+        lon: hasLocation ? Number(lon) : null,
+      },
+    });
+
+    if (confirmError) {
+      throw confirmError;
+    }
+
+    if (!result.confirmed) {
+      return new Response(
+        JSON.stringify({ success: false, error: result.error, attemptsLeft: result.attempts_left }),
+        {
+          status: result.reason === 'wrong_code' ? 400 : 409,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        },
+      );
+    }
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        message: 'Delivery confirmed',
+        orderStatus: result.order_status,
+        proof: result.proof,
+      }),
+      { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
+    );
+  } catch (error) {
+    console.error('Delivery confirmation error:', error);
+    return new Response(
+      JSON.stringify({ success: false, error: error.message || 'Delivery confirmation failed' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
+    );
+  }
+});
@@ -0,0 +1,170 @@
+import { createClient } from 'npm:@supabase/supabase-js@2.57.4';
+import { largestPackageSize, priceDelivery, quoteExpiry, type Coordinates } from '../_shared/delivery.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Client-Info, Apikey',
+};
+
+function toCoordinates(lat: unknown, lon: unknown): Coordinates | null {
+  if (lat == null || lon == null || !Number.isFinite(Number(lat)) || !Number.isFinite(Number(lon))) {
+    return null;
+  }
+
+  return { lat: Number(lat), lon: Number(lon) };
+}
+
+// Prices courier delivery for each store in the signed-in buyer's cart (or
+// the lines listed in cartItemIds). Every option is stored as a quote the
+// buyer can pass to order-create until it expires.
+Deno.serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, {
+      status: 200,
+      headers: corsHeaders,
+    });
+  }
+
+  try {
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!,
+    );
+
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Unauthorized' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
+      );
+    }
+
+    const token = authHeader.replace('Bearer ', '');
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+
+    if (authError || !user) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Unauthorized' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
+      );
+    }
+
+    const { cartItemIds, location } = await req.json();
+
+    if (cartItemIds !== undefined && (!Array.isArray(cartItemIds) || cartItemIds.length === 0)) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'cartItemIds must list at least one cart item' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
+      );
+    }
+
+    const { data: buyer } = await supabase
+      .from('profiles')
+      .select('location_lat, location_lon')
+      .eq('id', user.id)
+      .single();
+
+    const dropoff = toCoordinates(location?.lat, location?.lon)
+      ?? toCoordinates(buyer?.location_lat, buyer?.location_lon);
+
+    if (!dropoff) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Share your location, or add it to your profile, to get delivery prices' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
+      );
+    }
+
+    let linesQuery = supabase
+      .from('cart_items')
+      .select('id, products!inner(package_size, seller_profiles!inner(id, user_id, store_name))')
+      .eq('user_id', user.id);
+
+    if (cartItemIds) {
+      linesQuery = linesQuery.in('id', cartItemIds);
+    }
+
+    const { data: lines, error: linesError } = await linesQuery;
+
+    if (linesError) {
+      throw linesError;
+    }
+
+    if (!lines || lines.length === 0) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Your cart is empty' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
+      );
+    }
+
+    const stores = new Map<string, { storeName: string; userId: string; sizes: string[] }>();
+
+    for (const line of lines) {
+      const store = line.products.seller_profiles;
+      const entry = stores.get(store.id) ?? { storeName: store.store_name, userId: store.user_id, sizes: [] };
+      entry.sizes.push(line.products.package_size);
+      stores.set(store.id, entry);
+    }
+
+    const { data: sellers } = await supabase
+      .from('profiles')
+      .select('id, location_lat, location_lon')
+      .in('id', [...stores.values()].map((store) => store.userId));
+
+    const expiresAt = quoteExpiry();
+    const quotes = [];
+
+    for (const [sellerId, store] of stores) {
+      const seller = sellers?.find((profile) => profile.id === store.userId);
+      const pickup = toCoordinates(seller?.location_lat, seller?.location_lon);
+      const options = await priceDelivery(supabase, {
+        pickup,
+        dropoff,
+        packageSize: largestPackageSize(store.sizes),
+      });
+
+      const { data: saved, error: saveError } = await supabase
+        .from('delivery_quotes')
+        .insert(options.map((option) => ({
+          buyer_id: user.id,
+          seller_id: sellerId,
+          speed: option.speed,
+          package_size: option.packageSize,
+          distance_km: option.distanceKm,
+          pickup_lat: pickup?.lat ?? null,
+          pickup_lon: pickup?.lon ?? null,
+          dropoff_lat: dropoff.lat,
+          dropoff_lon: dropoff.lon,
+          region_surcharge_id: option.regionSurchargeId,
+          distance_fee: option.distanceFee,
+          region_surcharge: option.regionSurcharge,
+          package_surcharge: option.packageSurcharge,
+          amount: option.amount,
+          eta_minutes: option.etaMinutes,
+          expires_at: expiresAt,
+        })))
+        .select();
+
+      if (saveError) {
+        throw saveError;
+      }
+
+      quotes.push({
+        sellerId,
+        storeName: store.storeName,
+        options: options.map((option, index) => ({ ...option, quoteId: saved[index].id })),
+      });
+    }
+
+    return new Response(
+      JSON.stringify({ success: true, currency: 'GHS', expiresAt, stores: quotes }),
+      { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
+    );
+  } catch (error) {
+    console.error('Delivery quote error:', error);
+    return new Response(
+      JSON.stringify({ success: false, error: error.message || 'Delivery quote failed' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
+    );
+  }
+});
@@ -0,0 +1,267 @@
+import { createClient } from 'npm:@supabase/supabase-js@2.57.4';
+import { releaseEscrow } from '../_shared/escrow.ts';
+import { toMinorUnits } from '../_shared/orders.ts';
+import { findSettledPayment } from '../_shared/payments.ts';
+import { refundEscrow, remainingEscrowBalance } from '../_shared/refunds.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Client-Info, Apikey',
+};
+
+const outcomes = ['release', 'refund', 'split', 'dismissed'];
+
+Deno.serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, {
+      status: 200,
+      headers: corsHeaders,
+    });
+  }
+
+  try {
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!,
+    );
+
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Unauthorized' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
+      );
+    }
+
+    const token = authHeader.replace('Bearer ', '');
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+
+    if (authError || !user) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Unauthorized' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
+      );
+    }
+
+    const { data: profile } = await supabase
+      .from('profiles')
+      .select('role')
+      .eq('id', user.id)
+      .single();
+
+    if (profile?.role !== 'admin') {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Only admins can resolve disputes' }),
+        { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
+      );
+    }
+
+    const { disputeId, outcome, resolution, refundAmount } = await req.json();
+
+    if (!disputeId || !outcomes.includes(outcome) || !resolution) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Dispute ID, a valid outcome and a resolution are required' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
+      );
+    }
+
+    if (outcome === 'split' && (typeof refundAmount !== 'number' || toMinorUnits(refundAmount) <= 0)) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'A split needs a positive refund amount' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
+      );
+    }
+
+    const { data: dispute, error: disputeError } = await supabase
+      .from('disputes')
+      .select('*')
+      .eq('id', disputeId)
+      .single();
+
+    if (disputeError || !dispute) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Dispute not found' }),
+        { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
+      );
+    }
+
+    if (dispute.status !== 'open' && dispute.status !== 'investigating') {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Dispute is already resolved' }),
+        { status: 409, headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
+      );
+    }
+
+    const { data: order } = await supabase
+      .from('orders')
+      .select('*, seller_profiles!inner(user_id)')
+      .eq('id', dispute.order_id)
+      .single();
+
+    const { data: escrow } = await supabase
+      .from('escrows')
+      .select('*')
+      .eq('order_id', dispute.order_id)
+      .maybeSingle();
+
+    if (!order) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Order not found' }),
+        { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
+      );
+    }
+
+    let earlierRefund: { amount: number } | null = null;
+
+    if (outcome !== 'dismissed') {
+      if (!escrow || (escrow.status !== 'frozen' && escrow.status !== 'holding')) {
+        return new Response(
+          JSON.stringify({ success: false, error: 'There are no escrowed funds left to settle' }),
+          { status: 409, headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
+        );
+      }
+
+      // The buyer's bank has already pulled these funds back, so there is
+      // nothing to release to the seller or refund again.
+      if (escrow.frozen_reason === 'chargeback') {
+        return new Response(
+          JSON.stringify({ success: false, error: 'Escrow is frozen by a chargeback and cannot be settled here' }),
+          { status: 409, headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
+        );
+      }
+
+      // A split whose release failed after the buyer was refunded is picked up
+      // again from the release; refunding a second time would come out of the
+      // seller's share.
+      if (outcome === 'split') {
+        const { data: refund, error: refundError } = await supabase
+          .from('refunds')
+          .select('amount')
+          .eq('dispute_id', dispute.id)
+          .neq('status', 'failed')
+          .order('created_at', { ascending: false })
+          .limit(1)
+          .maybeSingle();
+
+        if (refundError) {
+          throw refundError;
+        }
+
+        earlierRefund = refund;
+      }
+
+      if (outcome === 'split' && !earlierRefund
+        && toMinorUnits(refundAmount) >= toMinorUnits(remainingEscrowBalance(escrow))) {
+        return new Response(
+          JSON.stringify({ success: false, error: 'A split must leave part of the escrow for the seller; use refund instead' }),
+          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
+        );
+      }
+    }
+
+    let refundedToBuyer = 0;
+
+    if (earlierRefund) {
+      refundedToBuyer = earlierRefund.amount;
+    } else if (outcome === 'refund' || outcome === 'split') {
+      const payment = await findSettledPayment(supabase, order);
+
+      if (!payment) {
+        return new Response(
+          JSON.stringify({ success: false, error: 'No settled payment found for this order' }),
+          { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
+        );
+      }
+
+      refundedToBuyer = outcome === 'refund'
+        ? remainingEscrowBalance(escrow)
+        : toMinorUnits(refundAmount) / 100;
+
+      const refunded = await refundEscrow(supabase, {
+        escrow,
+        payment,
+        amount: refundedToBuyer,
+        reason: `Dispute resolution: ${resolution}`,
+        requestedBy: user.id,
+        disputeId: dispute.id,
+      });
+
+      if (!refunded) {
+        return new Response(
+          JSON.stringify({ success: false, error: 'Escrow changed while resolving; please try again' }),
+          { status: 409, headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
+        );
+      }
+    }
+
+    if (outcome === 'release' || outcome === 'split') {
+      const { data: currentEscrow } = await supabase
+        .from('escrows')
+        .select('*')
+        .eq('id', escrow.id)
+        .single();
+
+      const released = await releaseEscrow(supabase, order, currentEscrow, {
+        notes: `Released after dispute resolution: ${resolution}`,
+        buyerMessage: `The dispute on order ${order.order_number} has been resolved and the order is complete.`,
+        fromStatuses: ['holding', 'frozen'],
+      });
+
+      if (!released) {
+        return new Response(
+          JSON.stringify({ success: false, error: 'Escrow changed while resolving; please try again' }),
+          { status: 409, headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
+        );
+      }
+    }
+
+    // Closing the dispute unfreezes the escrow (for dismissals) via the
+    // disputes_sync_escrow trigger.
+    const { data: resolved } = await supabase
+      .from('disputes')
+      .update({
+        status: outcome === 'dismissed' ? 'closed' : 'resolved',
+        outcome,
+        resolution,
+        refund_amount: refundedToBuyer || null,
+        resolved_by: user.id,
+        resolved_at: new Date().toISOString(),
+      })
+      .eq('id', dispute.id)
+      .select()
+      .single();
+
+    const outcomeMessages: Record<string, string> = {
+      release: 'The escrowed payment has been released to the seller.',
+      refund: `GHS ${refundedToBuyer} is being refunded to the buyer.`,
+      split: `GHS ${refundedToBuyer} is being refunded to the buyer and the rest released to the seller.`,
+      dismissed: 'The dispute was dismissed and the order continues as normal.',
+    };
+
+    await supabase.from('notifications').insert(
+      [order.buyer_id, order.seller_profiles.user_id].map((userId) => ({
+        user_id: userId,
+        type: 'dispute_resolved',
+        title: 'Dispute Resolved',
+        message: `Dispute on order ${order.order_number}: ${resolution} ${outcomeMessages[outcome]}`,
+        data: { order_id: order.id, dispute_id: dispute.id, outcome },
+      })),
+    );
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        dispute: resolved,
+        refundedAmount: refundedToBuyer,
+      }),
+      { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
+    );
+  } catch (error) {
+    console.error('Dispute resolution error:', error);
+    return new Response(
+      JSON.stringify({ success: false, error: error.message || 'Dispute resolution failed' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
+    );
+  }
+});
@@ -0,0 +1,159 @@
+import { createClient } from 'npm:@supabase/supabase-js@2.57.4';
+import { releaseEscrow } from '../_shared/escrow.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Client-Info, Apikey',
+};
+
+const BATCH_SIZE = 50;
+const HOUR_MS = 60 * 60 * 1000;
+
+function reminderLeadHours() {
+  return Number(Deno.env.get('ESCROW_REMINDER_LEAD_HOURS') ?? 72);
+}
+
+// Buyers always get at least this long between the reminder and the release,
+// even when the hold period ran out before the order was delivered.
+function minimumNoticeHours() {
+  return Number(Deno.env.get('ESCROW_AUTO_RELEASE_NOTICE_HOURS') ?? 48);
+}
+
+// Meant to run on a schedule with the service role key. Every step is guarded
+// by a conditional update, so overlapping or repeated runs are harmless.
+Deno.serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, {
+      status: 200,
+      headers: corsHeaders,
+    });
+  }
+
+  try {
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(Deno.env.get('SUPABASE_URL')!, serviceRoleKey);
+
+    const token = req.headers.get('Authorization')?.replace('Bearer ', '');
+
+    if (!token) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Unauthorized' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
+      );
+    }
+
+    if (token !== serviceRoleKey) {
+      const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+
+      if (authError || !user) {
+        return new Response(
+          JSON.stringify({ success: false, error: 'Unauthorized' }),
+          { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
+        );
+      }
+
+      const { data: profile } = await supabase
+        .from('profiles')
+        .select('role')
+        .eq('id', user.id)
+        .single();
+
+      if (profile?.role !== 'admin') {
+        return new Response(
+          JSON.stringify({ success: false, error: 'Only admins can run the escrow sweep' }),
+          { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
+        );
+      }
+    }
+
+    const now = new Date();
+    const summary = { reminded: 0, released: 0, skippedDisputed: 0, errors: 0 };
+
+    const { data: remindable } = await supabase
+      .from('escrows')
+      .select('*, orders!inner(id, buyer_id, order_number, status)')
+      .eq('status', 'holding')
+      .eq('orders.status', 'delivered')
+      .is('reminder_sent_at', null)
+      .lte('hold_until', new Date(now.getTime() + reminderLeadHours() * HOUR_MS).toISOString())
+      .limit(BATCH_SIZE);
+
+    for (const escrow of remindable ?? []) {
+      const { data: claimed } = await supabase
+        .from('escrows')
+        .update({ reminder_sent_at: now.toISOString() })
+        .eq('id', escrow.id)
+        .is('reminder_sent_at', null)
+        .select()
+        .maybeSingle();
+
+      if (!claimed) {
+        continue;
+      }
+
+      const releaseAt = new Date(Math.max(
+        new Date(escrow.hold_until).getTime(),
+        now.getTime() + minimumNoticeHours() * HOUR_MS,
+      ));
+
+      await supabase.from('notifications').insert({
+        user_id: escrow.orders.buyer_id,
+        type: 'escrow_release_reminder',
+        title: 'Confirm Your Delivery',
+        message: `Payment for order ${escrow.orders.order_number} will be released to the seller on ${releaseAt.toDateString()}. If there is a problem with your order, open a dispute before then.`,
+        data: { order_id: escrow.order_id, release_at: releaseAt.toISOString() },
+      });
+
+      summary.reminded += 1;
+    }
+
+    const { data: due } = await supabase
+      .from('escrows')
+      .select('*, orders!inner(*, seller_profiles!inner(user_id))')
+      .eq('status', 'holding')
+      .eq('orders.status', 'delivered')
+      .lte('hold_until', now.toISOString())
+      .lte('reminder_sent_at', new Date(now.getTime() - minimumNoticeHours() * HOUR_MS).toISOString())
+      .order('hold_until', { ascending: true })
+      .limit(BATCH_SIZE);
+
+    for (const escrow of due ?? []) {
+      try {
+        const { count: openDisputes } = await supabase
+          .from('disputes')
+          .select('id', { count: 'exact', head: true })
+          .eq('order_id', escrow.order_id)
+          .in('status', ['open', 'investigating']);
+
+        if (openDisputes) {
+          summary.skippedDisputed += 1;
+          continue;
+        }
+
+        const result = await releaseEscrow(supabase, escrow.orders, escrow, {
+          notes: 'Auto-released after the hold period ended without a dispute',
+          buyerMessage: `Order ${escrow.orders.order_number} has been completed and payment released to the seller. Thank you!`,
+        });
+
+        if (result) {
+          summary.released += 1;
+        }
+      } catch (error) {
+        summary.errors += 1;
+        console.error(`Auto-release of escrow ${escrow.id} failed:`, error);
+      }
+    }
+
+    return new Response(
+      JSON.stringify({ success: true, ...summary }),
+      { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
+    );
+  } catch (error) {
+    console.error('Escrow auto-release error:', error);
+    return new Response(
+      JSON.stringify({ success: false, error: error.message || 'Escrow auto-release failed' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
+    );
+  }
+});
@@ -0,0 +1,179 @@
+import { createClient } from 'npm:@supabase/supabase-js@2.57.4';
+import { toMinorUnits } from '../_shared/orders.ts';
+import { findSettledPayment } from '../_shared/payments.ts';
+import { refundEscrow, remainingEscrowBalance } from '../_shared/refunds.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Client-Info, Apikey',
+};
+
+Deno.serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, {
+      status: 200,
+      headers: corsHeaders,
+    });
+  }
+
+  try {
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!,
+    );
+
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Unauthorized' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
+      );
+    }
+
+    const token = authHeader.replace('Bearer ', '');
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+
+    if (authError || !user) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Unauthorized' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
+      );
+    }
+
+    const { orderId, amount, reason } = await req.json();
+
+    if (!orderId || !reason) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Order ID and reason are required' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
+      );
+    }
+
+    if (amount !== undefined && (typeof amount !== 'number' || toMinorUnits(amount) <= 0)) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Refund amount must be a positive number' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
+      );
+    }
+
+    const { data: order, error: orderError } = await supabase
+      .from('orders')
+      .select('*, seller_profiles!inner(user_id)')
+      .eq('id', orderId)
+      .single();
+
+    if (orderError || !order) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Order not found' }),
+        { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
+      );
+    }
+
+    const { data: profile } = await supabase
+      .from('profiles')
+      .select('role')
+      .eq('id', user.id)
+      .single();
+
+    const isAdmin = profile?.role === 'admin';
+
+    if (!isAdmin && order.seller_profiles.user_id !== user.id) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Only the seller or an admin can refund this order' }),
+        { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
+      );
+    }
+
+    const { data: escrow, error: escrowError } = await supabase
+      .from('escrows')
+      .select('*')
+      .eq('order_id', orderId)
+      .single();
+
+    if (escrowError || !escrow) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Escrow not found' }),
+        { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
+      );
+    }
+
+    // A frozen escrow is under investigation, so only an admin may move it.
+    if (escrow.status !== 'holding' && !(isAdmin && escrow.status === 'frozen')) {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: escrow.status === 'frozen'
+            ? 'Escrow is frozen; only an admin can refund it'
+            : 'Escrow already released or refunded',
+        }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
+      );
+    }
+
+    // The buyer's bank has already pulled the payment back; refunding through
+    // the provider as well would pay the buyer twice.
+    if (escrow.frozen_reason === 'chargeback') {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: 'Escrow is frozen by a chargeback; the buyer already has the money back, so review the chargeback instead of refunding',
+        }),
+        { status: 409, headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
+      );
+    }
+
+    const payment = await findSettledPayment(supabase, order);
+
+    if (!payment) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'No settled payment found for this order' }),
+        { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
+      );
+    }
+
+    const remaining = remainingEscrowBalance(escrow);
+    const refundAmount = amount ?? remaining;
+
+    if (toMinorUnits(refundAmount) > toMinorUnits(remaining)) {
+      return new Response(
+        JSON.stringify({ success: false, error: `Refund exceeds the GHS ${remaining} left in escrow` }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
+      );
+    }
+
+    const result = await refundEscrow(supabase, {
+      escrow,
+      payment,
+      amount: toMinorUnits(refundAmount) / 100,
+      reason,
+      requestedBy: user.id,
+    });
+
+    if (!result) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Escrow changed while refunding; please try again' }),
+        { status: 409, headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
+      );
+    }
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        message: result.fullRefund ? 'Order refunded successfully' : 'Partial refund issued',
+        refundId: result.refund.id,
+        status: result.refund.status,
+        amount: result.refund.amount,
+        refundedAmount: result.refundedAmount,
+        remaining: (toMinorUnits(remaining) - toMinorUnits(result.refund.amount)) / 100,
+      }),
+      { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
+    );
+  } catch (error) {
+    console.error('Escrow refund error:', error);
+    return new Response(
+      JSON.stringify({ success: false, error: error.message || 'Escrow refund failed' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
+    );
+  }
+});
@@ -1,4 +1,5 @@
 import { createClient } from 'npm:@supabase/supabase-js@2.57.4';
+import { releaseEscrow } from '../_shared/escrow.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -67,6 +68,13 @@ Deno.serve(async (req: Request) => {
       );
     }
 
+    if (order.status === 'disputed') {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Escrow is frozen while a dispute on this order is open' }),
+        { status: 409, headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
+      );
+    }
+
     if (order.status !== 'delivered') {
       return new Response(
         JSON.stringify({ success: false, error: 'Order must be delivered before releasing escrow' }),
@@ -89,55 +97,32 @@ Deno.serve(async (req: Request) => {
 
     if (escrow.status !== 'holding') {
       return new Response(
-        JSON.stringify({ success: false, error: 'Escrow already released or refunded' }),
+        JSON.stringify({
+          success: false,
+          error: escrow.status === 'frozen' ? 'Escrow is frozen' : 'Escrow already released or refunded',
+        }),
         { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
       );
     }
 
-    const releaseReference = `REL-${Date.now()}-${Math.random().toString(36).substring(7)}`;
+    const result = await releaseEscrow(supabase, order, escrow, {
+      notes: 'Funds released to seller upon buyer confirmation',
+      buyerMessage: 'Your order has been completed successfully. Thank you!',
+    });
 
-    await supabase
-      .from('escrows')
-      .update({
-        status: 'released',
-        released_at: new Date().toISOString(),
-        release_reference: releaseReference,
-        notes: 'Funds released to seller upon buyer confirmation',
-      })
-      .eq('id', escrow.id);
-
-    await supabase
-      .from('orders')
-      .update({ status: 'completed' })
-      .eq('id', orderId);
-
-    await supabase
-      .from('seller_profiles')
-      .update({ total_sales: order.seller_profiles.total_sales + 1 })
-      .eq('id', order.seller_id);
-
-    await supabase.from('notifications').insert([
-      {
-        user_id: order.buyer_id,
-        type: 'order_completed',
-        title: 'Order Completed',
-        message: 'Your order has been completed successfully. Thank you!',
-        data: { order_id: orderId },
-      },
-      {
-        user_id: order.seller_profiles.user_id,
-        type: 'payment_released',
-        title: 'Payment Released',
-        message: `Payment of GHS ${escrow.amount} has been released to your account.`,
-        data: { order_id: orderId, amount: escrow.amount, reference: releaseReference },
-      },
-    ]);
+    if (!result) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Escrow already released or refunded' }),
+        { status: 409, headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
+      );
+    }
 
     return new Response(
       JSON.stringify({
         success: true,
         message: 'Escrow released successfully',
-        reference: releaseReference,
+        reference: result.payout.reference,
+        payoutStatus: result.payoutStatus,
       }),
       { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
     );
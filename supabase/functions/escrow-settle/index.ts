@@ -0,0 +1,271 @@
+import { createClient } from 'npm:@supabase/supabase-js@2.57.4';
+import { releaseEscrow, unsettledOrderItems } from '../_shared/escrow.ts';
+import { toMinorUnits } from '../_shared/orders.ts';
+import { findSettledPayment } from '../_shared/payments.ts';
+import { refundEscrow, remainingEscrowBalance } from '../_shared/refunds.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Client-Info, Apikey',
+};
+
+// Settles an escrow item by item. The buyer (or an admin) can release the
+// items that arrived while the rest stay in escrow; an admin can refund
+// missing or damaged items and release everything else in one go.
+Deno.serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, {
+      status: 200,
+      headers: corsHeaders,
+    });
+  }
+
+  try {
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!,
+    );
+
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Unauthorized' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
+      );
+    }
+
+    const token = authHeader.replace('Bearer ', '');
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+
+    if (authError || !user) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Unauthorized' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
+      );
+    }
+
+    const { orderId, releaseItemIds, refundItemIds, reason } = await req.json();
+
+    const releasing = Array.isArray(releaseItemIds) && releaseItemIds.length > 0;
+    const refunding = Array.isArray(refundItemIds) && refundItemIds.length > 0;
+
+    if (!orderId || releasing === refunding) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Order ID and either releaseItemIds or refundItemIds are required' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
+      );
+    }
+
+    if (refunding && !reason) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'A reason is required when refunding items' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
+      );
+    }
+
+    const { data: order, error: orderError } = await supabase
+      .from('orders')
+      .select('*, seller_profiles!inner(user_id)')
+      .eq('id', orderId)
+      .single();
+
+    if (orderError || !order) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Order not found' }),
+        { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
+      );
+    }
+
+    const { data: profile } = await supabase
+      .from('profiles')
+      .select('role')
+      .eq('id', user.id)
+      .single();
+
+    const isAdmin = profile?.role === 'admin';
+
+    if (!isAdmin && order.buyer_id !== user.id) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Only the buyer or an admin can settle this order' }),
+        { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
+      );
+    }
+
+    if (refunding && !isAdmin) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Only an admin can refund items here; ask the seller for a refund or open a dispute' }),
+        { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
+      );
+    }
+
+    if (order.status === 'disputed') {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Escrow is frozen while a dispute on this order is open' }),
+        { status: 409, headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
+      );
+    }
+
+    if (order.status !== 'delivered') {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Order must be delivered before settling escrow' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
+      );
+    }
+
+    const { data: escrow, error: escrowError } = await supabase
+      .from('escrows')
+      .select('*')
+      .eq('order_id', orderId)
+      .single();
+
+    if (escrowError || !escrow) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Escrow not found' }),
+        { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
+      );
+    }
+
+    if (escrow.status !== 'holding') {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: escrow.status === 'frozen' ? 'Escrow is frozen' : 'Escrow already settled',
+        }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
+      );
+    }
+
+    const selectedIds: string[] = releasing ? releaseItemIds : refundItemIds;
+    const unsettled = await unsettledOrderItems(supabase, order.id, escrow.id);
+    const selected = unsettled.filter((item) => selectedIds.includes(item.id));
+    const rest = unsettled.filter((item) => !selectedIds.includes(item.id));
+
+    if (selected.length !== new Set(selectedIds).size) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Some items are not part of this order or have already been settled' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
+      );
+    }
+
+    const itemsValue = selected.reduce((sum, item) => sum + toMinorUnits(item.total_price), 0) / 100;
+    const remaining = remainingEscrowBalance(escrow);
+    const settlements = [];
+
+    if (releasing) {
+      // Releasing the last unsettled items releases whatever is left,
+      // including the delivery fee.
+      const amount = rest.length === 0 ? remaining : itemsValue;
+
+      if (toMinorUnits(amount) <= 0 || toMinorUnits(amount) > toMinorUnits(remaining)) {
+        return new Response(
+          JSON.stringify({ success: false, error: `The selected items don't match the GHS ${remaining} left in escrow` }),
+          { status: 409, headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
+        );
+      }
+
+      const released = await releaseEscrow(supabase, order, escrow, {
+        amount,
+        orderItemIds: selected.map((item) => item.id),
+        notes: `Released for ${selected.length} item(s) confirmed by ${isAdmin ? 'an admin' : 'the buyer'}`,
+        buyerMessage: rest.length === 0
+          ? 'Your order has been completed successfully. Thank you!'
+          : `GHS ${amount} for the items you confirmed on order ${order.order_number} has been released to the seller.`,
+        createdBy: user.id,
+      });
+
+      if (!released) {
+        return new Response(
+          JSON.stringify({ success: false, error: 'Escrow changed while settling; please try again' }),
+          { status: 409, headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
+        );
+      }
+
+      settlements.push(released.settlement);
+    } else {
+      if (toMinorUnits(itemsValue) <= 0 || toMinorUnits(itemsValue) >= toMinorUnits(remaining)) {
+        return new Response(
+          JSON.stringify({ success: false, error: 'A split must refund part of the escrow and leave the rest for the seller; use escrow-refund to refund everything' }),
+          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
+        );
+      }
+
+      const payment = await findSettledPayment(supabase, order);
+
+      if (!payment) {
+        return new Response(
+          JSON.stringify({ success: false, error: 'No settled payment found for this order' }),
+          { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
+        );
+      }
+
+      const refunded = await refundEscrow(supabase, {
+        escrow,
+        payment,
+        amount: itemsValue,
+        reason,
+        requestedBy: user.id,
+        orderItemIds: selected.map((item) => item.id),
+      });
+
+      if (!refunded) {
+        return new Response(
+          JSON.stringify({ success: false, error: 'Escrow changed while settling; please try again' }),
+          { status: 409, headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
+        );
+      }
+
+      settlements.push(refunded.settlement);
+
+      const { data: currentEscrow } = await supabase
+        .from('escrows')
+        .select('*')
+        .eq('id', escrow.id)
+        .single();
+
+      const released = await releaseEscrow(supabase, order, currentEscrow, {
+        orderItemIds: rest.map((item) => item.id),
+        notes: `Released after refunding ${selected.length} item(s): ${reason}`,
+        buyerMessage: `Order ${order.order_number} has been settled.`,
+        createdBy: user.id,
+      });
+
+      if (!released) {
+        return new Response(
+          JSON.stringify({
+            success: false,
+            error: 'The refund was issued but the rest of the escrow could not be released yet; please try again',
+            settlements,
+          }),
+          { status: 409, headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
+        );
+      }
+
+      settlements.push(released.settlement);
+    }
+
+    const { data: settledEscrow } = await supabase
+      .from('escrows')
+      .select('*')
+      .eq('id', escrow.id)
+      .single();
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        settlements,
+        escrowStatus: settledEscrow?.status,
+        released: settledEscrow?.released_amount,
+        refunded: settledEscrow?.refunded_amount,
+        remaining: settledEscrow ? remainingEscrowBalance(settledEscrow) : null,
+      }),
+      { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
+    );
+  } catch (error) {
+    console.error('Escrow settlement error:', error);
+    return new Response(
+      JSON.stringify({ success: false, error: error.message || 'Escrow settlement failed' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
+    );
+  }
+});
@@ -0,0 +1,104 @@
+import { createClient } from 'npm:@supabase/supabase-js@2.57.4';
+import { claimPaymentEvent, finishPaymentEvent } from '../_shared/paymentEvents.ts';
+import { syncPaymentWithProvider } from '../_shared/payments.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Client-Info, Apikey',
+};
+
+// Operator callbacks are not signed, so the body is only used to find the
+// payment. The outcome is always read back from the operator before anything
+// is recorded.
+Deno.serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, {
+      status: 200,
+      headers: corsHeaders,
+    });
+  }
+
+  try {
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!,
+    );
+
+    const network = new URL(req.url).searchParams.get('network') ?? 'unknown';
+    const body = await req.json();
+    const reference = body.externalId ?? body.reference;
+
+    if (!reference) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Invalid callback data' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
+      );
+    }
+
+    const paymentEvent = await claimPaymentEvent(
+      supabase,
+      'direct',
+      `${network}:${reference}:${body.status ?? 'unknown'}`,
+      body,
+      `momo.${network}.callback`,
+    );
+
+    if (!paymentEvent) {
+      return new Response(
+        JSON.stringify({ success: true, duplicate: true }),
+        { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
+      );
+    }
+
+    try {
+      const { data: payment } = await supabase
+        .from('payments')
+        .select('*')
+        .eq('provider_reference', reference)
+        .eq('provider', 'direct')
+        .maybeSingle();
+
+      if (!payment) {
+        await finishPaymentEvent(supabase, paymentEvent.id, {
+          status: 'ignored',
+          notes: 'No direct payment with this reference',
+          reference,
+        });
+
+        return new Response(
+          JSON.stringify({ success: true, ignored: true }),
+          { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
+        );
+      }
+
+      const transaction = await syncPaymentWithProvider(supabase, payment);
+
+      await finishPaymentEvent(supabase, paymentEvent.id, {
+        status: 'processed',
+        notes: transaction
+          ? `Operator reports ${transaction.status}`
+          : `Payment already ${payment.status}`,
+        reference,
+        payment_id: payment.id,
+      });
+    } catch (error) {
+      await finishPaymentEvent(supabase, paymentEvent.id, {
+        status: 'failed',
+        error: error.message,
+      });
+      throw error;
+    }
+
+    return new Response(
+      JSON.stringify({ success: true }),
+      { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
+    );
+  } catch (error) {
+    console.error('MoMo callback error:', error);
+    return new Response(
+      JSON.stringify({ success: false, error: error.message || 'MoMo callback failed' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
+    );
+  }
+});
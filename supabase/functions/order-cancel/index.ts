@@ -0,0 +1,243 @@
+import { createClient } from 'npm:@supabase/supabase-js@2.57.4';
+import { CANCELLATION_REASONS, type CancellationReason } from '../_shared/orders.ts';
+import { findSettledPayment } from '../_shared/payments.ts';
+import { refundEscrow, remainingEscrowBalance } from '../_shared/refunds.ts';
+import { cancelCourierBooking } from '../_shared/shipments.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Client-Info, Apikey',
+};
+
+Deno.serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, {
+      status: 200,
+      headers: corsHeaders,
+    });
+  }
+
+  try {
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!,
+    );
+
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Unauthorized' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
+      );
+    }
+
+    const token = authHeader.replace('Bearer ', '');
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+
+    if (authError || !user) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Unauthorized' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
+      );
+    }
+
+    const { orderId, reason, details } = await req.json();
+
+    if (!orderId || !CANCELLATION_REASONS.includes(reason)) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Order ID and a valid cancellation reason are required' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
+      );
+    }
+
+    const { data: order, error: orderError } = await supabase
+      .from('orders')
+      .select('*, seller_profiles!inner(user_id), shipments(*)')
+      .eq('id', orderId)
+      .single();
+
+    if (orderError || !order) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Order not found' }),
+        { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
+      );
+    }
+
+    const { data: profile } = await supabase
+      .from('profiles')
+      .select('role')
+      .eq('id', user.id)
+      .single();
+
+    const actor = profile?.role === 'admin'
+      ? 'admin'
+      : order.buyer_id === user.id
+        ? 'buyer'
+        : order.seller_profiles.user_id === user.id
+          ? 'seller'
+          : null;
+
+    if (!actor) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Only the buyer, the seller or an admin can cancel this order' }),
+        { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
+      );
+    }
+
+    let refund = null;
+    let cancellation = {
+      cancelledBy: user.id,
+      actor,
+      reason: reason as CancellationReason,
+      details: details ?? null,
+    };
+
+    // The refund and the cancellation are separate steps, since the provider
+    // is called in between. If a previous attempt refunded the order but
+    // failed before the cancellation was recorded, this one finishes it as
+    // the cancellation that refund was made for, whoever is retrying.
+    if (order.status === 'refunded') {
+      const [{ data: earlierRefund, error: refundError }, { data: recorded, error: recordedError }] = await Promise.all([
+        supabase
+          .from('refunds')
+          .select('*')
+          .eq('order_id', orderId)
+          .not('cancellation_actor', 'is', null)
+          .neq('status', 'failed')
+          .order('created_at', { ascending: false })
+          .limit(1)
+          .maybeSingle(),
+        supabase
+          .from('order_cancellations')
+          .select('id')
+          .eq('order_id', orderId)
+          .maybeSingle(),
+      ]);
+
+      if (refundError || recordedError) {
+        throw refundError ?? recordedError;
+      }
+
+      if (earlierRefund && !recorded) {
+        refund = earlierRefund;
+        cancellation = {
+          cancelledBy: earlierRefund.requested_by,
+          actor: earlierRefund.cancellation_actor,
+          reason: earlierRefund.cancellation_reason,
+          details: earlierRefund.cancellation_details,
+        };
+      }
+    }
+
+    // Once the courier has the parcel the buyer has to wait for it and open a
+    // dispute instead.
+    const shipmentStatus = order.shipments?.status;
+    const shipped = shipmentStatus && !['pending', 'assigned'].includes(shipmentStatus);
+
+    if (!refund && (!['created', 'paid_in_escrow'].includes(order.status) || shipped)) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Orders can only be cancelled before they ship' }),
+        { status: 409, headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
+      );
+    }
+
+    // A courier booked for the order is called off first, so a rider doesn't
+    // turn up for a parcel that has already been refunded.
+    if (order.shipments?.courier_reference && order.shipments.status === 'assigned') {
+      await cancelCourierBooking(supabase, order.shipments);
+    }
+
+    if (order.status === 'paid_in_escrow') {
+      const { data: escrow, error: escrowError } = await supabase
+        .from('escrows')
+        .select('*')
+        .eq('order_id', orderId)
+        .single();
+
+      if (escrowError || !escrow) {
+        return new Response(
+          JSON.stringify({ success: false, error: 'Escrow not found' }),
+          { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
+        );
+      }
+
+      if (escrow.status !== 'holding' || escrow.released_amount > 0) {
+        return new Response(
+          JSON.stringify({ success: false, error: 'Part of this order has already been settled; contact support to cancel it' }),
+          { status: 409, headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
+        );
+      }
+
+      const payment = await findSettledPayment(supabase, order);
+
+      if (!payment) {
+        return new Response(
+          JSON.stringify({ success: false, error: 'No settled payment found for this order' }),
+          { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
+        );
+      }
+
+      const result = await refundEscrow(supabase, {
+        escrow,
+        payment,
+        amount: remainingEscrowBalance(escrow),
+        reason: `Order cancelled by ${actor}: ${cancellation.reason.replaceAll('_', ' ')}`,
+        requestedBy: user.id,
+        cancellation,
+      });
+
+      if (!result) {
+        return new Response(
+          JSON.stringify({ success: false, error: 'Order changed while cancelling; please try again' }),
+          { status: 409, headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
+        );
+      }
+
+      refund = result.refund;
+    }
+
+    const { data: cancelled, error: cancelError } = await supabase.rpc('cancel_order', {
+      p_order_id: orderId,
+      p_cancelled_by: cancellation.cancelledBy,
+      p_actor: cancellation.actor,
+      p_reason: cancellation.reason,
+      p_details: cancellation.details,
+      p_refund_id: refund?.id ?? null,
+    });
+
+    if (cancelError) {
+      throw cancelError;
+    }
+
+    if (!cancelled) {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: refund
+            ? 'The order was refunded but the cancellation could not be recorded; please try again'
+            : 'Order changed while cancelling; please try again',
+        }),
+        { status: 409, headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
+      );
+    }
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        message: refund ? 'Order cancelled and refunded' : 'Order cancelled',
+        orderStatus: cancelled.order.status,
+        cancellationId: cancelled.cancellation.id,
+        refundId: refund?.id,
+        refundStatus: refund?.status,
+      }),
+      { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
+    );
+  } catch (error) {
+    console.error('Order cancel error:', error);
+    return new Response(
+      JSON.stringify({ success: false, error: error.message || 'Order cancellation failed' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
+    );
+  }
+});
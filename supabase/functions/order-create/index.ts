@@ -0,0 +1,208 @@
+import { createClient } from 'npm:@supabase/supabase-js@2.57.4';
+import { largestPackageSize } from '../_shared/delivery.ts';
+import { reservationExpiry } from '../_shared/orders.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Client-Info, Apikey',
+};
+
+const deliveryMethods = ['pickup', 'courier'];
+
+// Checks out the signed-in buyer's cart (or the lines listed in cartItemIds)
+// into one order per store, linked under a checkout group that is paid for
+// in one go. Prices, stock and the item snapshots are taken from the products
+// at this moment, not from anything the client sends. Courier delivery is
+// charged at the delivery-quote option picked for each store (deliveryQuoteIds).
+Deno.serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, {
+      status: 200,
+      headers: corsHeaders,
+    });
+  }
+
+  try {
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!,
+    );
+
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Unauthorized' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
+      );
+    }
+
+    const token = authHeader.replace('Bearer ', '');
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+
+    if (authError || !user) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Unauthorized' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
+      );
+    }
+
+    const { cartItemIds, deliveryMethod, deliveryAddress, deliveryQuoteIds, notes } = await req.json();
+
+    if (!deliveryMethods.includes(deliveryMethod)) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'A valid delivery method is required' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
+      );
+    }
+
+    const address = typeof deliveryAddress === 'string' ? deliveryAddress.trim() : '';
+
+    if (deliveryMethod === 'courier' && !address) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'A delivery address is required for courier delivery' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
+      );
+    }
+
+    if (cartItemIds !== undefined && (!Array.isArray(cartItemIds) || cartItemIds.length === 0)) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'cartItemIds must list at least one cart item' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
+      );
+    }
+
+    if (deliveryMethod === 'courier' && (!Array.isArray(deliveryQuoteIds) || deliveryQuoteIds.length === 0)) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Choose a delivery option for each store' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
+      );
+    }
+
+    let linesQuery = supabase
+      .from('cart_items')
+      .select('id, quantity, products!inner(title, status, stock_count, seller_id, package_size, seller_profiles!inner(user_id))')
+      .eq('user_id', user.id);
+
+    if (cartItemIds) {
+      linesQuery = linesQuery.in('id', cartItemIds);
+    }
+
+    const { data: lines, error: linesError } = await linesQuery;
+
+    if (linesError) {
+      throw linesError;
+    }
+
+    if (!lines || lines.length === 0 || (cartItemIds && lines.length !== new Set(cartItemIds).size)) {
+      return new Response(
+        JSON.stringify({ success: false, error: cartItemIds ? 'Some items are no longer in your cart' : 'Your cart is empty' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
+      );
+    }
+
+    const ownItems = lines.filter((line) => line.products.seller_profiles.user_id === user.id);
+
+    if (ownItems.length > 0) {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: `You cannot buy from your own store: ${ownItems.map((line) => line.products.title).join(', ')}`,
+        }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
+      );
+    }
+
+    const unavailable = lines.filter((line) => line.products.status !== 'active'
+      || line.quantity > (line.products.stock_count ?? 0));
+
+    if (unavailable.length > 0) {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: `No longer available in the quantity in your cart: ${unavailable.map((line) => line.products.title).join(', ')}`,
+        }),
+        { status: 409, headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
+      );
+    }
+
+    if (deliveryMethod === 'courier') {
+      const { data: quotes, error: quotesError } = await supabase
+        .from('delivery_quotes')
+        .select('id, seller_id, package_size, expires_at, order_id')
+        .eq('buyer_id', user.id)
+        .in('id', deliveryQuoteIds);
+
+      if (quotesError) {
+        throw quotesError;
+      }
+
+      const storeIds = [...new Set(lines.map((line) => line.products.seller_id))];
+
+      // A quote priced for a smaller parcel, or for a store no longer in the
+      // checkout, means the cart changed since the buyer was quoted.
+      const stale = storeIds.some((sellerId) => {
+        const storeQuotes = (quotes ?? []).filter((quote) => quote.seller_id === sellerId);
+        const packageSize = largestPackageSize(lines
+          .filter((line) => line.products.seller_id === sellerId)
+          .map((line) => line.products.package_size));
+
+        return storeQuotes.length !== 1
+          || storeQuotes[0].order_id !== null
+          || new Date(storeQuotes[0].expires_at) <= new Date()
+          || storeQuotes[0].package_size !== packageSize;
+      }) || (quotes ?? []).length !== storeIds.length;
+
+      if (stale) {
+        return new Response(
+          JSON.stringify({ success: false, error: 'Your delivery quote has expired or no longer matches your cart; please get a new quote' }),
+          { status: 409, headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
+        );
+      }
+    }
+
+    // The items are held for the buyer until this time; the payment has to be
+    // started before then or the stock goes back on sale.
+    const reservedUntil = reservationExpiry();
+
+    const { data: checkout, error: checkoutError } = await supabase.rpc('create_checkout_from_cart', {
+      p_buyer_id: user.id,
+      p_cart_item_ids: cartItemIds ? [...new Set(cartItemIds)] : null,
+      p_delivery_method: deliveryMethod,
+      p_delivery_address: deliveryMethod === 'courier' ? address : null,
+      p_delivery_quote_ids: deliveryMethod === 'courier' ? deliveryQuoteIds : null,
+      p_notes: notes || null,
+      p_reserved_until: reservedUntil,
+    });
+
+    if (checkoutError) {
+      throw checkoutError;
+    }
+
+    if (!checkout) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Your cart changed while checking out; please review it and try again' }),
+        { status: 409, headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
+      );
+    }
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        checkoutGroupId: checkout.checkout_group.id,
+        reference: checkout.checkout_group.reference,
+        totalAmount: checkout.checkout_group.total_amount,
+        currency: checkout.checkout_group.currency,
+        reservedUntil,
+        orders: checkout.orders,
+      }),
+      { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
+    );
+  } catch (error) {
+    console.error('Order creation error:', error);
+    return new Response(
+      JSON.stringify({ success: false, error: error.message || 'Order creation failed' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
+    );
+  }
+});
@@ -1,4 +1,6 @@
 import { createClient } from 'npm:@supabase/supabase-js@2.57.4';
+import { calculateAmountDue, reservationExpiry, toMinorUnits } from '../_shared/orders.ts';
+import { getPaymentAdapter, type InitializeResult } from '../_shared/providers/index.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -20,25 +22,200 @@ Deno.serve(async (req: Request) => {
       Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!,
     );
 
-    const { orderId, amount, method, provider, phoneNumber, email, metadata } = await req.json();
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Unauthorized' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
+      );
+    }
+
+    const token = authHeader.replace('Bearer ', '');
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+
+    if (authError || !user) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Unauthorized' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
+      );
+    }
+
+    const { orderId, checkoutGroupId, method, provider, phoneNumber, email: requestEmail, metadata } = await req.json();
+    const email = requestEmail || user.email;
 
-    if (!orderId || !amount || !method || !provider || !email) {
+    if ((!orderId === !checkoutGroupId) || !method || !provider || !email) {
       return new Response(
         JSON.stringify({ success: false, error: 'Missing required fields' }),
         { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
       );
     }
 
+    const adapter = getPaymentAdapter(provider);
+
+    if (!adapter) {
+      return new Response(
+        JSON.stringify({ success: false, error: `Payment provider '${provider}' is not supported` }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
+      );
+    }
+
+    let payable: { buyer_id: string; currency: string | null };
+    let orders;
+
+    if (checkoutGroupId) {
+      const { data: checkout, error: checkoutError } = await supabase
+        .from('checkout_groups')
+        .select('*')
+        .eq('id', checkoutGroupId)
+        .single();
+
+      if (checkoutError || !checkout) {
+        return new Response(
+          JSON.stringify({ success: false, error: 'Checkout not found' }),
+          { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
+        );
+      }
+
+      const { data: groupOrders, error: groupOrdersError } = await supabase
+        .from('orders')
+        .select('*')
+        .eq('checkout_group_id', checkoutGroupId);
+
+      if (groupOrdersError) {
+        throw groupOrdersError;
+      }
+
+      payable = checkout;
+      // Orders cancelled since checkout drop out of the payment.
+      orders = (groupOrders ?? []).filter((order) => order.status === 'created');
+    } else {
+      const { data: order, error: orderError } = await supabase
+        .from('orders')
+        .select('*')
+        .eq('id', orderId)
+        .single();
+
+      if (orderError || !order) {
+        return new Response(
+          JSON.stringify({ success: false, error: 'Order not found' }),
+          { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
+        );
+      }
+
+      // Paying for one order of a checkout separately would leave the group
+      // payment expecting money for an order that is already paid.
+      if (order.checkout_group_id) {
+        return new Response(
+          JSON.stringify({ success: false, error: 'This order is part of a checkout; pay for the checkout instead' }),
+          { status: 409, headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
+        );
+      }
+
+      payable = order;
+      orders = order.status === 'created' ? [order] : [];
+    }
+
+    if (payable.buyer_id !== user.id) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Only the buyer can pay for this order' }),
+        { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
+      );
+    }
+
+    if (orders.length === 0) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Order is not awaiting payment' }),
+        { status: 409, headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
+      );
+    }
+
+    // The amount is worked out before any stock is held, so a request that
+    // can't be charged doesn't leave the items reserved.
+    const amountsDue = new Map<string, number>();
+    let amountDueMinor = 0;
+
+    for (const order of orders) {
+      const orderAmount = await calculateAmountDue(supabase, order);
+
+      if (orderAmount === null) {
+        return new Response(
+          JSON.stringify({ success: false, error: `Order ${order.order_number} has no items` }),
+          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
+        );
+      }
+
+      amountsDue.set(order.id, orderAmount);
+      amountDueMinor += toMinorUnits(orderAmount);
+    }
+
+    // Renews the stock held for these orders, or takes it again if the earlier
+    // reservation was released after a failed or abandoned attempt.
+    const reservedUntil = reservationExpiry();
+
+    const { data: reservations, error: reservationError } = await supabase.rpc('reserve_order_stock', {
+      p_order_ids: orders.map((order) => order.id),
+      p_reserved_until: reservedUntil,
+    });
+
+    if (reservationError) {
+      throw reservationError;
+    }
+
+    if (!reservations) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Some items in this order are no longer in stock' }),
+        { status: 409, headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
+      );
+    }
+
+    // The webhook reconciles provider amounts against total_amount, so keep
+    // it in line with what we are about to charge.
+    for (const order of orders) {
+      const orderAmount = amountsDue.get(order.id)!;
+
+      if (toMinorUnits(order.total_amount) !== toMinorUnits(orderAmount)) {
+        await supabase
+          .from('orders')
+          .update({ total_amount: orderAmount, updated_at: new Date().toISOString() })
+          .eq('id', order.id);
+      }
+    }
+
+    const amount = amountDueMinor / 100;
+    const currency = payable.currency ?? 'GHS';
+
+    if (checkoutGroupId) {
+      await supabase
+        .from('checkout_groups')
+        .update({ total_amount: amount, updated_at: new Date().toISOString() })
+        .eq('id', checkoutGroupId);
+    }
+
+    // Only the newest attempt is expected to be paid. An earlier one the buyer
+    // still completes is recorded all the same, and held for review if these
+    // orders were paid for in the meantime.
+    const { error: supersedeError } = await supabase
+      .from('payments')
+      .update({ status: 'cancelled', failure_reason: 'superseded', updated_at: new Date().toISOString() })
+      .eq('status', 'pending')
+      .eq(checkoutGroupId ? 'checkout_group_id' : 'order_id', checkoutGroupId ?? orderId);
+
+    if (supersedeError) {
+      throw supersedeError;
+    }
+
     const reference = `GHM-${Date.now()}-${Math.random().toString(36).substring(7)}`;
 
     const { data: payment, error: paymentError } = await supabase
       .from('payments')
       .insert({
-        order_id: orderId,
+        order_id: orderId ?? null,
+        checkout_group_id: checkoutGroupId ?? null,
         method,
         provider,
         provider_reference: reference,
         amount,
+        currency,
         status: 'pending',
         phone_number: phoneNumber,
         metadata: metadata || {},
@@ -50,93 +227,38 @@ Deno.serve(async (req: Request) => {
       throw paymentError;
     }
 
-    let paymentResponse: any = {
+    let initialization: InitializeResult;
+
+    try {
+      initialization = await adapter.initialize({
+        orderId: orderId ?? checkoutGroupId,
+        reference,
+        amount,
+        currency,
+        method,
+        email,
+        phoneNumber,
+        metadata,
+      });
+    } catch (error) {
+      await supabase
+        .from('payments')
+        .update({ status: 'failed', failure_reason: error.message, updated_at: new Date().toISOString() })
+        .eq('id', payment.id);
+      throw error;
+    }
+
+    const paymentResponse = {
       success: true,
       paymentId: payment.id,
       reference,
+      amount,
+      currency,
+      reservedUntil,
+      ...initialization,
     };
 
-    if (provider === 'paystack') {
-      const paystackKey = Deno.env.get('PAYSTACK_SECRET_KEY');
-      
-      if (!paystackKey) {
-        paymentResponse.instructions = 'Payment provider configuration pending. Using test mode.';
-        paymentResponse.authorizationUrl = `https://checkout.paystack.com/test-${reference}`;
-      } else {
-        const paystackResponse = await fetch('https://api.paystack.co/transaction/initialize', {
-          method: 'POST',
-          headers: {
-            'Authorization': `Bearer ${paystackKey}`,
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({
-            email,
-            amount: amount * 100,
-            reference,
-            currency: 'GHS',
-            channels: method === 'card' ? ['card'] : ['mobile_money'],
-            metadata: {
-              ...metadata,
-              order_id: orderId,
-              payment_method: method,
-            },
-          }),
-        });
-
-        const paystackData = await paystackResponse.json();
-        
-        if (paystackData.status) {
-          paymentResponse.authorizationUrl = paystackData.data.authorization_url;
-        } else {
-          throw new Error(paystackData.message || 'Paystack initialization failed');
-        }
-      }
-    } else if (provider === 'flutterwave') {
-      const flutterwaveKey = Deno.env.get('FLUTTERWAVE_SECRET_KEY');
-      
-      if (!flutterwaveKey) {
-        paymentResponse.instructions = 'Payment provider configuration pending. Using test mode.';
-        paymentResponse.authorizationUrl = `https://checkout.flutterwave.com/test-${reference}`;
-      } else {
-        const flutterwaveResponse = await fetch('https://api.flutterwave.com/v3/payments', {
-          method: 'POST',
-          headers: {
-            'Authorization': `Bearer ${flutterwaveKey}`,
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({
-            tx_ref: reference,
-            amount,
-            currency: 'GHS',
-            redirect_url: `${Deno.env.get('SUPABASE_URL')}/functions/v1/payment-callback`,
-            payment_options: method === 'card' ? 'card' : 'mobilemoneyghana',
-            customer: {
-              email,
-              phonenumber: phoneNumber,
-            },
-            customizations: {
-              title: 'GhanaMarket',
-              description: `Payment for order ${orderId}`,
-            },
-            meta: {
-              ...metadata,
-              order_id: orderId,
-              payment_method: method,
-            },
-          }),
-        });
-
-        const flutterwaveData = await flutterwaveResponse.json();
-        
-        if (flutterwaveData.status === 'success') {
-          paymentResponse.authorizationUrl = flutterwaveData.data.link;
-        } else {
-          throw new Error(flutterwaveData.message || 'Flutterwave initialization failed');
-        }
-      }
-    }
-
-    if (method !== 'card') {
+    if (method !== 'card' && !paymentResponse.instructions) {
       paymentResponse.instructions = `Complete payment using your ${method.replace('_', ' ')} account. Reference: ${reference}`;
     }
 
@@ -0,0 +1,139 @@
+import { createClient } from 'npm:@supabase/supabase-js@2.57.4';
+import { syncPaymentWithProvider } from '../_shared/payments.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Client-Info, Apikey',
+};
+
+Deno.serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, {
+      status: 200,
+      headers: corsHeaders,
+    });
+  }
+
+  try {
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!,
+    );
+
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Unauthorized' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
+      );
+    }
+
+    const token = authHeader.replace('Bearer ', '');
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+
+    if (authError || !user) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Unauthorized' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
+      );
+    }
+
+    const { reference } = await req.json();
+
+    if (!reference) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Payment reference is required' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
+      );
+    }
+
+    const { data: payment, error: paymentError } = await supabase
+      .from('payments')
+      .select('*')
+      .eq('provider_reference', reference)
+      .maybeSingle();
+
+    if (paymentError || !payment) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Payment not found' }),
+        { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
+      );
+    }
+
+    const { data: payable } = payment.checkout_group_id
+      ? await supabase
+        .from('checkout_groups')
+        .select('buyer_id')
+        .eq('id', payment.checkout_group_id)
+        .single()
+      : await supabase
+        .from('orders')
+        .select('buyer_id')
+        .eq('id', payment.order_id)
+        .single();
+
+    if (payable?.buyer_id !== user.id) {
+      const { data: profile } = await supabase
+        .from('profiles')
+        .select('role')
+        .eq('id', user.id)
+        .single();
+
+      if (profile?.role !== 'admin') {
+        return new Response(
+          JSON.stringify({ success: false, error: 'Only the buyer can check this payment' }),
+          { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
+        );
+      }
+    }
+
+    // The webhook may already have settled this payment; only pending payments
+    // need a round trip to the provider.
+    await syncPaymentWithProvider(supabase, payment);
+
+    const { data: current } = await supabase
+      .from('payments')
+      .select('status')
+      .eq('id', payment.id)
+      .single();
+
+    const { data: orders } = await supabase
+      .from('orders')
+      .select('id, order_number, status, escrows(hold_until)')
+      .or(payment.checkout_group_id
+        ? `checkout_group_id.eq.${payment.checkout_group_id}`
+        : `id.eq.${payment.order_id}`)
+      .order('created_at', { ascending: true });
+
+    const paidOrders = (orders ?? []).map((order) => ({
+      orderId: order.id,
+      orderNumber: order.order_number,
+      status: order.status,
+      holdUntil: order.escrows?.hold_until ?? null,
+    }));
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        paymentId: payment.id,
+        orderId: payment.order_id,
+        checkoutGroupId: payment.checkout_group_id,
+        reference,
+        status: current?.status,
+        amount: payment.amount,
+        currency: payment.currency,
+        orderStatus: payment.order_id ? paidOrders[0]?.status : undefined,
+        holdUntil: payment.order_id ? paidOrders[0]?.holdUntil ?? null : undefined,
+        orders: paidOrders,
+      }),
+      { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
+    );
+  } catch (error) {
+    console.error('Payment verification error:', error);
+    return new Response(
+      JSON.stringify({ success: false, error: error.message || 'Payment verification failed' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
+    );
+  }
+});
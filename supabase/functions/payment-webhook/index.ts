@@ -1,5 +1,13 @@
 import { createClient } from 'npm:@supabase/supabase-js@2.57.4';
-import { createHmac } from 'node:crypto';
+import { claimPaymentEvent, finishPaymentEvent } from '../_shared/paymentEvents.ts';
+import {
+  recordFailedPayment,
+  recordReversedPayment,
+  recordSuccessfulPayment,
+} from '../_shared/payments.ts';
+import { syncPayout } from '../_shared/payouts.ts';
+import { getWebhookAdapter } from '../_shared/providers/index.ts';
+import { getTransferAdapter } from '../_shared/transfers/index.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -21,108 +29,138 @@ Deno.serve(async (req: Request) => {
       Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!,
     );
 
-    const body = await req.json();
-    const signature = req.headers.get('x-paystack-signature') || req.headers.get('verif-hash');
-
-    let provider: 'paystack' | 'flutterwave' = 'paystack';
-    let reference = '';
-    let status = '';
-    let amount = 0;
-
-    if (req.headers.get('x-paystack-signature')) {
-      provider = 'paystack';
-      const paystackKey = Deno.env.get('PAYSTACK_SECRET_KEY');
-      
-      if (paystackKey) {
-        const hash = createHmac('sha512', paystackKey)
-          .update(JSON.stringify(body))
-          .digest('hex');
-        
-        if (hash !== signature) {
-          return new Response(
-            JSON.stringify({ success: false, error: 'Invalid signature' }),
-            { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
-          );
-        }
-      }
+    const rawBody = await req.text();
+    const adapter = getWebhookAdapter(req.headers);
 
-      if (body.event === 'charge.success') {
-        reference = body.data.reference;
-        status = 'successful';
-        amount = body.data.amount / 100;
-      }
-    } else if (req.headers.get('verif-hash')) {
-      provider = 'flutterwave';
-      const flutterwaveKey = Deno.env.get('FLUTTERWAVE_SECRET_HASH');
-      
-      if (flutterwaveKey && signature !== flutterwaveKey) {
-        return new Response(
-          JSON.stringify({ success: false, error: 'Invalid signature' }),
-          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
-        );
-      }
-
-      if (body.event === 'charge.completed' && body.data.status === 'successful') {
-        reference = body.data.tx_ref;
-        status = 'successful';
-        amount = body.data.amount;
-      }
+    if (!adapter) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Unknown webhook source' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
+      );
     }
 
-    if (!reference) {
+    const body = JSON.parse(rawBody);
+
+    if (!adapter.verifyWebhookSignature(rawBody, req.headers)) {
+      await supabase.from('payment_events').insert({
+        provider: adapter.name,
+        event_type: body.event,
+        payload: body,
+        status: 'rejected',
+        notes: 'Invalid signature',
+        processed_at: new Date().toISOString(),
+      });
+
       return new Response(
-        JSON.stringify({ success: false, error: 'Invalid webhook data' }),
+        JSON.stringify({ success: false, error: 'Invalid signature' }),
         { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
       );
     }
 
-    const { data: payment, error: paymentError } = await supabase
-      .from('payments')
-      .update({ status })
-      .eq('provider_reference', reference)
-      .select()
-      .single();
+    const paymentEvent = await claimPaymentEvent(supabase, adapter.name, adapter.getWebhookEventId(body), body);
 
-    if (paymentError || !payment) {
-      throw new Error('Payment not found');
+    if (!paymentEvent) {
+      return new Response(
+        JSON.stringify({ success: true, duplicate: true }),
+        { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
+      );
     }
 
-    if (status === 'successful') {
-      const { data: order } = await supabase
-        .from('orders')
-        .update({ status: 'paid_in_escrow' })
-        .eq('id', payment.order_id)
-        .select()
-        .single();
-
-      if (order) {
-        const holdUntil = new Date();
-        holdUntil.setDate(holdUntil.getDate() + 14);
-
-        await supabase.from('escrows').insert({
-          order_id: order.id,
-          amount: payment.amount,
-          status: 'holding',
-          hold_until: holdUntil.toISOString(),
+    try {
+      // Providers that also send payouts deliver transfer events to the same
+      // endpoint. Those are re-checked with the provider like payment-verify.
+      const transferReference = getTransferAdapter(adapter.name)?.parseTransferWebhook(body);
+
+      if (transferReference) {
+        const { data: payout } = await supabase
+          .from('payouts')
+          .select('*')
+          .eq('transfer_reference', transferReference)
+          .maybeSingle();
+
+        const synced = payout ? await syncPayout(supabase, payout) : null;
+
+        await finishPaymentEvent(supabase, paymentEvent.id, {
+          status: payout ? 'processed' : 'ignored',
+          notes: synced ? `Payout ${synced.status}` : 'No payout with this transfer reference',
+          reference: transferReference,
         });
 
-        await supabase.from('notifications').insert([
-          {
-            user_id: order.buyer_id,
-            type: 'payment_success',
-            title: 'Payment Successful',
-            message: `Your payment of GHS ${amount} has been received and held in escrow.`,
-            data: { order_id: order.id },
-          },
-          {
-            user_id: order.seller_id,
-            type: 'new_order',
-            title: 'New Order Received',
-            message: `You have a new order. Please prepare for shipment.`,
-            data: { order_id: order.id },
-          },
-        ]);
+        return new Response(
+          JSON.stringify({ success: true }),
+          { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
+        );
       }
+
+      const event = adapter.parseWebhook(body);
+
+      if (!event) {
+        await finishPaymentEvent(supabase, paymentEvent.id, {
+          status: 'ignored',
+          notes: 'Event type not handled',
+        });
+
+        return new Response(
+          JSON.stringify({ success: true, ignored: true }),
+          { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
+        );
+      }
+
+      const { data: payment, error: paymentError } = await supabase
+        .from('payments')
+        .select('*')
+        .eq('provider_reference', event.reference)
+        .eq('provider', adapter.name)
+        .maybeSingle();
+
+      if (paymentError || !payment) {
+        throw new Error('Payment not found');
+      }
+
+      let notes = `Payment already ${payment.status}`;
+
+      if (event.status === 'successful') {
+        const result = await recordSuccessfulPayment(supabase, payment, event);
+
+        if (result.payment && result.reconciliation !== 'matched') {
+          notes = `Payment held for review: ${result.reconciliation}`;
+        } else if (result.payment) {
+          notes = result.orders
+            ? `Payment settled into escrow for ${result.orders.length} order(s)`
+            : 'Payment recorded; no order was awaiting payment';
+        }
+      } else if (event.status === 'reversed') {
+        const result = await recordReversedPayment(supabase, payment);
+
+        if (result) {
+          notes = result.orders.length === 0
+            ? 'Payment reversed; no open orders found'
+            : `Payment reversed; ${result.escrows.length} escrow(s) frozen, orders ${result.orders.map((order: { status: string }) => order.status).join(', ')}`;
+
+          if (result.review.length > 0) {
+            notes += `; ${result.review.length} settled order(s) left for admin review`;
+          }
+        }
+      } else if (event.status === 'failed' || event.status === 'abandoned') {
+        const failed = await recordFailedPayment(supabase, payment, event.status);
+
+        if (failed) {
+          notes = `Payment ${event.status}; order left open for another attempt`;
+        }
+      }
+
+      await finishPaymentEvent(supabase, paymentEvent.id, {
+        status: 'processed',
+        notes,
+        reference: event.reference,
+        payment_id: payment.id,
+      });
+    } catch (error) {
+      await finishPaymentEvent(supabase, paymentEvent.id, {
+        status: 'failed',
+        error: error.message,
+      });
+      throw error;
     }
 
     return new Response(
@@ -0,0 +1,146 @@
+import { createClient } from 'npm:@supabase/supabase-js@2.57.4';
+import { getDefaultTransferAdapter } from '../_shared/transfers/index.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Client-Info, Apikey',
+};
+
+const accountTypes = ['mobile_money', 'bank'];
+
+Deno.serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, {
+      status: 200,
+      headers: corsHeaders,
+    });
+  }
+
+  try {
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!,
+    );
+
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Unauthorized' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
+      );
+    }
+
+    const token = authHeader.replace('Bearer ', '');
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+
+    if (authError || !user) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Unauthorized' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
+      );
+    }
+
+    const { accountType, bankCode, accountNumber, isDefault = true } = await req.json();
+
+    if (!accountTypes.includes(accountType) || !bankCode || !accountNumber) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Account type, bank code and account number are required' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
+      );
+    }
+
+    const { data: seller } = await supabase
+      .from('seller_profiles')
+      .select('id')
+      .eq('user_id', user.id)
+      .maybeSingle();
+
+    if (!seller) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Only sellers can add payout accounts' }),
+        { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
+      );
+    }
+
+    const adapter = getDefaultTransferAdapter();
+    const destination = {
+      accountType,
+      bankCode: String(bankCode).toUpperCase(),
+      accountNumber: String(accountNumber).replace(/\s+/g, ''),
+    };
+
+    let accountName: string;
+
+    try {
+      ({ accountName } = await adapter.resolveAccount(destination));
+    } catch (error) {
+      return new Response(
+        JSON.stringify({ success: false, error: `Account lookup failed: ${error.message}` }),
+        { status: 422, headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
+      );
+    }
+
+    const recipientCode = await adapter.createRecipient({ ...destination, accountName });
+
+    const { count: existingAccounts } = await supabase
+      .from('payout_accounts')
+      .select('id', { count: 'exact', head: true })
+      .eq('seller_id', seller.id);
+
+    const makeDefault = isDefault || !existingAccounts;
+
+    if (makeDefault) {
+      await supabase
+        .from('payout_accounts')
+        .update({ is_default: false, updated_at: new Date().toISOString() })
+        .eq('seller_id', seller.id)
+        .eq('is_default', true);
+    }
+
+    const { data: account, error: accountError } = await supabase
+      .from('payout_accounts')
+      .upsert(
+        {
+          seller_id: seller.id,
+          provider: adapter.name,
+          account_type: destination.accountType,
+          bank_code: destination.bankCode,
+          account_number: destination.accountNumber,
+          account_name: accountName,
+          recipient_code: recipientCode,
+          is_default: makeDefault,
+          verified_at: new Date().toISOString(),
+          updated_at: new Date().toISOString(),
+        },
+        { onConflict: 'seller_id,provider,bank_code,account_number' },
+      )
+      .select()
+      .single();
+
+    if (accountError) {
+      throw accountError;
+    }
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        account: {
+          id: account.id,
+          accountType: account.account_type,
+          bankCode: account.bank_code,
+          accountNumber: account.account_number,
+          accountName: account.account_name,
+          isDefault: account.is_default,
+        },
+      }),
+      { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
+    );
+  } catch (error) {
+    console.error('Payout account error:', error);
+    return new Response(
+      JSON.stringify({ success: false, error: error.message || 'Could not save payout account' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
+    );
+  }
+});
@@ -0,0 +1,115 @@
+import { createClient } from 'npm:@supabase/supabase-js@2.57.4';
+import { MAX_PAYOUT_ATTEMPTS, processPayout, syncPayout, type Payout } from '../_shared/payouts.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Client-Info, Apikey',
+};
+
+const BATCH_SIZE = 50;
+
+// Meant to run on a schedule with the service role key. Sends payouts that
+// are queued or due a retry, and re-checks transfers still in flight.
+Deno.serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, {
+      status: 200,
+      headers: corsHeaders,
+    });
+  }
+
+  try {
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(Deno.env.get('SUPABASE_URL')!, serviceRoleKey);
+
+    const token = req.headers.get('Authorization')?.replace('Bearer ', '');
+
+    if (!token) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Unauthorized' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
+      );
+    }
+
+    if (token !== serviceRoleKey) {
+      const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+
+      if (authError || !user) {
+        return new Response(
+          JSON.stringify({ success: false, error: 'Unauthorized' }),
+          { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
+        );
+      }
+
+      const { data: profile } = await supabase
+        .from('profiles')
+        .select('role')
+        .eq('id', user.id)
+        .single();
+
+      if (profile?.role !== 'admin') {
+        return new Response(
+          JSON.stringify({ success: false, error: 'Only admins can process payouts' }),
+          { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
+        );
+      }
+    }
+
+    const now = new Date().toISOString();
+
+    const { data: due } = await supabase
+      .from('payouts')
+      .select('*')
+      .in('status', ['queued', 'failed'])
+      .lt('attempts', MAX_PAYOUT_ATTEMPTS)
+      .lte('next_attempt_at', now)
+      .order('created_at', { ascending: true })
+      .limit(BATCH_SIZE);
+
+    const { data: inFlight } = await supabase
+      .from('payouts')
+      .select('*')
+      .eq('status', 'processing')
+      .order('updated_at', { ascending: true })
+      .limit(BATCH_SIZE);
+
+    const summary = { attempted: 0, paid: 0, failed: 0, pending: 0, errors: 0 };
+
+    for (const payout of [...(due ?? []), ...(inFlight ?? [])] as Payout[]) {
+      try {
+        const result = payout.status === 'processing'
+          ? await syncPayout(supabase, payout)
+          : await processPayout(supabase, payout);
+
+        summary.attempted += 1;
+
+        if (result?.status === 'paid') {
+          summary.paid += 1;
+        } else if (result?.status === 'failed') {
+          summary.failed += 1;
+        } else {
+          summary.pending += 1;
+        }
+      } catch (error) {
+        summary.errors += 1;
+        console.error(`Payout ${payout.id} error:`, error);
+        await supabase
+          .from('payouts')
+          .update({ last_error: error.message, updated_at: new Date().toISOString() })
+          .eq('id', payout.id);
+      }
+    }
+
+    return new Response(
+      JSON.stringify({ success: true, ...summary }),
+      { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
+    );
+  } catch (error) {
+    console.error('Payout processing error:', error);
+    return new Response(
+      JSON.stringify({ success: false, error: error.message || 'Payout processing failed' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
+    );
+  }
+});
@@ -0,0 +1,242 @@
+import { createClient } from 'npm:@supabase/supabase-js@2.57.4';
+import { getDefaultCourierAdapter } from '../_shared/couriers/index.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Client-Info, Apikey',
+};
+
+Deno.serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, {
+      status: 200,
+      headers: corsHeaders,
+    });
+  }
+
+  try {
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!,
+    );
+
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Unauthorized' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
+      );
+    }
+
+    const token = authHeader.replace('Bearer ', '');
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+
+    if (authError || !user) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Unauthorized' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
+      );
+    }
+
+    const { orderId, quoteOnly } = await req.json();
+
+    if (!orderId) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Order ID is required' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
+      );
+    }
+
+    const { data: order, error: orderError } = await supabase
+      .from('orders')
+      .select('*, seller_profiles!inner(user_id, store_name), shipments(*)')
+      .eq('id', orderId)
+      .single();
+
+    if (orderError || !order) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Order not found' }),
+        { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
+      );
+    }
+
+    const { data: profile } = await supabase
+      .from('profiles')
+      .select('role')
+      .eq('id', user.id)
+      .single();
+
+    if (order.seller_profiles.user_id !== user.id && profile?.role !== 'admin') {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Only the seller can book a courier for this order' }),
+        { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
+      );
+    }
+
+    if (order.delivery_method !== 'courier') {
+      return new Response(
+        JSON.stringify({ success: false, error: 'This order is collected by the buyer' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
+      );
+    }
+
+    const existing = order.shipments;
+
+    // A booking that was cancelled can be replaced; anything else already
+    // has a courier on it or was arranged by the seller.
+    if (order.status !== 'paid_in_escrow' || (existing && !['pending', 'cancelled'].includes(existing.status))) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'This order is not waiting for a courier' }),
+        { status: 409, headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
+      );
+    }
+
+    const { data: parties } = await supabase
+      .from('profiles')
+      .select('id, full_name, phone, address, location_lat, location_lon')
+      .in('id', [order.seller_profiles.user_id, order.buyer_id]);
+
+    const seller = parties?.find((party) => party.id === order.seller_profiles.user_id);
+    const buyer = parties?.find((party) => party.id === order.buyer_id);
+
+    const pickup = {
+      address: existing?.pickup_address ?? seller?.address ?? null,
+      lat: seller?.location_lat ?? null,
+      lon: seller?.location_lon ?? null,
+    };
+    const dropoff = {
+      address: order.delivery_address,
+      lat: buyer?.location_lat ?? null,
+      lon: buyer?.location_lon ?? null,
+    };
+
+    if (!pickup.address) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Add a pickup address to the shipment or your profile first' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
+      );
+    }
+
+    const adapter = getDefaultCourierAdapter();
+    const quote = await adapter.quote({ pickup, dropoff });
+
+    if (quoteOnly) {
+      return new Response(
+        JSON.stringify({ success: true, provider: adapter.name, quote }),
+        { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
+      );
+    }
+
+    let shipment = existing;
+
+    if (!shipment) {
+      const { data: created, error: createError } = await supabase
+        .from('shipments')
+        .upsert(
+          { order_id: order.id, delivery_address: order.delivery_address, pickup_address: pickup.address },
+          { onConflict: 'order_id', ignoreDuplicates: true },
+        )
+        .select()
+        .maybeSingle();
+
+      if (createError) {
+        throw createError;
+      }
+
+      shipment = created;
+    }
+
+    if (!shipment) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Shipment changed while booking; please try again' }),
+        { status: 409, headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
+      );
+    }
+
+    const booking = await adapter.book({
+      quoteId: quote.quoteId,
+      reference: crypto.randomUUID(),
+      pickup: {
+        ...pickup,
+        contactName: order.seller_profiles.store_name,
+        contactPhone: seller?.phone ?? null,
+      },
+      dropoff: {
+        ...dropoff,
+        contactName: buyer?.full_name ?? 'Buyer',
+        contactPhone: buyer?.phone ?? null,
+      },
+      notes: shipment.notes,
+    });
+
+    // Guarded on the status we checked, so a second booking racing this one
+    // (or a cancellation) leaves us with nothing to update and the courier
+    // booking is called off again.
+    let claim = supabase
+      .from('shipments')
+      .update({
+        courier_provider: adapter.name,
+        courier_reference: booking.courierReference,
+        courier_name: null,
+        courier_phone: null,
+        tracking_number: booking.trackingNumber,
+        tracking_url: booking.trackingUrl ?? null,
+        cost: booking.cost,
+        eta_minutes: booking.etaMinutes,
+        status: 'assigned',
+        pickup_address: pickup.address,
+        delivery_address: order.delivery_address,
+        pickup_lat: pickup.lat,
+        pickup_lon: pickup.lon,
+        delivery_lat: dropoff.lat,
+        delivery_lon: dropoff.lon,
+        booked_at: new Date().toISOString(),
+        picked_up_at: null,
+        delivered_at: null,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', shipment.id)
+      .eq('status', shipment.status);
+
+    claim = shipment.courier_reference
+      ? claim.eq('courier_reference', shipment.courier_reference)
+      : claim.is('courier_reference', null);
+
+    const { data: booked, error: bookError } = await claim.select().maybeSingle();
+
+    if (bookError || !booked) {
+      await adapter.cancel(booking.courierReference);
+
+      if (bookError) {
+        throw bookError;
+      }
+
+      return new Response(
+        JSON.stringify({ success: false, error: 'Shipment changed while booking; please try again' }),
+        { status: 409, headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
+      );
+    }
+
+    await supabase
+      .from('orders')
+      .update({ accepted_at: new Date().toISOString(), updated_at: new Date().toISOString() })
+      .eq('id', order.id)
+      .is('accepted_at', null);
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        message: `Courier booked. Tracking number: ${booked.tracking_number}`,
+        shipment: booked,
+      }),
+      { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
+    );
+  } catch (error) {
+    console.error('Shipment booking error:', error);
+    return new Response(
+      JSON.stringify({ success: false, error: error.message || 'Courier booking failed' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
+    );
+  }
+});
@@ -0,0 +1,10 @@
+/*
+  # Mock payment provider
+
+  ## Overview
+  Adds a `mock` value to `payment_provider` so payments created through the local
+  mock adapter (enabled with `PAYMENT_MOCK_ENABLED=true` on the edge functions)
+  can be stored alongside real Paystack/Flutterwave payments.
+*/
+
+ALTER TYPE payment_provider ADD VALUE IF NOT EXISTS 'mock';
@@ -0,0 +1,63 @@
+/*
+  # Payment event log
+
+  ## Overview
+  Persists every webhook delivered to `payment-webhook` so provider retries can be
+  recognised and skipped, and operators can audit what was received and how it
+  was handled.
+
+  ## New Tables
+
+  ### `payment_events`
+  - `id` (uuid, primary key)
+  - `provider` (payment_provider)
+  - `event_id` (text, provider event identifier; null for rejected deliveries)
+  - `event_type` (text)
+  - `reference` (text, payment provider_reference)
+  - `payment_id` (uuid, references payments)
+  - `payload` (jsonb, raw webhook body)
+  - `status` (enum: processing, processed, ignored, rejected, failed)
+  - `notes` (text, how the event was handled)
+  - `error` (text, last processing error)
+  - `attempts` (int, processing attempts)
+  - `processed_at` (timestamptz)
+  - `created_at` (timestamptz)
+  - `updated_at` (timestamptz)
+
+  ## Security
+  - RLS enabled; only admins can read the log. Edge functions write with the
+    service role.
+*/
+
+CREATE TYPE payment_event_status AS ENUM ('processing', 'processed', 'ignored', 'rejected', 'failed');
+
+CREATE TABLE IF NOT EXISTS payment_events (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  provider payment_provider NOT NULL,
+  event_id text,
+  event_type text,
+  reference text,
+  payment_id uuid REFERENCES payments(id) ON DELETE SET NULL,
+  payload jsonb NOT NULL DEFAULT '{}',
+  status payment_event_status NOT NULL DEFAULT 'processing',
+  notes text,
+  error text,
+  attempts int NOT NULL DEFAULT 1,
+  processed_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE(provider, event_id)
+);
+
+ALTER TABLE payment_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view payment events"
+  ON payment_events FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin')
+  );
+
+CREATE INDEX IF NOT EXISTS idx_payment_events_reference ON payment_events(reference);
+CREATE INDEX IF NOT EXISTS idx_payment_events_payment_id ON payment_events(payment_id);
+CREATE INDEX IF NOT EXISTS idx_payment_events_status ON payment_events(status);
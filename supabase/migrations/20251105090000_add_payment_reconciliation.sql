@@ -0,0 +1,41 @@
+/*
+  # Payment amount reconciliation
+
+  ## Overview
+  `payment-initiate` now derives the amount due from the order, and the amount and
+  currency a provider reports are compared against it before funds move into
+  escrow. Mismatched payments are held for review instead of being settled.
+
+  ## Changes
+
+  ### `payment_status`
+  - New value `under_review` for payments received with the wrong amount or currency
+
+  ### `payments`
+  - `currency` (text, default 'GHS', currency the order was charged in)
+  - `amount_received` (numeric, amount reported by the provider)
+  - `currency_received` (text, currency reported by the provider)
+  - `reconciliation_status` (enum: matched, underpaid, overpaid, currency_mismatch)
+
+  ## Security
+  - Admins can view all payments so held payments can be reviewed
+*/
+
+ALTER TYPE payment_status ADD VALUE IF NOT EXISTS 'under_review';
+
+CREATE TYPE reconciliation_status AS ENUM ('matched', 'underpaid', 'overpaid', 'currency_mismatch');
+
+ALTER TABLE payments
+  ADD COLUMN IF NOT EXISTS currency text DEFAULT 'GHS',
+  ADD COLUMN IF NOT EXISTS amount_received numeric CHECK (amount_received >= 0),
+  ADD COLUMN IF NOT EXISTS currency_received text,
+  ADD COLUMN IF NOT EXISTS reconciliation_status reconciliation_status;
+
+CREATE POLICY "Admins can view payments"
+  ON payments FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin')
+  );
+
+CREATE INDEX IF NOT EXISTS idx_payments_status ON payments(status);
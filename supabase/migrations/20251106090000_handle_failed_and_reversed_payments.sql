@@ -0,0 +1,25 @@
+/*
+  # Failed, abandoned and reversed charges
+
+  ## Overview
+  `payment-webhook` and `payment-verify` now record unsuccessful charges instead
+  of rejecting them. A reversal (chargeback) after funds reached escrow freezes
+  the escrow until the order is investigated.
+
+  ## Changes
+
+  ### `payment_status`
+  - New value `reversed` for charges pulled back by the buyer's bank or wallet
+
+  ### `escrow_status`
+  - New value `frozen` for escrows locked pending investigation
+
+  ### `payments`
+  - `failure_reason` (text, provider outcome: failed, abandoned or reversed)
+*/
+
+ALTER TYPE payment_status ADD VALUE IF NOT EXISTS 'reversed';
+ALTER TYPE escrow_status ADD VALUE IF NOT EXISTS 'frozen';
+
+ALTER TABLE payments
+  ADD COLUMN IF NOT EXISTS failure_reason text;
@@ -0,0 +1,82 @@
+/*
+  # Escrow refunds
+
+  ## Overview
+  `escrow-refund` returns escrowed funds to the buyer through the provider that
+  collected them. Refunds can be full or partial; every attempt is recorded in
+  `refunds`, and the running total is kept on the escrow so the remainder can
+  still be released to the seller.
+
+  ## Changes
+
+  ### `payment_status`
+  - New value `partially_refunded` for payments with part of the charge returned
+
+  ### `escrows`
+  - `refunded_amount` (numeric, total refunded to the buyer so far)
+
+  ## New Tables
+
+  ### `refunds`
+  - `id` (uuid, primary key)
+  - `escrow_id` (uuid, references escrows)
+  - `payment_id` (uuid, references payments)
+  - `order_id` (uuid, references orders)
+  - `amount` (numeric)
+  - `reason` (text)
+  - `status` (enum: pending, processed, failed)
+  - `provider_reference` (text, provider refund identifier)
+  - `error` (text, provider error when the refund failed)
+  - `requested_by` (uuid, references profiles)
+  - `processed_at` (timestamptz)
+  - `created_at` (timestamptz)
+
+  ## Security
+  - RLS enabled on `refunds`; order participants and admins can read them. Edge
+    functions write with the service role.
+*/
+
+ALTER TYPE payment_status ADD VALUE IF NOT EXISTS 'partially_refunded';
+
+CREATE TYPE refund_status AS ENUM ('pending', 'processed', 'failed');
+
+ALTER TABLE escrows
+  ADD COLUMN IF NOT EXISTS refunded_amount numeric NOT NULL DEFAULT 0 CHECK (refunded_amount >= 0);
+
+CREATE TABLE IF NOT EXISTS refunds (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  escrow_id uuid NOT NULL REFERENCES escrows(id) ON DELETE CASCADE,
+  payment_id uuid NOT NULL REFERENCES payments(id) ON DELETE CASCADE,
+  order_id uuid NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  amount numeric NOT NULL CHECK (amount > 0),
+  reason text NOT NULL,
+  status refund_status NOT NULL DEFAULT 'pending',
+  provider_reference text,
+  error text,
+  requested_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  processed_at timestamptz,
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE refunds ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Order participants can view refunds"
+  ON refunds FOR SELECT
+  TO authenticated
+  USING (
+    order_id IN (
+      SELECT id FROM orders
+      WHERE buyer_id = auth.uid()
+      OR seller_id IN (SELECT id FROM seller_profiles WHERE user_id = auth.uid())
+    )
+  );
+
+CREATE POLICY "Admins can view refunds"
+  ON refunds FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin')
+  );
+
+CREATE INDEX IF NOT EXISTS idx_refunds_escrow_id ON refunds(escrow_id);
+CREATE INDEX IF NOT EXISTS idx_refunds_order_id ON refunds(order_id);
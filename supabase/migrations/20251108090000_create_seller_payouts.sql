@@ -0,0 +1,137 @@
+/*
+  # Seller payouts
+
+  ## Overview
+  Sellers register where their money should go, and releasing escrow now
+  queues a real transfer to that destination instead of only flipping the
+  escrow status. Escrows are marked paid out only once the transfer provider
+  confirms the money arrived.
+
+  ## New Tables
+
+  ### `payout_accounts`
+  - `id` (uuid, primary key)
+  - `seller_id` (uuid, references seller_profiles)
+  - `provider` (enum: paystack, mock; provider holding the transfer recipient)
+  - `account_type` (enum: mobile_money, bank)
+  - `bank_code` (text, bank or mobile network code, e.g. MTN, VOD, ATL)
+  - `account_number` (text, wallet number or bank account number)
+  - `account_name` (text, name returned by the provider's account lookup)
+  - `recipient_code` (text, provider transfer recipient)
+  - `is_default` (boolean, destination used for new payouts)
+  - `verified_at` (timestamptz)
+  - `created_at` (timestamptz)
+  - `updated_at` (timestamptz)
+
+  ### `payouts`
+  - `id` (uuid, primary key)
+  - `escrow_id` (uuid, unique, references escrows)
+  - `order_id` (uuid, references orders)
+  - `seller_id` (uuid, references seller_profiles)
+  - `payout_account_id` (uuid, references payout_accounts; null until the seller adds one)
+  - `provider` (payout_provider)
+  - `amount` (numeric)
+  - `currency` (text)
+  - `status` (enum: queued, processing, paid, failed)
+  - `reference` (text, unique, stable payout reference stored on the escrow)
+  - `transfer_reference` (text, reference sent to the provider for the latest attempt)
+  - `transfer_code` (text, provider transfer identifier)
+  - `attempts` (int, transfer attempts made)
+  - `last_error` (text)
+  - `next_attempt_at` (timestamptz, earliest time a failed payout is retried)
+  - `paid_at` (timestamptz)
+  - `created_at` (timestamptz)
+  - `updated_at` (timestamptz)
+
+  ## Changes
+
+  ### `escrows`
+  - `paid_out_at` (timestamptz, set when the seller's payout is confirmed)
+
+  ## Security
+  - RLS enabled on both tables; sellers can read their own accounts and
+    payouts, admins can read all. Edge functions write with the service role.
+*/
+
+CREATE TYPE payout_provider AS ENUM ('paystack', 'mock');
+CREATE TYPE payout_account_type AS ENUM ('mobile_money', 'bank');
+CREATE TYPE payout_status AS ENUM ('queued', 'processing', 'paid', 'failed');
+
+CREATE TABLE IF NOT EXISTS payout_accounts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  seller_id uuid NOT NULL REFERENCES seller_profiles(id) ON DELETE CASCADE,
+  provider payout_provider NOT NULL,
+  account_type payout_account_type NOT NULL,
+  bank_code text NOT NULL,
+  account_number text NOT NULL,
+  account_name text NOT NULL,
+  recipient_code text NOT NULL,
+  is_default boolean NOT NULL DEFAULT false,
+  verified_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE(seller_id, provider, bank_code, account_number)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_payout_accounts_default
+  ON payout_accounts(seller_id) WHERE is_default;
+
+ALTER TABLE payout_accounts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Sellers can view own payout accounts"
+  ON payout_accounts FOR SELECT
+  TO authenticated
+  USING (
+    seller_id IN (SELECT id FROM seller_profiles WHERE user_id = auth.uid())
+  );
+
+CREATE POLICY "Admins can view payout accounts"
+  ON payout_accounts FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin')
+  );
+
+CREATE TABLE IF NOT EXISTS payouts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  escrow_id uuid UNIQUE NOT NULL REFERENCES escrows(id) ON DELETE CASCADE,
+  order_id uuid NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  seller_id uuid NOT NULL REFERENCES seller_profiles(id) ON DELETE CASCADE,
+  payout_account_id uuid REFERENCES payout_accounts(id) ON DELETE SET NULL,
+  provider payout_provider,
+  amount numeric NOT NULL CHECK (amount >= 0),
+  currency text NOT NULL DEFAULT 'GHS',
+  status payout_status NOT NULL DEFAULT 'queued',
+  reference text UNIQUE NOT NULL,
+  transfer_reference text,
+  transfer_code text,
+  attempts int NOT NULL DEFAULT 0,
+  last_error text,
+  next_attempt_at timestamptz DEFAULT now(),
+  paid_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE payouts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Sellers can view own payouts"
+  ON payouts FOR SELECT
+  TO authenticated
+  USING (
+    seller_id IN (SELECT id FROM seller_profiles WHERE user_id = auth.uid())
+  );
+
+CREATE POLICY "Admins can view payouts"
+  ON payouts FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin')
+  );
+
+CREATE INDEX IF NOT EXISTS idx_payouts_seller_id ON payouts(seller_id);
+CREATE INDEX IF NOT EXISTS idx_payouts_status ON payouts(status, next_attempt_at);
+CREATE INDEX IF NOT EXISTS idx_payouts_transfer_reference ON payouts(transfer_reference);
+
+ALTER TABLE escrows
+  ADD COLUMN IF NOT EXISTS paid_out_at timestamptz;
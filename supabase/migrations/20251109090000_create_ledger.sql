@@ -0,0 +1,316 @@
+/*
+  # Commission and fee ledger
+
+  ## Overview
+  A double-entry ledger recording every step money takes through the platform:
+  the buyer's payment, the provider's fee, the escrow hold, commission and
+  e-levy taken at release, the seller's payout, and refunds. Every journal
+  entry's debits equal its credits, so account balances always reconcile.
+  Commission is now deducted before the seller is paid out.
+
+  ## New Tables
+
+  ### `ledger_accounts`
+  - `id` (uuid, primary key)
+  - `code` (text, unique; `seller_payable:<seller id>` for per-seller accounts)
+  - `name` (text)
+  - `type` (enum: asset, liability, revenue, expense)
+  - `seller_id` (uuid, references seller_profiles; set for seller payable accounts)
+  - `created_at` (timestamptz)
+
+  ### `journal_entries`
+  - `id` (uuid, primary key)
+  - `entry_type` (enum: payment_received, provider_fee, escrow_hold, escrow_release, payout, refund)
+  - `source_id` (uuid, payment, escrow, payout or refund the entry records)
+  - `order_id` (uuid, references orders)
+  - `seller_id` (uuid, references seller_profiles)
+  - `currency` (text)
+  - `description` (text)
+  - `created_at` (timestamptz)
+  - Unique on (entry_type, source_id) so each step is posted once
+
+  ### `journal_lines`
+  - `id` (uuid, primary key)
+  - `entry_id` (uuid, references journal_entries)
+  - `account_id` (uuid, references ledger_accounts)
+  - `debit` (numeric)
+  - `credit` (numeric)
+
+  ### `commission_rules`
+  - `id` (uuid, primary key)
+  - `category_id` (uuid, references categories; null matches any category)
+  - `seller_tier` (seller_tier; null matches any tier)
+  - `rate` (numeric, fraction of the item subtotal, e.g. 0.05)
+  - `active` (boolean)
+  - `created_at` (timestamptz)
+
+  ### `fee_rates`
+  - `id` (uuid, primary key)
+  - `kind` (enum: provider_fee, elevy)
+  - `provider` (payment_provider; null matches any provider)
+  - `method` (payment_method; null matches any method)
+  - `rate` (numeric, fraction of the amount)
+  - `flat_amount` (numeric)
+  - `cap` (numeric, maximum fee; null for no cap)
+  - `active` (boolean)
+  - `created_at` (timestamptz)
+
+  ## Changes
+
+  ### `seller_profiles`
+  - `tier` (enum: standard, plus, premium) used to pick a commission rule
+
+  ### `payouts`
+  - `gross_amount` (numeric, escrow amount released)
+  - `commission_amount` (numeric)
+  - `elevy_amount` (numeric)
+
+  ## Views
+  - `ledger_account_balances` - debit and credit totals and balance per account
+  - `seller_balances` - per seller: funds in escrow, available balance,
+    total paid out and commission charged
+
+  ## Functions
+  - `seller_ledger_balances()` - the rows behind `seller_balances`. Funds in
+    escrow and commission are booked to platform accounts that sellers cannot
+    read, so the totals are worked out with the function owner's rights and
+    then filtered to the caller's own store (admins see every seller)
+
+  ## Security
+  - RLS enabled on all new tables. Admins can read everything; sellers can
+    read their own journal entries and lines. Anyone signed in can read
+    commission rules and fee rates. Views use the caller's permissions.
+  - `seller_ledger_balances` is executable by signed-in users and the service
+    role only
+*/
+
+CREATE TYPE ledger_account_type AS ENUM ('asset', 'liability', 'revenue', 'expense');
+CREATE TYPE journal_entry_type AS ENUM (
+  'payment_received',
+  'provider_fee',
+  'escrow_hold',
+  'escrow_release',
+  'payout',
+  'refund'
+);
+CREATE TYPE seller_tier AS ENUM ('standard', 'plus', 'premium');
+CREATE TYPE fee_kind AS ENUM ('provider_fee', 'elevy');
+
+ALTER TABLE seller_profiles
+  ADD COLUMN IF NOT EXISTS tier seller_tier NOT NULL DEFAULT 'standard';
+
+ALTER TABLE payouts
+  ADD COLUMN IF NOT EXISTS gross_amount numeric,
+  ADD COLUMN IF NOT EXISTS commission_amount numeric NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS elevy_amount numeric NOT NULL DEFAULT 0;
+
+CREATE TABLE IF NOT EXISTS ledger_accounts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  code text UNIQUE NOT NULL,
+  name text NOT NULL,
+  type ledger_account_type NOT NULL,
+  seller_id uuid UNIQUE REFERENCES seller_profiles(id) ON DELETE RESTRICT,
+  created_at timestamptz DEFAULT now()
+);
+
+INSERT INTO ledger_accounts (code, name, type) VALUES
+  ('provider_clearing', 'Funds held by payment providers', 'asset'),
+  ('buyer_deposits', 'Buyer payments not yet in escrow', 'liability'),
+  ('escrow_holding', 'Buyer funds held in escrow', 'liability'),
+  ('elevy_payable', 'E-levy payable', 'liability'),
+  ('commission_revenue', 'Platform commission', 'revenue'),
+  ('provider_fee_expense', 'Payment provider fees', 'expense')
+ON CONFLICT (code) DO NOTHING;
+
+CREATE TABLE IF NOT EXISTS journal_entries (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  entry_type journal_entry_type NOT NULL,
+  source_id uuid NOT NULL,
+  order_id uuid REFERENCES orders(id) ON DELETE RESTRICT,
+  seller_id uuid REFERENCES seller_profiles(id) ON DELETE RESTRICT,
+  currency text NOT NULL DEFAULT 'GHS',
+  description text NOT NULL,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE(entry_type, source_id)
+);
+
+CREATE TABLE IF NOT EXISTS journal_lines (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  entry_id uuid NOT NULL REFERENCES journal_entries(id) ON DELETE RESTRICT,
+  account_id uuid NOT NULL REFERENCES ledger_accounts(id) ON DELETE RESTRICT,
+  debit numeric NOT NULL DEFAULT 0 CHECK (debit >= 0),
+  credit numeric NOT NULL DEFAULT 0 CHECK (credit >= 0),
+  CHECK ((debit = 0) <> (credit = 0))
+);
+
+CREATE TABLE IF NOT EXISTS commission_rules (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  category_id uuid REFERENCES categories(id) ON DELETE CASCADE,
+  seller_tier seller_tier,
+  rate numeric NOT NULL CHECK (rate >= 0 AND rate < 1),
+  active boolean NOT NULL DEFAULT true,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_commission_rules_scope
+  ON commission_rules(coalesce(category_id, '00000000-0000-0000-0000-000000000000'), coalesce(seller_tier::text, ''))
+  WHERE active;
+
+INSERT INTO commission_rules (rate) VALUES (0.05);
+
+CREATE TABLE IF NOT EXISTS fee_rates (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  kind fee_kind NOT NULL,
+  provider payment_provider,
+  method payment_method,
+  rate numeric NOT NULL DEFAULT 0 CHECK (rate >= 0 AND rate < 1),
+  flat_amount numeric NOT NULL DEFAULT 0 CHECK (flat_amount >= 0),
+  cap numeric CHECK (cap >= 0),
+  active boolean NOT NULL DEFAULT true,
+  created_at timestamptz DEFAULT now()
+);
+
+INSERT INTO fee_rates (kind, provider, rate, active) VALUES
+  ('provider_fee', 'paystack', 0.0195, true),
+  ('provider_fee', 'flutterwave', 0.0195, true),
+  ('elevy', NULL, 0.01, false);
+
+ALTER TABLE ledger_accounts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE journal_entries ENABLE ROW LEVEL SECURITY;
+ALTER TABLE journal_lines ENABLE ROW LEVEL SECURITY;
+ALTER TABLE commission_rules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE fee_rates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view ledger accounts"
+  ON ledger_accounts FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin')
+  );
+
+CREATE POLICY "Sellers can view own ledger account"
+  ON ledger_accounts FOR SELECT
+  TO authenticated
+  USING (
+    seller_id IN (SELECT id FROM seller_profiles WHERE user_id = auth.uid())
+  );
+
+CREATE POLICY "Admins can view journal entries"
+  ON journal_entries FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin')
+  );
+
+CREATE POLICY "Sellers can view own journal entries"
+  ON journal_entries FOR SELECT
+  TO authenticated
+  USING (
+    seller_id IN (SELECT id FROM seller_profiles WHERE user_id = auth.uid())
+  );
+
+CREATE POLICY "Admins can view journal lines"
+  ON journal_lines FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin')
+  );
+
+CREATE POLICY "Sellers can view own journal lines"
+  ON journal_lines FOR SELECT
+  TO authenticated
+  USING (
+    entry_id IN (
+      SELECT id FROM journal_entries
+      WHERE seller_id IN (SELECT id FROM seller_profiles WHERE user_id = auth.uid())
+    )
+  );
+
+CREATE POLICY "Anyone can view commission rules"
+  ON commission_rules FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can manage commission rules"
+  ON commission_rules FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin')
+  )
+  WITH CHECK (
+    EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin')
+  );
+
+CREATE POLICY "Anyone can view fee rates"
+  ON fee_rates FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can manage fee rates"
+  ON fee_rates FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin')
+  )
+  WITH CHECK (
+    EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin')
+  );
+
+CREATE INDEX IF NOT EXISTS idx_journal_entries_order_id ON journal_entries(order_id);
+CREATE INDEX IF NOT EXISTS idx_journal_entries_seller_id ON journal_entries(seller_id);
+CREATE INDEX IF NOT EXISTS idx_journal_lines_entry_id ON journal_lines(entry_id);
+CREATE INDEX IF NOT EXISTS idx_journal_lines_account_id ON journal_lines(account_id);
+
+CREATE OR REPLACE VIEW ledger_account_balances WITH (security_invoker = true) AS
+SELECT
+  a.id AS account_id,
+  a.code,
+  a.name,
+  a.type,
+  a.seller_id,
+  coalesce(sum(l.debit), 0) AS debit_total,
+  coalesce(sum(l.credit), 0) AS credit_total,
+  CASE
+    WHEN a.type IN ('asset', 'expense') THEN coalesce(sum(l.debit), 0) - coalesce(sum(l.credit), 0)
+    ELSE coalesce(sum(l.credit), 0) - coalesce(sum(l.debit), 0)
+  END AS balance
+FROM ledger_accounts a
+LEFT JOIN journal_lines l ON l.account_id = a.id
+GROUP BY a.id;
+
+CREATE OR REPLACE FUNCTION seller_ledger_balances()
+RETURNS TABLE (
+  seller_id uuid,
+  in_escrow numeric,
+  available numeric,
+  paid_out numeric,
+  commission numeric
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    e.seller_id,
+    coalesce(sum(l.credit - l.debit) FILTER (WHERE a.code = 'escrow_holding'), 0),
+    coalesce(sum(l.credit - l.debit) FILTER (WHERE a.seller_id = e.seller_id), 0),
+    coalesce(sum(l.debit) FILTER (WHERE a.seller_id = e.seller_id AND e.entry_type = 'payout'), 0),
+    coalesce(sum(l.credit) FILTER (WHERE a.code = 'commission_revenue'), 0)
+  FROM journal_entries e
+  JOIN journal_lines l ON l.entry_id = e.id
+  JOIN ledger_accounts a ON a.id = l.account_id
+  WHERE e.seller_id IS NOT NULL
+    AND (
+      auth.uid() IS NULL
+      OR e.seller_id IN (SELECT id FROM seller_profiles WHERE user_id = auth.uid())
+      OR EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin')
+    )
+  GROUP BY e.seller_id;
+$$;
+
+CREATE OR REPLACE VIEW seller_balances WITH (security_invoker = true) AS
+SELECT * FROM seller_ledger_balances();
+
+REVOKE EXECUTE ON FUNCTION seller_ledger_balances() FROM public, anon;
+GRANT EXECUTE ON FUNCTION seller_ledger_balances() TO authenticated, service_role;
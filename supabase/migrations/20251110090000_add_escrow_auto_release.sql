@@ -0,0 +1,21 @@
+/*
+  # Escrow auto-release
+
+  ## Overview
+  `escrow-auto-release` runs on a schedule and releases delivered orders whose
+  hold period has passed without a dispute, so sellers are paid even when the
+  buyer never confirms delivery. Buyers are reminded before this happens.
+
+  ## Changes
+
+  ### `escrows`
+  - `reminder_sent_at` (timestamptz, when the buyer was told the escrow will auto-release)
+
+  ## Indexes
+  - `idx_escrows_status_hold_until` for the sweep's lookup of due escrows
+*/
+
+ALTER TABLE escrows
+  ADD COLUMN IF NOT EXISTS reminder_sent_at timestamptz;
+
+CREATE INDEX IF NOT EXISTS idx_escrows_status_hold_until ON escrows(status, hold_until);
@@ -0,0 +1,217 @@
+/*
+  # Freeze escrow during disputes
+
+  ## Overview
+  Opening a dispute now locks the order's escrow until the dispute is
+  resolved, so neither the buyer's confirmation nor the auto-release sweep can
+  pay the seller while it is being investigated. `dispute-resolve` settles the
+  escrow according to the outcome, and every escrow state change is written
+  to an audit trail.
+
+  ## Changes
+
+  ### `escrows`
+  - `frozen_reason` (text: `dispute` or `chargeback`; null unless frozen)
+
+  ### `disputes`
+  - `outcome` (enum: release, refund, split, dismissed)
+  - `refund_amount` (numeric, amount returned to the buyer)
+  - `order_status_before` (order_status, restored if the dispute is dismissed)
+  - `resolved_by` (uuid, references profiles)
+
+  ### `refunds`
+  - `dispute_id` (uuid, references disputes; set for refunds made to resolve
+    a dispute)
+
+  ## New Tables
+
+  ### `escrow_events`
+  - `id` (uuid, primary key)
+  - `escrow_id` (uuid, references escrows)
+  - `order_id` (uuid, references orders)
+  - `from_status` (escrow_status; null when the escrow was created)
+  - `to_status` (escrow_status)
+  - `amount` (numeric, escrow amount)
+  - `refunded_amount` (numeric, total refunded at the time)
+  - `notes` (text, escrow notes at the time)
+  - `actor_id` (uuid, signed-in user who caused the change; null for system jobs)
+  - `created_at` (timestamptz)
+
+  ## Triggers
+  - `disputes_sync_escrow`: opening (or reopening) a dispute freezes a holding
+    escrow and marks the order disputed; closing the last active dispute
+    without settling the escrow unfreezes it and restores the order status
+  - `escrows_log_event`: records every status or refunded amount change in
+    `escrow_events`
+
+  ## Security
+  - RLS enabled on `escrow_events`; order participants and admins can read
+    them. Admins can update disputes (e.g. to mark them investigating).
+*/
+
+CREATE TYPE dispute_outcome AS ENUM ('release', 'refund', 'split', 'dismissed');
+
+ALTER TABLE escrows
+  ADD COLUMN IF NOT EXISTS frozen_reason text;
+
+UPDATE escrows SET frozen_reason = 'chargeback' WHERE status = 'frozen' AND frozen_reason IS NULL;
+
+ALTER TABLE disputes
+  ADD COLUMN IF NOT EXISTS outcome dispute_outcome,
+  ADD COLUMN IF NOT EXISTS refund_amount numeric CHECK (refund_amount >= 0),
+  ADD COLUMN IF NOT EXISTS order_status_before order_status,
+  ADD COLUMN IF NOT EXISTS resolved_by uuid REFERENCES profiles(id) ON DELETE SET NULL;
+
+ALTER TABLE refunds
+  ADD COLUMN IF NOT EXISTS dispute_id uuid REFERENCES disputes(id) ON DELETE SET NULL;
+
+CREATE TABLE IF NOT EXISTS escrow_events (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  escrow_id uuid NOT NULL REFERENCES escrows(id) ON DELETE CASCADE,
+  order_id uuid NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  from_status escrow_status,
+  to_status escrow_status NOT NULL,
+  amount numeric NOT NULL,
+  refunded_amount numeric NOT NULL DEFAULT 0,
+  notes text,
+  actor_id uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE escrow_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Order participants can view escrow events"
+  ON escrow_events FOR SELECT
+  TO authenticated
+  USING (
+    order_id IN (
+      SELECT id FROM orders
+      WHERE buyer_id = auth.uid()
+      OR seller_id IN (SELECT id FROM seller_profiles WHERE user_id = auth.uid())
+    )
+  );
+
+CREATE POLICY "Admins can view escrow events"
+  ON escrow_events FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin')
+  );
+
+CREATE POLICY "Admins can update disputes"
+  ON disputes FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin')
+  )
+  WITH CHECK (
+    EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin')
+  );
+
+CREATE INDEX IF NOT EXISTS idx_escrow_events_escrow_id ON escrow_events(escrow_id);
+CREATE INDEX IF NOT EXISTS idx_disputes_order_id_status ON disputes(order_id, status);
+
+CREATE OR REPLACE FUNCTION sync_escrow_with_dispute()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  current_order_status order_status;
+  restored_status order_status;
+BEGIN
+  IF NEW.status IN ('open', 'investigating')
+    AND (TG_OP = 'INSERT' OR OLD.status NOT IN ('open', 'investigating')) THEN
+    SELECT status INTO current_order_status FROM orders WHERE id = NEW.order_id;
+
+    IF current_order_status IN ('paid_in_escrow', 'shipped', 'delivered') THEN
+      NEW.order_status_before := current_order_status;
+
+      UPDATE orders
+      SET status = 'disputed', updated_at = now()
+      WHERE id = NEW.order_id;
+    END IF;
+
+    UPDATE escrows
+    SET status = 'frozen',
+        frozen_reason = 'dispute',
+        notes = 'Frozen while a dispute is open: ' || NEW.reason
+    WHERE order_id = NEW.order_id
+      AND status = 'holding';
+
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE'
+    AND NEW.status IN ('resolved', 'closed')
+    AND OLD.status IN ('open', 'investigating')
+    AND NOT EXISTS (
+      SELECT 1 FROM disputes
+      WHERE order_id = NEW.order_id
+        AND id <> NEW.id
+        AND status IN ('open', 'investigating')
+    ) THEN
+    UPDATE escrows
+    SET status = 'holding',
+        frozen_reason = NULL,
+        notes = 'Dispute closed; funds back in escrow'
+    WHERE order_id = NEW.order_id
+      AND status = 'frozen'
+      AND frozen_reason = 'dispute';
+
+    SELECT coalesce(NEW.order_status_before, (
+      SELECT order_status_before FROM disputes
+      WHERE order_id = NEW.order_id AND order_status_before IS NOT NULL
+      ORDER BY created_at
+      LIMIT 1
+    )) INTO restored_status;
+
+    UPDATE orders
+    SET status = coalesce(restored_status, 'delivered'), updated_at = now()
+    WHERE id = NEW.order_id
+      AND status = 'disputed';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER disputes_sync_escrow
+  BEFORE INSERT OR UPDATE OF status ON disputes
+  FOR EACH ROW
+  EXECUTE FUNCTION sync_escrow_with_dispute();
+
+CREATE OR REPLACE FUNCTION log_escrow_event()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE'
+    AND NEW.status = OLD.status
+    AND NEW.refunded_amount = OLD.refunded_amount THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO escrow_events (escrow_id, order_id, from_status, to_status, amount, refunded_amount, notes, actor_id)
+  VALUES (
+    NEW.id,
+    NEW.order_id,
+    CASE WHEN TG_OP = 'UPDATE' THEN OLD.status END,
+    NEW.status,
+    NEW.amount,
+    NEW.refunded_amount,
+    NEW.notes,
+    auth.uid()
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER escrows_log_event
+  AFTER INSERT OR UPDATE ON escrows
+  FOR EACH ROW
+  EXECUTE FUNCTION log_escrow_event();
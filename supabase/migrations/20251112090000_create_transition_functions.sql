@@ -0,0 +1,742 @@
+/*
+  # Atomic escrow and payment transitions
+
+  ## Overview
+  Settling a payment, releasing an escrow, refunding one and marking a payout
+  paid each touch several tables (payments, orders, escrows, payouts,
+  seller_profiles, journal entries and notifications). Until now the edge
+  functions wrote these one request at a time, so a failure halfway left the
+  order, the escrow and the ledger disagreeing. Each transition is now a single
+  database function called over RPC, so it either fully happens or does not
+  happen at all. Seller sales counts are incremented in place instead of being
+  read and written back.
+
+  Provider calls (charges, refunds and transfers) stay in the edge functions;
+  the functions below record what the provider reported.
+
+  ## New Functions
+  - `post_journal_entry`: posts a balanced journal entry once per source row,
+    creating the seller's payable account on first use
+  - `record_successful_payment`: records funds received for a pending payment,
+    books them in the ledger and, when the amount matched, moves the order into
+    escrow (via the internal `settle_payment_into_escrow`)
+  - `record_failed_payment`: marks a pending payment failed and tells the buyer
+  - `record_reversed_payment`: marks a payment reversed, freezes its escrow and
+    disputes or cancels the order
+  - `release_escrow`: releases an escrow, books commission and e-levy, queues
+    the seller's payout, completes the order and counts the sale
+  - `reserve_escrow_refund`: reserves a refund against an escrow and records it
+    as pending before the provider is called
+  - `complete_escrow_refund` / `fail_escrow_refund`: record the provider's
+    answer, settling or undoing the reservation
+  - `mark_payout_paid`: records a completed transfer to the seller
+
+  Every function guards its first write with the state it expects, so a
+  webhook redelivery or a racing request changes nothing and gets null back.
+
+  ## Security
+  - All functions run as SECURITY DEFINER with a fixed search_path and can
+    only be executed by the service role.
+*/
+
+CREATE OR REPLACE FUNCTION post_journal_entry(
+  p_entry_type journal_entry_type,
+  p_source_id uuid,
+  p_order_id uuid,
+  p_seller_id uuid,
+  p_currency text,
+  p_description text,
+  p_lines jsonb
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  entry journal_entries;
+  line jsonb;
+  line_debit numeric;
+  line_credit numeric;
+  total_debit numeric := 0;
+  total_credit numeric := 0;
+  account_code text;
+BEGIN
+  FOR line IN SELECT * FROM jsonb_array_elements(p_lines) LOOP
+    total_debit := total_debit + round(coalesce((line->>'debit')::numeric, 0), 2);
+    total_credit := total_credit + round(coalesce((line->>'credit')::numeric, 0), 2);
+  END LOOP;
+
+  IF total_debit <> total_credit THEN
+    RAISE EXCEPTION 'Unbalanced % entry: debits %, credits %', p_entry_type, total_debit, total_credit;
+  END IF;
+
+  IF total_debit = 0 THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO journal_entries (entry_type, source_id, order_id, seller_id, currency, description)
+  VALUES (p_entry_type, p_source_id, p_order_id, p_seller_id, coalesce(p_currency, 'GHS'), p_description)
+  ON CONFLICT (entry_type, source_id) DO NOTHING
+  RETURNING * INTO entry;
+
+  IF entry.id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  FOR line IN SELECT * FROM jsonb_array_elements(p_lines) LOOP
+    account_code := line->>'account';
+    line_debit := round(coalesce((line->>'debit')::numeric, 0), 2);
+    line_credit := round(coalesce((line->>'credit')::numeric, 0), 2);
+
+    CONTINUE WHEN line_debit = 0 AND line_credit = 0;
+
+    IF account_code LIKE 'seller_payable:%' THEN
+      INSERT INTO ledger_accounts (code, name, type, seller_id)
+      VALUES (account_code, 'Seller payable', 'liability', substring(account_code FROM 16)::uuid)
+      ON CONFLICT DO NOTHING;
+    END IF;
+
+    INSERT INTO journal_lines (entry_id, account_id, debit, credit)
+    SELECT entry.id, id, line_debit, line_credit
+    FROM ledger_accounts
+    WHERE code = account_code;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Unknown ledger account: %', account_code;
+    END IF;
+  END LOOP;
+
+  RETURN to_jsonb(entry);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION settle_payment_into_escrow(p_payment payments, p_amount_paid numeric)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  settled_order orders;
+  escrow escrows;
+  seller_user_id uuid;
+BEGIN
+  UPDATE orders
+  SET status = 'paid_in_escrow'
+  WHERE id = p_payment.order_id
+    AND status = 'created'
+  RETURNING * INTO settled_order;
+
+  IF settled_order.id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO escrows (order_id, amount, status, hold_until)
+  VALUES (settled_order.id, p_payment.amount, 'holding', now() + interval '14 days')
+  RETURNING * INTO escrow;
+
+  PERFORM post_journal_entry(
+    'escrow_hold',
+    escrow.id,
+    settled_order.id,
+    settled_order.seller_id,
+    NULL,
+    'Order ' || settled_order.order_number || ' payment moved into escrow',
+    jsonb_build_array(
+      jsonb_build_object('account', 'buyer_deposits', 'debit', p_payment.amount),
+      jsonb_build_object('account', 'escrow_holding', 'credit', p_payment.amount)
+    )
+  );
+
+  SELECT user_id INTO seller_user_id FROM seller_profiles WHERE id = settled_order.seller_id;
+
+  INSERT INTO notifications (user_id, type, title, message, data) VALUES
+    (
+      settled_order.buyer_id,
+      'payment_success',
+      'Payment Successful',
+      'Your payment of GHS ' || trim_scale(p_amount_paid) || ' has been received and held in escrow.',
+      jsonb_build_object('order_id', settled_order.id)
+    ),
+    (
+      seller_user_id,
+      'new_order',
+      'New Order Received',
+      'You have a new order. Please prepare for shipment.',
+      jsonb_build_object('order_id', settled_order.id)
+    );
+
+  RETURN to_jsonb(settled_order) || jsonb_build_object('seller_profiles', jsonb_build_object('user_id', seller_user_id));
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION record_successful_payment(
+  p_payment_id uuid,
+  p_amount numeric,
+  p_currency text,
+  p_reconciliation reconciliation_status,
+  p_fee numeric
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  payment payments;
+  payment_order orders;
+BEGIN
+  UPDATE payments
+  SET status = CASE WHEN p_reconciliation = 'matched' THEN 'successful' ELSE 'under_review' END::payment_status,
+      amount_received = p_amount,
+      currency_received = p_currency,
+      reconciliation_status = p_reconciliation,
+      updated_at = now()
+  WHERE id = p_payment_id
+    AND status = 'pending'
+  RETURNING * INTO payment;
+
+  IF payment.id IS NULL THEN
+    RETURN jsonb_build_object('payment', NULL, 'order', NULL);
+  END IF;
+
+  SELECT * INTO payment_order FROM orders WHERE id = payment.order_id;
+
+  PERFORM post_journal_entry(
+    'payment_received',
+    payment.id,
+    payment.order_id,
+    payment_order.seller_id,
+    p_currency,
+    'Buyer payment for order ' || payment_order.order_number,
+    jsonb_build_array(
+      jsonb_build_object('account', 'provider_clearing', 'debit', p_amount),
+      jsonb_build_object('account', 'buyer_deposits', 'credit', p_amount)
+    )
+  );
+
+  PERFORM post_journal_entry(
+    'provider_fee',
+    payment.id,
+    payment.order_id,
+    payment_order.seller_id,
+    p_currency,
+    payment.provider || ' fee on order ' || payment_order.order_number,
+    jsonb_build_array(
+      jsonb_build_object('account', 'provider_fee_expense', 'debit', p_fee),
+      jsonb_build_object('account', 'provider_clearing', 'credit', p_fee)
+    )
+  );
+
+  IF p_reconciliation <> 'matched' THEN
+    INSERT INTO notifications (user_id, type, title, message, data)
+    VALUES (
+      payment_order.buyer_id,
+      'payment_under_review',
+      'Payment Under Review',
+      'We received ' || p_currency || ' ' || trim_scale(p_amount) || ' but your order total is '
+        || coalesce(payment_order.currency, 'GHS') || ' ' || trim_scale(payment_order.total_amount)
+        || '. Our team is reviewing the payment.',
+      jsonb_build_object('order_id', payment.order_id, 'payment_id', payment.id, 'reconciliation', p_reconciliation)
+    );
+
+    RETURN jsonb_build_object('payment', to_jsonb(payment), 'order', NULL);
+  END IF;
+
+  RETURN jsonb_build_object(
+    'payment', to_jsonb(payment),
+    'order', settle_payment_into_escrow(payment, p_amount)
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION record_failed_payment(p_payment_id uuid, p_reason text)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  payment payments;
+  payment_order orders;
+BEGIN
+  UPDATE payments
+  SET status = 'failed',
+      failure_reason = p_reason,
+      updated_at = now()
+  WHERE id = p_payment_id
+    AND status = 'pending'
+  RETURNING * INTO payment;
+
+  IF payment.id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT * INTO payment_order FROM orders WHERE id = payment.order_id;
+
+  IF payment_order.id IS NOT NULL THEN
+    INSERT INTO notifications (user_id, type, title, message, data)
+    VALUES (
+      payment_order.buyer_id,
+      'payment_failed',
+      CASE WHEN p_reason = 'abandoned' THEN 'Payment Not Completed' ELSE 'Payment Failed' END,
+      'Your payment for order ' || payment_order.order_number || ' did not go through. You can try paying again.',
+      jsonb_build_object('order_id', payment.order_id, 'payment_id', payment.id, 'reason', p_reason)
+    );
+  END IF;
+
+  RETURN to_jsonb(payment);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION record_reversed_payment(p_payment_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  payment payments;
+  payment_order orders;
+  escrow escrows;
+  seller_user_id uuid;
+  new_status order_status;
+BEGIN
+  UPDATE payments
+  SET status = 'reversed',
+      failure_reason = 'reversed',
+      updated_at = now()
+  WHERE id = p_payment_id
+    AND status IN ('pending', 'successful', 'under_review')
+  RETURNING * INTO payment;
+
+  IF payment.id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT * INTO payment_order FROM orders WHERE id = payment.order_id FOR UPDATE;
+
+  IF payment_order.id IS NULL THEN
+    RETURN jsonb_build_object('payment', to_jsonb(payment), 'escrow', NULL, 'order_status', NULL);
+  END IF;
+
+  UPDATE escrows
+  SET status = 'frozen',
+      frozen_reason = 'chargeback',
+      notes = 'Frozen after the buyer''s payment was reversed'
+  WHERE order_id = payment_order.id
+    AND status = 'holding'
+  RETURNING * INTO escrow;
+
+  new_status := CASE WHEN payment_order.status = 'created' THEN 'cancelled' ELSE 'disputed' END;
+
+  UPDATE orders
+  SET status = new_status, updated_at = now()
+  WHERE id = payment_order.id;
+
+  SELECT user_id INTO seller_user_id FROM seller_profiles WHERE id = payment_order.seller_id;
+
+  INSERT INTO notifications (user_id, type, title, message, data) VALUES
+    (
+      payment_order.buyer_id,
+      'payment_reversed',
+      'Payment Reversed',
+      CASE WHEN new_status = 'cancelled'
+        THEN 'Your payment for order ' || payment_order.order_number || ' was reversed and the order has been cancelled.'
+        ELSE 'Your payment for order ' || payment_order.order_number || ' was reversed. The order is on hold while we investigate.'
+      END,
+      jsonb_build_object('order_id', payment_order.id, 'payment_id', payment.id)
+    ),
+    (
+      seller_user_id,
+      'payment_reversed',
+      CASE WHEN new_status = 'cancelled' THEN 'Order Cancelled' ELSE 'Order On Hold' END,
+      CASE WHEN new_status = 'cancelled'
+        THEN 'The buyer''s payment for order ' || payment_order.order_number || ' was reversed and the order has been cancelled.'
+        ELSE 'The buyer''s payment for order ' || payment_order.order_number || ' was reversed. Escrow funds are frozen while we investigate; please do not ship until you hear from us.'
+      END,
+      jsonb_build_object('order_id', payment_order.id, 'payment_id', payment.id)
+    );
+
+  RETURN jsonb_build_object(
+    'payment', to_jsonb(payment),
+    'escrow', CASE WHEN escrow.id IS NULL THEN NULL ELSE to_jsonb(escrow) END,
+    'order_status', new_status
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION release_escrow(
+  p_escrow_id uuid,
+  p_from_statuses escrow_status[],
+  p_expected_refunded numeric,
+  p_commission numeric,
+  p_elevy numeric,
+  p_notes text,
+  p_buyer_message text
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  escrow escrows;
+  release_order orders;
+  payout payouts;
+  account payout_accounts;
+  seller_user_id uuid;
+  gross numeric;
+  net numeric;
+BEGIN
+  UPDATE escrows
+  SET status = 'released',
+      released_at = now(),
+      frozen_reason = NULL,
+      notes = p_notes
+  WHERE id = p_escrow_id
+    AND refunded_amount = p_expected_refunded
+    AND status = ANY(p_from_statuses)
+  RETURNING * INTO escrow;
+
+  IF escrow.id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  gross := escrow.amount - escrow.refunded_amount;
+  net := gross - p_commission - p_elevy;
+
+  IF net < 0 THEN
+    RAISE EXCEPTION 'Deductions of % exceed the released amount of %', p_commission + p_elevy, gross;
+  END IF;
+
+  SELECT * INTO release_order FROM orders WHERE id = escrow.order_id;
+
+  PERFORM post_journal_entry(
+    'escrow_release',
+    escrow.id,
+    release_order.id,
+    release_order.seller_id,
+    NULL,
+    'Order ' || release_order.order_number || ' escrow released to seller',
+    jsonb_build_array(
+      jsonb_build_object('account', 'escrow_holding', 'debit', gross),
+      jsonb_build_object('account', 'commission_revenue', 'credit', p_commission),
+      jsonb_build_object('account', 'elevy_payable', 'credit', p_elevy),
+      jsonb_build_object('account', 'seller_payable:' || release_order.seller_id, 'credit', net)
+    )
+  );
+
+  SELECT * INTO account
+  FROM payout_accounts
+  WHERE seller_id = release_order.seller_id
+    AND is_default;
+
+  INSERT INTO payouts (
+    escrow_id, order_id, seller_id, payout_account_id, provider,
+    amount, gross_amount, commission_amount, elevy_amount, currency, status, reference
+  )
+  VALUES (
+    escrow.id, release_order.id, release_order.seller_id, account.id, account.provider,
+    net, gross, p_commission, p_elevy, 'GHS', 'queued',
+    'PO-' || floor(extract(epoch FROM clock_timestamp()) * 1000)::bigint || '-' || substring(md5(random()::text) FROM 1 FOR 6)
+  )
+  ON CONFLICT (escrow_id) DO NOTHING
+  RETURNING * INTO payout;
+
+  IF payout.id IS NULL THEN
+    SELECT * INTO payout FROM payouts WHERE escrow_id = escrow.id;
+  END IF;
+
+  UPDATE escrows
+  SET release_reference = payout.reference
+  WHERE id = escrow.id;
+
+  UPDATE orders
+  SET status = 'completed', updated_at = now()
+  WHERE id = release_order.id;
+
+  UPDATE seller_profiles
+  SET total_sales = coalesce(total_sales, 0) + 1
+  WHERE id = release_order.seller_id
+  RETURNING user_id INTO seller_user_id;
+
+  INSERT INTO notifications (user_id, type, title, message, data) VALUES
+    (
+      release_order.buyer_id,
+      'order_completed',
+      'Order Completed',
+      p_buyer_message,
+      jsonb_build_object('order_id', release_order.id)
+    ),
+    (
+      seller_user_id,
+      'payment_released',
+      'Payment Released',
+      CASE WHEN p_commission > 0 OR p_elevy > 0
+        THEN 'Payment of GHS ' || trim_scale(gross) || ' has been released. After GHS ' || trim_scale(p_commission) || ' commission'
+          || CASE WHEN p_elevy > 0 THEN ' and GHS ' || trim_scale(p_elevy) || ' e-levy' ELSE '' END
+          || ', GHS ' || trim_scale(net) || ' is on its way to your payout account.'
+        ELSE 'Payment of GHS ' || trim_scale(net) || ' has been released and is on its way to your payout account.'
+      END,
+      jsonb_build_object(
+        'order_id', release_order.id,
+        'gross', gross,
+        'commission', p_commission,
+        'elevy', p_elevy,
+        'net', net,
+        'reference', payout.reference
+      )
+    );
+
+  RETURN to_jsonb(payout);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION reserve_escrow_refund(
+  p_escrow_id uuid,
+  p_expected_refunded numeric,
+  p_payment_id uuid,
+  p_amount numeric,
+  p_reason text,
+  p_requested_by uuid,
+  p_dispute_id uuid
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  escrow escrows;
+  refund refunds;
+BEGIN
+  UPDATE escrows
+  SET refunded_amount = refunded_amount + p_amount
+  WHERE id = p_escrow_id
+    AND refunded_amount = p_expected_refunded
+    AND refunded_amount + p_amount <= amount
+    AND status IN ('holding', 'frozen')
+  RETURNING * INTO escrow;
+
+  IF escrow.id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO refunds (escrow_id, payment_id, order_id, amount, reason, status, requested_by, dispute_id)
+  VALUES (escrow.id, p_payment_id, escrow.order_id, p_amount, p_reason, 'pending', p_requested_by, p_dispute_id)
+  RETURNING * INTO refund;
+
+  RETURN to_jsonb(refund);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION complete_escrow_refund(
+  p_refund_id uuid,
+  p_status refund_status,
+  p_provider_reference text
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  refund refunds;
+  escrow escrows;
+  refund_order orders;
+  seller_user_id uuid;
+  full_refund boolean;
+BEGIN
+  UPDATE refunds
+  SET status = p_status,
+      provider_reference = p_provider_reference,
+      processed_at = CASE WHEN p_status = 'processed' THEN now() END
+  WHERE id = p_refund_id
+    AND status = 'pending'
+  RETURNING * INTO refund;
+
+  IF refund.id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT * INTO escrow FROM escrows WHERE id = refund.escrow_id FOR UPDATE;
+  SELECT * INTO refund_order FROM orders WHERE id = refund.order_id;
+
+  -- The escrow is only settled as refunded by the last of any refunds that
+  -- were in flight together, so one failing later cannot leave it refunded.
+  full_refund := escrow.refunded_amount >= escrow.amount
+    AND NOT EXISTS (
+      SELECT 1 FROM refunds
+      WHERE escrow_id = escrow.id
+        AND status = 'pending'
+    );
+
+  PERFORM post_journal_entry(
+    'refund',
+    refund.id,
+    refund_order.id,
+    refund_order.seller_id,
+    NULL,
+    'Refund to buyer for order ' || refund_order.order_number || ': ' || refund.reason,
+    jsonb_build_array(
+      jsonb_build_object('account', 'escrow_holding', 'debit', refund.amount),
+      jsonb_build_object('account', 'provider_clearing', 'credit', refund.amount)
+    )
+  );
+
+  UPDATE escrows
+  SET status = CASE WHEN full_refund THEN 'refunded' ELSE status END,
+      notes = CASE WHEN full_refund
+        THEN 'Refunded to buyer: ' || refund.reason
+        ELSE 'GHS ' || trim_scale(refund.amount) || ' refunded to buyer: ' || refund.reason
+      END
+  WHERE id = escrow.id;
+
+  UPDATE payments
+  SET status = CASE WHEN full_refund THEN 'refunded' ELSE 'partially_refunded' END::payment_status,
+      updated_at = now()
+  WHERE id = refund.payment_id;
+
+  IF full_refund THEN
+    UPDATE orders
+    SET status = 'refunded', updated_at = now()
+    WHERE id = refund_order.id;
+  END IF;
+
+  SELECT user_id INTO seller_user_id FROM seller_profiles WHERE id = refund_order.seller_id;
+
+  INSERT INTO notifications (user_id, type, title, message, data) VALUES
+    (
+      refund_order.buyer_id,
+      'refund_issued',
+      CASE WHEN full_refund THEN 'Order Refunded' ELSE 'Partial Refund Issued' END,
+      'GHS ' || trim_scale(refund.amount) || ' for order ' || refund_order.order_number || ' is being returned to your original payment method.',
+      jsonb_build_object('order_id', refund_order.id, 'refund_id', refund.id, 'amount', refund.amount)
+    ),
+    (
+      seller_user_id,
+      'refund_issued',
+      CASE WHEN full_refund THEN 'Order Refunded' ELSE 'Partial Refund Issued' END,
+      CASE WHEN full_refund
+        THEN 'Order ' || refund_order.order_number || ' has been refunded to the buyer. The escrowed funds will not be released.'
+        ELSE 'GHS ' || trim_scale(refund.amount) || ' from order ' || refund_order.order_number || ' has been refunded to the buyer. The remaining GHS '
+          || trim_scale(escrow.amount - escrow.refunded_amount) || ' stays in escrow.'
+      END,
+      jsonb_build_object('order_id', refund_order.id, 'refund_id', refund.id, 'amount', refund.amount)
+    );
+
+  RETURN jsonb_build_object('refund', to_jsonb(refund), 'full_refund', full_refund);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION fail_escrow_refund(
+  p_refund_id uuid,
+  p_error text,
+  p_provider_reference text
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  refund refunds;
+BEGIN
+  UPDATE refunds
+  SET status = 'failed',
+      error = p_error,
+      provider_reference = p_provider_reference
+  WHERE id = p_refund_id
+    AND status = 'pending'
+  RETURNING * INTO refund;
+
+  IF refund.id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  UPDATE escrows
+  SET refunded_amount = refunded_amount - refund.amount
+  WHERE id = refund.escrow_id;
+
+  RETURN to_jsonb(refund);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION mark_payout_paid(p_payout_id uuid, p_transfer_code text)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  payout payouts;
+  seller_user_id uuid;
+BEGIN
+  UPDATE payouts
+  SET status = 'paid',
+      transfer_code = p_transfer_code,
+      last_error = NULL,
+      paid_at = now(),
+      updated_at = now()
+  WHERE id = p_payout_id
+    AND status = 'processing'
+  RETURNING * INTO payout;
+
+  IF payout.id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  PERFORM post_journal_entry(
+    'payout',
+    payout.id,
+    payout.order_id,
+    payout.seller_id,
+    payout.currency,
+    'Payout ' || payout.reference || ' sent to seller',
+    jsonb_build_array(
+      jsonb_build_object('account', 'seller_payable:' || payout.seller_id, 'debit', payout.amount),
+      jsonb_build_object('account', 'provider_clearing', 'credit', payout.amount)
+    )
+  );
+
+  UPDATE escrows
+  SET paid_out_at = payout.paid_at
+  WHERE id = payout.escrow_id;
+
+  SELECT user_id INTO seller_user_id FROM seller_profiles WHERE id = payout.seller_id;
+
+  INSERT INTO notifications (user_id, type, title, message, data)
+  VALUES (
+    seller_user_id,
+    'payout_paid',
+    'Payout Sent',
+    'GHS ' || trim_scale(payout.amount) || ' has been sent to your payout account.',
+    jsonb_build_object('order_id', payout.order_id, 'payout_id', payout.id, 'amount', payout.amount)
+  );
+
+  RETURN to_jsonb(payout);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION post_journal_entry(journal_entry_type, uuid, uuid, uuid, text, text, jsonb) FROM public, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION settle_payment_into_escrow(payments, numeric) FROM public, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION record_successful_payment(uuid, numeric, text, reconciliation_status, numeric) FROM public, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION record_failed_payment(uuid, text) FROM public, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION record_reversed_payment(uuid) FROM public, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION release_escrow(uuid, escrow_status[], numeric, numeric, numeric, text, text) FROM public, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION reserve_escrow_refund(uuid, numeric, uuid, numeric, text, uuid, uuid) FROM public, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION complete_escrow_refund(uuid, refund_status, text) FROM public, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION fail_escrow_refund(uuid, text, text) FROM public, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION mark_payout_paid(uuid, text) FROM public, anon, authenticated;
+
+GRANT EXECUTE ON FUNCTION post_journal_entry(journal_entry_type, uuid, uuid, uuid, text, text, jsonb) TO service_role;
+GRANT EXECUTE ON FUNCTION record_successful_payment(uuid, numeric, text, reconciliation_status, numeric) TO service_role;
+GRANT EXECUTE ON FUNCTION record_failed_payment(uuid, text) TO service_role;
+GRANT EXECUTE ON FUNCTION record_reversed_payment(uuid) TO service_role;
+GRANT EXECUTE ON FUNCTION release_escrow(uuid, escrow_status[], numeric, numeric, numeric, text, text) TO service_role;
+GRANT EXECUTE ON FUNCTION reserve_escrow_refund(uuid, numeric, uuid, numeric, text, uuid, uuid) TO service_role;
+GRANT EXECUTE ON FUNCTION complete_escrow_refund(uuid, refund_status, text) TO service_role;
+GRANT EXECUTE ON FUNCTION fail_escrow_refund(uuid, text, text) TO service_role;
+GRANT EXECUTE ON FUNCTION mark_payout_paid(uuid, text) TO service_role;
@@ -0,0 +1,548 @@
+/*
+  # Partial release and split settlements
+
+  ## Overview
+  An escrow no longer has to be released or refunded in one go. Part of it
+  can be released to the seller (for the items the buyer confirmed) while the
+  rest stays held, and an order with a missing or damaged item can be split:
+  those items refunded to the buyer and the rest released to the seller.
+  Every portion is recorded as a settlement with its own reference, payout or
+  refund, and ledger entry. Once nothing is left in escrow it ends as
+  `released`, `refunded` or, when both happened, `split`, and the order is
+  completed (or refunded if nothing was released).
+
+  ## Changes
+
+  ### `escrow_status`
+  - New value `split` (fully settled, partly released and partly refunded)
+
+  ### `escrows`
+  - `released_amount` (numeric, total released to the seller so far)
+
+  ### `payouts`
+  - `escrow_id` is no longer unique; each release settlement has its own payout
+
+  ### `escrow_events`
+  - `released_amount` (numeric, total released at the time); partial releases
+    are now logged too
+
+  ## New Tables
+
+  ### `escrow_settlements`
+  - `id` (uuid, primary key)
+  - `escrow_id` (uuid, references escrows)
+  - `order_id` (uuid, references orders)
+  - `kind` (enum: release, refund)
+  - `amount` (numeric, gross amount of this portion)
+  - `reference` (text, unique)
+  - `order_item_ids` (uuid[], the order items this portion covers; empty when
+    it was settled by amount)
+  - `payout_id` (uuid, references payouts, for releases)
+  - `refund_id` (uuid, references refunds, for refunds)
+  - `notes` (text)
+  - `created_by` (uuid, references profiles; null for system jobs)
+  - `created_at` (timestamptz)
+
+  Existing releases and processed refunds are backfilled as settlements.
+
+  ## Functions
+  - `release_escrow` now releases a given amount (the whole remainder or part
+    of it), records the settlement and only completes the order once the
+    escrow is fully settled
+  - `reserve_escrow_refund` counts released funds when checking the amount
+  - `complete_escrow_refund` records the refund settlement and closes the
+    escrow as `split` when part of it had been released. Refunds the provider
+    accepted as pending no longer keep the escrow from closing
+
+  ## Security
+  - RLS enabled on `escrow_settlements`; order participants and admins can
+    read them
+*/
+
+ALTER TYPE escrow_status ADD VALUE IF NOT EXISTS 'split';
+
+CREATE TYPE settlement_kind AS ENUM ('release', 'refund');
+
+ALTER TABLE escrows
+  ADD COLUMN IF NOT EXISTS released_amount numeric NOT NULL DEFAULT 0 CHECK (released_amount >= 0);
+
+UPDATE escrows
+SET released_amount = amount - refunded_amount
+WHERE status = 'released';
+
+ALTER TABLE payouts
+  DROP CONSTRAINT IF EXISTS payouts_escrow_id_key;
+
+CREATE TABLE IF NOT EXISTS escrow_settlements (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  escrow_id uuid NOT NULL REFERENCES escrows(id) ON DELETE CASCADE,
+  order_id uuid NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  kind settlement_kind NOT NULL,
+  amount numeric NOT NULL CHECK (amount > 0),
+  reference text UNIQUE NOT NULL,
+  order_item_ids uuid[] NOT NULL DEFAULT '{}',
+  payout_id uuid UNIQUE REFERENCES payouts(id) ON DELETE SET NULL,
+  refund_id uuid UNIQUE REFERENCES refunds(id) ON DELETE SET NULL,
+  notes text,
+  created_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+INSERT INTO escrow_settlements (escrow_id, order_id, kind, amount, reference, payout_id, notes, created_at)
+SELECT p.escrow_id, p.order_id, 'release', coalesce(p.gross_amount, p.amount), 'ES-' || p.reference, p.id, e.notes, p.created_at
+FROM payouts p
+JOIN escrows e ON e.id = p.escrow_id
+ON CONFLICT DO NOTHING;
+
+INSERT INTO escrow_settlements (escrow_id, order_id, kind, amount, reference, refund_id, notes, created_by, created_at)
+SELECT r.escrow_id, r.order_id, 'refund', r.amount, 'ES-RF-' || r.id, r.id, r.reason, r.requested_by, coalesce(r.processed_at, r.created_at)
+FROM refunds r
+WHERE r.status = 'processed'
+ON CONFLICT DO NOTHING;
+
+ALTER TABLE escrow_settlements ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Order participants can view escrow settlements"
+  ON escrow_settlements FOR SELECT
+  TO authenticated
+  USING (
+    order_id IN (
+      SELECT id FROM orders
+      WHERE buyer_id = auth.uid()
+      OR seller_id IN (SELECT id FROM seller_profiles WHERE user_id = auth.uid())
+    )
+  );
+
+CREATE POLICY "Admins can view escrow settlements"
+  ON escrow_settlements FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin')
+  );
+
+ALTER TABLE escrow_events
+  ADD COLUMN IF NOT EXISTS released_amount numeric NOT NULL DEFAULT 0;
+
+CREATE OR REPLACE FUNCTION log_escrow_event()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE'
+    AND NEW.status = OLD.status
+    AND NEW.refunded_amount = OLD.refunded_amount
+    AND NEW.released_amount = OLD.released_amount THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO escrow_events (escrow_id, order_id, from_status, to_status, amount, refunded_amount, released_amount, notes, actor_id)
+  VALUES (
+    NEW.id,
+    NEW.order_id,
+    CASE WHEN TG_OP = 'UPDATE' THEN OLD.status END,
+    NEW.status,
+    NEW.amount,
+    NEW.refunded_amount,
+    NEW.released_amount,
+    NEW.notes,
+    auth.uid()
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE INDEX IF NOT EXISTS idx_escrow_settlements_escrow_id ON escrow_settlements(escrow_id);
+CREATE INDEX IF NOT EXISTS idx_payouts_escrow_id ON payouts(escrow_id);
+
+DROP FUNCTION IF EXISTS release_escrow(uuid, escrow_status[], numeric, numeric, numeric, text, text);
+
+CREATE OR REPLACE FUNCTION release_escrow(
+  p_escrow_id uuid,
+  p_from_statuses escrow_status[],
+  p_expected_released numeric,
+  p_expected_refunded numeric,
+  p_amount numeric,
+  p_commission numeric,
+  p_elevy numeric,
+  p_order_item_ids uuid[],
+  p_notes text,
+  p_buyer_message text,
+  p_created_by uuid
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  escrow escrows;
+  release_order orders;
+  settlement escrow_settlements;
+  payout payouts;
+  account payout_accounts;
+  seller_user_id uuid;
+  net numeric;
+  remaining numeric;
+  closed boolean;
+  seller_message text;
+  breakdown jsonb;
+BEGIN
+  -- Funds can't be released while a refund is waiting on the provider: if it
+  -- failed afterwards the escrow would be closed with money left in it.
+  -- Refunds the provider accepted (even if still pending on its side) have a
+  -- provider reference and count as settled.
+  UPDATE escrows
+  SET released_amount = released_amount + p_amount,
+      status = CASE
+        WHEN released_amount + p_amount + refunded_amount < amount THEN status
+        WHEN refunded_amount > 0 THEN 'split'
+        ELSE 'released'
+      END::escrow_status,
+      released_at = CASE WHEN released_amount + p_amount + refunded_amount < amount THEN released_at ELSE now() END,
+      frozen_reason = CASE WHEN released_amount + p_amount + refunded_amount < amount THEN frozen_reason END,
+      notes = p_notes
+  WHERE id = p_escrow_id
+    AND released_amount = p_expected_released
+    AND refunded_amount = p_expected_refunded
+    AND status = ANY(p_from_statuses)
+    AND p_amount > 0
+    AND released_amount + p_amount + refunded_amount <= amount
+    AND NOT EXISTS (
+      SELECT 1 FROM refunds
+      WHERE escrow_id = p_escrow_id
+        AND status = 'pending'
+        AND provider_reference IS NULL
+    )
+  RETURNING * INTO escrow;
+
+  IF escrow.id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  net := p_amount - p_commission - p_elevy;
+
+  IF net < 0 THEN
+    RAISE EXCEPTION 'Deductions of % exceed the released amount of %', p_commission + p_elevy, p_amount;
+  END IF;
+
+  remaining := escrow.amount - escrow.released_amount - escrow.refunded_amount;
+  closed := remaining <= 0;
+
+  SELECT * INTO release_order FROM orders WHERE id = escrow.order_id;
+
+  SELECT * INTO account
+  FROM payout_accounts
+  WHERE seller_id = release_order.seller_id
+    AND is_default;
+
+  INSERT INTO payouts (
+    escrow_id, order_id, seller_id, payout_account_id, provider,
+    amount, gross_amount, commission_amount, elevy_amount, currency, status, reference
+  )
+  VALUES (
+    escrow.id, release_order.id, release_order.seller_id, account.id, account.provider,
+    net, p_amount, p_commission, p_elevy, 'GHS', 'queued',
+    'PO-' || floor(extract(epoch FROM clock_timestamp()) * 1000)::bigint || '-' || substring(md5(random()::text) FROM 1 FOR 6)
+  )
+  RETURNING * INTO payout;
+
+  INSERT INTO escrow_settlements (escrow_id, order_id, kind, amount, reference, order_item_ids, payout_id, notes, created_by)
+  VALUES (
+    escrow.id, escrow.order_id, 'release', p_amount,
+    'ES-' || floor(extract(epoch FROM clock_timestamp()) * 1000)::bigint || '-' || substring(md5(random()::text) FROM 1 FOR 6),
+    coalesce(p_order_item_ids, '{}'), payout.id, p_notes, p_created_by
+  )
+  RETURNING * INTO settlement;
+
+  PERFORM post_journal_entry(
+    'escrow_release',
+    settlement.id,
+    release_order.id,
+    release_order.seller_id,
+    NULL,
+    'Order ' || release_order.order_number || ' escrow released to seller (' || settlement.reference || ')',
+    jsonb_build_array(
+      jsonb_build_object('account', 'escrow_holding', 'debit', p_amount),
+      jsonb_build_object('account', 'commission_revenue', 'credit', p_commission),
+      jsonb_build_object('account', 'elevy_payable', 'credit', p_elevy),
+      jsonb_build_object('account', 'seller_payable:' || release_order.seller_id, 'credit', net)
+    )
+  );
+
+  UPDATE escrows
+  SET release_reference = payout.reference
+  WHERE id = escrow.id;
+
+  IF closed THEN
+    UPDATE orders
+    SET status = 'completed', updated_at = now()
+    WHERE id = release_order.id;
+
+    UPDATE seller_profiles
+    SET total_sales = coalesce(total_sales, 0) + 1
+    WHERE id = release_order.seller_id
+    RETURNING user_id INTO seller_user_id;
+  ELSE
+    SELECT user_id INTO seller_user_id FROM seller_profiles WHERE id = release_order.seller_id;
+  END IF;
+
+  breakdown := jsonb_build_object(
+    'escrow_amount', escrow.amount,
+    'released', escrow.released_amount,
+    'refunded', escrow.refunded_amount,
+    'remaining', remaining
+  );
+
+  seller_message := CASE WHEN p_commission > 0 OR p_elevy > 0
+    THEN 'Payment of GHS ' || trim_scale(p_amount) || ' has been released. After GHS ' || trim_scale(p_commission) || ' commission'
+      || CASE WHEN p_elevy > 0 THEN ' and GHS ' || trim_scale(p_elevy) || ' e-levy' ELSE '' END
+      || ', GHS ' || trim_scale(net) || ' is on its way to your payout account.'
+    ELSE 'Payment of GHS ' || trim_scale(net) || ' has been released and is on its way to your payout account.'
+  END;
+
+  IF NOT closed THEN
+    seller_message := seller_message || ' GHS ' || trim_scale(remaining) || ' of order ' || release_order.order_number
+      || ' is still held in escrow.';
+  ELSIF escrow.refunded_amount > 0 OR escrow.released_amount > p_amount THEN
+    seller_message := seller_message || ' In total GHS ' || trim_scale(escrow.released_amount) || ' of order '
+      || release_order.order_number || ' was released to you and GHS ' || trim_scale(escrow.refunded_amount)
+      || ' refunded to the buyer.';
+  END IF;
+
+  INSERT INTO notifications (user_id, type, title, message, data) VALUES
+    (
+      release_order.buyer_id,
+      CASE WHEN closed THEN 'order_completed' ELSE 'escrow_partially_released' END,
+      CASE WHEN closed THEN 'Order Completed' ELSE 'Payment Partly Released' END,
+      p_buyer_message
+        || CASE
+          WHEN NOT closed THEN ' GHS ' || trim_scale(remaining) || ' stays in escrow.'
+          WHEN escrow.refunded_amount > 0 THEN ' Of your GHS ' || trim_scale(escrow.amount) || ' payment, GHS '
+            || trim_scale(escrow.released_amount) || ' went to the seller and GHS ' || trim_scale(escrow.refunded_amount)
+            || ' was refunded to you.'
+          ELSE ''
+        END,
+      jsonb_build_object('order_id', release_order.id, 'reference', settlement.reference) || breakdown
+    ),
+    (
+      seller_user_id,
+      'payment_released',
+      CASE WHEN closed THEN 'Payment Released' ELSE 'Partial Payment Released' END,
+      seller_message,
+      jsonb_build_object(
+        'order_id', release_order.id,
+        'gross', p_amount,
+        'commission', p_commission,
+        'elevy', p_elevy,
+        'net', net,
+        'reference', payout.reference,
+        'settlement_reference', settlement.reference
+      ) || breakdown
+    );
+
+  RETURN jsonb_build_object(
+    'payout', to_jsonb(payout),
+    'settlement', to_jsonb(settlement),
+    'escrow', to_jsonb(escrow)
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION reserve_escrow_refund(
+  p_escrow_id uuid,
+  p_expected_refunded numeric,
+  p_payment_id uuid,
+  p_amount numeric,
+  p_reason text,
+  p_requested_by uuid,
+  p_dispute_id uuid
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  escrow escrows;
+  refund refunds;
+BEGIN
+  UPDATE escrows
+  SET refunded_amount = refunded_amount + p_amount
+  WHERE id = p_escrow_id
+    AND refunded_amount = p_expected_refunded
+    AND released_amount + refunded_amount + p_amount <= amount
+    AND status IN ('holding', 'frozen')
+  RETURNING * INTO escrow;
+
+  IF escrow.id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO refunds (escrow_id, payment_id, order_id, amount, reason, status, requested_by, dispute_id)
+  VALUES (escrow.id, p_payment_id, escrow.order_id, p_amount, p_reason, 'pending', p_requested_by, p_dispute_id)
+  RETURNING * INTO refund;
+
+  RETURN to_jsonb(refund);
+END;
+$$;
+
+DROP FUNCTION IF EXISTS complete_escrow_refund(uuid, refund_status, text);
+
+CREATE OR REPLACE FUNCTION complete_escrow_refund(
+  p_refund_id uuid,
+  p_status refund_status,
+  p_provider_reference text,
+  p_order_item_ids uuid[]
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  refund refunds;
+  escrow escrows;
+  refund_order orders;
+  settlement escrow_settlements;
+  seller_user_id uuid;
+  closed boolean;
+  full_refund boolean;
+  remaining numeric;
+  breakdown jsonb;
+BEGIN
+  UPDATE refunds
+  SET status = p_status,
+      provider_reference = p_provider_reference,
+      processed_at = CASE WHEN p_status = 'processed' THEN now() END
+  WHERE id = p_refund_id
+    AND status = 'pending'
+  RETURNING * INTO refund;
+
+  IF refund.id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT * INTO escrow FROM escrows WHERE id = refund.escrow_id FOR UPDATE;
+  SELECT * INTO refund_order FROM orders WHERE id = refund.order_id;
+
+  remaining := escrow.amount - escrow.released_amount - escrow.refunded_amount;
+
+  -- The escrow is only closed by the last of any refunds that were waiting on
+  -- the provider together, so one failing later cannot leave it closed with
+  -- money in it.
+  closed := remaining <= 0
+    AND NOT EXISTS (
+      SELECT 1 FROM refunds
+      WHERE escrow_id = escrow.id
+        AND status = 'pending'
+        AND provider_reference IS NULL
+    );
+  full_refund := closed AND escrow.released_amount = 0;
+
+  INSERT INTO escrow_settlements (escrow_id, order_id, kind, amount, reference, order_item_ids, refund_id, notes, created_by)
+  VALUES (
+    escrow.id, escrow.order_id, 'refund', refund.amount,
+    'ES-' || floor(extract(epoch FROM clock_timestamp()) * 1000)::bigint || '-' || substring(md5(random()::text) FROM 1 FOR 6),
+    coalesce(p_order_item_ids, '{}'), refund.id, refund.reason, refund.requested_by
+  )
+  RETURNING * INTO settlement;
+
+  PERFORM post_journal_entry(
+    'refund',
+    refund.id,
+    refund_order.id,
+    refund_order.seller_id,
+    NULL,
+    'Refund to buyer for order ' || refund_order.order_number || ' (' || settlement.reference || '): ' || refund.reason,
+    jsonb_build_array(
+      jsonb_build_object('account', 'escrow_holding', 'debit', refund.amount),
+      jsonb_build_object('account', 'provider_clearing', 'credit', refund.amount)
+    )
+  );
+
+  UPDATE escrows
+  SET status = CASE
+        WHEN full_refund THEN 'refunded'
+        WHEN closed THEN 'split'
+        ELSE status
+      END::escrow_status,
+      frozen_reason = CASE WHEN closed THEN NULL ELSE frozen_reason END,
+      notes = CASE WHEN full_refund
+        THEN 'Refunded to buyer: ' || refund.reason
+        ELSE 'GHS ' || trim_scale(refund.amount) || ' refunded to buyer: ' || refund.reason
+      END
+  WHERE id = escrow.id;
+
+  UPDATE payments
+  SET status = CASE WHEN full_refund THEN 'refunded' ELSE 'partially_refunded' END::payment_status,
+      updated_at = now()
+  WHERE id = refund.payment_id;
+
+  IF full_refund THEN
+    UPDATE orders
+    SET status = 'refunded', updated_at = now()
+    WHERE id = refund_order.id;
+  ELSIF closed THEN
+    UPDATE orders
+    SET status = 'completed', updated_at = now()
+    WHERE id = refund_order.id;
+
+    UPDATE seller_profiles
+    SET total_sales = coalesce(total_sales, 0) + 1
+    WHERE id = refund_order.seller_id;
+  END IF;
+
+  SELECT user_id INTO seller_user_id FROM seller_profiles WHERE id = refund_order.seller_id;
+
+  breakdown := jsonb_build_object(
+    'escrow_amount', escrow.amount,
+    'released', escrow.released_amount,
+    'refunded', escrow.refunded_amount,
+    'remaining', remaining
+  );
+
+  INSERT INTO notifications (user_id, type, title, message, data) VALUES
+    (
+      refund_order.buyer_id,
+      'refund_issued',
+      CASE WHEN full_refund THEN 'Order Refunded' ELSE 'Partial Refund Issued' END,
+      'GHS ' || trim_scale(refund.amount) || ' for order ' || refund_order.order_number || ' is being returned to your original payment method.'
+        || CASE WHEN closed AND NOT full_refund
+          THEN ' Of your GHS ' || trim_scale(escrow.amount) || ' payment, GHS ' || trim_scale(escrow.released_amount)
+            || ' went to the seller and GHS ' || trim_scale(escrow.refunded_amount) || ' was refunded to you.'
+          ELSE ''
+        END,
+      jsonb_build_object('order_id', refund_order.id, 'refund_id', refund.id, 'amount', refund.amount, 'reference', settlement.reference) || breakdown
+    ),
+    (
+      seller_user_id,
+      'refund_issued',
+      CASE WHEN full_refund THEN 'Order Refunded' ELSE 'Partial Refund Issued' END,
+      CASE
+        WHEN full_refund
+          THEN 'Order ' || refund_order.order_number || ' has been refunded to the buyer. The escrowed funds will not be released.'
+        WHEN closed
+          THEN 'GHS ' || trim_scale(refund.amount) || ' from order ' || refund_order.order_number || ' has been refunded to the buyer. In total GHS '
+            || trim_scale(escrow.released_amount) || ' was released to you and GHS ' || trim_scale(escrow.refunded_amount) || ' refunded to the buyer.'
+        ELSE 'GHS ' || trim_scale(refund.amount) || ' from order ' || refund_order.order_number || ' has been refunded to the buyer. The remaining GHS '
+          || trim_scale(remaining) || ' stays in escrow.'
+      END,
+      jsonb_build_object('order_id', refund_order.id, 'refund_id', refund.id, 'amount', refund.amount, 'reference', settlement.reference) || breakdown
+    );
+
+  RETURN jsonb_build_object(
+    'refund', to_jsonb(refund),
+    'settlement', to_jsonb(settlement),
+    'full_refund', full_refund
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION release_escrow(uuid, escrow_status[], numeric, numeric, numeric, numeric, numeric, uuid[], text, text, uuid) FROM public, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION complete_escrow_refund(uuid, refund_status, text, uuid[]) FROM public, anon, authenticated;
+
+GRANT EXECUTE ON FUNCTION release_escrow(uuid, escrow_status[], numeric, numeric, numeric, numeric, numeric, uuid[], text, text, uuid) TO service_role;
+GRANT EXECUTE ON FUNCTION complete_escrow_refund(uuid, refund_status, text, uuid[]) TO service_role;
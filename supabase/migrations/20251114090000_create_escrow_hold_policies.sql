@@ -0,0 +1,206 @@
+/*
+  # Escrow hold policies
+
+  ## Overview
+  How long a payment is held in escrow before it can be auto-released used to
+  be a fixed 14 days. It is now chosen from admin-editable policies when the
+  escrow is created: established, verified sellers get shorter holds, risky
+  categories (electronics, including any subcategories such as phones) get
+  longer ones, and pickup orders, where the buyer inspects the item at
+  handover, have their own rule. The chosen policy is kept on the escrow and
+  the resulting release date is sent to both buyer and seller.
+
+  ## New Tables
+
+  ### `escrow_hold_policies`
+  - `id` (uuid, primary key)
+  - `name` (text)
+  - `description` (text)
+  - `category_id` (uuid, references categories; matches orders with an item in
+    this category or one of its subcategories; null for any)
+  - `delivery_method` (delivery_method; null for any)
+  - `requires_verified_seller` (boolean)
+  - `min_seller_rating` (numeric, 0-5; null for any)
+  - `min_seller_sales` (int; null for any)
+  - `hold_days` (int, 1-90)
+  - `priority` (int; the highest-priority matching policy wins, ties go to
+    the longest hold)
+  - `active` (boolean)
+  - `created_at`, `updated_at` (timestamptz)
+
+  Seeded with a 14-day default, 7 days for verified sellers rated 4.5+ with 50+
+  sales, 5 days for pickup orders and 21 days for electronics.
+
+  ## Changes
+
+  ### `escrows`
+  - `hold_policy_id` (uuid, references escrow_hold_policies; the policy that
+    set `hold_until`)
+
+  ## Functions
+  - `resolve_escrow_hold_policy(order_id)`: the policy that applies to an order
+  - `settle_payment_into_escrow` sets `hold_until` from that policy (14 days if
+    none matches) and includes the release date in its notifications
+
+  ## Security
+  - RLS enabled on `escrow_hold_policies`; signed-in users can read active
+    policies and admins can manage them
+*/
+
+CREATE TABLE IF NOT EXISTS escrow_hold_policies (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  description text,
+  category_id uuid REFERENCES categories(id) ON DELETE CASCADE,
+  delivery_method delivery_method,
+  requires_verified_seller boolean NOT NULL DEFAULT false,
+  min_seller_rating numeric CHECK (min_seller_rating >= 0 AND min_seller_rating <= 5),
+  min_seller_sales int CHECK (min_seller_sales >= 0),
+  hold_days int NOT NULL CHECK (hold_days BETWEEN 1 AND 90),
+  priority int NOT NULL DEFAULT 0,
+  active boolean NOT NULL DEFAULT true,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+INSERT INTO escrow_hold_policies (name, description, hold_days, priority) VALUES
+  ('Standard hold', 'Applies when no other policy matches', 14, 0);
+
+INSERT INTO escrow_hold_policies (name, description, requires_verified_seller, min_seller_rating, min_seller_sales, hold_days, priority) VALUES
+  ('Trusted sellers', 'Verified sellers with a strong rating and sales record', true, 4.5, 50, 7, 10);
+
+INSERT INTO escrow_hold_policies (name, description, delivery_method, hold_days, priority) VALUES
+  ('Pickup orders', 'The buyer inspects the item when collecting it', 'pickup', 5, 20);
+
+INSERT INTO escrow_hold_policies (name, description, category_id, hold_days, priority)
+SELECT 'Electronics', 'Phones and electronics are more often faulty, locked or misdescribed', id, 21, 30
+FROM categories
+WHERE slug = 'electronics';
+
+ALTER TABLE escrows
+  ADD COLUMN IF NOT EXISTS hold_policy_id uuid REFERENCES escrow_hold_policies(id) ON DELETE SET NULL;
+
+ALTER TABLE escrow_hold_policies ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone signed in can view active hold policies"
+  ON escrow_hold_policies FOR SELECT
+  TO authenticated
+  USING (active);
+
+CREATE POLICY "Admins can manage hold policies"
+  ON escrow_hold_policies FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin')
+  )
+  WITH CHECK (
+    EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin')
+  );
+
+CREATE OR REPLACE FUNCTION resolve_escrow_hold_policy(p_order_id uuid)
+RETURNS escrow_hold_policies
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT p.*
+  FROM escrow_hold_policies p
+  JOIN orders o ON o.id = p_order_id
+  JOIN seller_profiles s ON s.id = o.seller_id
+  WHERE p.active
+    AND (p.delivery_method IS NULL OR p.delivery_method = o.delivery_method)
+    AND (NOT p.requires_verified_seller OR s.verification_status = 'verified')
+    AND (p.min_seller_rating IS NULL OR coalesce(s.rating_avg, 0) >= p.min_seller_rating)
+    AND (p.min_seller_sales IS NULL OR coalesce(s.total_sales, 0) >= p.min_seller_sales)
+    AND (
+      p.category_id IS NULL
+      OR EXISTS (
+        SELECT 1
+        FROM order_items oi
+        JOIN products pr ON pr.id = oi.product_id
+        JOIN categories c ON c.id = pr.category_id
+        WHERE oi.order_id = o.id
+          AND p.category_id IN (c.id, c.parent_id)
+      )
+    )
+  ORDER BY p.priority DESC, p.hold_days DESC
+  LIMIT 1;
+$$;
+
+CREATE OR REPLACE FUNCTION settle_payment_into_escrow(p_payment payments, p_amount_paid numeric)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  settled_order orders;
+  escrow escrows;
+  policy escrow_hold_policies;
+  seller_user_id uuid;
+  release_date text;
+BEGIN
+  UPDATE orders
+  SET status = 'paid_in_escrow'
+  WHERE id = p_payment.order_id
+    AND status = 'created'
+  RETURNING * INTO settled_order;
+
+  IF settled_order.id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  policy := resolve_escrow_hold_policy(settled_order.id);
+
+  INSERT INTO escrows (order_id, amount, status, hold_until, hold_policy_id)
+  VALUES (
+    settled_order.id,
+    p_payment.amount,
+    'holding',
+    now() + make_interval(days => coalesce(policy.hold_days, 14)),
+    policy.id
+  )
+  RETURNING * INTO escrow;
+
+  PERFORM post_journal_entry(
+    'escrow_hold',
+    escrow.id,
+    settled_order.id,
+    settled_order.seller_id,
+    NULL,
+    'Order ' || settled_order.order_number || ' payment moved into escrow',
+    jsonb_build_array(
+      jsonb_build_object('account', 'buyer_deposits', 'debit', p_payment.amount),
+      jsonb_build_object('account', 'escrow_holding', 'credit', p_payment.amount)
+    )
+  );
+
+  SELECT user_id INTO seller_user_id FROM seller_profiles WHERE id = settled_order.seller_id;
+
+  release_date := to_char(escrow.hold_until AT TIME ZONE 'Africa/Accra', 'FMDay DD Mon YYYY');
+
+  INSERT INTO notifications (user_id, type, title, message, data) VALUES
+    (
+      settled_order.buyer_id,
+      'payment_success',
+      'Payment Successful',
+      'Your payment of GHS ' || trim_scale(p_amount_paid) || ' has been received and held in escrow. Once your order is delivered, it will be released to the seller on '
+        || release_date || ' unless you confirm delivery sooner or open a dispute.',
+      jsonb_build_object('order_id', settled_order.id, 'hold_until', escrow.hold_until)
+    ),
+    (
+      seller_user_id,
+      'new_order',
+      'New Order Received',
+      'You have a new order. Please prepare for shipment. Payment is held in escrow and, once the order is delivered, will be released to you on '
+        || release_date || ' or when the buyer confirms delivery.',
+      jsonb_build_object('order_id', settled_order.id, 'hold_until', escrow.hold_until)
+    );
+
+  RETURN to_jsonb(settled_order) || jsonb_build_object('seller_profiles', jsonb_build_object('user_id', seller_user_id));
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION resolve_escrow_hold_policy(uuid) FROM public, anon, authenticated;
+GRANT EXECUTE ON FUNCTION resolve_escrow_hold_policy(uuid) TO service_role;
@@ -0,0 +1,183 @@
+/*
+  # Shopping cart and checkout
+
+  ## Overview
+  Buyers can now keep a cart across sessions and devices and check it out into
+  an order. Because an order belongs to a single seller, the cart is checked
+  out one store at a time: the buyer's cart lines for that store become the
+  order's items, with the product details at the time of purchase kept in
+  `product_snapshot`, and are then removed from the cart. Order numbers are
+  generated by the database.
+
+  ## New Tables
+
+  ### `cart_items`
+  - `id` (uuid, primary key)
+  - `user_id` (uuid, references profiles)
+  - `product_id` (uuid, references products; one line per product)
+  - `quantity` (int, > 0)
+  - `created_at`, `updated_at` (timestamptz)
+
+  ## Changes
+
+  ### `orders`
+  - `order_number` defaults to `GHM-<year>-<6-digit sequence>`, e.g.
+    `GHM-2025-001234`
+
+  ## Functions
+  - `generate_order_number()`: the next order number
+  - `create_order_from_cart(buyer, seller, delivery method, address, delivery
+    cost, notes)`: creates the order and its items from the buyer's cart lines
+    for that seller and removes those lines, in one transaction. Returns NULL,
+    changing nothing, if there are no lines or any product is no longer active
+    or has too little stock.
+
+  ## Security
+  - RLS enabled on `cart_items`; users can only see and change their own cart
+  - `create_order_from_cart` is only executable with the service role; the
+    `order-create` edge function calls it for the signed-in buyer
+*/
+
+CREATE TABLE IF NOT EXISTS cart_items (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  product_id uuid NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+  quantity int NOT NULL DEFAULT 1 CHECK (quantity > 0),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE (user_id, product_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_cart_items_user_id ON cart_items(user_id);
+
+ALTER TABLE cart_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their cart"
+  ON cart_items FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users can add to their cart"
+  ON cart_items FOR INSERT
+  TO authenticated
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can update their cart"
+  ON cart_items FOR UPDATE
+  TO authenticated
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can remove from their cart"
+  ON cart_items FOR DELETE
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE SEQUENCE IF NOT EXISTS order_number_seq;
+
+CREATE OR REPLACE FUNCTION generate_order_number()
+RETURNS text
+LANGUAGE sql
+AS $$
+  SELECT 'GHM-' || to_char(now() AT TIME ZONE 'Africa/Accra', 'YYYY') || '-'
+    || lpad(nextval('order_number_seq')::text, 6, '0');
+$$;
+
+ALTER TABLE orders
+  ALTER COLUMN order_number SET DEFAULT generate_order_number();
+
+CREATE OR REPLACE FUNCTION create_order_from_cart(
+  p_buyer_id uuid,
+  p_seller_id uuid,
+  p_delivery_method delivery_method,
+  p_delivery_address text,
+  p_delivery_cost numeric,
+  p_notes text
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  new_order orders;
+  line_count int;
+  unavailable_count int;
+  items_total numeric;
+BEGIN
+  -- Lock the lines and their products so the snapshot, prices and stock
+  -- check below all see the same state.
+  PERFORM 1
+  FROM cart_items c
+  JOIN products p ON p.id = c.product_id
+  WHERE c.user_id = p_buyer_id
+    AND p.seller_id = p_seller_id
+  FOR UPDATE OF c, p;
+
+  SELECT
+    count(*),
+    count(*) FILTER (WHERE p.status <> 'active' OR c.quantity > coalesce(p.stock_count, 0)),
+    coalesce(sum(p.price * c.quantity), 0)
+  INTO line_count, unavailable_count, items_total
+  FROM cart_items c
+  JOIN products p ON p.id = c.product_id
+  WHERE c.user_id = p_buyer_id
+    AND p.seller_id = p_seller_id;
+
+  IF line_count = 0 OR unavailable_count > 0 THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO orders (buyer_id, seller_id, total_amount, status, delivery_method, delivery_address, delivery_cost, notes)
+  VALUES (
+    p_buyer_id,
+    p_seller_id,
+    items_total + p_delivery_cost,
+    'created',
+    p_delivery_method,
+    p_delivery_address,
+    p_delivery_cost,
+    p_notes
+  )
+  RETURNING * INTO new_order;
+
+  INSERT INTO order_items (order_id, product_id, quantity, unit_price, total_price, product_snapshot)
+  SELECT
+    new_order.id,
+    p.id,
+    c.quantity,
+    p.price,
+    p.price * c.quantity,
+    jsonb_build_object(
+      'title', p.title,
+      'description', p.description,
+      'images', to_jsonb(p.images),
+      'price', p.price,
+      'currency', p.currency,
+      'condition', p.condition,
+      'category_id', p.category_id,
+      'seller_id', p.seller_id,
+      'store_name', s.store_name
+    )
+  FROM cart_items c
+  JOIN products p ON p.id = c.product_id
+  JOIN seller_profiles s ON s.id = p.seller_id
+  WHERE c.user_id = p_buyer_id
+    AND p.seller_id = p_seller_id
+  ORDER BY c.created_at;
+
+  DELETE FROM cart_items c
+  USING products p
+  WHERE p.id = c.product_id
+    AND c.user_id = p_buyer_id
+    AND p.seller_id = p_seller_id;
+
+  RETURN to_jsonb(new_order) || jsonb_build_object(
+    'order_items',
+    (SELECT jsonb_agg(to_jsonb(oi)) FROM order_items oi WHERE oi.order_id = new_order.id)
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION create_order_from_cart(uuid, uuid, delivery_method, text, numeric, text) FROM public, anon, authenticated;
+GRANT EXECUTE ON FUNCTION create_order_from_cart(uuid, uuid, delivery_method, text, numeric, text) TO service_role;
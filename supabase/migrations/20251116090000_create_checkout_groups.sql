@@ -0,0 +1,721 @@
+/*
+  # Multi-seller checkout groups
+
+  ## Overview
+  An order belongs to a single seller, so until now a cart with items from
+  several stores had to be checked out and paid for store by store. Checkout
+  now splits the cart by seller into one order per store, links the orders
+  under a checkout group and collects a single payment for the group total.
+  When that payment succeeds each order gets its own escrow (with its own hold
+  policy), so every seller is shipped to, settled and disputed independently
+  while the buyer pays once. Payments for a single order still work as before.
+
+  ## New Tables
+
+  ### `checkout_groups`
+  - `id` (uuid, primary key)
+  - `reference` (text, unique; `CHK-<year>-<6-digit sequence>`)
+  - `buyer_id` (uuid, references profiles)
+  - `total_amount` (numeric; sum of the orders' totals)
+  - `currency` (text)
+  - `created_at`, `updated_at` (timestamptz)
+
+  ## Changes
+
+  ### `orders`
+  - `checkout_group_id` (uuid, references checkout_groups)
+
+  ### `payments`
+  - `checkout_group_id` (uuid, references checkout_groups)
+  - `order_id` is now nullable; a payment is for exactly one order or one
+    checkout group
+
+  ## Functions
+  - `create_order_from_cart` is replaced by `create_checkout_from_cart`, which
+    takes all of the buyer's cart lines (or the ones listed) and creates one
+    order per seller under a new checkout group
+  - `settle_payment_into_escrow` settles every order the payment covers into
+    its own escrow and returns the settled orders
+  - `record_successful_payment` reconciles group payments against the group
+    total and returns `orders` instead of `order`
+  - `record_failed_payment` and `record_reversed_payment` handle group
+    payments; a reversal freezes every escrow the payment funded
+  - `complete_escrow_refund` marks the payment `refunded` only once everything
+    paid has been refunded, since one payment can now fund several escrows
+
+  ## Security
+  - RLS enabled on `checkout_groups`; buyers can view their own groups and
+    admins can view all
+  - Buyers can view payments for their checkout groups
+  - `create_checkout_from_cart` is only executable with the service role
+*/
+
+CREATE SEQUENCE IF NOT EXISTS checkout_reference_seq;
+
+CREATE OR REPLACE FUNCTION generate_checkout_reference()
+RETURNS text
+LANGUAGE sql
+AS $$
+  SELECT 'CHK-' || to_char(now() AT TIME ZONE 'Africa/Accra', 'YYYY') || '-'
+    || lpad(nextval('checkout_reference_seq')::text, 6, '0');
+$$;
+
+CREATE TABLE IF NOT EXISTS checkout_groups (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  reference text UNIQUE NOT NULL DEFAULT generate_checkout_reference(),
+  buyer_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  total_amount numeric NOT NULL CHECK (total_amount >= 0),
+  currency text DEFAULT 'GHS',
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_checkout_groups_buyer_id ON checkout_groups(buyer_id);
+
+ALTER TABLE orders
+  ADD COLUMN IF NOT EXISTS checkout_group_id uuid REFERENCES checkout_groups(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_orders_checkout_group_id ON orders(checkout_group_id);
+
+ALTER TABLE payments
+  ADD COLUMN IF NOT EXISTS checkout_group_id uuid REFERENCES checkout_groups(id) ON DELETE CASCADE,
+  ALTER COLUMN order_id DROP NOT NULL,
+  ADD CONSTRAINT payments_order_or_checkout_group CHECK (num_nonnulls(order_id, checkout_group_id) = 1);
+
+CREATE INDEX IF NOT EXISTS idx_payments_checkout_group_id ON payments(checkout_group_id);
+
+ALTER TABLE checkout_groups ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Buyers can view their checkouts"
+  ON checkout_groups FOR SELECT
+  TO authenticated
+  USING (buyer_id = auth.uid());
+
+CREATE POLICY "Admins can view checkouts"
+  ON checkout_groups FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin')
+  );
+
+CREATE POLICY "Buyers can view their checkout payments"
+  ON payments FOR SELECT
+  TO authenticated
+  USING (
+    checkout_group_id IN (SELECT id FROM checkout_groups WHERE buyer_id = auth.uid())
+  );
+
+DROP FUNCTION IF EXISTS create_order_from_cart(uuid, uuid, delivery_method, text, numeric, text);
+
+CREATE OR REPLACE FUNCTION create_checkout_from_cart(
+  p_buyer_id uuid,
+  p_cart_item_ids uuid[],
+  p_delivery_method delivery_method,
+  p_delivery_address text,
+  p_delivery_cost numeric,
+  p_notes text
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  checkout checkout_groups;
+  new_order orders;
+  seller uuid;
+  line_count int;
+  unavailable_count int;
+  orders_json jsonb := '[]'::jsonb;
+BEGIN
+  -- Lock the lines and their products so the snapshots, prices and stock
+  -- check below all see the same state.
+  PERFORM 1
+  FROM cart_items c
+  JOIN products p ON p.id = c.product_id
+  WHERE c.user_id = p_buyer_id
+    AND (p_cart_item_ids IS NULL OR c.id = ANY (p_cart_item_ids))
+  FOR UPDATE OF c, p;
+
+  SELECT
+    count(*),
+    count(*) FILTER (WHERE p.status <> 'active' OR c.quantity > coalesce(p.stock_count, 0))
+  INTO line_count, unavailable_count
+  FROM cart_items c
+  JOIN products p ON p.id = c.product_id
+  WHERE c.user_id = p_buyer_id
+    AND (p_cart_item_ids IS NULL OR c.id = ANY (p_cart_item_ids));
+
+  IF line_count = 0
+    OR unavailable_count > 0
+    OR (p_cart_item_ids IS NOT NULL AND line_count <> cardinality(p_cart_item_ids)) THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO checkout_groups (buyer_id, total_amount)
+  VALUES (p_buyer_id, 0)
+  RETURNING * INTO checkout;
+
+  FOR seller IN
+    SELECT DISTINCT p.seller_id
+    FROM cart_items c
+    JOIN products p ON p.id = c.product_id
+    WHERE c.user_id = p_buyer_id
+      AND (p_cart_item_ids IS NULL OR c.id = ANY (p_cart_item_ids))
+  LOOP
+    INSERT INTO orders (buyer_id, seller_id, checkout_group_id, total_amount, status, delivery_method, delivery_address, delivery_cost, notes)
+    SELECT
+      p_buyer_id,
+      seller,
+      checkout.id,
+      sum(p.price * c.quantity) + p_delivery_cost,
+      'created',
+      p_delivery_method,
+      p_delivery_address,
+      p_delivery_cost,
+      p_notes
+    FROM cart_items c
+    JOIN products p ON p.id = c.product_id
+    WHERE c.user_id = p_buyer_id
+      AND p.seller_id = seller
+      AND (p_cart_item_ids IS NULL OR c.id = ANY (p_cart_item_ids))
+    RETURNING * INTO new_order;
+
+    INSERT INTO order_items (order_id, product_id, quantity, unit_price, total_price, product_snapshot)
+    SELECT
+      new_order.id,
+      p.id,
+      c.quantity,
+      p.price,
+      p.price * c.quantity,
+      jsonb_build_object(
+        'title', p.title,
+        'description', p.description,
+        'images', to_jsonb(p.images),
+        'price', p.price,
+        'currency', p.currency,
+        'condition', p.condition,
+        'category_id', p.category_id,
+        'seller_id', p.seller_id,
+        'store_name', s.store_name
+      )
+    FROM cart_items c
+    JOIN products p ON p.id = c.product_id
+    JOIN seller_profiles s ON s.id = p.seller_id
+    WHERE c.user_id = p_buyer_id
+      AND p.seller_id = seller
+      AND (p_cart_item_ids IS NULL OR c.id = ANY (p_cart_item_ids))
+    ORDER BY c.created_at;
+
+    orders_json := orders_json || jsonb_build_array(
+      to_jsonb(new_order) || jsonb_build_object(
+        'order_items',
+        (SELECT jsonb_agg(to_jsonb(oi)) FROM order_items oi WHERE oi.order_id = new_order.id)
+      )
+    );
+  END LOOP;
+
+  UPDATE checkout_groups
+  SET total_amount = (SELECT sum(total_amount) FROM orders WHERE checkout_group_id = checkout.id)
+  WHERE id = checkout.id
+  RETURNING * INTO checkout;
+
+  DELETE FROM cart_items
+  WHERE user_id = p_buyer_id
+    AND (p_cart_item_ids IS NULL OR id = ANY (p_cart_item_ids));
+
+  RETURN jsonb_build_object('checkout_group', to_jsonb(checkout), 'orders', orders_json);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION settle_payment_into_escrow(p_payment payments, p_amount_paid numeric)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  settled_order orders;
+  escrow escrows;
+  policy escrow_hold_policies;
+  seller_user_id uuid;
+  release_date text;
+  settled jsonb := '[]'::jsonb;
+BEGIN
+  FOR settled_order IN
+    UPDATE orders
+    SET status = 'paid_in_escrow'
+    WHERE status = 'created'
+      AND (id = p_payment.order_id OR checkout_group_id = p_payment.checkout_group_id)
+    RETURNING *
+  LOOP
+    policy := resolve_escrow_hold_policy(settled_order.id);
+
+    INSERT INTO escrows (order_id, amount, status, hold_until, hold_policy_id)
+    VALUES (
+      settled_order.id,
+      settled_order.total_amount,
+      'holding',
+      now() + make_interval(days => coalesce(policy.hold_days, 14)),
+      policy.id
+    )
+    RETURNING * INTO escrow;
+
+    PERFORM post_journal_entry(
+      'escrow_hold',
+      escrow.id,
+      settled_order.id,
+      settled_order.seller_id,
+      NULL,
+      'Order ' || settled_order.order_number || ' payment moved into escrow',
+      jsonb_build_array(
+        jsonb_build_object('account', 'buyer_deposits', 'debit', escrow.amount),
+        jsonb_build_object('account', 'escrow_holding', 'credit', escrow.amount)
+      )
+    );
+
+    SELECT user_id INTO seller_user_id FROM seller_profiles WHERE id = settled_order.seller_id;
+
+    release_date := to_char(escrow.hold_until AT TIME ZONE 'Africa/Accra', 'FMDay DD Mon YYYY');
+
+    INSERT INTO notifications (user_id, type, title, message, data) VALUES
+      (
+        settled_order.buyer_id,
+        'payment_success',
+        'Payment Successful',
+        'Your payment of GHS ' || trim_scale(escrow.amount) || ' for order ' || settled_order.order_number
+          || ' has been received and held in escrow. Once your order is delivered, it will be released to the seller on '
+          || release_date || ' unless you confirm delivery sooner or open a dispute.',
+        jsonb_build_object('order_id', settled_order.id, 'hold_until', escrow.hold_until, 'amount_paid', p_amount_paid)
+      ),
+      (
+        seller_user_id,
+        'new_order',
+        'New Order Received',
+        'You have a new order. Please prepare for shipment. Payment is held in escrow and, once the order is delivered, will be released to you on '
+          || release_date || ' or when the buyer confirms delivery.',
+        jsonb_build_object('order_id', settled_order.id, 'hold_until', escrow.hold_until)
+      );
+
+    settled := settled || jsonb_build_array(
+      to_jsonb(settled_order) || jsonb_build_object('seller_profiles', jsonb_build_object('user_id', seller_user_id))
+    );
+  END LOOP;
+
+  IF jsonb_array_length(settled) = 0 THEN
+    RETURN NULL;
+  END IF;
+
+  RETURN settled;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION record_successful_payment(
+  p_payment_id uuid,
+  p_amount numeric,
+  p_currency text,
+  p_reconciliation reconciliation_status,
+  p_fee numeric
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  payment payments;
+  payment_order orders;
+  checkout checkout_groups;
+  buyer uuid;
+  label text;
+  expected_total numeric;
+  expected_currency text;
+BEGIN
+  UPDATE payments
+  SET status = CASE WHEN p_reconciliation = 'matched' THEN 'successful' ELSE 'under_review' END::payment_status,
+      amount_received = p_amount,
+      currency_received = p_currency,
+      reconciliation_status = p_reconciliation,
+      updated_at = now()
+  WHERE id = p_payment_id
+    AND status = 'pending'
+  RETURNING * INTO payment;
+
+  IF payment.id IS NULL THEN
+    RETURN jsonb_build_object('payment', NULL, 'orders', NULL);
+  END IF;
+
+  IF payment.checkout_group_id IS NOT NULL THEN
+    SELECT * INTO checkout FROM checkout_groups WHERE id = payment.checkout_group_id;
+    buyer := checkout.buyer_id;
+    label := 'checkout ' || checkout.reference;
+    expected_total := checkout.total_amount;
+    expected_currency := checkout.currency;
+  ELSE
+    SELECT * INTO payment_order FROM orders WHERE id = payment.order_id;
+    buyer := payment_order.buyer_id;
+    label := 'order ' || payment_order.order_number;
+    expected_total := payment_order.total_amount;
+    expected_currency := payment_order.currency;
+  END IF;
+
+  PERFORM post_journal_entry(
+    'payment_received',
+    payment.id,
+    payment.order_id,
+    payment_order.seller_id,
+    p_currency,
+    'Buyer payment for ' || label,
+    jsonb_build_array(
+      jsonb_build_object('account', 'provider_clearing', 'debit', p_amount),
+      jsonb_build_object('account', 'buyer_deposits', 'credit', p_amount)
+    )
+  );
+
+  PERFORM post_journal_entry(
+    'provider_fee',
+    payment.id,
+    payment.order_id,
+    payment_order.seller_id,
+    p_currency,
+    payment.provider || ' fee on ' || label,
+    jsonb_build_array(
+      jsonb_build_object('account', 'provider_fee_expense', 'debit', p_fee),
+      jsonb_build_object('account', 'provider_clearing', 'credit', p_fee)
+    )
+  );
+
+  IF p_reconciliation <> 'matched' THEN
+    INSERT INTO notifications (user_id, type, title, message, data)
+    VALUES (
+      buyer,
+      'payment_under_review',
+      'Payment Under Review',
+      'We received ' || p_currency || ' ' || trim_scale(p_amount) || ' but your ' || label || ' total is '
+        || coalesce(expected_currency, 'GHS') || ' ' || trim_scale(expected_total)
+        || '. Our team is reviewing the payment.',
+      jsonb_build_object(
+        'order_id', payment.order_id,
+        'checkout_group_id', payment.checkout_group_id,
+        'payment_id', payment.id,
+        'reconciliation', p_reconciliation
+      )
+    );
+
+    RETURN jsonb_build_object('payment', to_jsonb(payment), 'orders', NULL);
+  END IF;
+
+  RETURN jsonb_build_object(
+    'payment', to_jsonb(payment),
+    'orders', settle_payment_into_escrow(payment, p_amount)
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION record_failed_payment(p_payment_id uuid, p_reason text)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  payment payments;
+  buyer uuid;
+  label text;
+BEGIN
+  UPDATE payments
+  SET status = 'failed',
+      failure_reason = p_reason,
+      updated_at = now()
+  WHERE id = p_payment_id
+    AND status = 'pending'
+  RETURNING * INTO payment;
+
+  IF payment.id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  IF payment.checkout_group_id IS NOT NULL THEN
+    SELECT buyer_id, 'checkout ' || reference INTO buyer, label
+    FROM checkout_groups WHERE id = payment.checkout_group_id;
+  ELSE
+    SELECT buyer_id, 'order ' || order_number INTO buyer, label
+    FROM orders WHERE id = payment.order_id;
+  END IF;
+
+  IF buyer IS NOT NULL THEN
+    INSERT INTO notifications (user_id, type, title, message, data)
+    VALUES (
+      buyer,
+      'payment_failed',
+      CASE WHEN p_reason = 'abandoned' THEN 'Payment Not Completed' ELSE 'Payment Failed' END,
+      'Your payment for ' || label || ' did not go through. You can try paying again.',
+      jsonb_build_object(
+        'order_id', payment.order_id,
+        'checkout_group_id', payment.checkout_group_id,
+        'payment_id', payment.id,
+        'reason', p_reason
+      )
+    );
+  END IF;
+
+  RETURN to_jsonb(payment);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION record_reversed_payment(p_payment_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  payment payments;
+  payment_order orders;
+  escrow escrows;
+  seller_user_id uuid;
+  new_status order_status;
+  frozen jsonb := '[]'::jsonb;
+  reversed_orders jsonb := '[]'::jsonb;
+BEGIN
+  UPDATE payments
+  SET status = 'reversed',
+      failure_reason = 'reversed',
+      updated_at = now()
+  WHERE id = p_payment_id
+    AND status IN ('pending', 'successful', 'under_review')
+  RETURNING * INTO payment;
+
+  IF payment.id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  FOR payment_order IN
+    SELECT * FROM orders
+    WHERE id = payment.order_id OR checkout_group_id = payment.checkout_group_id
+    ORDER BY created_at
+    FOR UPDATE
+  LOOP
+    -- Orders in a group that were already refunded, cancelled or completed
+    -- are no longer funded by this payment.
+    IF payment.checkout_group_id IS NOT NULL
+      AND payment_order.status NOT IN ('created', 'paid_in_escrow', 'shipped', 'delivered', 'disputed') THEN
+      CONTINUE;
+    END IF;
+
+    escrow := NULL;
+
+    UPDATE escrows
+    SET status = 'frozen',
+        frozen_reason = 'chargeback',
+        notes = 'Frozen after the buyer''s payment was reversed'
+    WHERE order_id = payment_order.id
+      AND status = 'holding'
+    RETURNING * INTO escrow;
+
+    IF escrow.id IS NOT NULL THEN
+      frozen := frozen || jsonb_build_array(to_jsonb(escrow));
+    END IF;
+
+    new_status := CASE WHEN payment_order.status = 'created' THEN 'cancelled' ELSE 'disputed' END;
+
+    UPDATE orders
+    SET status = new_status, updated_at = now()
+    WHERE id = payment_order.id;
+
+    reversed_orders := reversed_orders || jsonb_build_array(jsonb_build_object('id', payment_order.id, 'status', new_status));
+
+    SELECT user_id INTO seller_user_id FROM seller_profiles WHERE id = payment_order.seller_id;
+
+    INSERT INTO notifications (user_id, type, title, message, data) VALUES
+      (
+        payment_order.buyer_id,
+        'payment_reversed',
+        'Payment Reversed',
+        CASE WHEN new_status = 'cancelled'
+          THEN 'Your payment for order ' || payment_order.order_number || ' was reversed and the order has been cancelled.'
+          ELSE 'Your payment for order ' || payment_order.order_number || ' was reversed. The order is on hold while we investigate.'
+        END,
+        jsonb_build_object('order_id', payment_order.id, 'payment_id', payment.id)
+      ),
+      (
+        seller_user_id,
+        'payment_reversed',
+        CASE WHEN new_status = 'cancelled' THEN 'Order Cancelled' ELSE 'Order On Hold' END,
+        CASE WHEN new_status = 'cancelled'
+          THEN 'The buyer''s payment for order ' || payment_order.order_number || ' was reversed and the order has been cancelled.'
+          ELSE 'The buyer''s payment for order ' || payment_order.order_number || ' was reversed. Escrow funds are frozen while we investigate; please do not ship until you hear from us.'
+        END,
+        jsonb_build_object('order_id', payment_order.id, 'payment_id', payment.id)
+      );
+  END LOOP;
+
+  RETURN jsonb_build_object(
+    'payment', to_jsonb(payment),
+    'escrows', frozen,
+    'orders', reversed_orders
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION complete_escrow_refund(
+  p_refund_id uuid,
+  p_status refund_status,
+  p_provider_reference text,
+  p_order_item_ids uuid[]
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  refund refunds;
+  escrow escrows;
+  refund_order orders;
+  settlement escrow_settlements;
+  seller_user_id uuid;
+  closed boolean;
+  full_refund boolean;
+  remaining numeric;
+  breakdown jsonb;
+BEGIN
+  UPDATE refunds
+  SET status = p_status,
+      provider_reference = p_provider_reference,
+      processed_at = CASE WHEN p_status = 'processed' THEN now() END
+  WHERE id = p_refund_id
+    AND status = 'pending'
+  RETURNING * INTO refund;
+
+  IF refund.id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT * INTO escrow FROM escrows WHERE id = refund.escrow_id FOR UPDATE;
+  SELECT * INTO refund_order FROM orders WHERE id = refund.order_id;
+
+  remaining := escrow.amount - escrow.released_amount - escrow.refunded_amount;
+
+  -- The escrow is only closed by the last of any refunds that were waiting on
+  -- the provider together, so one failing later cannot leave it closed with
+  -- money in it.
+  closed := remaining <= 0
+    AND NOT EXISTS (
+      SELECT 1 FROM refunds
+      WHERE escrow_id = escrow.id
+        AND status = 'pending'
+        AND provider_reference IS NULL
+    );
+  full_refund := closed AND escrow.released_amount = 0;
+
+  INSERT INTO escrow_settlements (escrow_id, order_id, kind, amount, reference, order_item_ids, refund_id, notes, created_by)
+  VALUES (
+    escrow.id, escrow.order_id, 'refund', refund.amount,
+    'ES-' || floor(extract(epoch FROM clock_timestamp()) * 1000)::bigint || '-' || substring(md5(random()::text) FROM 1 FOR 6),
+    coalesce(p_order_item_ids, '{}'), refund.id, refund.reason, refund.requested_by
+  )
+  RETURNING * INTO settlement;
+
+  PERFORM post_journal_entry(
+    'refund',
+    refund.id,
+    refund_order.id,
+    refund_order.seller_id,
+    NULL,
+    'Refund to buyer for order ' || refund_order.order_number || ' (' || settlement.reference || '): ' || refund.reason,
+    jsonb_build_array(
+      jsonb_build_object('account', 'escrow_holding', 'debit', refund.amount),
+      jsonb_build_object('account', 'provider_clearing', 'credit', refund.amount)
+    )
+  );
+
+  UPDATE escrows
+  SET status = CASE
+        WHEN full_refund THEN 'refunded'
+        WHEN closed THEN 'split'
+        ELSE status
+      END::escrow_status,
+      frozen_reason = CASE WHEN closed THEN NULL ELSE frozen_reason END,
+      notes = CASE WHEN full_refund
+        THEN 'Refunded to buyer: ' || refund.reason
+        ELSE 'GHS ' || trim_scale(refund.amount) || ' refunded to buyer: ' || refund.reason
+      END
+  WHERE id = escrow.id;
+
+  -- A checkout payment funds several escrows, so it is only fully refunded
+  -- once refunds cover everything that was paid.
+  UPDATE payments p
+  SET status = CASE
+        WHEN (
+          SELECT coalesce(sum(r.amount), 0) FROM refunds r
+          WHERE r.payment_id = p.id
+            AND r.status <> 'failed'
+        ) >= p.amount THEN 'refunded'
+        ELSE 'partially_refunded'
+      END::payment_status,
+      updated_at = now()
+  WHERE id = refund.payment_id;
+
+  IF full_refund THEN
+    UPDATE orders
+    SET status = 'refunded', updated_at = now()
+    WHERE id = refund_order.id;
+  ELSIF closed THEN
+    UPDATE orders
+    SET status = 'completed', updated_at = now()
+    WHERE id = refund_order.id;
+
+    UPDATE seller_profiles
+    SET total_sales = coalesce(total_sales, 0) + 1
+    WHERE id = refund_order.seller_id;
+  END IF;
+
+  SELECT user_id INTO seller_user_id FROM seller_profiles WHERE id = refund_order.seller_id;
+
+  breakdown := jsonb_build_object(
+    'escrow_amount', escrow.amount,
+    'released', escrow.released_amount,
+    'refunded', escrow.refunded_amount,
+    'remaining', remaining
+  );
+
+  INSERT INTO notifications (user_id, type, title, message, data) VALUES
+    (
+      refund_order.buyer_id,
+      'refund_issued',
+      CASE WHEN full_refund THEN 'Order Refunded' ELSE 'Partial Refund Issued' END,
+      'GHS ' || trim_scale(refund.amount) || ' for order ' || refund_order.order_number || ' is being returned to your original payment method.'
+        || CASE WHEN closed AND NOT full_refund
+          THEN ' Of your GHS ' || trim_scale(escrow.amount) || ' payment, GHS ' || trim_scale(escrow.released_amount)
+            || ' went to the seller and GHS ' || trim_scale(escrow.refunded_amount) || ' was refunded to you.'
+          ELSE ''
+        END,
+      jsonb_build_object('order_id', refund_order.id, 'refund_id', refund.id, 'amount', refund.amount, 'reference', settlement.reference) || breakdown
+    ),
+    (
+      seller_user_id,
+      'refund_issued',
+      CASE WHEN full_refund THEN 'Order Refunded' ELSE 'Partial Refund Issued' END,
+      CASE
+        WHEN full_refund
+          THEN 'Order ' || refund_order.order_number || ' has been refunded to the buyer. The escrowed funds will not be released.'
+        WHEN closed
+          THEN 'GHS ' || trim_scale(refund.amount) || ' from order ' || refund_order.order_number || ' has been refunded to the buyer. In total GHS '
+            || trim_scale(escrow.released_amount) || ' was released to you and GHS ' || trim_scale(escrow.refunded_amount) || ' refunded to the buyer.'
+        ELSE 'GHS ' || trim_scale(refund.amount) || ' from order ' || refund_order.order_number || ' has been refunded to the buyer. The remaining GHS '
+          || trim_scale(remaining) || ' stays in escrow.'
+      END,
+      jsonb_build_object('order_id', refund_order.id, 'refund_id', refund.id, 'amount', refund.amount, 'reference', settlement.reference) || breakdown
+    );
+
+  RETURN jsonb_build_object(
+    'refund', to_jsonb(refund),
+    'settlement', to_jsonb(settlement),
+    'full_refund', full_refund
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION create_checkout_from_cart(uuid, uuid[], delivery_method, text, numeric, text) FROM public, anon, authenticated;
+GRANT EXECUTE ON FUNCTION create_checkout_from_cart(uuid, uuid[], delivery_method, text, numeric, text) TO service_role;
@@ -0,0 +1,647 @@
+/*
+  # Stock reservations
+
+  ## Overview
+  `products.stock_count` was only displayed; nothing decremented it, so two
+  buyers could both pay for the last item. Stock is now reserved for an order
+  when it is created at checkout and committed when its payment succeeds.
+  `stock_count` is the quantity still available to buy: reserving takes from
+  it and releasing a reservation gives it back.
+
+  A reservation is released when the payment fails or when it expires
+  (`STOCK_RESERVATION_MINUTES`, 15 by default, renewed every time the buyer
+  starts a payment). The order stays `created`, and paying again reserves the
+  stock afresh if it is still available. A product whose stock reaches zero
+  when a payment is committed is marked `sold`; cancelling or refunding an
+  order puts its stock back and returns a sold-out product to `active`.
+
+  ## New Tables
+
+  ### `stock_reservations`
+  - `id` (uuid, primary key)
+  - `order_id` (uuid, references orders)
+  - `order_item_id` (uuid, references order_items)
+  - `product_id` (uuid, references products)
+  - `quantity` (int, > 0)
+  - `status` (enum: held, committed, released, restored)
+  - `expires_at` (timestamptz; only meaningful while `held`)
+  - `release_reason` (text: payment_failed, expired, cancelled, refunded)
+  - `committed_at`, `released_at` (timestamptz)
+  - `created_at`, `updated_at` (timestamptz)
+
+  ## Changes
+  - `reconciliation_status` gains `out_of_stock`, for a payment that arrived
+    after its reservation expired and the stock had been sold to someone else
+
+  ## Functions
+  - `reserve_order_stock(order_ids, reserved_until)` reserves the items of
+    orders awaiting payment, or renews their reservations. Returns NULL without
+    reserving anything if any item is short of stock
+  - `commit_stock_reservations(payment)` commits the reservations of the orders
+    a payment covers (reserving lapsed ones again first) and marks sold-out
+    products `sold`; returns false if the stock is gone
+  - `release_stock_reservations(reservation_ids, reason)` returns reserved or
+    committed stock to the products
+  - `expire_stock_reservations()` releases held reservations past
+    `expires_at`; run on a schedule by `stock-reservation-expire`
+  - `create_checkout_from_cart` takes `p_reserved_until` and reserves stock
+    for each order it creates
+  - `record_successful_payment` commits the reservations before settling into
+    escrow; if the stock is gone the payment is held as `under_review` with
+    reconciliation `out_of_stock`
+  - `record_failed_payment` releases held reservations unless another payment
+    for the same order is still pending
+  - Trigger `orders_restore_stock` releases reservations when an order is
+    cancelled or refunded
+
+  ## Security
+  - RLS enabled on `stock_reservations`; buyers and sellers can view the
+    reservations of their orders, admins can view all
+  - The functions are only executable with the service role
+*/
+
+ALTER TYPE reconciliation_status ADD VALUE IF NOT EXISTS 'out_of_stock';
+
+CREATE TYPE stock_reservation_status AS ENUM ('held', 'committed', 'released', 'restored');
+
+CREATE TABLE IF NOT EXISTS stock_reservations (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id uuid NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  order_item_id uuid NOT NULL REFERENCES order_items(id) ON DELETE CASCADE,
+  product_id uuid NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+  quantity int NOT NULL CHECK (quantity > 0),
+  status stock_reservation_status NOT NULL DEFAULT 'held',
+  expires_at timestamptz NOT NULL,
+  release_reason text,
+  committed_at timestamptz,
+  released_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_stock_reservations_order_id ON stock_reservations(order_id);
+CREATE INDEX IF NOT EXISTS idx_stock_reservations_product_id ON stock_reservations(product_id);
+CREATE INDEX IF NOT EXISTS idx_stock_reservations_held_expiry
+  ON stock_reservations(expires_at)
+  WHERE status = 'held';
+
+ALTER TABLE stock_reservations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Order parties can view stock reservations"
+  ON stock_reservations FOR SELECT
+  TO authenticated
+  USING (
+    order_id IN (
+      SELECT id FROM orders
+      WHERE buyer_id = auth.uid()
+      OR seller_id IN (SELECT id FROM seller_profiles WHERE user_id = auth.uid())
+    )
+  );
+
+CREATE POLICY "Admins can view stock reservations"
+  ON stock_reservations FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin')
+  );
+
+CREATE OR REPLACE FUNCTION reserve_order_stock(p_order_ids uuid[], p_reserved_until timestamptz)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  short_count int;
+BEGIN
+  -- Lock the products first so the availability check and the decrement
+  -- below see the same stock.
+  PERFORM 1
+  FROM products p
+  JOIN order_items oi ON oi.product_id = p.id
+  JOIN orders o ON o.id = oi.order_id
+  WHERE o.id = ANY (p_order_ids)
+    AND o.status = 'created'
+  FOR UPDATE OF p;
+
+  -- Items whose reservation was released (failed payment, expiry) need the
+  -- stock again; the rest just get more time.
+  SELECT count(*)
+  INTO short_count
+  FROM (
+    SELECT oi.product_id, sum(oi.quantity) AS quantity
+    FROM order_items oi
+    JOIN orders o ON o.id = oi.order_id
+    WHERE o.id = ANY (p_order_ids)
+      AND o.status = 'created'
+      AND NOT EXISTS (
+        SELECT 1 FROM stock_reservations r
+        WHERE r.order_item_id = oi.id
+          AND r.status IN ('held', 'committed')
+      )
+    GROUP BY oi.product_id
+  ) needed
+  JOIN products p ON p.id = needed.product_id
+  WHERE p.status <> 'active' OR coalesce(p.stock_count, 0) < needed.quantity;
+
+  IF short_count > 0 THEN
+    RETURN NULL;
+  END IF;
+
+  UPDATE stock_reservations r
+  SET expires_at = p_reserved_until,
+      updated_at = now()
+  FROM orders o
+  WHERE o.id = r.order_id
+    AND o.id = ANY (p_order_ids)
+    AND o.status = 'created'
+    AND r.status = 'held';
+
+  WITH reserved AS (
+    INSERT INTO stock_reservations (order_id, order_item_id, product_id, quantity, expires_at)
+    SELECT oi.order_id, oi.id, oi.product_id, oi.quantity, p_reserved_until
+    FROM order_items oi
+    JOIN orders o ON o.id = oi.order_id
+    WHERE o.id = ANY (p_order_ids)
+      AND o.status = 'created'
+      AND NOT EXISTS (
+        SELECT 1 FROM stock_reservations r
+        WHERE r.order_item_id = oi.id
+          AND r.status IN ('held', 'committed')
+      )
+    RETURNING product_id, quantity
+  )
+  UPDATE products p
+  SET stock_count = p.stock_count - taken.quantity,
+      updated_at = now()
+  FROM (SELECT product_id, sum(quantity) AS quantity FROM reserved GROUP BY product_id) taken
+  WHERE p.id = taken.product_id;
+
+  RETURN coalesce((
+    SELECT jsonb_agg(to_jsonb(r) ORDER BY r.created_at)
+    FROM stock_reservations r
+    WHERE r.order_id = ANY (p_order_ids)
+      AND r.status = 'held'
+  ), '[]'::jsonb);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION release_stock_reservations(p_reservation_ids uuid[], p_reason text)
+RETURNS int
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  released_count int;
+BEGIN
+  WITH released AS (
+    UPDATE stock_reservations
+    SET status = CASE WHEN status = 'committed' THEN 'restored' ELSE 'released' END::stock_reservation_status,
+        release_reason = p_reason,
+        released_at = now(),
+        updated_at = now()
+    WHERE id = ANY (p_reservation_ids)
+      AND status IN ('held', 'committed')
+    RETURNING product_id, quantity
+  ),
+  restocked AS (
+    UPDATE products p
+    SET stock_count = p.stock_count + returned.quantity,
+        status = CASE WHEN p.status = 'sold' THEN 'active' ELSE p.status END,
+        updated_at = now()
+    FROM (SELECT product_id, sum(quantity) AS quantity FROM released GROUP BY product_id) returned
+    WHERE p.id = returned.product_id
+    RETURNING p.id
+  )
+  SELECT count(*) INTO released_count FROM released;
+
+  RETURN released_count;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION commit_stock_reservations(p_payment payments)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  order_ids uuid[];
+BEGIN
+  SELECT array_agg(id) INTO order_ids
+  FROM orders
+  WHERE status = 'created'
+    AND (id = p_payment.order_id OR checkout_group_id = p_payment.checkout_group_id);
+
+  IF order_ids IS NULL THEN
+    RETURN true;
+  END IF;
+
+  -- Reservations that lapsed while the buyer was paying are taken again if
+  -- the stock is still there.
+  IF reserve_order_stock(order_ids, now()) IS NULL THEN
+    RETURN false;
+  END IF;
+
+  WITH committed AS (
+    UPDATE stock_reservations
+    SET status = 'committed',
+        committed_at = now(),
+        updated_at = now()
+    WHERE order_id = ANY (order_ids)
+      AND status = 'held'
+    RETURNING product_id
+  )
+  UPDATE products
+  SET status = 'sold',
+      updated_at = now()
+  WHERE id IN (SELECT product_id FROM committed)
+    AND stock_count = 0
+    AND status = 'active';
+
+  RETURN true;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION expire_stock_reservations()
+RETURNS int
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN release_stock_reservations(
+    ARRAY(
+      SELECT id FROM stock_reservations
+      WHERE status = 'held'
+        AND expires_at <= now()
+    ),
+    'expired'
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION restore_order_stock()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM release_stock_reservations(
+    ARRAY(
+      SELECT id FROM stock_reservations
+      WHERE order_id = NEW.id
+        AND status IN ('held', 'committed')
+    ),
+    NEW.status::text
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER orders_restore_stock
+  AFTER UPDATE OF status ON orders
+  FOR EACH ROW
+  WHEN (NEW.status IN ('cancelled', 'refunded') AND OLD.status IS DISTINCT FROM NEW.status)
+  EXECUTE FUNCTION restore_order_stock();
+
+DROP FUNCTION IF EXISTS create_checkout_from_cart(uuid, uuid[], delivery_method, text, numeric, text);
+
+CREATE OR REPLACE FUNCTION create_checkout_from_cart(
+  p_buyer_id uuid,
+  p_cart_item_ids uuid[],
+  p_delivery_method delivery_method,
+  p_delivery_address text,
+  p_delivery_cost numeric,
+  p_notes text,
+  p_reserved_until timestamptz
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  checkout checkout_groups;
+  new_order orders;
+  seller uuid;
+  line_count int;
+  unavailable_count int;
+  orders_json jsonb := '[]'::jsonb;
+BEGIN
+  -- Lock the lines and their products so the snapshots, prices and stock
+  -- check below all see the same state.
+  PERFORM 1
+  FROM cart_items c
+  JOIN products p ON p.id = c.product_id
+  WHERE c.user_id = p_buyer_id
+    AND (p_cart_item_ids IS NULL OR c.id = ANY (p_cart_item_ids))
+  FOR UPDATE OF c, p;
+
+  SELECT
+    count(*),
+    count(*) FILTER (WHERE p.status <> 'active' OR c.quantity > coalesce(p.stock_count, 0))
+  INTO line_count, unavailable_count
+  FROM cart_items c
+  JOIN products p ON p.id = c.product_id
+  WHERE c.user_id = p_buyer_id
+    AND (p_cart_item_ids IS NULL OR c.id = ANY (p_cart_item_ids));
+
+  IF line_count = 0
+    OR unavailable_count > 0
+    OR (p_cart_item_ids IS NOT NULL AND line_count <> cardinality(p_cart_item_ids)) THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO checkout_groups (buyer_id, total_amount)
+  VALUES (p_buyer_id, 0)
+  RETURNING * INTO checkout;
+
+  FOR seller IN
+    SELECT DISTINCT p.seller_id
+    FROM cart_items c
+    JOIN products p ON p.id = c.product_id
+    WHERE c.user_id = p_buyer_id
+      AND (p_cart_item_ids IS NULL OR c.id = ANY (p_cart_item_ids))
+  LOOP
+    INSERT INTO orders (buyer_id, seller_id, checkout_group_id, total_amount, status, delivery_method, delivery_address, delivery_cost, notes)
+    SELECT
+      p_buyer_id,
+      seller,
+      checkout.id,
+      sum(p.price * c.quantity) + p_delivery_cost,
+      'created',
+      p_delivery_method,
+      p_delivery_address,
+      p_delivery_cost,
+      p_notes
+    FROM cart_items c
+    JOIN products p ON p.id = c.product_id
+    WHERE c.user_id = p_buyer_id
+      AND p.seller_id = seller
+      AND (p_cart_item_ids IS NULL OR c.id = ANY (p_cart_item_ids))
+    RETURNING * INTO new_order;
+
+    INSERT INTO order_items (order_id, product_id, quantity, unit_price, total_price, product_snapshot)
+    SELECT
+      new_order.id,
+      p.id,
+      c.quantity,
+      p.price,
+      p.price * c.quantity,
+      jsonb_build_object(
+        'title', p.title,
+        'description', p.description,
+        'images', to_jsonb(p.images),
+        'price', p.price,
+        'currency', p.currency,
+        'condition', p.condition,
+        'category_id', p.category_id,
+        'seller_id', p.seller_id,
+        'store_name', s.store_name
+      )
+    FROM cart_items c
+    JOIN products p ON p.id = c.product_id
+    JOIN seller_profiles s ON s.id = p.seller_id
+    WHERE c.user_id = p_buyer_id
+      AND p.seller_id = seller
+      AND (p_cart_item_ids IS NULL OR c.id = ANY (p_cart_item_ids))
+    ORDER BY c.created_at;
+
+    PERFORM reserve_order_stock(ARRAY[new_order.id], p_reserved_until);
+
+    orders_json := orders_json || jsonb_build_array(
+      to_jsonb(new_order) || jsonb_build_object(
+        'order_items',
+        (SELECT jsonb_agg(to_jsonb(oi)) FROM order_items oi WHERE oi.order_id = new_order.id)
+      )
+    );
+  END LOOP;
+
+  UPDATE checkout_groups
+  SET total_amount = (SELECT sum(total_amount) FROM orders WHERE checkout_group_id = checkout.id)
+  WHERE id = checkout.id
+  RETURNING * INTO checkout;
+
+  DELETE FROM cart_items
+  WHERE user_id = p_buyer_id
+    AND (p_cart_item_ids IS NULL OR id = ANY (p_cart_item_ids));
+
+  RETURN jsonb_build_object('checkout_group', to_jsonb(checkout), 'orders', orders_json);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION record_successful_payment(
+  p_payment_id uuid,
+  p_amount numeric,
+  p_currency text,
+  p_reconciliation reconciliation_status,
+  p_fee numeric
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  payment payments;
+  payment_order orders;
+  checkout checkout_groups;
+  buyer uuid;
+  label text;
+  expected_total numeric;
+  expected_currency text;
+BEGIN
+  UPDATE payments
+  SET status = CASE WHEN p_reconciliation = 'matched' THEN 'successful' ELSE 'under_review' END::payment_status,
+      amount_received = p_amount,
+      currency_received = p_currency,
+      reconciliation_status = p_reconciliation,
+      updated_at = now()
+  WHERE id = p_payment_id
+    AND status = 'pending'
+  RETURNING * INTO payment;
+
+  IF payment.id IS NULL THEN
+    RETURN jsonb_build_object('payment', NULL, 'orders', NULL);
+  END IF;
+
+  IF payment.checkout_group_id IS NOT NULL THEN
+    SELECT * INTO checkout FROM checkout_groups WHERE id = payment.checkout_group_id;
+    buyer := checkout.buyer_id;
+    label := 'checkout ' || checkout.reference;
+    expected_total := checkout.total_amount;
+    expected_currency := checkout.currency;
+  ELSE
+    SELECT * INTO payment_order FROM orders WHERE id = payment.order_id;
+    buyer := payment_order.buyer_id;
+    label := 'order ' || payment_order.order_number;
+    expected_total := payment_order.total_amount;
+    expected_currency := payment_order.currency;
+  END IF;
+
+  PERFORM post_journal_entry(
+    'payment_received',
+    payment.id,
+    payment.order_id,
+    payment_order.seller_id,
+    p_currency,
+    'Buyer payment for ' || label,
+    jsonb_build_array(
+      jsonb_build_object('account', 'provider_clearing', 'debit', p_amount),
+      jsonb_build_object('account', 'buyer_deposits', 'credit', p_amount)
+    )
+  );
+
+  PERFORM post_journal_entry(
+    'provider_fee',
+    payment.id,
+    payment.order_id,
+    payment_order.seller_id,
+    p_currency,
+    payment.provider || ' fee on ' || label,
+    jsonb_build_array(
+      jsonb_build_object('account', 'provider_fee_expense', 'debit', p_fee),
+      jsonb_build_object('account', 'provider_clearing', 'credit', p_fee)
+    )
+  );
+
+  IF p_reconciliation <> 'matched' THEN
+    INSERT INTO notifications (user_id, type, title, message, data)
+    VALUES (
+      buyer,
+      'payment_under_review',
+      'Payment Under Review',
+      'We received ' || p_currency || ' ' || trim_scale(p_amount) || ' but your ' || label || ' total is '
+        || coalesce(expected_currency, 'GHS') || ' ' || trim_scale(expected_total)
+        || '. Our team is reviewing the payment.',
+      jsonb_build_object(
+        'order_id', payment.order_id,
+        'checkout_group_id', payment.checkout_group_id,
+        'payment_id', payment.id,
+        'reconciliation', p_reconciliation
+      )
+    );
+
+    RETURN jsonb_build_object('payment', to_jsonb(payment), 'orders', NULL);
+  END IF;
+
+  -- The money is in, but if the reservation lapsed and the stock has since
+  -- gone to another buyer there is nothing to put into escrow. Hold the
+  -- payment for an admin to refund instead.
+  IF NOT commit_stock_reservations(payment) THEN
+    UPDATE payments
+    SET status = 'under_review',
+        reconciliation_status = 'out_of_stock',
+        updated_at = now()
+    WHERE id = payment.id
+    RETURNING * INTO payment;
+
+    INSERT INTO notifications (user_id, type, title, message, data)
+    VALUES (
+      buyer,
+      'payment_under_review',
+      'Payment Under Review',
+      'We received your payment for ' || label || ' but some of the items sold out before it arrived. '
+        || 'Our team is reviewing the payment and will refund you.',
+      jsonb_build_object(
+        'order_id', payment.order_id,
+        'checkout_group_id', payment.checkout_group_id,
+        'payment_id', payment.id,
+        'reconciliation', payment.reconciliation_status
+      )
+    );
+
+    RETURN jsonb_build_object('payment', to_jsonb(payment), 'orders', NULL);
+  END IF;
+
+  RETURN jsonb_build_object(
+    'payment', to_jsonb(payment),
+    'orders', settle_payment_into_escrow(payment, p_amount)
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION record_failed_payment(p_payment_id uuid, p_reason text)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  payment payments;
+  buyer uuid;
+  label text;
+BEGIN
+  UPDATE payments
+  SET status = 'failed',
+      failure_reason = p_reason,
+      updated_at = now()
+  WHERE id = p_payment_id
+    AND status = 'pending'
+  RETURNING * INTO payment;
+
+  IF payment.id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  IF payment.checkout_group_id IS NOT NULL THEN
+    SELECT buyer_id, 'checkout ' || reference INTO buyer, label
+    FROM checkout_groups WHERE id = payment.checkout_group_id;
+  ELSE
+    SELECT buyer_id, 'order ' || order_number INTO buyer, label
+    FROM orders WHERE id = payment.order_id;
+  END IF;
+
+  -- Another attempt may already be under way for the same order; its
+  -- reservation is what keeps the stock for it.
+  IF NOT EXISTS (
+    SELECT 1 FROM payments
+    WHERE status = 'pending'
+      AND id <> payment.id
+      AND (order_id = payment.order_id OR checkout_group_id = payment.checkout_group_id)
+  ) THEN
+    PERFORM release_stock_reservations(
+      ARRAY(
+        SELECT r.id
+        FROM stock_reservations r
+        JOIN orders o ON o.id = r.order_id
+        WHERE r.status = 'held'
+          AND (o.id = payment.order_id OR o.checkout_group_id = payment.checkout_group_id)
+      ),
+      'payment_failed'
+    );
+  END IF;
+
+  IF buyer IS NOT NULL THEN
+    INSERT INTO notifications (user_id, type, title, message, data)
+    VALUES (
+      buyer,
+      'payment_failed',
+      CASE WHEN p_reason = 'abandoned' THEN 'Payment Not Completed' ELSE 'Payment Failed' END,
+      'Your payment for ' || label || ' did not go through. You can try paying again.',
+      jsonb_build_object(
+        'order_id', payment.order_id,
+        'checkout_group_id', payment.checkout_group_id,
+        'payment_id', payment.id,
+        'reason', p_reason
+      )
+    );
+  END IF;
+
+  RETURN to_jsonb(payment);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION reserve_order_stock(uuid[], timestamptz) FROM public, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION release_stock_reservations(uuid[], text) FROM public, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION commit_stock_reservations(payments) FROM public, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION expire_stock_reservations() FROM public, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION create_checkout_from_cart(uuid, uuid[], delivery_method, text, numeric, text, timestamptz) FROM public, anon, authenticated;
+
+GRANT EXECUTE ON FUNCTION reserve_order_stock(uuid[], timestamptz) TO service_role;
+GRANT EXECUTE ON FUNCTION expire_stock_reservations() TO service_role;
+GRANT EXECUTE ON FUNCTION create_checkout_from_cart(uuid, uuid[], delivery_method, text, numeric, text, timestamptz) TO service_role;
@@ -0,0 +1,411 @@
+/*
+  # Order status transitions
+
+  ## Overview
+  `orders.status` could be set to anything: the "Sellers can update order
+  status" policy let a seller mark their own order `completed`, skipping the
+  escrow release entirely. The allowed transitions, and who may make each one,
+  now live in `order_status_transitions`, and a trigger on `orders` rejects
+  any change that isn't listed there for the caller. The same table is read by
+  the client to decide which actions to offer.
+
+  Who is acting is worked out per request:
+  - `system` - no signed-in user, i.e. the service role used by edge functions
+    and the transition functions they call. Moving money (paying, releasing,
+    refunding) is only ever done by the system, after the edge function has
+    checked the caller itself
+  - `admin` - a signed-in user whose profile role is `admin`
+  - `buyer` / `seller` - the order's buyer, or the owner of its seller profile
+
+  Every change is recorded in `order_status_history` with the actor, time and
+  an optional reason.
+
+  ## New Tables
+
+  ### `order_status_transitions`
+  - `from_status`, `to_status` (order_status, primary key)
+  - `actors` (order_actor[]; who may make the change)
+  - `description` (text)
+
+  ### `order_status_history`
+  - `id` (uuid, primary key)
+  - `order_id` (uuid, references orders)
+  - `from_status` (order_status; NULL for the order being created)
+  - `to_status` (order_status)
+  - `actor_id` (uuid, references profiles; NULL for the system)
+  - `actor_role` (order_actor)
+  - `reason` (text)
+  - `created_at` (timestamptz)
+
+  ## Changes
+  - The "Sellers can update order status" policy is dropped. Buyers, sellers
+    and admins change status through `update_order_status`
+  - Orders can only be created in `created` status, except by the system
+  - Only the system cancels orders, so a cancellation always goes through
+    the edge function that records it and tells the other party
+  - Existing orders get a history row for their current status
+  - `record_reversed_payment` leaves orders that are already `completed`,
+    `refunded` or `cancelled` alone, for single-order payments as well as
+    checkouts: none of them may move to `disputed`. For `completed` and
+    `refunded` orders admins are notified to review the reversal instead,
+    since the money for them was already paid out or returned. An escrow frozen by a dispute is marked as frozen by the
+    chargeback, so closing the dispute doesn't unfreeze it
+
+  ## Functions
+  - `order_actor_for(order)` - the caller's role on an order, or NULL if they
+    have none
+  - `update_order_status(order_id, status, reason)` - moves an order to a new
+    status on behalf of the signed-in user and returns the updated order; the
+    trigger decides whether they may
+  - `record_reversed_payment(payment_id)` - as above; also returns the orders
+    left for review as `review`
+  - Triggers `orders_enforce_status_transition` (before insert or status
+    update) and `orders_record_status_history` (after)
+
+  ## Security
+  - RLS enabled on both tables. Anyone can read the transitions; the order's
+    buyer and seller, and admins, can read its history
+  - `update_order_status` is executable by signed-in users
+*/
+
+CREATE TYPE order_actor AS ENUM ('buyer', 'seller', 'admin', 'system');
+
+CREATE TABLE IF NOT EXISTS order_status_transitions (
+  from_status order_status NOT NULL,
+  to_status order_status NOT NULL,
+  actors order_actor[] NOT NULL,
+  description text NOT NULL,
+  PRIMARY KEY (from_status, to_status)
+);
+
+INSERT INTO order_status_transitions (from_status, to_status, actors, description) VALUES
+  ('created', 'paid_in_escrow', '{system}', 'Payment received and held in escrow'),
+  ('created', 'cancelled', '{system}', 'Order cancelled before payment'),
+  ('paid_in_escrow', 'shipped', '{seller,admin,system}', 'Seller dispatched the order'),
+  ('paid_in_escrow', 'delivered', '{seller,admin,system}', 'Handed over without shipping, e.g. pickup'),
+  ('shipped', 'delivered', '{buyer,seller,admin,system}', 'Order reached the buyer'),
+  ('paid_in_escrow', 'disputed', '{buyer,seller,admin,system}', 'Dispute opened or payment reversed'),
+  ('shipped', 'disputed', '{buyer,seller,admin,system}', 'Dispute opened or payment reversed'),
+  ('delivered', 'disputed', '{buyer,seller,admin,system}', 'Dispute opened or payment reversed'),
+  ('disputed', 'paid_in_escrow', '{admin,system}', 'Dispute closed before shipping'),
+  ('disputed', 'shipped', '{admin,system}', 'Dispute closed while in transit'),
+  ('disputed', 'delivered', '{admin,system}', 'Dispute closed after delivery'),
+  ('paid_in_escrow', 'completed', '{system}', 'Escrow settled to the seller'),
+  ('shipped', 'completed', '{system}', 'Escrow settled to the seller'),
+  ('delivered', 'completed', '{system}', 'Escrow released to the seller'),
+  ('disputed', 'completed', '{system}', 'Dispute resolved by releasing or splitting the escrow'),
+  ('paid_in_escrow', 'refunded', '{system}', 'Escrow refunded to the buyer'),
+  ('shipped', 'refunded', '{system}', 'Escrow refunded to the buyer'),
+  ('delivered', 'refunded', '{system}', 'Escrow refunded to the buyer'),
+  ('disputed', 'refunded', '{system}', 'Dispute resolved with a refund')
+ON CONFLICT (from_status, to_status) DO NOTHING;
+
+CREATE TABLE IF NOT EXISTS order_status_history (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id uuid NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  from_status order_status,
+  to_status order_status NOT NULL,
+  actor_id uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  actor_role order_actor NOT NULL,
+  reason text,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_order_status_history_order_id ON order_status_history(order_id, created_at);
+
+ALTER TABLE order_status_transitions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE order_status_history ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view order status transitions"
+  ON order_status_transitions FOR SELECT
+  TO anon, authenticated
+  USING (true);
+
+CREATE POLICY "Order parties can view status history"
+  ON order_status_history FOR SELECT
+  TO authenticated
+  USING (
+    order_id IN (
+      SELECT id FROM orders
+      WHERE buyer_id = auth.uid()
+      OR seller_id IN (SELECT id FROM seller_profiles WHERE user_id = auth.uid())
+    )
+  );
+
+CREATE POLICY "Admins can view status history"
+  ON order_status_history FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin')
+  );
+
+DROP POLICY IF EXISTS "Sellers can update order status" ON orders;
+
+CREATE OR REPLACE FUNCTION order_actor_for(p_order orders)
+RETURNS order_actor
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RETURN 'system';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin') THEN
+    RETURN 'admin';
+  END IF;
+
+  IF p_order.buyer_id = auth.uid() THEN
+    RETURN 'buyer';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM seller_profiles WHERE id = p_order.seller_id AND user_id = auth.uid()) THEN
+    RETURN 'seller';
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION enforce_order_status_transition()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  actor order_actor := order_actor_for(NEW);
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.status <> 'created' AND actor IS DISTINCT FROM 'system' THEN
+      RAISE EXCEPTION 'Orders must be created in created status'
+        USING ERRCODE = 'check_violation';
+    END IF;
+
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status = OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM order_status_transitions
+    WHERE from_status = OLD.status
+      AND to_status = NEW.status
+  ) THEN
+    RAISE EXCEPTION 'Order % cannot move from % to %', OLD.order_number, OLD.status, NEW.status
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF actor IS NULL OR NOT EXISTS (
+    SELECT 1 FROM order_status_transitions
+    WHERE from_status = OLD.status
+      AND to_status = NEW.status
+      AND actor = ANY (actors)
+  ) THEN
+    RAISE EXCEPTION 'You are not allowed to move order % from % to %', OLD.order_number, OLD.status, NEW.status
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION record_order_status_history()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.status = OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO order_status_history (order_id, from_status, to_status, actor_id, actor_role, reason)
+  VALUES (
+    NEW.id,
+    CASE WHEN TG_OP = 'UPDATE' THEN OLD.status END,
+    NEW.status,
+    auth.uid(),
+    coalesce(order_actor_for(NEW), 'system'),
+    nullif(current_setting('app.order_status_reason', true), '')
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER orders_enforce_status_transition
+  BEFORE INSERT OR UPDATE OF status ON orders
+  FOR EACH ROW
+  EXECUTE FUNCTION enforce_order_status_transition();
+
+CREATE TRIGGER orders_record_status_history
+  AFTER INSERT OR UPDATE OF status ON orders
+  FOR EACH ROW
+  EXECUTE FUNCTION record_order_status_history();
+
+CREATE OR REPLACE FUNCTION update_order_status(p_order_id uuid, p_status order_status, p_reason text)
+RETURNS orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target orders;
+BEGIN
+  SELECT * INTO target FROM orders WHERE id = p_order_id FOR UPDATE;
+
+  IF target.id IS NULL OR order_actor_for(target) IS NULL THEN
+    RAISE EXCEPTION 'Order not found'
+      USING ERRCODE = 'no_data_found';
+  END IF;
+
+  PERFORM set_config('app.order_status_reason', coalesce(p_reason, ''), true);
+
+  UPDATE orders
+  SET status = p_status,
+      updated_at = now()
+  WHERE id = p_order_id
+  RETURNING * INTO target;
+
+  PERFORM set_config('app.order_status_reason', '', true);
+
+  RETURN target;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION record_reversed_payment(p_payment_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  payment payments;
+  payment_order orders;
+  escrow escrows;
+  seller_user_id uuid;
+  new_status order_status;
+  frozen jsonb := '[]'::jsonb;
+  reversed_orders jsonb := '[]'::jsonb;
+  review_orders jsonb := '[]'::jsonb;
+BEGIN
+  UPDATE payments
+  SET status = 'reversed',
+      failure_reason = 'reversed',
+      updated_at = now()
+  WHERE id = p_payment_id
+    AND status IN ('pending', 'successful', 'under_review')
+  RETURNING * INTO payment;
+
+  IF payment.id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  FOR payment_order IN
+    SELECT * FROM orders
+    WHERE id = payment.order_id OR checkout_group_id = payment.checkout_group_id
+    ORDER BY created_at
+    FOR UPDATE
+  LOOP
+    -- Cancelled orders were never paid for out of this payment.
+    IF payment_order.status = 'cancelled' THEN
+      CONTINUE;
+    END IF;
+
+    -- Settled orders can't be put on hold: their money was already released
+    -- or returned, so the reversal is left for an admin to review.
+    IF payment_order.status IN ('completed', 'refunded') THEN
+      review_orders := review_orders || jsonb_build_array(
+        jsonb_build_object('id', payment_order.id, 'order_number', payment_order.order_number, 'status', payment_order.status)
+      );
+      CONTINUE;
+    END IF;
+
+    escrow := NULL;
+
+    UPDATE escrows
+    SET status = 'frozen',
+        frozen_reason = 'chargeback',
+        notes = 'Frozen after the buyer''s payment was reversed'
+    WHERE order_id = payment_order.id
+      AND status IN ('holding', 'frozen')
+    RETURNING * INTO escrow;
+
+    IF escrow.id IS NOT NULL THEN
+      frozen := frozen || jsonb_build_array(to_jsonb(escrow));
+    END IF;
+
+    new_status := CASE WHEN payment_order.status = 'created' THEN 'cancelled' ELSE 'disputed' END;
+
+    PERFORM set_config('app.order_status_reason', 'Payment reversed by the provider', true);
+
+    UPDATE orders
+    SET status = new_status, updated_at = now()
+    WHERE id = payment_order.id;
+
+    PERFORM set_config('app.order_status_reason', '', true);
+
+    reversed_orders := reversed_orders || jsonb_build_array(jsonb_build_object('id', payment_order.id, 'status', new_status));
+
+    SELECT user_id INTO seller_user_id FROM seller_profiles WHERE id = payment_order.seller_id;
+
+    INSERT INTO notifications (user_id, type, title, message, data) VALUES
+      (
+        payment_order.buyer_id,
+        'payment_reversed',
+        'Payment Reversed',
+        CASE WHEN new_status = 'cancelled'
+          THEN 'Your payment for order ' || payment_order.order_number || ' was reversed and the order has been cancelled.'
+          ELSE 'Your payment for order ' || payment_order.order_number || ' was reversed. The order is on hold while we investigate.'
+        END,
+        jsonb_build_object('order_id', payment_order.id, 'payment_id', payment.id)
+      ),
+      (
+        seller_user_id,
+        'payment_reversed',
+        CASE WHEN new_status = 'cancelled' THEN 'Order Cancelled' ELSE 'Order On Hold' END,
+        CASE WHEN new_status = 'cancelled'
+          THEN 'The buyer''s payment for order ' || payment_order.order_number || ' was reversed and the order has been cancelled.'
+          ELSE 'The buyer''s payment for order ' || payment_order.order_number || ' was reversed. Escrow funds are frozen while we investigate; please do not ship until you hear from us.'
+        END,
+        jsonb_build_object('order_id', payment_order.id, 'payment_id', payment.id)
+      );
+  END LOOP;
+
+  IF jsonb_array_length(review_orders) > 0 THEN
+    INSERT INTO notifications (user_id, type, title, message, data)
+    SELECT
+      id,
+      'payment_reversed',
+      'Reversal Needs Review',
+      'Payment ' || payment.provider_reference || ' was reversed after '
+        || (SELECT string_agg((o->>'order_number') || ' (' || (o->>'status') || ')', ', ') FROM jsonb_array_elements(review_orders) o)
+        || ' had already been settled. Please review the reversal.',
+      jsonb_build_object('payment_id', payment.id, 'orders', review_orders)
+    FROM profiles
+    WHERE role = 'admin';
+  END IF;
+
+  RETURN jsonb_build_object(
+    'payment', to_jsonb(payment),
+    'escrows', frozen,
+    'orders', reversed_orders,
+    'review', review_orders
+  );
+END;
+$$;
+
+INSERT INTO order_status_history (order_id, from_status, to_status, actor_role, reason, created_at)
+SELECT id, NULL, status, 'system', 'Status when history started', coalesce(updated_at, created_at, now())
+FROM orders
+WHERE status IS NOT NULL;
+
+REVOKE EXECUTE ON FUNCTION update_order_status(uuid, order_status, text) FROM public, anon;
+
+GRANT EXECUTE ON FUNCTION update_order_status(uuid, order_status, text) TO authenticated, service_role;
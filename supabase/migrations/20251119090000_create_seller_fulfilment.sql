@@ -0,0 +1,306 @@
+/*
+  # Seller fulfilment
+
+  ## Overview
+  Sellers had no way to work through their sales: they could see their orders
+  but not create shipments, and since order status moved behind
+  `update_order_status` there was nothing to record a tracking number against.
+  These functions back the seller's fulfilment queue. Each one takes a list of
+  orders so a seller with dozens of orders a day can act on them in one go, and
+  each order is handled on its own: one that can't be processed is reported
+  back without holding up the rest.
+
+  The usual flow for a courier order is accept -> create shipment -> mark
+  shipped with a tracking number. Pickup orders are accepted and then marked as
+  handed over once the buyer collects them.
+
+  ## Changes
+  - `orders.accepted_at` (timestamptz) - when the seller confirmed they will
+    fulfil the order
+  - Index on `orders(seller_id, status, created_at)` for the fulfilment queue
+
+  ## Functions
+  All take the orders to act on and return one result per order:
+  `{ "order_id", "success", "error" }`.
+  - `accept_orders(order_ids)` - accept paid orders and let the buyer know
+  - `create_order_shipments(order_ids, courier_name, courier_phone,
+    pickup_address, notes)` - create a pending shipment for paid courier
+    orders, or update one that hasn't left yet. Accepts the order if needed
+  - `mark_orders_shipped(shipments)` - `[{ order_id, tracking_number,
+    courier_name }]`; puts the shipment in transit and the order in `shipped`
+  - `hand_over_pickup_orders(order_ids)` - marks paid pickup orders
+    `delivered`, starting the escrow hold
+
+  ## Security
+  - Each order must belong to the caller's store (admins may act on any)
+  - Status changes still go through the `orders_enforce_status_transition`
+    trigger and are recorded in `order_status_history` with the seller as
+    the actor
+  - Executable by signed-in users
+*/
+
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS accepted_at timestamptz;
+
+CREATE INDEX IF NOT EXISTS idx_orders_seller_id_status ON orders(seller_id, status, created_at);
+
+CREATE OR REPLACE FUNCTION lock_order_for_fulfilment(p_order_id uuid)
+RETURNS orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target orders;
+BEGIN
+  SELECT * INTO target FROM orders WHERE id = p_order_id FOR UPDATE;
+
+  IF target.id IS NULL OR coalesce(order_actor_for(target) NOT IN ('seller', 'admin'), true) THEN
+    RAISE EXCEPTION 'Order not found'
+      USING ERRCODE = 'no_data_found';
+  END IF;
+
+  RETURN target;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION accept_orders(p_order_ids uuid[])
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target_id uuid;
+  target orders;
+  results jsonb := '[]'::jsonb;
+BEGIN
+  FOREACH target_id IN ARRAY p_order_ids LOOP
+    BEGIN
+      target := lock_order_for_fulfilment(target_id);
+
+      IF target.status <> 'paid_in_escrow' THEN
+        RAISE EXCEPTION 'Order % is not waiting to be fulfilled', target.order_number;
+      END IF;
+
+      IF target.accepted_at IS NULL THEN
+        UPDATE orders
+        SET accepted_at = now(),
+            updated_at = now()
+        WHERE id = target.id;
+
+        INSERT INTO notifications (user_id, type, title, message, data)
+        VALUES (
+          target.buyer_id,
+          'order_accepted',
+          'Order Accepted',
+          'The seller has accepted order ' || target.order_number || ' and is preparing it.',
+          jsonb_build_object('order_id', target.id)
+        );
+      END IF;
+
+      results := results || jsonb_build_object('order_id', target_id, 'success', true);
+    EXCEPTION WHEN OTHERS THEN
+      results := results || jsonb_build_object('order_id', target_id, 'success', false, 'error', SQLERRM);
+    END;
+  END LOOP;
+
+  RETURN results;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION create_order_shipments(
+  p_order_ids uuid[],
+  p_courier_name text,
+  p_courier_phone text,
+  p_pickup_address text,
+  p_notes text
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target_id uuid;
+  target orders;
+  shipment shipments;
+  results jsonb := '[]'::jsonb;
+BEGIN
+  FOREACH target_id IN ARRAY p_order_ids LOOP
+    BEGIN
+      target := lock_order_for_fulfilment(target_id);
+
+      IF target.status <> 'paid_in_escrow' THEN
+        RAISE EXCEPTION 'Order % is not waiting to be fulfilled', target.order_number;
+      END IF;
+
+      IF target.delivery_method <> 'courier' THEN
+        RAISE EXCEPTION 'Order % is collected by the buyer and needs no shipment', target.order_number;
+      END IF;
+
+      SELECT * INTO shipment FROM shipments WHERE shipments.order_id = target.id FOR UPDATE;
+
+      IF shipment.id IS NULL THEN
+        INSERT INTO shipments (order_id, courier_name, courier_phone, pickup_address, delivery_address, notes)
+        VALUES (target.id, p_courier_name, p_courier_phone, p_pickup_address, target.delivery_address, p_notes)
+        RETURNING * INTO shipment;
+      ELSIF shipment.status IN ('pending', 'assigned') THEN
+        UPDATE shipments
+        SET courier_name = coalesce(p_courier_name, courier_name),
+            courier_phone = coalesce(p_courier_phone, courier_phone),
+            pickup_address = coalesce(p_pickup_address, pickup_address),
+            notes = coalesce(p_notes, notes),
+            updated_at = now()
+        WHERE id = shipment.id
+        RETURNING * INTO shipment;
+      ELSE
+        RAISE EXCEPTION 'The shipment for order % has already left', target.order_number;
+      END IF;
+
+      UPDATE orders
+      SET accepted_at = coalesce(accepted_at, now()),
+          updated_at = now()
+      WHERE id = target.id;
+
+      results := results || jsonb_build_object('order_id', target_id, 'success', true, 'shipment', to_jsonb(shipment));
+    EXCEPTION WHEN OTHERS THEN
+      results := results || jsonb_build_object('order_id', target_id, 'success', false, 'error', SQLERRM);
+    END;
+  END LOOP;
+
+  RETURN results;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION mark_orders_shipped(p_shipments jsonb)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  entry jsonb;
+  target_id uuid;
+  tracking text;
+  target orders;
+  results jsonb := '[]'::jsonb;
+BEGIN
+  FOR entry IN SELECT * FROM jsonb_array_elements(p_shipments) LOOP
+    target_id := (entry->>'order_id')::uuid;
+    tracking := nullif(trim(entry->>'tracking_number'), '');
+
+    BEGIN
+      target := lock_order_for_fulfilment(target_id);
+
+      IF target.status <> 'paid_in_escrow' THEN
+        RAISE EXCEPTION 'Order % is not waiting to be shipped', target.order_number;
+      END IF;
+
+      IF target.delivery_method <> 'courier' THEN
+        RAISE EXCEPTION 'Order % is collected by the buyer; mark it handed over instead', target.order_number;
+      END IF;
+
+      IF tracking IS NULL THEN
+        RAISE EXCEPTION 'Order % needs a tracking number', target.order_number;
+      END IF;
+
+      INSERT INTO shipments (order_id, courier_name, tracking_number, status, delivery_address)
+      VALUES (target.id, entry->>'courier_name', tracking, 'in_transit', target.delivery_address)
+      ON CONFLICT (order_id) DO UPDATE
+      SET courier_name = coalesce(EXCLUDED.courier_name, shipments.courier_name),
+          tracking_number = EXCLUDED.tracking_number,
+          status = 'in_transit',
+          updated_at = now();
+
+      PERFORM set_config('app.order_status_reason', 'Shipped with tracking number ' || tracking, true);
+
+      UPDATE orders
+      SET status = 'shipped',
+          accepted_at = coalesce(accepted_at, now()),
+          updated_at = now()
+      WHERE id = target.id;
+
+      PERFORM set_config('app.order_status_reason', '', true);
+
+      INSERT INTO notifications (user_id, type, title, message, data)
+      VALUES (
+        target.buyer_id,
+        'order_shipped',
+        'Order Shipped',
+        'Order ' || target.order_number || ' is on its way. Tracking number: ' || tracking || '.',
+        jsonb_build_object('order_id', target.id, 'tracking_number', tracking)
+      );
+
+      results := results || jsonb_build_object('order_id', target_id, 'success', true);
+    EXCEPTION WHEN OTHERS THEN
+      results := results || jsonb_build_object('order_id', target_id, 'success', false, 'error', SQLERRM);
+    END;
+  END LOOP;
+
+  RETURN results;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION hand_over_pickup_orders(p_order_ids uuid[])
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target_id uuid;
+  target orders;
+  results jsonb := '[]'::jsonb;
+BEGIN
+  FOREACH target_id IN ARRAY p_order_ids LOOP
+    BEGIN
+      target := lock_order_for_fulfilment(target_id);
+
+      IF target.delivery_method <> 'pickup' THEN
+        RAISE EXCEPTION 'Order % is delivered by courier', target.order_number;
+      END IF;
+
+      IF target.status <> 'paid_in_escrow' THEN
+        RAISE EXCEPTION 'Order % is not waiting to be collected', target.order_number;
+      END IF;
+
+      PERFORM set_config('app.order_status_reason', 'Handed over to the buyer at pickup', true);
+
+      UPDATE orders
+      SET status = 'delivered',
+          accepted_at = coalesce(accepted_at, now()),
+          updated_at = now()
+      WHERE id = target.id;
+
+      PERFORM set_config('app.order_status_reason', '', true);
+
+      INSERT INTO notifications (user_id, type, title, message, data)
+      VALUES (
+        target.buyer_id,
+        'order_delivered',
+        'Order Collected',
+        'The seller marked order ' || target.order_number || ' as collected. '
+          || 'Confirm it on the order page, or open a dispute if something is wrong.',
+        jsonb_build_object('order_id', target.id)
+      );
+
+      results := results || jsonb_build_object('order_id', target_id, 'success', true);
+    EXCEPTION WHEN OTHERS THEN
+      results := results || jsonb_build_object('order_id', target_id, 'success', false, 'error', SQLERRM);
+    END;
+  END LOOP;
+
+  RETURN results;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION lock_order_for_fulfilment(uuid) FROM public, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION accept_orders(uuid[]) FROM public, anon;
+REVOKE EXECUTE ON FUNCTION create_order_shipments(uuid[], text, text, text, text) FROM public, anon;
+REVOKE EXECUTE ON FUNCTION mark_orders_shipped(jsonb) FROM public, anon;
+REVOKE EXECUTE ON FUNCTION hand_over_pickup_orders(uuid[]) FROM public, anon;
+
+GRANT EXECUTE ON FUNCTION accept_orders(uuid[]) TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION create_order_shipments(uuid[], text, text, text, text) TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION mark_orders_shipped(jsonb) TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION hand_over_pickup_orders(uuid[]) TO authenticated, service_role;
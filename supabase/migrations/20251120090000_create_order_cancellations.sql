@@ -0,0 +1,512 @@
+/*
+  # Order cancellations
+
+  ## Overview
+  Nothing led to `cancelled`: buyers couldn't back out of an order and sellers
+  couldn't turn down one they can't fulfil. Both can now cancel an order until
+  it ships, through `order-cancel`, with a reason that is kept in
+  `order_cancellations`.
+
+  - An unpaid order moves to `cancelled`. Its reserved stock goes back on sale
+    (`orders_restore_stock`) and any payment still pending for it, or for its
+    checkout, is `cancelled`; paying for the rest of the checkout again only
+    charges for the orders still open
+  - A paid order is refunded in full from escrow first (ending `refunded`,
+    which also restores its stock); the cancellation is recorded against the
+    refund. The refund keeps who cancelled, in which role and why, so if
+    recording the cancellation fails it is finished from the refund, whoever
+    retries
+  - The other party is notified with the reason
+
+  A payment that still succeeds after it was cancelled is not put into
+  escrow: it is held as `under_review` with reconciliation `order_cancelled`
+  for an admin to refund.
+
+  `payment-initiate` cancels the buyer's earlier pending attempts for the same
+  order or checkout as `superseded`. One of those can still go through if the
+  buyer completes it later; it is then recorded like a pending payment. If
+  another payment got there first and nothing is left to put into escrow,
+  the payment is held as `under_review` with reconciliation `duplicate` and
+  admins are notified, so the second charge can be refunded.
+
+  Admins can see which sellers cancel a large share of their orders with
+  `seller_cancellation_rates`.
+
+  ## New Tables
+
+  ### `order_cancellations`
+  - `id` (uuid, primary key)
+  - `order_id` (uuid, references orders, unique)
+  - `cancelled_by` (uuid, references profiles)
+  - `actor_role` (order_actor)
+  - `reason` (enum cancellation_reason)
+  - `details` (text)
+  - `order_status` (order_status; the status the order was cancelled from)
+  - `refund_id` (uuid, references refunds; for paid orders)
+  - `created_at` (timestamptz)
+
+  ## Changes
+  - `payment_status` gains `cancelled`
+  - `reconciliation_status` gains `order_cancelled` and `duplicate`
+  - `refunds` gains `cancellation_actor` (order_actor), `cancellation_reason`
+    (cancellation_reason) and `cancellation_details` (text), set for refunds
+    made to cancel an order
+
+  ## Functions
+  - `reserve_escrow_refund` takes the cancellation's actor, reason and details
+    and stores them on the refund
+  - `cancel_order(order_id, cancelled_by, actor, reason, details, refund_id)`
+    records the cancellation, cancels an unpaid order and its pending payments,
+    and notifies the other party. Returns NULL if the order can no longer be
+    cancelled or already was
+  - `seller_cancellation_rates(since)` - per seller, how many orders were
+    placed since `since` and how many the seller cancelled
+  - `record_successful_payment` accepts a `cancelled` payment and holds it for
+    review instead of settling it, and holds a payment that finds its orders
+    already paid for as `duplicate`
+
+  ## Security
+  - RLS enabled on `order_cancellations`; the order's buyer and seller, and
+    admins, can view it
+  - `cancel_order` is only executable with the service role
+  - `seller_cancellation_rates` is executable by signed-in users but raises
+    unless the caller is an admin
+*/
+
+ALTER TYPE payment_status ADD VALUE IF NOT EXISTS 'cancelled';
+ALTER TYPE reconciliation_status ADD VALUE IF NOT EXISTS 'order_cancelled';
+ALTER TYPE reconciliation_status ADD VALUE IF NOT EXISTS 'duplicate';
+
+CREATE TYPE cancellation_reason AS ENUM (
+  'changed_mind',
+  'ordered_by_mistake',
+  'found_better_price',
+  'delivery_too_slow',
+  'out_of_stock',
+  'cannot_deliver',
+  'pricing_error',
+  'suspected_fraud',
+  'other'
+);
+
+ALTER TABLE refunds
+  ADD COLUMN IF NOT EXISTS cancellation_actor order_actor,
+  ADD COLUMN IF NOT EXISTS cancellation_reason cancellation_reason,
+  ADD COLUMN IF NOT EXISTS cancellation_details text;
+
+CREATE TABLE IF NOT EXISTS order_cancellations (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id uuid UNIQUE NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  cancelled_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  actor_role order_actor NOT NULL,
+  reason cancellation_reason NOT NULL,
+  details text,
+  order_status order_status NOT NULL,
+  refund_id uuid REFERENCES refunds(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_order_cancellations_actor_role ON order_cancellations(actor_role, created_at);
+
+ALTER TABLE order_cancellations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Order parties can view cancellations"
+  ON order_cancellations FOR SELECT
+  TO authenticated
+  USING (
+    order_id IN (
+      SELECT id FROM orders
+      WHERE buyer_id = auth.uid()
+      OR seller_id IN (SELECT id FROM seller_profiles WHERE user_id = auth.uid())
+    )
+  );
+
+CREATE POLICY "Admins can view cancellations"
+  ON order_cancellations FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin')
+  );
+
+DROP FUNCTION IF EXISTS reserve_escrow_refund(uuid, numeric, uuid, numeric, text, uuid, uuid);
+
+CREATE OR REPLACE FUNCTION reserve_escrow_refund(
+  p_escrow_id uuid,
+  p_expected_refunded numeric,
+  p_payment_id uuid,
+  p_amount numeric,
+  p_reason text,
+  p_requested_by uuid,
+  p_dispute_id uuid,
+  p_cancellation_actor order_actor,
+  p_cancellation_reason cancellation_reason,
+  p_cancellation_details text
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  escrow escrows;
+  refund refunds;
+BEGIN
+  UPDATE escrows
+  SET refunded_amount = refunded_amount + p_amount
+  WHERE id = p_escrow_id
+    AND refunded_amount = p_expected_refunded
+    AND released_amount + refunded_amount + p_amount <= amount
+    AND status IN ('holding', 'frozen')
+  RETURNING * INTO escrow;
+
+  IF escrow.id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO refunds (
+    escrow_id, payment_id, order_id, amount, reason, status, requested_by, dispute_id,
+    cancellation_actor, cancellation_reason, cancellation_details
+  )
+  VALUES (
+    escrow.id, p_payment_id, escrow.order_id, p_amount, p_reason, 'pending', p_requested_by, p_dispute_id,
+    p_cancellation_actor, p_cancellation_reason, p_cancellation_details
+  )
+  RETURNING * INTO refund;
+
+  RETURN to_jsonb(refund);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION cancel_order(
+  p_order_id uuid,
+  p_cancelled_by uuid,
+  p_actor order_actor,
+  p_reason cancellation_reason,
+  p_details text,
+  p_refund_id uuid
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target orders;
+  cancellation order_cancellations;
+  seller_user_id uuid;
+  reason_label text;
+BEGIN
+  SELECT * INTO target FROM orders WHERE id = p_order_id FOR UPDATE;
+
+  -- Paid orders are refunded before they get here, so they arrive refunded.
+  IF target.id IS NULL
+    OR NOT (target.status = 'created' OR (target.status = 'refunded' AND p_refund_id IS NOT NULL)) THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO order_cancellations (order_id, cancelled_by, actor_role, reason, details, order_status, refund_id)
+  VALUES (
+    target.id,
+    p_cancelled_by,
+    p_actor,
+    p_reason,
+    p_details,
+    CASE WHEN p_refund_id IS NULL THEN target.status ELSE 'paid_in_escrow' END,
+    p_refund_id
+  )
+  ON CONFLICT (order_id) DO NOTHING
+  RETURNING * INTO cancellation;
+
+  IF cancellation.id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  reason_label := replace(p_reason::text, '_', ' ')
+    || CASE WHEN nullif(trim(p_details), '') IS NOT NULL THEN ' - ' || trim(p_details) ELSE '' END;
+
+  IF target.status = 'created' THEN
+    PERFORM set_config('app.order_status_reason', 'Cancelled by ' || p_actor || ': ' || reason_label, true);
+
+    UPDATE orders
+    SET status = 'cancelled',
+        updated_at = now()
+    WHERE id = target.id
+    RETURNING * INTO target;
+
+    PERFORM set_config('app.order_status_reason', '', true);
+
+    -- A checkout payment covers the other orders too; the buyer pays for
+    -- those again and payment-initiate charges only for what is still open.
+    UPDATE payments
+    SET status = 'cancelled',
+        failure_reason = 'order_cancelled',
+        updated_at = now()
+    WHERE status = 'pending'
+      AND (order_id = target.id OR checkout_group_id = target.checkout_group_id);
+  END IF;
+
+  SELECT user_id INTO seller_user_id FROM seller_profiles WHERE id = target.seller_id;
+
+  IF p_actor <> 'buyer' THEN
+    INSERT INTO notifications (user_id, type, title, message, data)
+    VALUES (
+      target.buyer_id,
+      'order_cancelled',
+      'Order Cancelled',
+      'Order ' || target.order_number || ' was cancelled by the ' || p_actor || ' (' || reason_label || ').'
+        || CASE WHEN p_refund_id IS NOT NULL THEN ' Your payment is being refunded.' ELSE '' END,
+      jsonb_build_object('order_id', target.id, 'reason', p_reason, 'refund_id', p_refund_id)
+    );
+  END IF;
+
+  IF p_actor <> 'seller' THEN
+    INSERT INTO notifications (user_id, type, title, message, data)
+    VALUES (
+      seller_user_id,
+      'order_cancelled',
+      'Order Cancelled',
+      'Order ' || target.order_number || ' was cancelled by the ' || p_actor || ' (' || reason_label || '). '
+        || 'Do not ship it.',
+      jsonb_build_object('order_id', target.id, 'reason', p_reason, 'refund_id', p_refund_id)
+    );
+  END IF;
+
+  RETURN jsonb_build_object('cancellation', to_jsonb(cancellation), 'order', to_jsonb(target));
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION seller_cancellation_rates(p_since timestamptz DEFAULT now() - interval '90 days')
+RETURNS TABLE (
+  seller_id uuid,
+  store_name text,
+  order_count bigint,
+  seller_cancellations bigint,
+  buyer_cancellations bigint,
+  cancellation_rate numeric
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NOT NULL
+    AND NOT EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin') THEN
+    RAISE EXCEPTION 'Only admins can view cancellation rates'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    s.id,
+    s.store_name,
+    count(o.id),
+    count(c.id) FILTER (WHERE c.actor_role = 'seller'),
+    count(c.id) FILTER (WHERE c.actor_role = 'buyer'),
+    round(count(c.id) FILTER (WHERE c.actor_role = 'seller')::numeric / count(o.id), 4)
+  FROM seller_profiles s
+  JOIN orders o ON o.seller_id = s.id AND o.created_at >= p_since
+  LEFT JOIN order_cancellations c ON c.order_id = o.id
+  GROUP BY s.id, s.store_name
+  ORDER BY 6 DESC, 3 DESC;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION record_successful_payment(
+  p_payment_id uuid,
+  p_amount numeric,
+  p_currency text,
+  p_reconciliation reconciliation_status,
+  p_fee numeric
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  payment payments;
+  payment_order orders;
+  checkout checkout_groups;
+  buyer uuid;
+  label text;
+  expected_total numeric;
+  expected_currency text;
+  was_cancelled boolean;
+  settled jsonb;
+BEGIN
+  -- An attempt the buyer replaced with a newer one is still good money.
+  SELECT status = 'cancelled' AND failure_reason IS DISTINCT FROM 'superseded' INTO was_cancelled
+  FROM payments WHERE id = p_payment_id FOR UPDATE;
+  was_cancelled := coalesce(was_cancelled, false);
+
+  UPDATE payments
+  SET status = CASE WHEN p_reconciliation = 'matched' AND NOT was_cancelled THEN 'successful' ELSE 'under_review' END::payment_status,
+      amount_received = p_amount,
+      currency_received = p_currency,
+      reconciliation_status = CASE WHEN was_cancelled THEN 'order_cancelled' ELSE p_reconciliation END,
+      updated_at = now()
+  WHERE id = p_payment_id
+    AND status IN ('pending', 'cancelled')
+  RETURNING * INTO payment;
+
+  IF payment.id IS NULL THEN
+    RETURN jsonb_build_object('payment', NULL, 'orders', NULL);
+  END IF;
+
+  IF payment.checkout_group_id IS NOT NULL THEN
+    SELECT * INTO checkout FROM checkout_groups WHERE id = payment.checkout_group_id;
+    buyer := checkout.buyer_id;
+    label := 'checkout ' || checkout.reference;
+    expected_total := checkout.total_amount;
+    expected_currency := checkout.currency;
+  ELSE
+    SELECT * INTO payment_order FROM orders WHERE id = payment.order_id;
+    buyer := payment_order.buyer_id;
+    label := 'order ' || payment_order.order_number;
+    expected_total := payment_order.total_amount;
+    expected_currency := payment_order.currency;
+  END IF;
+
+  PERFORM post_journal_entry(
+    'payment_received',
+    payment.id,
+    payment.order_id,
+    payment_order.seller_id,
+    p_currency,
+    'Buyer payment for ' || label,
+    jsonb_build_array(
+      jsonb_build_object('account', 'provider_clearing', 'debit', p_amount),
+      jsonb_build_object('account', 'buyer_deposits', 'credit', p_amount)
+    )
+  );
+
+  PERFORM post_journal_entry(
+    'provider_fee',
+    payment.id,
+    payment.order_id,
+    payment_order.seller_id,
+    p_currency,
+    payment.provider || ' fee on ' || label,
+    jsonb_build_array(
+      jsonb_build_object('account', 'provider_fee_expense', 'debit', p_fee),
+      jsonb_build_object('account', 'provider_clearing', 'credit', p_fee)
+    )
+  );
+
+  -- The buyer paid after an order in it was cancelled; the rest of the
+  -- checkout may have been paid for separately since, so nothing is settled.
+  IF was_cancelled THEN
+    INSERT INTO notifications (user_id, type, title, message, data)
+    VALUES (
+      buyer,
+      'payment_under_review',
+      'Payment Under Review',
+      'We received ' || p_currency || ' ' || trim_scale(p_amount) || ' for ' || label
+        || ' after the order was cancelled. Our team is reviewing the payment and will refund you.',
+      jsonb_build_object(
+        'order_id', payment.order_id,
+        'checkout_group_id', payment.checkout_group_id,
+        'payment_id', payment.id,
+        'reconciliation', payment.reconciliation_status
+      )
+    );
+
+    RETURN jsonb_build_object('payment', to_jsonb(payment), 'orders', NULL);
+  END IF;
+
+  IF p_reconciliation <> 'matched' THEN
+    INSERT INTO notifications (user_id, type, title, message, data)
+    VALUES (
+      buyer,
+      'payment_under_review',
+      'Payment Under Review',
+      'We received ' || p_currency || ' ' || trim_scale(p_amount) || ' but your ' || label || ' total is '
+        || coalesce(expected_currency, 'GHS') || ' ' || trim_scale(expected_total)
+        || '. Our team is reviewing the payment.',
+      jsonb_build_object(
+        'order_id', payment.order_id,
+        'checkout_group_id', payment.checkout_group_id,
+        'payment_id', payment.id,
+        'reconciliation', p_reconciliation
+      )
+    );
+
+    RETURN jsonb_build_object('payment', to_jsonb(payment), 'orders', NULL);
+  END IF;
+
+  -- The money is in, but if the reservation lapsed and the stock has since
+  -- gone to another buyer there is nothing to put into escrow. Hold the
+  -- payment for an admin to refund instead.
+  IF NOT commit_stock_reservations(payment) THEN
+    UPDATE payments
+    SET status = 'under_review',
+        reconciliation_status = 'out_of_stock',
+        updated_at = now()
+    WHERE id = payment.id
+    RETURNING * INTO payment;
+
+    INSERT INTO notifications (user_id, type, title, message, data)
+    VALUES (
+      buyer,
+      'payment_under_review',
+      'Payment Under Review',
+      'We received your payment for ' || label || ' but some of the items sold out before it arrived. '
+        || 'Our team is reviewing the payment and will refund you.',
+      jsonb_build_object(
+        'order_id', payment.order_id,
+        'checkout_group_id', payment.checkout_group_id,
+        'payment_id', payment.id,
+        'reconciliation', payment.reconciliation_status
+      )
+    );
+
+    RETURN jsonb_build_object('payment', to_jsonb(payment), 'orders', NULL);
+  END IF;
+
+  settled := settle_payment_into_escrow(payment, p_amount);
+
+  -- Another payment for the same orders settled first, so this charge has
+  -- nowhere to go. Hold it for an admin to refund.
+  IF settled IS NULL THEN
+    UPDATE payments
+    SET status = 'under_review',
+        reconciliation_status = 'duplicate',
+        updated_at = now()
+    WHERE id = payment.id
+    RETURNING * INTO payment;
+
+    INSERT INTO notifications (user_id, type, title, message, data)
+    SELECT
+      recipient.id,
+      'payment_under_review',
+      'Payment Under Review',
+      CASE WHEN recipient.id = buyer
+        THEN 'We received a second payment of ' || p_currency || ' ' || trim_scale(p_amount) || ' for ' || label
+          || ', which was already paid for. Our team is reviewing the payment and will refund you.'
+        ELSE 'Payment ' || payment.provider_reference || ' of ' || p_currency || ' ' || trim_scale(p_amount)
+          || ' arrived after ' || label || ' was already paid for and needs to be refunded.'
+      END,
+      jsonb_build_object(
+        'order_id', payment.order_id,
+        'checkout_group_id', payment.checkout_group_id,
+        'payment_id', payment.id,
+        'reconciliation', payment.reconciliation_status
+      )
+    FROM profiles recipient
+    WHERE recipient.id = buyer OR recipient.role = 'admin';
+
+    RETURN jsonb_build_object('payment', to_jsonb(payment), 'orders', NULL);
+  END IF;
+
+  RETURN jsonb_build_object('payment', to_jsonb(payment), 'orders', settled);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION reserve_escrow_refund(uuid, numeric, uuid, numeric, text, uuid, uuid, order_actor, cancellation_reason, text) FROM public, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION cancel_order(uuid, uuid, order_actor, cancellation_reason, text, uuid) FROM public, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION seller_cancellation_rates(timestamptz) FROM public, anon;
+
+GRANT EXECUTE ON FUNCTION reserve_escrow_refund(uuid, numeric, uuid, numeric, text, uuid, uuid, order_actor, cancellation_reason, text) TO service_role;
+GRANT EXECUTE ON FUNCTION cancel_order(uuid, uuid, order_actor, cancellation_reason, text, uuid) TO service_role;
+GRANT EXECUTE ON FUNCTION seller_cancellation_rates(timestamptz) TO authenticated, service_role;
@@ -0,0 +1,253 @@
+/*
+  # Courier integration
+
+  ## Overview
+  Shipments had columns for the courier, tracking number, ETA and both ends of
+  the trip, but they were only ever filled in by hand. Shipments can now be
+  booked with a courier through the adapters in `_shared/couriers` (a
+  simulated courier for development is the only one so far). The courier's
+  progress reports, from `courier-webhook` or from the `courier-sync` sweep,
+  move the shipment through `shipment_status` and are kept as the shipment's
+  tracking history. Once the courier has the parcel the order moves to
+  `shipped`, and a delivered shipment moves it to `delivered`, which starts
+  the escrow confirmation window.
+
+  ## New Types
+  - `courier_provider` enum: mock
+  - `shipment_status` gains `cancelled`, for bookings called off before
+    pickup (for example when the order is cancelled)
+
+  ## Changes
+
+  ### `shipments`
+  - `courier_provider` (courier_provider; null for shipments arranged by the
+    seller)
+  - `courier_reference` (text, the courier's ID for the booking; unique per
+    courier)
+  - `tracking_url` (text)
+  - `booked_at`, `picked_up_at`, `delivered_at` (timestamptz)
+
+  ## New Tables
+
+  ### `shipment_events`
+  - `id` (uuid, primary key)
+  - `shipment_id` (uuid, references shipments)
+  - `provider` (courier_provider)
+  - `event_id` (text, the courier's ID for the report; unique per shipment so
+    repeated reports are recorded once)
+  - `status` (shipment_status, as reported)
+  - `description` (text)
+  - `lat`, `lon` (numeric, where the rider was)
+  - `applied` (boolean; false when the report arrived out of order or after
+    the shipment had finished and was not applied)
+  - `payload` (jsonb, the raw report)
+  - `occurred_at`, `created_at` (timestamptz)
+
+  ## Functions
+  - `apply_courier_update(provider, update)` - records a progress report
+    `{ event_id, courier_reference, status, occurred_at, description,
+    eta_minutes, rider_name, rider_phone, lat, lon }` and applies it to the
+    shipment and its order. Returns `{ shipment, applied, duplicate }`, or
+    null when no shipment has that courier reference. Shipments only move
+    forward; delivered, failed and cancelled shipments are final.
+
+  ## Security
+  - RLS enabled on `shipment_events`; the buyer, the seller and admins can
+    read a shipment's events. They are written only by
+    `apply_courier_update`
+  - `apply_courier_update` is executable by the service role only; order
+    status changes it makes are recorded with the system as the actor
+*/
+
+ALTER TYPE shipment_status ADD VALUE IF NOT EXISTS 'cancelled';
+
+CREATE TYPE courier_provider AS ENUM ('mock');
+
+ALTER TABLE shipments
+  ADD COLUMN IF NOT EXISTS courier_provider courier_provider,
+  ADD COLUMN IF NOT EXISTS courier_reference text,
+  ADD COLUMN IF NOT EXISTS tracking_url text,
+  ADD COLUMN IF NOT EXISTS booked_at timestamptz,
+  ADD COLUMN IF NOT EXISTS picked_up_at timestamptz,
+  ADD COLUMN IF NOT EXISTS delivered_at timestamptz;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_shipments_courier_reference
+  ON shipments(courier_provider, courier_reference);
+
+CREATE INDEX IF NOT EXISTS idx_shipments_courier_provider_status
+  ON shipments(courier_provider, status)
+  WHERE courier_reference IS NOT NULL;
+
+CREATE TABLE IF NOT EXISTS shipment_events (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  shipment_id uuid NOT NULL REFERENCES shipments(id) ON DELETE CASCADE,
+  provider courier_provider NOT NULL,
+  event_id text NOT NULL,
+  status shipment_status NOT NULL,
+  description text,
+  lat numeric,
+  lon numeric,
+  applied boolean NOT NULL DEFAULT false,
+  payload jsonb,
+  occurred_at timestamptz NOT NULL DEFAULT now(),
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (shipment_id, event_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_shipment_events_shipment_id ON shipment_events(shipment_id, occurred_at);
+
+ALTER TABLE shipment_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Order participants can view shipment events"
+  ON shipment_events FOR SELECT
+  TO authenticated
+  USING (
+    shipment_id IN (
+      SELECT shipments.id FROM shipments
+      JOIN orders ON orders.id = shipments.order_id
+      WHERE orders.buyer_id = auth.uid()
+      OR orders.seller_id IN (SELECT id FROM seller_profiles WHERE user_id = auth.uid())
+    )
+  );
+
+CREATE POLICY "Admins can view shipment events"
+  ON shipment_events FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin')
+  );
+
+CREATE OR REPLACE FUNCTION apply_courier_update(p_provider courier_provider, p_update jsonb)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  shipment shipments;
+  event shipment_events;
+  target orders;
+  new_status shipment_status := (p_update->>'status')::shipment_status;
+  occurred timestamptz := coalesce((p_update->>'occurred_at')::timestamptz, now());
+  progress shipment_status[] := ARRAY['pending', 'assigned', 'picked_up', 'in_transit', 'delivered']::shipment_status[];
+  was_applied boolean;
+BEGIN
+  SELECT * INTO shipment
+  FROM shipments
+  WHERE courier_provider = p_provider
+    AND courier_reference = p_update->>'courier_reference'
+  FOR UPDATE;
+
+  IF shipment.id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO shipment_events (shipment_id, provider, event_id, status, description, lat, lon, payload, occurred_at)
+  VALUES (
+    shipment.id,
+    p_provider,
+    p_update->>'event_id',
+    new_status,
+    p_update->>'description',
+    (p_update->>'lat')::numeric,
+    (p_update->>'lon')::numeric,
+    p_update,
+    occurred
+  )
+  ON CONFLICT (shipment_id, event_id) DO NOTHING
+  RETURNING * INTO event;
+
+  IF event.id IS NULL THEN
+    RETURN jsonb_build_object('shipment', to_jsonb(shipment), 'applied', false, 'duplicate', true);
+  END IF;
+
+  was_applied := shipment.status::text NOT IN ('delivered', 'failed', 'cancelled')
+    AND (
+      new_status::text IN ('failed', 'cancelled')
+      OR array_position(progress, new_status) > array_position(progress, shipment.status)
+    );
+
+  IF NOT was_applied THEN
+    RETURN jsonb_build_object('shipment', to_jsonb(shipment), 'applied', false, 'duplicate', false);
+  END IF;
+
+  UPDATE shipment_events SET applied = true WHERE id = event.id;
+
+  UPDATE shipments
+  SET status = new_status,
+      eta_minutes = coalesce((p_update->>'eta_minutes')::int, eta_minutes),
+      courier_name = coalesce(p_update->>'rider_name', courier_name),
+      courier_phone = coalesce(p_update->>'rider_phone', courier_phone),
+      picked_up_at = CASE
+        WHEN new_status IN ('picked_up', 'in_transit', 'delivered') THEN coalesce(picked_up_at, occurred)
+        ELSE picked_up_at
+      END,
+      delivered_at = CASE WHEN new_status = 'delivered' THEN occurred ELSE delivered_at END,
+      updated_at = now()
+  WHERE id = shipment.id
+  RETURNING * INTO shipment;
+
+  SELECT * INTO target FROM orders WHERE id = shipment.order_id FOR UPDATE;
+
+  IF new_status IN ('picked_up', 'in_transit', 'delivered') AND target.status = 'paid_in_escrow' THEN
+    PERFORM set_config('app.order_status_reason', 'Collected by the courier, tracking number ' || shipment.tracking_number, true);
+
+    UPDATE orders
+    SET status = 'shipped',
+        accepted_at = coalesce(accepted_at, now()),
+        updated_at = now()
+    WHERE id = target.id
+    RETURNING * INTO target;
+
+    PERFORM set_config('app.order_status_reason', '', true);
+
+    INSERT INTO notifications (user_id, type, title, message, data)
+    VALUES (
+      target.buyer_id,
+      'order_shipped',
+      'Order Shipped',
+      'Order ' || target.order_number || ' is on its way. Tracking number: ' || shipment.tracking_number || '.',
+      jsonb_build_object('order_id', target.id, 'tracking_number', shipment.tracking_number)
+    );
+  END IF;
+
+  IF new_status = 'delivered' AND target.status = 'shipped' THEN
+    PERFORM set_config('app.order_status_reason', 'Courier reported the parcel delivered', true);
+
+    UPDATE orders
+    SET status = 'delivered',
+        updated_at = now()
+    WHERE id = target.id
+    RETURNING * INTO target;
+
+    PERFORM set_config('app.order_status_reason', '', true);
+
+    INSERT INTO notifications (user_id, type, title, message, data)
+    VALUES (
+      target.buyer_id,
+      'order_delivered',
+      'Order Delivered',
+      'The courier delivered order ' || target.order_number || '. '
+        || 'Confirm it on the order page, or open a dispute if something is wrong.',
+      jsonb_build_object('order_id', target.id)
+    );
+  END IF;
+
+  IF new_status = 'failed' THEN
+    INSERT INTO notifications (user_id, type, title, message, data)
+    SELECT recipient, 'delivery_failed', 'Delivery Failed',
+      'The courier could not deliver order ' || target.order_number
+        || coalesce(': ' || (p_update->>'description'), '') || '. Our support team will be in touch.',
+      jsonb_build_object('order_id', target.id, 'shipment_id', shipment.id)
+    FROM unnest(ARRAY[
+      target.buyer_id,
+      (SELECT user_id FROM seller_profiles WHERE id = target.seller_id)
+    ]) AS recipient;
+  END IF;
+
+  RETURN jsonb_build_object('shipment', to_jsonb(shipment), 'applied', true, 'duplicate', false);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION apply_courier_update(courier_provider, jsonb) FROM public, anon, authenticated;
+GRANT EXECUTE ON FUNCTION apply_courier_update(courier_provider, jsonb) TO service_role;
@@ -0,0 +1,424 @@
+/*
+  # Delivery quotes
+
+  ## Overview
+  Courier orders were all charged the same flat `COURIER_DELIVERY_FEE`, however
+  far the parcel had to go. Delivery is now priced per store from the seller's
+  location to the buyer's: a fee for the distance band, a surcharge for
+  delivering into regions that cost couriers more (Kumasi, Tamale and
+  Takoradi to start with) and a surcharge for the package size of the
+  largest item. The buyer is shown standard and, for shorter trips, express
+  options with an ETA before paying (`delivery-quote`), and the option they
+  pick is locked into the order at checkout, so the price can't change
+  between quoting and paying.
+
+  ## New Types
+  - `package_size` enum: small, medium, large, bulky
+  - `delivery_speed` enum: standard, express
+
+  ## Changes
+
+  ### `products`
+  - `package_size` (package_size, default small)
+
+  ### `orders`
+  - `delivery_quote_id` (uuid, references delivery_quotes; the quote the
+    delivery cost came from)
+  - `delivery_eta_minutes` (int, the ETA quoted to the buyer)
+
+  ## New Tables
+
+  ### `delivery_rate_bands`
+  - `id` (uuid, primary key)
+  - `max_km` (numeric, unique; the band covers trips up to this distance,
+    null for the one band covering everything further and trips whose
+    distance is unknown)
+  - `fee` (numeric, GHS)
+  - `eta_minutes` (int)
+  - `active` (boolean)
+  - `created_at`, `updated_at` (timestamptz)
+
+  ### `delivery_region_surcharges`
+  - `id` (uuid, primary key)
+  - `name` (text, unique)
+  - `lat`, `lon`, `radius_km` (numeric; deliveries within this radius pay
+    the surcharge)
+  - `surcharge` (numeric, GHS)
+  - `extra_eta_minutes` (int)
+  - `active` (boolean)
+  - `created_at`, `updated_at` (timestamptz)
+
+  ### `delivery_package_rates`
+  - `package_size` (package_size, primary key)
+  - `description` (text)
+  - `surcharge` (numeric, GHS)
+  - `updated_at` (timestamptz)
+
+  ### `delivery_quotes`
+  - `id` (uuid, primary key)
+  - `buyer_id` (uuid, references profiles)
+  - `seller_id` (uuid, references seller_profiles)
+  - `speed` (delivery_speed)
+  - `package_size` (package_size)
+  - `distance_km` (numeric; null when the seller has no location)
+  - `pickup_lat`, `pickup_lon`, `dropoff_lat`, `dropoff_lon` (numeric)
+  - `region_surcharge_id` (uuid, references delivery_region_surcharges)
+  - `distance_fee`, `region_surcharge`, `package_surcharge`, `amount`
+    (numeric; `amount` is what the buyer pays)
+  - `currency` (text)
+  - `eta_minutes` (int)
+  - `expires_at` (timestamptz)
+  - `order_id` (uuid, references orders, unique; set when the quote is used)
+  - `created_at` (timestamptz)
+
+  Seeded with six distance bands from GHS 15 (up to 5 km) to GHS 160
+  (beyond 300 km), surcharges for Kumasi (GHS 10), Takoradi (GHS 15) and
+  Tamale (GHS 25), and package surcharges of 0, 10, 25 and 60.
+
+  ## Functions
+  - `create_checkout_from_cart` takes the buyer's chosen quotes instead of a
+    delivery cost. Courier orders need an unused, unexpired quote of the
+    buyer's for each store; the order is charged the quoted amount and the
+    quote is marked used. Returns null, like any other change to the cart
+    while checking out, if one is missing
+
+  ## Security
+  - RLS enabled on the rate tables; signed-in users can read active rates
+    and admins can manage them
+  - RLS enabled on `delivery_quotes`; buyers can read their own quotes and
+    admins all of them. Quotes are created only by `delivery-quote`
+*/
+
+CREATE TYPE package_size AS ENUM ('small', 'medium', 'large', 'bulky');
+
+CREATE TYPE delivery_speed AS ENUM ('standard', 'express');
+
+ALTER TABLE products
+  ADD COLUMN IF NOT EXISTS package_size package_size NOT NULL DEFAULT 'small';
+
+CREATE TABLE IF NOT EXISTS delivery_rate_bands (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  max_km numeric UNIQUE NULLS NOT DISTINCT CHECK (max_km > 0),
+  fee numeric NOT NULL CHECK (fee >= 0),
+  eta_minutes int NOT NULL CHECK (eta_minutes > 0),
+  active boolean NOT NULL DEFAULT true,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+INSERT INTO delivery_rate_bands (max_km, fee, eta_minutes) VALUES
+  (5, 15, 60),
+  (15, 25, 120),
+  (40, 40, 240),
+  (120, 70, 1440),
+  (300, 110, 2880),
+  (NULL, 160, 4320)
+ON CONFLICT (max_km) DO NOTHING;
+
+CREATE TABLE IF NOT EXISTS delivery_region_surcharges (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text UNIQUE NOT NULL,
+  lat numeric NOT NULL,
+  lon numeric NOT NULL,
+  radius_km numeric NOT NULL CHECK (radius_km > 0),
+  surcharge numeric NOT NULL CHECK (surcharge >= 0),
+  extra_eta_minutes int NOT NULL DEFAULT 0 CHECK (extra_eta_minutes >= 0),
+  active boolean NOT NULL DEFAULT true,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+INSERT INTO delivery_region_surcharges (name, lat, lon, radius_km, surcharge, extra_eta_minutes) VALUES
+  ('Kumasi', 6.6885, -1.6244, 25, 10, 120),
+  ('Takoradi', 4.8986, -1.7600, 20, 15, 240),
+  ('Tamale', 9.4008, -0.8393, 20, 25, 1440)
+ON CONFLICT (name) DO NOTHING;
+
+CREATE TABLE IF NOT EXISTS delivery_package_rates (
+  package_size package_size PRIMARY KEY,
+  description text NOT NULL,
+  surcharge numeric NOT NULL CHECK (surcharge >= 0),
+  updated_at timestamptz DEFAULT now()
+);
+
+INSERT INTO delivery_package_rates (package_size, description, surcharge) VALUES
+  ('small', 'Fits in a rider''s box: phones, clothes, books', 0),
+  ('medium', 'Shoebox to small carton: shoes, small appliances', 10),
+  ('large', 'Needs a car boot: TVs, microwaves, large cartons', 25),
+  ('bulky', 'Needs a van: furniture, fridges, washing machines', 60)
+ON CONFLICT (package_size) DO NOTHING;
+
+CREATE TABLE IF NOT EXISTS delivery_quotes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  buyer_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  seller_id uuid NOT NULL REFERENCES seller_profiles(id) ON DELETE CASCADE,
+  speed delivery_speed NOT NULL,
+  package_size package_size NOT NULL,
+  distance_km numeric,
+  pickup_lat numeric,
+  pickup_lon numeric,
+  dropoff_lat numeric NOT NULL,
+  dropoff_lon numeric NOT NULL,
+  region_surcharge_id uuid REFERENCES delivery_region_surcharges(id) ON DELETE SET NULL,
+  distance_fee numeric NOT NULL CHECK (distance_fee >= 0),
+  region_surcharge numeric NOT NULL DEFAULT 0 CHECK (region_surcharge >= 0),
+  package_surcharge numeric NOT NULL DEFAULT 0 CHECK (package_surcharge >= 0),
+  amount numeric NOT NULL CHECK (amount >= 0),
+  currency text NOT NULL DEFAULT 'GHS',
+  eta_minutes int NOT NULL,
+  expires_at timestamptz NOT NULL,
+  order_id uuid UNIQUE REFERENCES orders(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_delivery_quotes_buyer_id ON delivery_quotes(buyer_id, created_at);
+
+ALTER TABLE orders
+  ADD COLUMN IF NOT EXISTS delivery_quote_id uuid REFERENCES delivery_quotes(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS delivery_eta_minutes int;
+
+ALTER TABLE delivery_rate_bands ENABLE ROW LEVEL SECURITY;
+ALTER TABLE delivery_region_surcharges ENABLE ROW LEVEL SECURITY;
+ALTER TABLE delivery_package_rates ENABLE ROW LEVEL SECURITY;
+ALTER TABLE delivery_quotes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone signed in can view active delivery rate bands"
+  ON delivery_rate_bands FOR SELECT
+  TO authenticated
+  USING (active);
+
+CREATE POLICY "Admins can manage delivery rate bands"
+  ON delivery_rate_bands FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin')
+  )
+  WITH CHECK (
+    EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin')
+  );
+
+CREATE POLICY "Anyone signed in can view active region surcharges"
+  ON delivery_region_surcharges FOR SELECT
+  TO authenticated
+  USING (active);
+
+CREATE POLICY "Admins can manage region surcharges"
+  ON delivery_region_surcharges FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin')
+  )
+  WITH CHECK (
+    EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin')
+  );
+
+CREATE POLICY "Anyone signed in can view package rates"
+  ON delivery_package_rates FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can manage package rates"
+  ON delivery_package_rates FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin')
+  )
+  WITH CHECK (
+    EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin')
+  );
+
+CREATE POLICY "Buyers can view own delivery quotes"
+  ON delivery_quotes FOR SELECT
+  TO authenticated
+  USING (buyer_id = auth.uid());
+
+CREATE POLICY "Admins can view delivery quotes"
+  ON delivery_quotes FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin')
+  );
+
+DROP FUNCTION IF EXISTS create_checkout_from_cart(uuid, uuid[], delivery_method, text, numeric, text, timestamptz);
+
+CREATE OR REPLACE FUNCTION create_checkout_from_cart(
+  p_buyer_id uuid,
+  p_cart_item_ids uuid[],
+  p_delivery_method delivery_method,
+  p_delivery_address text,
+  p_delivery_quote_ids uuid[],
+  p_notes text,
+  p_reserved_until timestamptz
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  checkout checkout_groups;
+  new_order orders;
+  quote delivery_quotes;
+  seller uuid;
+  line_count int;
+  unavailable_count int;
+  unquoted_count int;
+  orders_json jsonb := '[]'::jsonb;
+BEGIN
+  -- Lock the lines and their products so the snapshots, prices and stock
+  -- check below all see the same state.
+  PERFORM 1
+  FROM cart_items c
+  JOIN products p ON p.id = c.product_id
+  WHERE c.user_id = p_buyer_id
+    AND (p_cart_item_ids IS NULL OR c.id = ANY (p_cart_item_ids))
+  FOR UPDATE OF c, p;
+
+  SELECT
+    count(*),
+    count(*) FILTER (WHERE p.status <> 'active' OR c.quantity > coalesce(p.stock_count, 0))
+  INTO line_count, unavailable_count
+  FROM cart_items c
+  JOIN products p ON p.id = c.product_id
+  WHERE c.user_id = p_buyer_id
+    AND (p_cart_item_ids IS NULL OR c.id = ANY (p_cart_item_ids));
+
+  IF line_count = 0
+    OR unavailable_count > 0
+    OR (p_cart_item_ids IS NOT NULL AND line_count <> cardinality(p_cart_item_ids)) THEN
+    RETURN NULL;
+  END IF;
+
+  -- Every store in a courier checkout needs a quote of this buyer's that
+  -- hasn't expired or been used by another order.
+  IF p_delivery_method = 'courier' THEN
+    PERFORM 1 FROM delivery_quotes WHERE id = ANY (coalesce(p_delivery_quote_ids, '{}')) FOR UPDATE;
+
+    SELECT count(*)
+    INTO unquoted_count
+    FROM (
+      SELECT DISTINCT p.seller_id
+      FROM cart_items c
+      JOIN products p ON p.id = c.product_id
+      WHERE c.user_id = p_buyer_id
+        AND (p_cart_item_ids IS NULL OR c.id = ANY (p_cart_item_ids))
+    ) stores
+    WHERE NOT EXISTS (
+      SELECT 1
+      FROM delivery_quotes q
+      WHERE q.id = ANY (coalesce(p_delivery_quote_ids, '{}'))
+        AND q.seller_id = stores.seller_id
+        AND q.buyer_id = p_buyer_id
+        AND q.order_id IS NULL
+        AND q.expires_at > now()
+    );
+
+    IF unquoted_count > 0 THEN
+      RETURN NULL;
+    END IF;
+  END IF;
+
+  INSERT INTO checkout_groups (buyer_id, total_amount)
+  VALUES (p_buyer_id, 0)
+  RETURNING * INTO checkout;
+
+  FOR seller IN
+    SELECT DISTINCT p.seller_id
+    FROM cart_items c
+    JOIN products p ON p.id = c.product_id
+    WHERE c.user_id = p_buyer_id
+      AND (p_cart_item_ids IS NULL OR c.id = ANY (p_cart_item_ids))
+  LOOP
+    quote := NULL;
+
+    IF p_delivery_method = 'courier' THEN
+      SELECT * INTO quote
+      FROM delivery_quotes
+      WHERE id = ANY (p_delivery_quote_ids)
+        AND seller_id = seller
+        AND buyer_id = p_buyer_id
+        AND order_id IS NULL
+        AND expires_at > now()
+      ORDER BY created_at DESC
+      LIMIT 1;
+    END IF;
+
+    INSERT INTO orders (
+      buyer_id, seller_id, checkout_group_id, total_amount, status, delivery_method, delivery_address,
+      delivery_cost, delivery_quote_id, delivery_eta_minutes, notes
+    )
+    SELECT
+      p_buyer_id,
+      seller,
+      checkout.id,
+      sum(p.price * c.quantity) + coalesce(quote.amount, 0),
+      'created',
+      p_delivery_method,
+      p_delivery_address,
+      coalesce(quote.amount, 0),
+      quote.id,
+      quote.eta_minutes,
+      p_notes
+    FROM cart_items c
+    JOIN products p ON p.id = c.product_id
+    WHERE c.user_id = p_buyer_id
+      AND p.seller_id = seller
+      AND (p_cart_item_ids IS NULL OR c.id = ANY (p_cart_item_ids))
+    RETURNING * INTO new_order;
+
+    IF quote.id IS NOT NULL THEN
+      UPDATE delivery_quotes SET order_id = new_order.id WHERE id = quote.id;
+    END IF;
+
+    INSERT INTO order_items (order_id, product_id, quantity, unit_price, total_price, product_snapshot)
+    SELECT
+      new_order.id,
+      p.id,
+      c.quantity,
+      p.price,
+      p.price * c.quantity,
+      jsonb_build_object(
+        'title', p.title,
+        'description', p.description,
+        'images', to_jsonb(p.images),
+        'price', p.price,
+        'currency', p.currency,
+        'condition', p.condition,
+        'category_id', p.category_id,
+        'seller_id', p.seller_id,
+        'store_name', s.store_name,
+        'package_size', p.package_size
+      )
+    FROM cart_items c
+    JOIN products p ON p.id = c.product_id
+    JOIN seller_profiles s ON s.id = p.seller_id
+    WHERE c.user_id = p_buyer_id
+      AND p.seller_id = seller
+      AND (p_cart_item_ids IS NULL OR c.id = ANY (p_cart_item_ids))
+    ORDER BY c.created_at;
+
+    PERFORM reserve_order_stock(ARRAY[new_order.id], p_reserved_until);
+
+    orders_json := orders_json || jsonb_build_array(
+      to_jsonb(new_order) || jsonb_build_object(
+        'order_items',
+        (SELECT jsonb_agg(to_jsonb(oi)) FROM order_items oi WHERE oi.order_id = new_order.id)
+      )
+    );
+  END LOOP;
+
+  UPDATE checkout_groups
+  SET total_amount = (SELECT sum(total_amount) FROM orders WHERE checkout_group_id = checkout.id)
+  WHERE id = checkout.id
+  RETURNING * INTO checkout;
+
+  DELETE FROM cart_items
+  WHERE user_id = p_buyer_id
+    AND (p_cart_item_ids IS NULL OR id = ANY (p_cart_item_ids));
+
+  RETURN jsonb_build_object('checkout_group', to_jsonb(checkout), 'orders', orders_json);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION create_checkout_from_cart(uuid, uuid[], delivery_method, text, uuid[], text, timestamptz) FROM public, anon, authenticated;
+GRANT EXECUTE ON FUNCTION create_checkout_from_cart(uuid, uuid[], delivery_method, text, uuid[], text, timestamptz) TO service_role;
@@ -0,0 +1,473 @@
+/*
+  # Proof of delivery
+
+  ## Overview
+  A courier order became `delivered`, and its escrow confirmation window
+  started, on the word of the seller or the courier, which left sellers with
+  nothing to show when a buyer later said the parcel never came. When a
+  shipment goes out for delivery the buyer is now given a one-time handover
+  code. The rider or seller enters it at the door, optionally with a photo
+  and where they were standing, and only a matching code marks the shipment
+  and the order delivered. The handover is kept as evidence for disputes.
+
+  The buyer can still confirm delivery themselves, and admins can still move
+  the order, but a seller can no longer mark a courier order delivered
+  without the code, and a courier's delivered report is only applied if it
+  carries it.
+
+  ## New Tables
+
+  ### `delivery_codes`
+  - `shipment_id` (uuid, primary key, references shipments)
+  - `order_id` (uuid, references orders)
+  - `code` (text, six digits)
+  - `failed_attempts` (int; the code is locked after 5 wrong entries)
+  - `issued_at`, `used_at` (timestamptz)
+
+  ### `delivery_proofs`
+  - `id` (uuid, primary key)
+  - `shipment_id` (uuid, unique, references shipments)
+  - `order_id` (uuid, references orders)
+  - `confirmed_by` (uuid, references profiles; null when the courier
+    confirmed)
+  - `actor_role` (order_actor: seller, admin, or system for the courier)
+  - `courier_provider` (courier_provider; set when the courier confirmed)
+  - `photo_url` (text)
+  - `lat`, `lon` (numeric, where the handover happened)
+  - `distance_km` (numeric, from there to the delivery location, when both
+    are known)
+  - `delivered_at`, `created_at` (timestamptz)
+
+  ## Changes
+  - Sellers are no longer allowed to move a `shipped` order to `delivered`,
+    and the `orders_require_delivery_code` trigger stops them marking a
+    courier order delivered any other way
+  - `apply_courier_update` hands `delivered` reports to
+    `confirm_delivery_handover`, reading the code from `handover_code` and
+    the photo from `photo_url`
+
+  ## Functions
+  - `issue_delivery_code()` - trigger on `shipments`; issues the code the
+    first time a shipment is `picked_up` or `in_transit` and sends it to the
+    buyer as a notification
+  - `confirm_delivery_handover(shipment_id, code, proof)` - checks the code
+    and, if it matches, marks the shipment and order delivered and records
+    the proof `{ confirmed_by, actor_role, courier_provider, photo_url, lat,
+    lon, delivered_at }`. Returns `{ confirmed, shipment, proof,
+    order_status }`, or `{ confirmed: false, reason, error, attempts_left }`
+    where reason is one of `wrong_code`, `locked`, `not_issued` or
+    `finished`
+
+  ## Security
+  - RLS enabled on `delivery_codes`; only the buyer and admins can read a
+    code, so the seller and rider have to get it from the buyer
+  - RLS enabled on `delivery_proofs`; the buyer, the seller and admins can
+    read them. Both tables are written only by the functions above
+  - `confirm_delivery_handover` is executable by the service role only;
+    `delivery-confirm` checks the caller first
+*/
+
+CREATE TABLE IF NOT EXISTS delivery_codes (
+  shipment_id uuid PRIMARY KEY REFERENCES shipments(id) ON DELETE CASCADE,
+  order_id uuid NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  code text NOT NULL,
+  failed_attempts int NOT NULL DEFAULT 0,
+  issued_at timestamptz DEFAULT now(),
+  used_at timestamptz
+);
+
+CREATE INDEX IF NOT EXISTS idx_delivery_codes_order_id ON delivery_codes(order_id);
+
+CREATE TABLE IF NOT EXISTS delivery_proofs (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  shipment_id uuid UNIQUE NOT NULL REFERENCES shipments(id) ON DELETE CASCADE,
+  order_id uuid NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  confirmed_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  actor_role order_actor NOT NULL,
+  courier_provider courier_provider,
+  photo_url text,
+  lat numeric,
+  lon numeric,
+  distance_km numeric,
+  delivered_at timestamptz NOT NULL DEFAULT now(),
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_delivery_proofs_order_id ON delivery_proofs(order_id);
+
+ALTER TABLE delivery_codes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE delivery_proofs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Buyers can view own delivery codes"
+  ON delivery_codes FOR SELECT
+  TO authenticated
+  USING (
+    order_id IN (SELECT id FROM orders WHERE buyer_id = auth.uid())
+  );
+
+CREATE POLICY "Admins can view delivery codes"
+  ON delivery_codes FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin')
+  );
+
+CREATE POLICY "Order participants can view delivery proofs"
+  ON delivery_proofs FOR SELECT
+  TO authenticated
+  USING (
+    order_id IN (
+      SELECT id FROM orders
+      WHERE buyer_id = auth.uid()
+      OR seller_id IN (SELECT id FROM seller_profiles WHERE user_id = auth.uid())
+    )
+  );
+
+CREATE POLICY "Admins can view delivery proofs"
+  ON delivery_proofs FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin')
+  );
+
+UPDATE order_status_transitions
+SET actors = '{buyer,admin,system}',
+    description = 'Order reached the buyer; sellers and couriers confirm with the buyer''s delivery code'
+WHERE from_status = 'shipped'
+  AND to_status = 'delivered';
+
+CREATE OR REPLACE FUNCTION issue_delivery_code()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  handover delivery_codes;
+  target orders;
+BEGIN
+  -- gen_random_uuid() draws on a secure random source, unlike random().
+  INSERT INTO delivery_codes (shipment_id, order_id, code)
+  VALUES (
+    NEW.id,
+    NEW.order_id,
+    lpad(((('x' || substr(replace(gen_random_uuid()::text, '-', ''), 1, 8))::bit(32)::bigint) % 1000000)::text, 6, '0')
+  )
+  ON CONFLICT (shipment_id) DO NOTHING
+  RETURNING * INTO handover;
+
+  IF handover.shipment_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO target FROM orders WHERE id = NEW.order_id;
+
+  INSERT INTO notifications (user_id, type, title, message, data)
+  VALUES (
+    target.buyer_id,
+    'delivery_code',
+    'Your Delivery Code',
+    'Order ' || target.order_number || ' is out for delivery. Your delivery code is ' || handover.code || '. '
+      || 'Only give it to the rider once you have your parcel: it confirms you received it.',
+    jsonb_build_object('order_id', target.id, 'shipment_id', NEW.id)
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER shipments_issue_delivery_code
+  AFTER INSERT OR UPDATE OF status ON shipments
+  FOR EACH ROW
+  WHEN (NEW.status IN ('picked_up', 'in_transit'))
+  EXECUTE FUNCTION issue_delivery_code();
+
+CREATE OR REPLACE FUNCTION require_delivery_code()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF order_actor_for(NEW) = 'seller' THEN
+    RAISE EXCEPTION 'Order % is marked delivered with the buyer''s delivery code', NEW.order_number
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER orders_require_delivery_code
+  BEFORE UPDATE OF status ON orders
+  FOR EACH ROW
+  WHEN (NEW.status = 'delivered' AND OLD.status IS DISTINCT FROM NEW.status AND NEW.delivery_method = 'courier')
+  EXECUTE FUNCTION require_delivery_code();
+
+CREATE OR REPLACE FUNCTION confirm_delivery_handover(p_shipment_id uuid, p_code text, p_proof jsonb)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  max_attempts constant int := 5;
+  shipment shipments;
+  handover delivery_codes;
+  target orders;
+  proof delivery_proofs;
+  delivered timestamptz := coalesce((p_proof->>'delivered_at')::timestamptz, now());
+  proof_lat numeric := (p_proof->>'lat')::numeric;
+  proof_lon numeric := (p_proof->>'lon')::numeric;
+  expected_lat numeric;
+  expected_lon numeric;
+BEGIN
+  SELECT * INTO shipment FROM shipments WHERE id = p_shipment_id FOR UPDATE;
+
+  IF shipment.id IS NULL THEN
+    RAISE EXCEPTION 'Shipment not found'
+      USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF shipment.status IN ('delivered', 'failed', 'cancelled') THEN
+    RETURN jsonb_build_object('confirmed', false, 'reason', 'finished',
+      'error', 'This shipment is already ' || shipment.status);
+  END IF;
+
+  SELECT * INTO handover FROM delivery_codes WHERE shipment_id = shipment.id FOR UPDATE;
+
+  IF handover.shipment_id IS NULL THEN
+    RETURN jsonb_build_object('confirmed', false, 'reason', 'not_issued',
+      'error', 'The parcel has not gone out for delivery yet, so there is no code to check');
+  END IF;
+
+  IF handover.failed_attempts >= max_attempts THEN
+    RETURN jsonb_build_object('confirmed', false, 'reason', 'locked', 'attempts_left', 0,
+      'error', 'Too many wrong codes. Ask the buyer to confirm delivery on their order page');
+  END IF;
+
+  -- Returned rather than raised, so the failed attempt is still counted.
+  IF coalesce(trim(p_code), '') <> handover.code THEN
+    UPDATE delivery_codes
+    SET failed_attempts = failed_attempts + 1
+    WHERE shipment_id = shipment.id
+    RETURNING * INTO handover;
+
+    RETURN jsonb_build_object('confirmed', false, 'reason', 'wrong_code',
+      'attempts_left', max_attempts - handover.failed_attempts,
+      'error', 'That is not the buyer''s delivery code');
+  END IF;
+
+  UPDATE delivery_codes SET used_at = now() WHERE shipment_id = shipment.id;
+
+  UPDATE shipments
+  SET status = 'delivered',
+      picked_up_at = coalesce(picked_up_at, delivered),
+      delivered_at = delivered,
+      updated_at = now()
+  WHERE id = shipment.id
+  RETURNING * INTO shipment;
+
+  SELECT * INTO target FROM orders WHERE id = shipment.order_id FOR UPDATE;
+
+  SELECT dropoff_lat, dropoff_lon
+  INTO expected_lat, expected_lon
+  FROM delivery_quotes
+  WHERE id = target.delivery_quote_id;
+
+  expected_lat := coalesce(shipment.delivery_lat, expected_lat);
+  expected_lon := coalesce(shipment.delivery_lon, expected_lon);
+
+  INSERT INTO delivery_proofs (
+    shipment_id, order_id, confirmed_by, actor_role, courier_provider, photo_url, lat, lon, distance_km, delivered_at
+  )
+  VALUES (
+    shipment.id,
+    target.id,
+    (p_proof->>'confirmed_by')::uuid,
+    coalesce((p_proof->>'actor_role')::order_actor, 'system'),
+    (p_proof->>'courier_provider')::courier_provider,
+    nullif(trim(p_proof->>'photo_url'), ''),
+    proof_lat,
+    proof_lon,
+    CASE
+      WHEN proof_lat IS NOT NULL AND proof_lon IS NOT NULL AND expected_lat IS NOT NULL AND expected_lon IS NOT NULL THEN
+        round((6371 * 2 * asin(sqrt(
+          power(sin(radians(expected_lat - proof_lat) / 2), 2)
+          + cos(radians(proof_lat)) * cos(radians(expected_lat)) * power(sin(radians(expected_lon - proof_lon) / 2), 2)
+        )))::numeric, 2)
+    END,
+    delivered
+  )
+  RETURNING * INTO proof;
+
+  -- A disputed order keeps its status; the proof is there for the dispute.
+  IF target.status IN ('paid_in_escrow', 'shipped') THEN
+    PERFORM set_config('app.order_status_reason', 'Handed over with the buyer''s delivery code', true);
+
+    UPDATE orders
+    SET status = 'delivered',
+        accepted_at = coalesce(accepted_at, now()),
+        updated_at = now()
+    WHERE id = target.id
+    RETURNING * INTO target;
+
+    PERFORM set_config('app.order_status_reason', '', true);
+
+    INSERT INTO notifications (user_id, type, title, message, data)
+    VALUES (
+      target.buyer_id,
+      'order_delivered',
+      'Order Delivered',
+      'Order ' || target.order_number || ' was handed over with your delivery code. '
+        || 'Confirm it on the order page, or open a dispute if something is wrong.',
+      jsonb_build_object('order_id', target.id)
+    );
+  END IF;
+
+  RETURN jsonb_build_object(
+    'confirmed', true,
+    'shipment', to_jsonb(shipment),
+    'proof', to_jsonb(proof),
+    'order_status', target.status
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION apply_courier_update(p_provider courier_provider, p_update jsonb)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  shipment shipments;
+  event shipment_events;
+  target orders;
+  handover jsonb;
+  new_status shipment_status := (p_update->>'status')::shipment_status;
+  occurred timestamptz := coalesce((p_update->>'occurred_at')::timestamptz, now());
+  progress shipment_status[] := ARRAY['pending', 'assigned', 'picked_up', 'in_transit', 'delivered']::shipment_status[];
+  was_applied boolean;
+BEGIN
+  SELECT * INTO shipment
+  FROM shipments
+  WHERE courier_provider = p_provider
+    AND courier_reference = p_update->>'courier_reference'
+  FOR UPDATE;
+
+  IF shipment.id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO shipment_events (shipment_id, provider, event_id, status, description, lat, lon, payload, occurred_at)
+  VALUES (
+    shipment.id,
+    p_provider,
+    p_update->>'event_id',
+    new_status,
+    p_update->>'description',
+    (p_update->>'lat')::numeric,
+    (p_update->>'lon')::numeric,
+    p_update,
+    occurred
+  )
+  ON CONFLICT (shipment_id, event_id) DO NOTHING
+  RETURNING * INTO event;
+
+  IF event.id IS NULL THEN
+    RETURN jsonb_build_object('shipment', to_jsonb(shipment), 'applied', false, 'duplicate', true);
+  END IF;
+
+  was_applied := shipment.status::text NOT IN ('delivered', 'failed', 'cancelled')
+    AND (
+      new_status::text IN ('failed', 'cancelled')
+      OR array_position(progress, new_status) > array_position(progress, shipment.status)
+    );
+
+  IF NOT was_applied THEN
+    RETURN jsonb_build_object('shipment', to_jsonb(shipment), 'applied', false, 'duplicate', false);
+  END IF;
+
+  -- The courier saying so isn't enough: a delivery only counts with the
+  -- buyer's handover code.
+  IF new_status = 'delivered' THEN
+    handover := confirm_delivery_handover(shipment.id, p_update->>'handover_code', jsonb_build_object(
+      'actor_role', 'system',
+      'courier_provider', p_provider,
+      'photo_url', p_update->>'photo_url',
+      'lat', p_update->'lat',
+      'lon', p_update->'lon',
+      'delivered_at', occurred
+    ));
+
+    IF NOT (handover->>'confirmed')::boolean THEN
+      RETURN jsonb_build_object('shipment', to_jsonb(shipment), 'applied', false, 'duplicate', false,
+        'error', handover->>'error');
+    END IF;
+
+    UPDATE shipment_events SET applied = true WHERE id = event.id;
+
+    RETURN jsonb_build_object('shipment', handover->'shipment', 'applied', true, 'duplicate', false);
+  END IF;
+
+  UPDATE shipment_events SET applied = true WHERE id = event.id;
+
+  UPDATE shipments
+  SET status = new_status,
+      eta_minutes = coalesce((p_update->>'eta_minutes')::int, eta_minutes),
+      courier_name = coalesce(p_update->>'rider_name', courier_name),
+      courier_phone = coalesce(p_update->>'rider_phone', courier_phone),
+      picked_up_at = CASE
+        WHEN new_status IN ('picked_up', 'in_transit') THEN coalesce(picked_up_at, occurred)
+        ELSE picked_up_at
+      END,
+      updated_at = now()
+  WHERE id = shipment.id
+  RETURNING * INTO shipment;
+
+  SELECT * INTO target FROM orders WHERE id = shipment.order_id FOR UPDATE;
+
+  IF new_status IN ('picked_up', 'in_transit') AND target.status = 'paid_in_escrow' THEN
+    PERFORM set_config('app.order_status_reason', 'Collected by the courier, tracking number ' || shipment.tracking_number, true);
+
+    UPDATE orders
+    SET status = 'shipped',
+        accepted_at = coalesce(accepted_at, now()),
+        updated_at = now()
+    WHERE id = target.id
+    RETURNING * INTO target;
+
+    PERFORM set_config('app.order_status_reason', '', true);
+
+    INSERT INTO notifications (user_id, type, title, message, data)
+    VALUES (
+      target.buyer_id,
+      'order_shipped',
+      'Order Shipped',
+      'Order ' || target.order_number || ' is on its way. Tracking number: ' || shipment.tracking_number || '.',
+      jsonb_build_object('order_id', target.id, 'tracking_number', shipment.tracking_number)
+    );
+  END IF;
+
+  IF new_status = 'failed' THEN
+    INSERT INTO notifications (user_id, type, title, message, data)
+    SELECT recipient, 'delivery_failed', 'Delivery Failed',
+      'The courier could not deliver order ' || target.order_number
+        || coalesce(': ' || (p_update->>'description'), '') || '. Our support team will be in touch.',
+      jsonb_build_object('order_id', target.id, 'shipment_id', shipment.id)
+    FROM unnest(ARRAY[
+      target.buyer_id,
+      (SELECT user_id FROM seller_profiles WHERE id = target.seller_id)
+    ]) AS recipient;
+  END IF;
+
+  RETURN jsonb_build_object('shipment', to_jsonb(shipment), 'applied', true, 'duplicate', false);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION confirm_delivery_handover(uuid, text, jsonb) FROM public, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION apply_courier_update(courier_provider, jsonb) FROM public, anon, authenticated;
+
+GRANT EXECUTE ON FUNCTION confirm_delivery_handover(uuid, text, jsonb) TO service_role;
+GRANT EXECUTE ON FUNCTION apply_courier_update(courier_provider, jsonb) TO service_role;